@@ -725,7 +725,9 @@ export class LearningAnalyticsService {
             detected_domain,
             complexity_level,
             AVG(success_rate) AS avg_success_rate,
-            COUNT(*) AS card_count
+            COUNT(*) AS card_count,
+            -- Weakest cards first, so basics to revisit lead the list
+            ARRAY_AGG(card_id ORDER BY success_rate) AS card_ids
           FROM user_card_performance
           WHERE complexity_level IS NOT NULL
           GROUP BY detected_domain, complexity_level
@@ -737,7 +739,9 @@ export class LearningAnalyticsService {
           basic.avg_success_rate AS basic_success_rate,
           advanced.avg_success_rate AS advanced_success_rate,
           (basic.avg_success_rate - advanced.avg_success_rate) AS success_gap,
-          advanced.card_count AS advanced_cards_struggling
+          advanced.card_count AS advanced_cards_struggling,
+          basic.card_ids AS basic_card_ids,
+          advanced.card_ids AS advanced_card_ids
         FROM domain_level_stats basic
         INNER JOIN domain_level_stats advanced
           ON basic.detected_domain = advanced.detected_domain
@@ -758,6 +762,8 @@ export class LearningAnalyticsService {
         advancedSuccessRate: parseFloat(row.advanced_success_rate),
         successGap: parseFloat(row.success_gap),
         advancedCardsStruggling: parseInt(row.advanced_cards_struggling, 10),
+        basicCardIds: row.basic_card_ids,
+        advancedCardIds: row.advanced_card_ids,
         recommendation: `Review ${row.basic_level} concepts in ${row.detected_domain} before tackling ${row.advanced_level} material`,
       }));
     } catch (err) {
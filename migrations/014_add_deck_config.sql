@@ -0,0 +1,7 @@
+-- Migration: Add per-deck scheduling configuration
+-- Description: Stores each deck's DeckConfig (algorithm, learning steps, daily limits, leech handling) so it syncs across devices
+
+ALTER TABLE decks
+ADD COLUMN IF NOT EXISTS config JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN decks.config IS 'Client DeckConfig overrides; unset fields fall back to client defaults';
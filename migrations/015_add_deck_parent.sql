@@ -0,0 +1,9 @@
+-- Migration: Add deck hierarchy
+-- Description: Stores each deck's parent (by client ID) so subdecks imported from Anki keep their nesting across devices
+
+ALTER TABLE decks
+ADD COLUMN IF NOT EXISTS parent_client_id VARCHAR(50);
+
+CREATE INDEX IF NOT EXISTS idx_decks_parent_client_id ON decks(user_id, parent_client_id);
+
+COMMENT ON COLUMN decks.parent_client_id IS 'Client ID of the parent deck; NULL for top-level decks';
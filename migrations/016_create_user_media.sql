@@ -0,0 +1,37 @@
+-- Migration: Sync media files
+-- Description: Stores each user's media contents once per SHA-256 hash, with
+-- the client's file records pointing at them, so media reaches every device
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS user_media_content (
+    user_id VARCHAR(50) NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+    hash VARCHAR(64) NOT NULL,
+    data BYTEA NOT NULL,
+    size INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, hash)
+);
+
+CREATE TABLE IF NOT EXISTS user_media (
+    media_id VARCHAR(50) PRIMARY KEY,
+    user_id VARCHAR(50) NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+    client_id VARCHAR(50) NOT NULL,
+    hash VARCHAR(64) NOT NULL,
+    file_name VARCHAR(255) NOT NULL,
+    mime_type VARCHAR(100) NOT NULL DEFAULT 'application/octet-stream',
+    size INTEGER NOT NULL DEFAULT 0,
+    version INTEGER NOT NULL DEFAULT 1,
+    last_modified_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    is_deleted BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, client_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_media_changes ON user_media(user_id, last_modified_at);
+CREATE INDEX IF NOT EXISTS idx_user_media_hash ON user_media(user_id, hash);
+
+COMMENT ON TABLE user_media_content IS 'Media file contents, stored once per user and hash';
+COMMENT ON TABLE user_media IS 'Client media file records; contents are looked up by hash';
+
+COMMIT;
@@ -0,0 +1,56 @@
+-- Migration: Sync notes, note types and full card content
+-- Description: Stores card tags, HTML, media names and scheduling state, plus
+-- each user's notes and note types, so another device can rebuild the collection
+
+BEGIN;
+
+ALTER TABLE cards
+ADD COLUMN IF NOT EXISTS tags TEXT[] DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS note_client_id VARCHAR(50),
+ADD COLUMN IF NOT EXISTS content JSONB NOT NULL DEFAULT '{}'::jsonb,
+ADD COLUMN IF NOT EXISTS scheduling JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_cards_note_client_id ON cards(user_id, note_client_id);
+
+COMMENT ON COLUMN cards.note_client_id IS 'Client ID of the note the card was generated from; NULL for plain cards';
+COMMENT ON COLUMN cards.content IS 'Client card content beyond front/back: HTML, media file names, template and cloze number';
+COMMENT ON COLUMN cards.scheduling IS 'Client scheduling state beyond the SM-2 columns: FSRS memory, lapses, queue, learning step';
+
+CREATE TABLE IF NOT EXISTS user_note_types (
+    note_type_id VARCHAR(50) PRIMARY KEY,
+    user_id VARCHAR(50) NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+    client_id VARCHAR(50) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    definition JSONB NOT NULL DEFAULT '{}'::jsonb,
+    version INTEGER NOT NULL DEFAULT 1,
+    last_modified_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    is_deleted BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, client_id)
+);
+
+CREATE TABLE IF NOT EXISTS user_notes (
+    note_id VARCHAR(50) PRIMARY KEY,
+    user_id VARCHAR(50) NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+    client_id VARCHAR(50) NOT NULL,
+    deck_client_id VARCHAR(50) NOT NULL,
+    note_type_client_id VARCHAR(50) NOT NULL,
+    fields JSONB NOT NULL DEFAULT '{}'::jsonb,
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    guid VARCHAR(100),
+    note_created_at TIMESTAMP WITH TIME ZONE,
+    note_modified_at TIMESTAMP WITH TIME ZONE,
+    version INTEGER NOT NULL DEFAULT 1,
+    last_modified_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    is_deleted BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, client_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_note_types_changes ON user_note_types(user_id, last_modified_at);
+CREATE INDEX IF NOT EXISTS idx_user_notes_changes ON user_notes(user_id, last_modified_at);
+
+COMMENT ON TABLE user_note_types IS 'Client note types; definition holds fields, templates, CSS and kind';
+COMMENT ON TABLE user_notes IS 'Client notes; cards reference them through cards.note_client_id';
+
+COMMIT;
@@ -0,0 +1,16 @@
+-- Migration: Per-field modification clocks for decks and cards
+-- Description: Records when each field was last changed on a device, so
+-- conflicting edits can be merged field by field instead of per record
+
+BEGIN;
+
+ALTER TABLE decks
+ADD COLUMN IF NOT EXISTS field_modified_at JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE cards
+ADD COLUMN IF NOT EXISTS field_modified_at JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN decks.field_modified_at IS 'Client field name to the time it was last modified';
+COMMENT ON COLUMN cards.field_modified_at IS 'Client field name to the time it was last modified';
+
+COMMIT;
@@ -0,0 +1,16 @@
+-- Migration: Sync review logs between devices
+-- Description: Records when the server received each review, so devices can
+-- pull reviews made elsewhere and replay the combined log for each card
+
+BEGIN;
+
+ALTER TABLE study_sessions
+ADD COLUMN IF NOT EXISTS synced_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+ADD COLUMN IF NOT EXISTS card_status VARCHAR(20);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user_synced_at ON study_sessions(user_id, synced_at);
+
+COMMENT ON COLUMN study_sessions.synced_at IS 'When the review reached the server; reviews made offline arrive after studied_at';
+COMMENT ON COLUMN study_sessions.card_status IS 'Card status when it was shown, for daily limits';
+
+COMMIT;
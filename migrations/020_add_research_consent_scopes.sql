@@ -0,0 +1,14 @@
+-- Migration: Per-category research consent
+-- Description: Lets learners choose which kinds of data go into research
+-- exports. Existing consents covered every category, so they keep all scopes,
+-- but exports leave them out until the learner confirms the current form
+
+BEGIN;
+
+ALTER TABLE privacy_settings
+ADD COLUMN IF NOT EXISTS research_consent_scopes TEXT[] NOT NULL
+    DEFAULT ARRAY['sessions', 'reviews', 'statistics', 'card_analysis'];
+
+COMMENT ON COLUMN privacy_settings.research_consent_scopes IS 'Data categories included in research exports while research_consent is true';
+
+COMMIT;
@@ -0,0 +1,80 @@
+-- Migration: Pull changes by when the server received them
+-- Description: Devices pull decks, cards, notes, note types and media changed
+-- since their last sync. last_modified_at comes from the editing device's
+-- clock, so an offline edit from a device running behind could be stamped
+-- before another device's last sync and never be pulled. synced_at is set by
+-- the server whenever a record changes, as study_sessions.synced_at is
+
+BEGIN;
+
+ALTER TABLE user_note_types
+ADD COLUMN IF NOT EXISTS synced_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+ALTER TABLE decks
+ADD COLUMN IF NOT EXISTS synced_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+ALTER TABLE user_notes
+ADD COLUMN IF NOT EXISTS synced_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+ALTER TABLE cards
+ADD COLUMN IF NOT EXISTS synced_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+ALTER TABLE user_media
+ADD COLUMN IF NOT EXISTS synced_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_user_note_types_synced_at ON user_note_types(user_id, synced_at);
+CREATE INDEX IF NOT EXISTS idx_decks_user_synced_at ON decks(user_id, synced_at);
+CREATE INDEX IF NOT EXISTS idx_user_notes_synced_at ON user_notes(user_id, synced_at);
+CREATE INDEX IF NOT EXISTS idx_cards_user_synced_at ON cards(user_id, synced_at);
+CREATE INDEX IF NOT EXISTS idx_user_media_synced_at ON user_media(user_id, synced_at);
+
+-- Stamp a record when a sync write changes it; counters and scores updated
+-- on the server leave the version alone and are not pulled again. NOW() is
+-- the start of the writing transaction, which may commit after later stamps,
+-- so GET /api/sync/changes hands out a cursor no later than the start of any
+-- transaction still open
+CREATE OR REPLACE FUNCTION update_synced_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT'
+       OR NEW.version IS DISTINCT FROM OLD.version
+       OR NEW.is_deleted IS DISTINCT FROM OLD.is_deleted
+       OR NEW.last_modified_at IS DISTINCT FROM OLD.last_modified_at THEN
+        NEW.synced_at = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_user_note_types_synced_at ON user_note_types;
+CREATE TRIGGER update_user_note_types_synced_at
+    BEFORE INSERT OR UPDATE ON user_note_types
+    FOR EACH ROW EXECUTE FUNCTION update_synced_at_column();
+
+DROP TRIGGER IF EXISTS update_decks_synced_at ON decks;
+CREATE TRIGGER update_decks_synced_at
+    BEFORE INSERT OR UPDATE ON decks
+    FOR EACH ROW EXECUTE FUNCTION update_synced_at_column();
+
+DROP TRIGGER IF EXISTS update_user_notes_synced_at ON user_notes;
+CREATE TRIGGER update_user_notes_synced_at
+    BEFORE INSERT OR UPDATE ON user_notes
+    FOR EACH ROW EXECUTE FUNCTION update_synced_at_column();
+
+DROP TRIGGER IF EXISTS update_cards_synced_at ON cards;
+CREATE TRIGGER update_cards_synced_at
+    BEFORE INSERT OR UPDATE ON cards
+    FOR EACH ROW EXECUTE FUNCTION update_synced_at_column();
+
+DROP TRIGGER IF EXISTS update_user_media_synced_at ON user_media;
+CREATE TRIGGER update_user_media_synced_at
+    BEFORE INSERT OR UPDATE ON user_media
+    FOR EACH ROW EXECUTE FUNCTION update_synced_at_column();
+
+COMMENT ON COLUMN user_note_types.synced_at IS 'When the server last received a change to the record; devices pull by this';
+COMMENT ON COLUMN decks.synced_at IS 'When the server last received a change to the record; devices pull by this';
+COMMENT ON COLUMN user_notes.synced_at IS 'When the server last received a change to the record; devices pull by this';
+COMMENT ON COLUMN cards.synced_at IS 'When the server last received a change to the record; devices pull by this';
+COMMENT ON COLUMN user_media.synced_at IS 'When the server last received a change to the record; devices pull by this';
+
+COMMIT;
@@ -0,0 +1,94 @@
+/**
+ * Reminder Service Worker
+ *
+ * Shows study reminders while the app is closed, on the browser's periodic
+ * background sync. The page writes the reminder plan (hours, quiet hours,
+ * daily limit and upcoming due times) to Cache Storage; the nudge log there
+ * is shared with the page so the daily limit holds across both.
+ */
+
+const REMINDER_CACHE = "commonry-reminders";
+const PLAN_KEY = "/reminders/plan";
+const LOG_KEY = "/reminders/log";
+const PERIODIC_SYNC_TAG = "study-reminder";
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+function toLocalDate(date) {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function isQuietHour(hour, start, end) {
+  if (start === end) return false;
+  return start < end
+    ? hour >= start && hour < end
+    : hour >= start || hour < end;
+}
+
+async function readJson(cache, key) {
+  const response = await cache.match(key);
+  return response ? response.json() : null;
+}
+
+async function checkAndNotify() {
+  const cache = await caches.open(REMINDER_CACHE);
+  const plan = await readJson(cache, PLAN_KEY);
+  if (!plan?.enabled || Notification.permission !== "granted") return;
+
+  const now = new Date();
+  const hour = now.getHours();
+  if (
+    !plan.hours.includes(hour) ||
+    isQuietHour(hour, plan.quietHoursStart, plan.quietHoursEnd)
+  ) {
+    return;
+  }
+
+  const date = toLocalDate(now);
+  const storedLog = await readJson(cache, LOG_KEY);
+  const log = storedLog?.date === date ? storedLog : { date, hours: [] };
+  if (log.hours.includes(hour) || log.hours.length >= plan.maxNudgesPerDay) {
+    return;
+  }
+
+  const dueCount = plan.dueAt.filter((due) => due <= now.getTime()).length;
+  if (dueCount === 0) return;
+
+  await self.registration.showNotification("Time to study", {
+    body: `${dueCount} ${dueCount === 1 ? "card is" : "cards are"} due for review`,
+    icon: "/android-chrome-192x192.png",
+    tag: PERIODIC_SYNC_TAG,
+  });
+  await cache.put(
+    LOG_KEY,
+    new Response(JSON.stringify({ date, hours: [...log.hours, hour] })),
+  );
+}
+
+self.addEventListener("periodicsync", (event) => {
+  if (event.tag === PERIODIC_SYNC_TAG) {
+    event.waitUntil(checkAndNotify());
+  }
+});
+
+// Open the deck list, reusing an open tab when there is one
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((windows) => {
+        const existing = windows.find((client) => "focus" in client);
+        if (existing) return existing.focus();
+        return self.clients.openWindow("/browse");
+      }),
+  );
+});
@@ -6,14 +6,17 @@
  *
  * Endpoints:
  * - GET    /api/user/research-consent      - Get current consent status
- * - POST   /api/user/research-consent      - Update consent (opt-in/out)
+ * - POST   /api/user/research-consent      - Update consent (opt-in/out, per-category scopes)
  * - GET    /api/user/research-consent/info - Get research program information
  */
 
 import { Router } from "express";
 
-// Current consent form version
-const CONSENT_VERSION = "1.0.0";
+// Current consent form version; exports only include users who agreed to it
+export const CONSENT_VERSION = "1.1.0";
+
+// Data categories a user can include in research exports
+const CONSENT_SCOPES = ["sessions", "reviews", "statistics", "card_analysis"];
 
 // Research program information
 const RESEARCH_INFO = {
@@ -40,6 +43,7 @@ how people learn and improve spaced repetition algorithms.
 - Client/browser info is reduced to general categories only
 
 **Your rights:**
+- You choose which categories of data are included
 - You can opt out at any time
 - Opting out removes your data from future exports
 - Previously exported data cannot be recalled (it's anonymous)
@@ -47,6 +51,7 @@ how people learn and improve spaced repetition algorithms.
 `.trim(),
   dataCategories: [
     {
+      id: "sessions",
       name: "Study Sessions",
       description: "When you study, how long, and how many cards you review",
       fields: [
@@ -57,6 +62,7 @@ how people learn and improve spaced repetition algorithms.
       ],
     },
     {
+      id: "reviews",
       name: "Review Events",
       description: "Individual card review interactions",
       fields: [
@@ -67,6 +73,7 @@ how people learn and improve spaced repetition algorithms.
       ],
     },
     {
+      id: "statistics",
       name: "Learning Statistics",
       description: "Aggregate learning metrics",
       fields: [
@@ -77,6 +84,7 @@ how people learn and improve spaced repetition algorithms.
       ],
     },
     {
+      id: "card_analysis",
       name: "Card Analysis",
       description: "Content characteristics of cards you study",
       fields: [
@@ -95,7 +103,7 @@ how people learn and improve spaced repetition algorithms.
     "Only aggregated/anonymized data exported",
   ],
   contactEmail: "research@commonry.com",
-  lastUpdated: "2025-01-22",
+  lastUpdated: "2026-10-19",
 };
 
 /**
@@ -117,7 +125,7 @@ export function createResearchConsentRoutes(pool, authenticateToken) {
     try {
       const result = await pool.query(
         `SELECT research_consent, research_consent_date, research_consent_version,
-                data_retention_preference
+                research_consent_scopes, data_retention_preference
          FROM privacy_settings
          WHERE user_id = $1`,
         [req.userId],
@@ -131,6 +139,7 @@ export function createResearchConsentRoutes(pool, authenticateToken) {
             hasConsented: false,
             consentDate: null,
             consentVersion: null,
+            scopes: [],
             dataRetentionPreference: "standard",
             currentVersion: CONSENT_VERSION,
             needsUpdate: false,
@@ -149,6 +158,7 @@ export function createResearchConsentRoutes(pool, authenticateToken) {
           hasConsented,
           consentDate: settings.research_consent_date,
           consentVersion: settings.research_consent_version,
+          scopes: hasConsented ? settings.research_consent_scopes : [],
           dataRetentionPreference:
             settings.data_retention_preference || "standard",
           currentVersion: CONSENT_VERSION,
@@ -171,7 +181,7 @@ export function createResearchConsentRoutes(pool, authenticateToken) {
 
   router.post("/research-consent", authenticateToken, async (req, res) => {
     try {
-      const { consent, dataRetentionPreference } = req.body;
+      const { consent, scopes, dataRetentionPreference } = req.body;
 
       // Validate consent is boolean
       if (typeof consent !== "boolean") {
@@ -181,6 +191,25 @@ export function createResearchConsentRoutes(pool, authenticateToken) {
         });
       }
 
+      // Validate scopes if provided; consenting without them covers every category
+      if (
+        scopes !== undefined &&
+        (!Array.isArray(scopes) ||
+          scopes.some((scope) => !CONSENT_SCOPES.includes(scope)))
+      ) {
+        return res.status(400).json({
+          error: "Invalid consent scopes",
+          validValues: CONSENT_SCOPES,
+        });
+      }
+
+      if (consent && Array.isArray(scopes) && scopes.length === 0) {
+        return res.status(400).json({
+          error: "No consent scopes",
+          message: "Choose at least one data category to share",
+        });
+      }
+
       // Validate data retention preference if provided
       const validRetention = ["standard", "minimum", "extended"];
       if (
@@ -193,22 +222,30 @@ export function createResearchConsentRoutes(pool, authenticateToken) {
         });
       }
 
-      // Upsert privacy settings with consent
+      // Upsert privacy settings with consent. Opting out leaves the stored
+      // scopes alone; they only apply while research_consent is true
+      const consentScopes = consent
+        ? CONSENT_SCOPES.filter((scope) =>
+            (scopes ?? CONSENT_SCOPES).includes(scope),
+          )
+        : null;
       const result = await pool.query(
-        `INSERT INTO privacy_settings (setting_id, user_id, research_consent, research_consent_date, research_consent_version, data_retention_preference)
-         VALUES ($1, $2, $3, CURRENT_TIMESTAMP, $4, $5)
+        `INSERT INTO privacy_settings (setting_id, user_id, research_consent, research_consent_date, research_consent_version, research_consent_scopes, data_retention_preference)
+         VALUES ($1, $2, $3, CURRENT_TIMESTAMP, $4, COALESCE($5::text[], ARRAY['sessions', 'reviews', 'statistics', 'card_analysis']), $6)
          ON CONFLICT (user_id) DO UPDATE SET
            research_consent = $3,
            research_consent_date = CURRENT_TIMESTAMP,
            research_consent_version = CASE WHEN $3 = true THEN $4 ELSE NULL END,
-           data_retention_preference = COALESCE($5, privacy_settings.data_retention_preference),
+           research_consent_scopes = COALESCE($5::text[], privacy_settings.research_consent_scopes),
+           data_retention_preference = COALESCE($6, privacy_settings.data_retention_preference),
            updated_at = CURRENT_TIMESTAMP
-         RETURNING research_consent, research_consent_date, research_consent_version, data_retention_preference`,
+         RETURNING research_consent, research_consent_date, research_consent_version, research_consent_scopes, data_retention_preference`,
         [
           `ps_${req.userId}`,
           req.userId,
           consent,
           consent ? CONSENT_VERSION : null,
+          consentScopes,
           dataRetentionPreference || "standard",
         ],
       );
@@ -241,6 +278,9 @@ export function createResearchConsentRoutes(pool, authenticateToken) {
           hasConsented: settings.research_consent,
           consentDate: settings.research_consent_date,
           consentVersion: settings.research_consent_version,
+          scopes: settings.research_consent
+            ? settings.research_consent_scopes
+            : [],
           dataRetentionPreference: settings.data_retention_preference,
           currentVersion: CONSENT_VERSION,
           needsUpdate: false,
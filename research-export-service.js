@@ -17,6 +17,7 @@ import path from "path";
 import crypto from "crypto";
 import { ulid } from "ulid";
 import { DataAnonymizer } from "./data-anonymizer.js";
+import { CONSENT_VERSION } from "./research-consent-routes.js";
 
 // Current schema versions for each export type
 const CURRENT_SCHEMA_VERSIONS = {
@@ -293,7 +294,7 @@ export class ResearchExportService {
   // ============================================================
 
   /**
-   * Extract study sessions for consented users
+   * Extract study sessions for users who consented to share them
    *
    * @param {Date} watermarkFrom - Start timestamp
    * @param {Date} watermarkTo - End timestamp
@@ -305,17 +306,19 @@ export class ResearchExportService {
        FROM session_tracking st
        INNER JOIN privacy_settings ps ON st.user_id = ps.user_id
        WHERE ps.research_consent = true
+         AND 'sessions' = ANY(ps.research_consent_scopes)
+         AND ps.research_consent_version = $3
          AND st.started_at >= $1
          AND st.started_at < $2
        ORDER BY st.started_at ASC`,
-      [watermarkFrom, watermarkTo],
+      [watermarkFrom, watermarkTo, CONSENT_VERSION],
     );
 
     return this.anonymizer.anonymizeBatch(result.rows, "session");
   }
 
   /**
-   * Extract review events for consented users
+   * Extract review events for users who consented to share them
    *
    * @param {Date} watermarkFrom - Start timestamp
    * @param {Date} watermarkTo - End timestamp
@@ -329,9 +332,11 @@ export class ResearchExportService {
        INNER JOIN privacy_settings ps ON st.user_id = ps.user_id
        INNER JOIN review_events re ON st.session_id = re.session_id
        WHERE ps.research_consent = true
+         AND 'reviews' = ANY(ps.research_consent_scopes)
+         AND ps.research_consent_version = $3
          AND re.created_at >= $1
          AND re.created_at < $2`,
-      [watermarkFrom, watermarkTo],
+      [watermarkFrom, watermarkTo, CONSENT_VERSION],
     );
 
     const sessionStarts = {};
@@ -345,10 +350,12 @@ export class ResearchExportService {
        FROM review_events re
        INNER JOIN privacy_settings ps ON re.user_id = ps.user_id
        WHERE ps.research_consent = true
+         AND 'reviews' = ANY(ps.research_consent_scopes)
+         AND ps.research_consent_version = $3
          AND re.created_at >= $1
          AND re.created_at < $2
        ORDER BY re.created_at ASC`,
-      [watermarkFrom, watermarkTo],
+      [watermarkFrom, watermarkTo, CONSENT_VERSION],
     );
 
     return this.anonymizer.anonymizeBatch(result.rows, "review", {
@@ -357,7 +364,7 @@ export class ResearchExportService {
   }
 
   /**
-   * Extract user statistics for consented users
+   * Extract user statistics for users who consented to share them
    *
    * @returns {Promise<Object[]>} Anonymized statistics records
    */
@@ -366,7 +373,10 @@ export class ResearchExportService {
       `SELECT us.*
        FROM user_statistics us
        INNER JOIN privacy_settings ps ON us.user_id = ps.user_id
-       WHERE ps.research_consent = true`,
+       WHERE ps.research_consent = true
+         AND 'statistics' = ANY(ps.research_consent_scopes)
+         AND ps.research_consent_version = $1`,
+      [CONSENT_VERSION],
     );
 
     return this.anonymizer.anonymizeBatch(result.rows, "statistics");
@@ -389,10 +399,12 @@ export class ResearchExportService {
        INNER JOIN decks d ON c.deck_id = d.deck_id OR c.deck_client_id = d.deck_id
        INNER JOIN privacy_settings ps ON d.author_id = ps.user_id
        WHERE ps.research_consent = true
+         AND 'card_analysis' = ANY(ps.research_consent_scopes)
+         AND ps.research_consent_version = $3
          AND ca.analyzed_at >= $1
          AND ca.analyzed_at < $2
        ORDER BY ca.analyzed_at ASC`,
-      [watermarkFrom, watermarkTo],
+      [watermarkFrom, watermarkTo, CONSENT_VERSION],
     );
 
     return this.anonymizer.anonymizeBatch(result.rows, "card_analysis");
@@ -36,9 +36,11 @@ const CategoryDecksView = lazy(() =>
 );
 import { db } from "./storage/database";
 import { useTheme } from "./contexts/ThemeContext";
+import { useAuth } from "./contexts/AuthContext";
 import { DeckId } from "./types/ids";
 import ProtectedView from "./components/ProtectedView";
 import { syncService } from "./services/sync-service";
+import { reminderService } from "./services/reminder-service";
 
 type View =
   | "home"
@@ -93,6 +95,7 @@ function App() {
   >(initialState.categorySlug);
   const [isInitialized, setIsInitialized] = useState(false);
   const { theme, toggleTheme } = useTheme();
+  const { user } = useAuth();
 
   // Navigation wrapper that updates both state and URL
   const navigate = useCallback((view: View, slug?: string) => {
@@ -116,13 +119,18 @@ function App() {
   );
 
   useEffect(() => {
-    /** Open the database and start the sync service. */
+    /** Open the database and start the sync and reminder services. */
     const initializeApp = async () => {
       try {
         await db.open();
         // Initialize sync service
         await syncService.initialize();
         setIsInitialized(true);
+
+        // Reminders are a nicety; failing to start them doesn't block the app
+        reminderService.start().catch((error) => {
+          console.warn("Failed to start study reminders:", error);
+        });
       } catch (error) {
         console.error("Failed to initialize application:", error);
       }
@@ -130,12 +138,18 @@ function App() {
 
     initializeApp();
 
-    // Cleanup sync service on unmount
+    // Cleanup sync and reminder services on unmount
     return () => {
       syncService.cleanup();
+      reminderService.stop();
     };
   }, []);
 
+  // Reminders follow the signed in learner's best study hours
+  useEffect(() => {
+    reminderService.setUser(user?.id ?? null);
+  }, [user?.id]);
+
   // Handle browser back/forward buttons
   useEffect(() => {
     /** Sync view state when the user navigates with browser back/forward. */
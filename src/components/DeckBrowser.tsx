@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { motion } from "framer-motion";
 import {
   ArrowLeft,
@@ -16,8 +16,18 @@ import {
   Loader2,
   Download,
   Globe,
+  Settings,
+  Activity,
+  History,
+  RefreshCw,
+  Wrench,
+  Bell,
 } from "lucide-react";
-import { db } from "../storage/database";
+import {
+  db,
+  type DeckSubscription,
+  type ImportBatch,
+} from "../storage/database";
 import { Deck } from "../lib/srs-engine";
 import { IdService } from "../services/id-service";
 import { DeckId } from "../types/ids";
@@ -26,11 +36,76 @@ import * as Dialog from "@radix-ui/react-dialog";
 // skipcq: JS-C1003 - Radix UI DropdownMenu components require namespace import
 import * as DropdownMenu from "@radix-ui/react-dropdown-menu";
 import { DeckView } from "./DeckView";
-import { importAnkiDeck, CardDirection } from "../lib/anki-import";
+import {
+  importAnkiDeck,
+  previewAnkiImport,
+  CardDirection,
+  type AnkiImportPreview,
+} from "../lib/anki-import";
 import { exportAnkiDeck } from "../lib/anki-export";
+import { exportJsonDeck, type DeckFileExportResult } from "../lib/json-export";
+import { exportCsvDeck } from "../lib/csv-export";
+import { importJsonDeck } from "../lib/json-import";
 import { useToast } from "./Toast";
 import { PublishDeckDialog } from "./commons/PublishDeckDialog";
+import { DeckOptionsDialog } from "./DeckOptionsDialog";
+import { OptimizeSchedulerDialog } from "./OptimizeSchedulerDialog";
+import { ImportHistoryDialog } from "./ImportHistoryDialog";
+import { TextImportDialog } from "./TextImportDialog";
+import { SubscriptionUpdatesDialog } from "./SubscriptionUpdatesDialog";
+import { StrugglingCardsDialog } from "./StrugglingCardsDialog";
+import { ReminderSettingsDialog } from "./ReminderSettingsDialog";
+import {
+  parseTextFile,
+  type ParsedTextFile,
+  type TextImportResult,
+} from "../lib/text-import";
+import { DeckConfig, ExportOptions, ImportOptions } from "../core";
 import { api } from "../services/api";
+import {
+  subscriptionService,
+  type ChangesetSummary,
+} from "../services/subscription-service";
+
+/**
+ * Orders decks so each subdeck follows its parent, keeping the existing order
+ * among siblings. Decks whose parent is missing are shown at the top level.
+ */
+function orderDeckTree(decks: Deck[]): Deck[] {
+  const deckIds = new Set(decks.map((deck) => deck.id));
+  const children = new Map<DeckId | undefined, Deck[]>();
+  for (const deck of decks) {
+    const parentId =
+      deck.parentId && deckIds.has(deck.parentId) ? deck.parentId : undefined;
+    children.set(parentId, [...(children.get(parentId) ?? []), deck]);
+  }
+
+  const ordered: Deck[] = [];
+  const visit = (parentId: DeckId | undefined) => {
+    for (const deck of children.get(parentId) ?? []) {
+      if (ordered.includes(deck)) continue;
+      ordered.push(deck);
+      visit(deck.id);
+    }
+  };
+  visit(undefined);
+  return ordered;
+}
+
+/**
+ * Lists the names of a deck's parents, outermost first.
+ */
+function getDeckAncestors(deck: Deck, decksById: Map<DeckId, Deck>): string[] {
+  const ancestors: string[] = [];
+  const seen = new Set<DeckId>([deck.id]);
+  let parent = deck.parentId ? decksById.get(deck.parentId) : undefined;
+  while (parent && !seen.has(parent.id)) {
+    ancestors.unshift(parent.name);
+    seen.add(parent.id);
+    parent = parent.parentId ? decksById.get(parent.parentId) : undefined;
+  }
+  return ancestors;
+}
 
 interface DeckBrowserProps {
   onBack: () => void;
@@ -59,8 +134,32 @@ export function DeckBrowser({
   const [showCardDirectionDialog, setShowCardDirectionDialog] = useState(false);
   const [pendingImportFile, setPendingImportFile] = useState<File | null>(null);
   const [cardDirection, setCardDirection] = useState<CardDirection>("all");
+  const [scheduling, setScheduling] =
+    useState<ImportOptions["scheduling"]>("preserve");
+  const [duplicateResolution, setDuplicateResolution] =
+    useState<ImportOptions["duplicateResolution"]>("update");
+  const [deckMapping, setDeckMapping] =
+    useState<ImportOptions["deckMapping"]>("preserve");
+  const [importPreview, setImportPreview] = useState<AnkiImportPreview | null>(
+    null,
+  );
+  const [importPreviewError, setImportPreviewError] = useState<string | null>(
+    null,
+  );
   const [showPublishDialog, setShowPublishDialog] = useState(false);
   const [publishDeck, setPublishDeck] = useState<Deck | null>(null);
+  const [optionsDeck, setOptionsDeck] = useState<Deck | null>(null);
+  const [optionsConfig, setOptionsConfig] = useState<DeckConfig | null>(null);
+  const [showOptimizeDialog, setShowOptimizeDialog] = useState(false);
+  const [showHistoryDialog, setShowHistoryDialog] = useState(false);
+  const [showUpdatesDialog, setShowUpdatesDialog] = useState(false);
+  const [pendingUpdateCount, setPendingUpdateCount] = useState(0);
+  const [showStrugglingDialog, setShowStrugglingDialog] = useState(false);
+  const [showRemindersDialog, setShowRemindersDialog] = useState(false);
+  const [textImportFile, setTextImportFile] = useState<File | null>(null);
+  const [parsedTextFile, setParsedTextFile] = useState<ParsedTextFile | null>(
+    null,
+  );
   const { showToast } = useToast();
 
   const loadDecks = async () => {
@@ -70,13 +169,53 @@ export function DeckBrowser({
       await db.updateDeckStats(deck.id);
     }
     const updatedDecks = await db.getAllDecks();
-    setDecks(updatedDecks);
+    setDecks(orderDeckTree(updatedDecks));
   };
 
   useEffect(() => {
     loadDecks();
   }, []);
 
+  // Look for changes to subscribed decks; recently checked ones are skipped
+  useEffect(() => {
+    subscriptionService
+      .checkForUpdates()
+      .then(setPendingUpdateCount)
+      .catch((error) => {
+        console.error("Failed to check subscriptions for updates:", error);
+      });
+  }, []);
+
+  // Dry run: compare the chosen Anki file with earlier imports
+  useEffect(() => {
+    if (!pendingImportFile) return;
+
+    let cancelled = false;
+    setImportPreview(null);
+    setImportPreviewError(null);
+    previewAnkiImport(pendingImportFile)
+      .then((preview) => {
+        if (!cancelled) setImportPreview(preview);
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setImportPreviewError(
+            error instanceof Error ? error.message : "Failed to read file",
+          );
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pendingImportFile]);
+
+  const deckAncestors = useMemo(() => {
+    const decksById = new Map(decks.map((deck) => [deck.id, deck]));
+    return new Map(
+      decks.map((deck) => [deck.id, getDeckAncestors(deck, decksById)]),
+    );
+  }, [decks]);
+
   const handleCreateDeck = useCallback(async () => {
     if (!newDeckName.trim()) return;
 
@@ -92,14 +231,74 @@ export function DeckBrowser({
       const file = event.target.files?.[0];
       if (!file) return;
 
-      // Store the file and show card direction dialog
-      setPendingImportFile(file);
-      setShowCardDirectionDialog(true);
-
       // Reset the input so the same file can be selected again
       event.target.value = "";
+
+      const extension = file.name.split(".").pop()?.toLowerCase();
+      if (extension === "apkg" || extension === "colpkg") {
+        // Store the file and show card direction dialog
+        setPendingImportFile(file);
+        setShowCardDirectionDialog(true);
+        return;
+      }
+
+      if (extension === "json") {
+        setIsImporting(true);
+        setImportError(null);
+        try {
+          const result = await importJsonDeck(file);
+          await loadDecks();
+          setShowImportDialog(false);
+          showToast(
+            `Imported ${result.cardCount} cards into ${result.deckName}`,
+            "success",
+          );
+        } catch (error) {
+          console.error("Failed to import deck:", error);
+          setImportError(
+            error instanceof Error ? error.message : "Failed to import deck",
+          );
+        } finally {
+          setIsImporting(false);
+        }
+        return;
+      }
+
+      // Text files go to the column mapping dialog
+      setImportError(null);
+      try {
+        const parsed = await parseTextFile(file);
+        if (parsed.rows.length === 0) {
+          setImportError(`No rows found in ${file.name}`);
+          return;
+        }
+        setParsedTextFile(parsed);
+        setTextImportFile(file);
+        setShowImportDialog(false);
+      } catch (error) {
+        console.error("Failed to read file:", error);
+        setImportError(
+          error instanceof Error ? error.message : "Failed to read file",
+        );
+      }
     },
-    [],
+    [showToast],
+  );
+
+  const handleCloseTextImport = useCallback(() => {
+    setTextImportFile(null);
+    setParsedTextFile(null);
+  }, []);
+
+  const handleTextImported = useCallback(
+    async (result: TextImportResult) => {
+      await loadDecks();
+      showToast(
+        `Imported ${result.created} new and ${result.updated} updated cards`,
+        "success",
+      );
+    },
+    [showToast],
   );
 
   const handleConfirmImport = useCallback(async () => {
@@ -110,9 +309,13 @@ export function DeckBrowser({
     setShowCardDirectionDialog(false);
 
     try {
-      const result = await importAnkiDeck(pendingImportFile, cardDirection);
+      const result = await importAnkiDeck(pendingImportFile, cardDirection, {
+        duplicateResolution,
+        deckMapping,
+        scheduling,
+      });
       console.log(
-        `Successfully imported deck: ${result.deckName} with ${result.cardCount} cards`,
+        `Successfully imported ${result.deckCount} deck(s) from ${result.deckName} with ${result.cardCount} cards`,
       );
       await loadDecks();
       setShowImportDialog(false);
@@ -125,7 +328,13 @@ export function DeckBrowser({
       setIsImporting(false);
       setPendingImportFile(null);
     }
-  }, [pendingImportFile, cardDirection]);
+  }, [
+    pendingImportFile,
+    cardDirection,
+    duplicateResolution,
+    deckMapping,
+    scheduling,
+  ]);
 
   const handleSelectDeck = (deckId: DeckId) => {
     if (onSelectDeck) {
@@ -190,9 +399,20 @@ export function DeckBrowser({
     await loadDecks();
   };
 
-  const handleExportDeck = async (deck: Deck) => {
+  const handleExportDeck = async (
+    deck: Deck,
+    format: ExportOptions["format"],
+    includeScheduling: boolean,
+  ) => {
     try {
-      const result = await exportAnkiDeck(deck.id);
+      let result: DeckFileExportResult;
+      if (format === "json") {
+        result = await exportJsonDeck(deck.id, { includeScheduling });
+      } else if (format === "csv") {
+        result = await exportCsvDeck(deck.id, { includeScheduling });
+      } else {
+        result = await exportAnkiDeck(deck.id, { includeScheduling });
+      }
 
       // Create download link
       const url = URL.createObjectURL(result.blob);
@@ -228,6 +448,76 @@ export function DeckBrowser({
     setShowImportDialog(true);
   }, []);
 
+  const handleShowOptimizeDialog = useCallback(() => {
+    setShowOptimizeDialog(true);
+  }, []);
+
+  const handleShowHistoryDialog = useCallback(() => {
+    setShowHistoryDialog(true);
+  }, []);
+
+  const handleCloseHistoryDialog = useCallback(() => {
+    setShowHistoryDialog(false);
+  }, []);
+
+  const handleImportRolledBack = useCallback(
+    async (batch: ImportBatch, cardsRemoved: number) => {
+      await loadDecks();
+      showToast(
+        `Rolled back ${batch.fileName ?? "import"}: ${cardsRemoved} cards removed`,
+        "success",
+      );
+    },
+    [showToast],
+  );
+
+  const handleShowUpdatesDialog = useCallback(() => {
+    setShowUpdatesDialog(true);
+  }, []);
+
+  const handleCloseUpdatesDialog = useCallback(() => {
+    setShowUpdatesDialog(false);
+  }, []);
+
+  const handleSubscriptionApplied = useCallback(
+    async (subscription: DeckSubscription, summary: ChangesetSummary) => {
+      await loadDecks();
+      showToast(
+        `Updated ${subscription.name}: ${summary.added} new, ${summary.updated} edited, ${summary.removed} removed`,
+        "success",
+      );
+    },
+    [showToast],
+  );
+
+  const handleCloseOptimizeDialog = useCallback(() => {
+    setShowOptimizeDialog(false);
+  }, []);
+
+  const handleShowStrugglingDialog = useCallback(() => {
+    setShowStrugglingDialog(true);
+  }, []);
+
+  const handleCloseStrugglingDialog = useCallback(() => {
+    setShowStrugglingDialog(false);
+  }, []);
+
+  const handleShowRemindersDialog = useCallback(() => {
+    setShowRemindersDialog(true);
+  }, []);
+
+  const handleCloseRemindersDialog = useCallback(() => {
+    setShowRemindersDialog(false);
+  }, []);
+
+  const handleStrugglingCardsChanged = useCallback(
+    async (message: string) => {
+      await loadDecks();
+      showToast(message, "success");
+    },
+    [showToast],
+  );
+
   // Memoized handlers for JSX props
   const handleCardDirectionChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -236,6 +526,29 @@ export function DeckBrowser({
     [],
   );
 
+  const handleSchedulingChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setScheduling(e.target.checked ? "preserve" : "reset");
+    },
+    [],
+  );
+
+  const handleDuplicateResolutionChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setDuplicateResolution(
+        e.target.value as ImportOptions["duplicateResolution"],
+      );
+    },
+    [],
+  );
+
+  const handleDeckMappingChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setDeckMapping(e.target.value as ImportOptions["deckMapping"]);
+    },
+    [],
+  );
+
   const handleNewDeckNameChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       setNewDeckName(e.target.value);
@@ -296,7 +609,14 @@ export function DeckBrowser({
       e.stopPropagation();
       const deckId = e.currentTarget.dataset.deckId;
       const deck = decks.find((d) => d.id === deckId);
-      if (deck) handleExportDeck(deck);
+      if (deck) {
+        handleExportDeck(
+          deck,
+          (e.currentTarget.dataset.exportFormat as ExportOptions["format"]) ??
+            "anki",
+          e.currentTarget.dataset.includeScheduling === "true",
+        );
+      }
     },
     [decks],
   );
@@ -357,6 +677,54 @@ export function DeckBrowser({
     [decks],
   );
 
+  const handleOptionsMenuClick = useCallback(
+    async (e: React.MouseEvent<HTMLDivElement>) => {
+      e.stopPropagation();
+      const deckId = e.currentTarget.dataset.deckId;
+      const deck = decks.find((d) => d.id === deckId);
+      if (deck) {
+        setOptionsConfig(await db.getDeckConfig(deck.id));
+        setOptionsDeck(deck);
+      }
+    },
+    [decks],
+  );
+
+  const handleCloseOptions = useCallback(() => {
+    setOptionsDeck(null);
+    setOptionsConfig(null);
+  }, []);
+
+  const handleSaveOptions = useCallback(
+    async (config: Partial<DeckConfig>) => {
+      if (!optionsDeck) return;
+
+      await db.updateDeckConfig(optionsDeck.id, config);
+      await loadDecks();
+      showToast(`Options saved for "${optionsDeck.name}"`, "success");
+    },
+    [optionsDeck, showToast],
+  );
+
+  const handleApplyOptimizedWeights = useCallback(
+    async (deckIds: DeckId[], weights: number[], switchToFsrs: boolean) => {
+      for (const deckId of deckIds) {
+        await db.updateDeckConfig(
+          deckId,
+          switchToFsrs
+            ? { algorithm: "fsrs", fsrsWeights: weights }
+            : { fsrsWeights: weights },
+        );
+      }
+      await loadDecks();
+      showToast(
+        `Optimized parameters ${switchToFsrs ? "applied" : "saved"} to ${deckIds.length} deck${deckIds.length === 1 ? "" : "s"}`,
+        "success",
+      );
+    },
+    [showToast],
+  );
+
   const handlePublishDeck = useCallback(
     async (categoryId: string, tags: string[]) => {
       if (!publishDeck) return;
@@ -422,6 +790,45 @@ export function DeckBrowser({
               <Upload size={20} />
               [Import]
             </button>
+            <button
+              onClick={handleShowHistoryDialog}
+              className="flex items-center gap-2 text-terminal-muted dark:text-text-muted hover:terminal-primary dark:hover:text-cyan transition-colors hover:[text-shadow:0_0_8px_currentColor]"
+            >
+              <History size={20} />
+              [History]
+            </button>
+            <button
+              onClick={handleShowUpdatesDialog}
+              className="flex items-center gap-2 text-terminal-muted dark:text-text-muted hover:terminal-primary dark:hover:text-cyan transition-colors hover:[text-shadow:0_0_8px_currentColor]"
+            >
+              <RefreshCw size={20} />
+              {pendingUpdateCount > 0
+                ? `[Updates: ${pendingUpdateCount}]`
+                : "[Updates]"}
+            </button>
+            <button
+              onClick={handleShowOptimizeDialog}
+              disabled={decks.length === 0}
+              className="flex items-center gap-2 text-terminal-muted dark:text-text-muted hover:terminal-primary dark:hover:text-cyan transition-colors hover:[text-shadow:0_0_8px_currentColor] disabled:opacity-50"
+            >
+              <Activity size={20} />
+              [Optimize]
+            </button>
+            <button
+              onClick={handleShowStrugglingDialog}
+              disabled={decks.length === 0}
+              className="flex items-center gap-2 text-terminal-muted dark:text-text-muted hover:terminal-primary dark:hover:text-cyan transition-colors hover:[text-shadow:0_0_8px_currentColor] disabled:opacity-50"
+            >
+              <Wrench size={20} />
+              [Struggling]
+            </button>
+            <button
+              onClick={handleShowRemindersDialog}
+              className="flex items-center gap-2 text-terminal-muted dark:text-text-muted hover:terminal-primary dark:hover:text-cyan transition-colors hover:[text-shadow:0_0_8px_currentColor]"
+            >
+              <Bell size={20} />
+              [Reminders]
+            </button>
           </div>
         </div>
       </div>
@@ -503,6 +910,14 @@ export function DeckBrowser({
                           <Edit2 size={16} className="text-cyan-500" />
                           Edit Deck
                         </DropdownMenu.Item>
+                        <DropdownMenu.Item
+                          className="flex items-center gap-3 px-4 py-2 text-sm font-medium text-gray-900 dark:text-white hover:bg-gray-50 dark:hover:bg-gray-700 rounded cursor-pointer outline-none"
+                          onClick={handleOptionsMenuClick}
+                          data-deck-id={deck.id}
+                        >
+                          <Settings size={16} className="text-cyan-500" />
+                          Options
+                        </DropdownMenu.Item>
                         <DropdownMenu.Item
                           className="flex items-center gap-3 px-4 py-2 text-sm font-medium text-gray-900 dark:text-white hover:bg-gray-50 dark:hover:bg-gray-700 rounded cursor-pointer outline-none"
                           onClick={handleDuplicateClick}
@@ -519,6 +934,34 @@ export function DeckBrowser({
                           <Download size={16} className="text-green-500" />
                           Export to Anki
                         </DropdownMenu.Item>
+                        <DropdownMenu.Item
+                          className="flex items-center gap-3 px-4 py-2 text-sm font-medium text-gray-900 dark:text-white hover:bg-gray-50 dark:hover:bg-gray-700 rounded cursor-pointer outline-none"
+                          onClick={handleExportMenuClick}
+                          data-deck-id={deck.id}
+                          data-include-scheduling="true"
+                        >
+                          <Download size={16} className="text-green-500" />
+                          Export to Anki with Progress
+                        </DropdownMenu.Item>
+                        <DropdownMenu.Item
+                          className="flex items-center gap-3 px-4 py-2 text-sm font-medium text-gray-900 dark:text-white hover:bg-gray-50 dark:hover:bg-gray-700 rounded cursor-pointer outline-none"
+                          onClick={handleExportMenuClick}
+                          data-deck-id={deck.id}
+                          data-export-format="json"
+                          data-include-scheduling="true"
+                        >
+                          <Download size={16} className="text-green-500" />
+                          Export to JSON
+                        </DropdownMenu.Item>
+                        <DropdownMenu.Item
+                          className="flex items-center gap-3 px-4 py-2 text-sm font-medium text-gray-900 dark:text-white hover:bg-gray-50 dark:hover:bg-gray-700 rounded cursor-pointer outline-none"
+                          onClick={handleExportMenuClick}
+                          data-deck-id={deck.id}
+                          data-export-format="csv"
+                        >
+                          <Download size={16} className="text-green-500" />
+                          Export to CSV
+                        </DropdownMenu.Item>
                         <DropdownMenu.Item
                           className="flex items-center gap-3 px-4 py-2 text-sm font-medium text-gray-900 dark:text-white hover:bg-gray-50 dark:hover:bg-gray-700 rounded cursor-pointer outline-none"
                           onClick={handlePublishClick}
@@ -550,6 +993,11 @@ export function DeckBrowser({
                     tabIndex={0}
                     className="cursor-pointer mb-4"
                   >
+                    {deckAncestors.get(deck.id)?.length ? (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mb-1 truncate">
+                        {deckAncestors.get(deck.id)?.join(" › ")}
+                      </p>
+                    ) : null}
                     <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
                       {deck.name}
                     </h3>
@@ -726,20 +1174,20 @@ export function DeckBrowser({
                       IMPORTING_DECK...
                     </p>
                     <p className="text-text-muted text-sm font-mono">
-                      $ processing anki deck...
+                      $ processing deck...
                     </p>
                   </div>
                 ) : (
                   <div className="border-2 border-dashed border-amber/30 rounded-lg p-8 text-center hover:border-amber hover:shadow-amber-glow transition-all">
                     <Upload size={48} className="mx-auto text-amber mb-4" />
                     <p className="text-text-muted mb-4 font-mono">
-                      $ select .apkg file
+                      $ select .apkg, .colpkg, .json, .csv, .tsv or .md file
                     </p>
                     <label className="inline-block px-6 py-3 bg-amber hover:bg-amber-dark text-dark rounded transition-all cursor-pointer font-mono font-bold shadow-amber-glow border border-amber">
                       ./choose-file
                       <input
                         type="file"
-                        accept=".apkg"
+                        accept=".apkg,.colpkg,.json,.csv,.tsv,.txt,.md"
                         onChange={handleImportDeck}
                         className="hidden"
                       />
@@ -973,6 +1421,87 @@ export function DeckBrowser({
                 </label>
               </div>
 
+              <label className="flex items-start gap-3 mb-6 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={scheduling === "preserve"}
+                  onChange={handleSchedulingChange}
+                  className="mt-1 accent-cyan"
+                />
+                <div>
+                  <div className="font-semibold text-cyan font-mono">
+                    [KEEP_PROGRESS]
+                  </div>
+                  <div className="text-sm text-text-muted font-mono">
+                    intervals, due dates, lapses + review history
+                  </div>
+                </div>
+              </label>
+
+              <div className="grid grid-cols-2 gap-3 mb-6">
+                <div>
+                  <label
+                    htmlFor="import-duplicates"
+                    className="block text-text-muted text-sm mb-2 font-mono"
+                  >
+                    $ --on-duplicate=
+                  </label>
+                  <select
+                    id="import-duplicates"
+                    value={duplicateResolution}
+                    onChange={handleDuplicateResolutionChange}
+                    className="w-full px-3 py-2 bg-dark border-2 border-cyan/30 rounded text-cyan focus:outline-none focus:border-cyan font-mono text-sm transition-all"
+                  >
+                    <option value="update">update</option>
+                    <option value="skip">skip</option>
+                    <option value="duplicate">duplicate</option>
+                  </select>
+                </div>
+                <div>
+                  <label
+                    htmlFor="import-decks"
+                    className="block text-text-muted text-sm mb-2 font-mono"
+                  >
+                    $ --decks=
+                  </label>
+                  <select
+                    id="import-decks"
+                    value={deckMapping}
+                    onChange={handleDeckMappingChange}
+                    className="w-full px-3 py-2 bg-dark border-2 border-cyan/30 rounded text-cyan focus:outline-none focus:border-cyan font-mono text-sm transition-all"
+                  >
+                    <option value="preserve">keep subdecks</option>
+                    <option value="merge">merge into one</option>
+                    <option value="new">new decks</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="mb-6 p-3 rounded-lg border-2 border-cyan/30 bg-dark font-mono text-sm">
+                <div className="font-semibold text-cyan mb-2">[DRY_RUN]</div>
+                {importPreviewError && (
+                  <p className="text-red-400">ERROR: {importPreviewError}</p>
+                )}
+                {!importPreview && !importPreviewError && (
+                  <p className="text-text-muted">$ comparing notes...</p>
+                )}
+                {importPreview && (
+                  <div className="grid grid-cols-2 gap-1 text-text-muted">
+                    <span>+ new: {importPreview.newNotes}</span>
+                    <span>~ changed: {importPreview.changedNotes}</span>
+                    <span>= unchanged: {importPreview.unchangedNotes}</span>
+                    <span>- removed: {importPreview.removedNotes}</span>
+                    <span className="col-span-2 mt-1">
+                      {importPreview.deckName}
+                      {importPreview.deckCount > 1 &&
+                        ` + ${importPreview.deckCount - 1} subdeck(s)`}
+                      {importPreview.removedNotes > 0 &&
+                        "; removed notes are kept"}
+                    </span>
+                  </div>
+                )}
+              </div>
+
               <div className="flex gap-3 justify-end">
                 <Dialog.Close asChild>
                   <button className="px-4 py-2 text-text-muted hover:text-amber transition-colors font-mono hover:[text-shadow:0_0_8px_currentColor]">
@@ -1003,6 +1532,64 @@ export function DeckBrowser({
         deckDescription={publishDeck?.description}
         cardCount={publishDeck?.cardCount || 0}
       />
+
+      {/* Scheduler Optimizer Dialog */}
+      <OptimizeSchedulerDialog
+        isOpen={showOptimizeDialog}
+        onClose={handleCloseOptimizeDialog}
+        onApply={handleApplyOptimizedWeights}
+        decks={decks}
+      />
+
+      {/* Import History Dialog */}
+      <ImportHistoryDialog
+        isOpen={showHistoryDialog}
+        onClose={handleCloseHistoryDialog}
+        onRolledBack={handleImportRolledBack}
+      />
+
+      {/* Subscription Updates Dialog */}
+      <SubscriptionUpdatesDialog
+        isOpen={showUpdatesDialog}
+        onClose={handleCloseUpdatesDialog}
+        onApplied={handleSubscriptionApplied}
+        onChecked={setPendingUpdateCount}
+      />
+
+      {/* Struggling Cards Dialog */}
+      <StrugglingCardsDialog
+        isOpen={showStrugglingDialog}
+        onClose={handleCloseStrugglingDialog}
+        onChanged={handleStrugglingCardsChanged}
+        decks={decks}
+      />
+
+      {/* Reminder Settings Dialog */}
+      <ReminderSettingsDialog
+        isOpen={showRemindersDialog}
+        onClose={handleCloseRemindersDialog}
+      />
+
+      {/* Text Import Dialog */}
+      <TextImportDialog
+        isOpen={!!textImportFile}
+        onClose={handleCloseTextImport}
+        onImported={handleTextImported}
+        file={textImportFile}
+        parsed={parsedTextFile}
+        decks={decks}
+      />
+
+      {/* Deck Options Dialog */}
+      {optionsDeck && optionsConfig && (
+        <DeckOptionsDialog
+          isOpen
+          onClose={handleCloseOptions}
+          onSave={handleSaveOptions}
+          deckName={optionsDeck.name}
+          config={optionsConfig}
+        />
+      )}
     </div>
   );
 }
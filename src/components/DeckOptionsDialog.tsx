@@ -0,0 +1,357 @@
+import { useState, useEffect, useCallback } from "react";
+// skipcq: JS-C1003 - Radix UI Dialog components require namespace import
+import * as Dialog from "@radix-ui/react-dialog";
+import { X, Settings } from "lucide-react";
+import { DeckConfig } from "../core";
+import { schedulerRegistry } from "../core/scheduler";
+
+interface DeckOptionsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (config: Partial<DeckConfig>) => Promise<void>;
+  deckName: string;
+  config: DeckConfig;
+}
+
+type NumericField =
+  | "graduatingInterval"
+  | "easyInterval"
+  | "maximumInterval"
+  | "newCardsPerDay"
+  | "reviewsPerDay"
+  | "leechThreshold";
+
+interface OptionsForm extends Record<NumericField, string> {
+  algorithm: string;
+  learningSteps: string;
+  relearnSteps: string;
+  leechAction: DeckConfig["leechAction"];
+  desiredRetention: string;
+}
+
+const NUMERIC_FIELDS: {
+  name: NumericField;
+  label: string;
+  hint?: string;
+  min: number;
+}[] = [
+  { name: "newCardsPerDay", label: "New cards/day", min: 0 },
+  { name: "reviewsPerDay", label: "Reviews/day", min: 0 },
+  { name: "graduatingInterval", label: "Graduating interval", hint: "days", min: 1 },
+  { name: "easyInterval", label: "Easy interval", hint: "days", min: 1 },
+  { name: "maximumInterval", label: "Maximum interval", hint: "days", min: 1 },
+  { name: "leechThreshold", label: "Leech threshold", hint: "lapses", min: 1 },
+];
+
+const toForm = (config: DeckConfig): OptionsForm => ({
+  algorithm: config.algorithm,
+  learningSteps: config.learningSteps.join(" "),
+  relearnSteps: config.relearnSteps.join(" "),
+  graduatingInterval: String(config.graduatingInterval),
+  easyInterval: String(config.easyInterval),
+  maximumInterval: String(config.maximumInterval),
+  newCardsPerDay: String(config.newCardsPerDay),
+  reviewsPerDay: String(config.reviewsPerDay),
+  leechThreshold: String(config.leechThreshold),
+  leechAction: config.leechAction,
+  desiredRetention: String(config.desiredRetention),
+});
+
+/**
+ * Parses a space or comma separated list of step lengths in minutes.
+ * Returns null if any entry is not a positive number.
+ */
+const parseSteps = (value: string): number[] | null => {
+  const parts = value.split(/[\s,]+/).filter(Boolean);
+  const steps = parts.map(Number);
+  return steps.every((step) => Number.isFinite(step) && step > 0)
+    ? steps
+    : null;
+};
+
+/**
+ * Validates the form and converts it into a DeckConfig update.
+ * Returns an error message instead when a field is out of range.
+ */
+const fromForm = (form: OptionsForm): Partial<DeckConfig> | string => {
+  const learningSteps = parseSteps(form.learningSteps);
+  if (!learningSteps) return "Learning steps must be positive minutes";
+  const relearnSteps = parseSteps(form.relearnSteps);
+  if (!relearnSteps) return "Relearn steps must be positive minutes";
+
+  const numbers = {} as Record<NumericField, number>;
+  for (const field of NUMERIC_FIELDS) {
+    const value = Number(form[field.name]);
+    if (!Number.isInteger(value) || value < field.min) {
+      return `${field.label} must be a whole number of at least ${field.min}`;
+    }
+    numbers[field.name] = value;
+  }
+
+  const desiredRetention = Number(form.desiredRetention);
+  if (!(desiredRetention >= 0.7 && desiredRetention <= 0.99)) {
+    return "Desired retention must be between 0.70 and 0.99";
+  }
+  if (numbers.graduatingInterval > numbers.maximumInterval) {
+    return "Graduating interval cannot exceed the maximum interval";
+  }
+
+  return {
+    ...numbers,
+    algorithm: form.algorithm as DeckConfig["algorithm"],
+    learningSteps,
+    relearnSteps,
+    leechAction: form.leechAction,
+    desiredRetention,
+  };
+};
+
+const inputClass = `w-full px-3 py-2 rounded-lg border-2
+  border-terminal-muted dark:border-gray-600
+  bg-terminal-base dark:bg-dark
+  font-mono text-sm text-gray-700 dark:text-gray-300
+  focus:border-terminal-primary dark:focus:border-cyan
+  focus:outline-none`;
+
+const labelClass =
+  "block font-mono text-sm text-gray-700 dark:text-gray-300 mb-1";
+
+/** Dialog for editing a deck's scheduling options (DeckConfig). */
+export function DeckOptionsDialog({
+  isOpen,
+  onClose,
+  onSave,
+  deckName,
+  config,
+}: DeckOptionsDialogProps) {
+  const [form, setForm] = useState<OptionsForm>(() => toForm(config));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setForm(toForm(config));
+      setError(null);
+    }
+  }, [isOpen, config]);
+
+  /** Update the form field named by the input's name attribute. */
+  const handleChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+      const { name, value } = e.target;
+      setForm((prev) => ({ ...prev, [name]: value }));
+    },
+    [],
+  );
+
+  const handleOpenChange = useCallback(
+    (open: boolean) => {
+      if (!open) onClose();
+    },
+    [onClose],
+  );
+
+  /** Validate the form and save the deck options. */
+  const handleSubmit = useCallback(async () => {
+    const update = fromForm(form);
+    if (typeof update === "string") {
+      setError(update);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSave(update);
+      onClose();
+    } catch {
+      setError("Failed to save deck options");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [form, onSave, onClose]);
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={handleOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+        <Dialog.Content
+          className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2
+                     w-full max-w-lg p-6 rounded-lg
+                     bg-terminal-surface dark:bg-dark-surface
+                     border-2 border-terminal-primary dark:border-cyan
+                     shadow-terminal-glow dark:shadow-cyan-glow
+                     z-50 max-h-[90vh] overflow-y-auto"
+        >
+          <Dialog.Title className="font-mono text-lg font-bold text-terminal-primary dark:text-cyan flex items-center gap-2">
+            <Settings size={20} />
+            [DECK_OPTIONS]
+          </Dialog.Title>
+
+          <Dialog.Description className="mt-2 font-mono text-sm text-terminal-muted dark:text-text-muted">
+            Scheduling options for {deckName}
+          </Dialog.Description>
+
+          <div className="mt-6 grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <label htmlFor="deck-algorithm" className={labelClass}>
+                Scheduler
+              </label>
+              <select
+                id="deck-algorithm"
+                name="algorithm"
+                value={form.algorithm}
+                onChange={handleChange}
+                className={inputClass}
+              >
+                {schedulerRegistry.getAlgorithms().map((algorithm) => (
+                  <option key={algorithm} value={algorithm}>
+                    {algorithm.toUpperCase()}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="deck-learning-steps" className={labelClass}>
+                Learning steps
+              </label>
+              <input
+                id="deck-learning-steps"
+                name="learningSteps"
+                type="text"
+                value={form.learningSteps}
+                onChange={handleChange}
+                placeholder="1 10"
+                className={inputClass}
+              />
+              <p className="mt-1 font-mono text-xs text-terminal-muted dark:text-text-muted">
+                minutes, space separated
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="deck-relearn-steps" className={labelClass}>
+                Relearn steps
+              </label>
+              <input
+                id="deck-relearn-steps"
+                name="relearnSteps"
+                type="text"
+                value={form.relearnSteps}
+                onChange={handleChange}
+                placeholder="10"
+                className={inputClass}
+              />
+              <p className="mt-1 font-mono text-xs text-terminal-muted dark:text-text-muted">
+                minutes, space separated
+              </p>
+            </div>
+
+            {NUMERIC_FIELDS.map((field) => (
+              <div key={field.name}>
+                <label htmlFor={`deck-${field.name}`} className={labelClass}>
+                  {field.label}
+                  {field.hint && (
+                    <span className="text-terminal-muted dark:text-text-muted">
+                      {" "}
+                      ({field.hint})
+                    </span>
+                  )}
+                </label>
+                <input
+                  id={`deck-${field.name}`}
+                  name={field.name}
+                  type="number"
+                  min={field.min}
+                  value={form[field.name]}
+                  onChange={handleChange}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+
+            <div>
+              <label htmlFor="deck-leech-action" className={labelClass}>
+                Leech action
+              </label>
+              <select
+                id="deck-leech-action"
+                name="leechAction"
+                value={form.leechAction}
+                onChange={handleChange}
+                className={inputClass}
+              >
+                <option value="tag">Tag only</option>
+                <option value="suspend">Suspend card</option>
+              </select>
+            </div>
+
+            {form.algorithm === "fsrs" && (
+              <div>
+                <label htmlFor="deck-retention" className={labelClass}>
+                  Desired retention
+                </label>
+                <input
+                  id="deck-retention"
+                  name="desiredRetention"
+                  type="number"
+                  min={0.7}
+                  max={0.99}
+                  step={0.01}
+                  value={form.desiredRetention}
+                  onChange={handleChange}
+                  className={inputClass}
+                />
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="mt-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700">
+              <p className="font-mono text-sm text-red-600 dark:text-red-400">
+                {error}
+              </p>
+            </div>
+          )}
+
+          <div className="mt-6 flex justify-end gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 font-mono text-sm
+                       text-terminal-muted dark:text-text-muted
+                       hover:text-gray-700 dark:hover:text-gray-300
+                       transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={isSubmitting}
+              className="px-6 py-2 font-mono text-sm font-bold
+                       bg-terminal-primary dark:bg-cyan text-white
+                       rounded-lg hover:shadow-terminal-glow dark:hover:shadow-cyan-glow
+                       disabled:opacity-50 disabled:cursor-not-allowed
+                       transition-all"
+            >
+              {isSubmitting ? "Saving..." : "Save Options"}
+            </button>
+          </div>
+
+          <Dialog.Close asChild>
+            <button
+              onClick={onClose}
+              className="absolute top-4 right-4 p-1 rounded
+                       text-terminal-muted dark:text-text-muted
+                       hover:text-terminal-primary dark:hover:text-cyan
+                       transition-colors"
+              aria-label="Close"
+            >
+              <X size={20} />
+            </button>
+          </Dialog.Close>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
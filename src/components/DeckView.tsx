@@ -8,9 +8,11 @@ import {
   Archive,
   AlertCircle,
 } from "lucide-react";
-import { db } from "../storage/database";
+import { db, NoteRecord, NoteTypeRecord } from "../storage/database";
 import { Card, Deck } from "../lib/srs-engine";
 import { DeckId } from "../types/ids";
+import { getClozeOrdinals } from "../lib/cloze";
+import { CLOZE_EXTRA_FIELD, CLOZE_TEXT_FIELD } from "../lib/note-templates";
 // skipcq: JS-C1003 - Radix UI Dialog components require namespace import
 import * as Dialog from "@radix-ui/react-dialog";
 
@@ -96,13 +98,20 @@ export function DeckView({ deckId, onBack }: DeckViewProps) {
   const [selectedCard, setSelectedCard] = useState<Card | null>(null);
   const [cardFront, setCardFront] = useState("");
   const [cardBack, setCardBack] = useState("");
+  const [addReverse, setAddReverse] = useState(false);
+  const [addCloze, setAddCloze] = useState(false);
+  const [editingNote, setEditingNote] = useState<NoteRecord | null>(null);
+  const [editingNoteType, setEditingNoteType] = useState<NoteTypeRecord | null>(
+    null,
+  );
+  const [noteFields, setNoteFields] = useState<Record<string, string>>({});
 
   const loadDeckAndCards = async () => {
     const deckData = await db.getDeck(deckId);
     setDeck(deckData || null);
 
     const cardsData = await db.cards.where("deckId").equals(deckId).toArray();
-    setCards(cardsData);
+    setCards(cardsData.filter((card) => !card.isDeleted));
 
     if (deckData) {
       await db.updateDeckStats(deckId);
@@ -113,30 +122,57 @@ export function DeckView({ deckId, onBack }: DeckViewProps) {
     loadDeckAndCards();
   }, [deckId]);
 
-  const handleAddCard = useCallback(async () => {
-    if (!cardFront.trim() || !cardBack.trim()) return;
+  // Cloze notes need at least one {{c1::...}}; Back Extra is optional
+  const canAddCard = addCloze
+    ? getClozeOrdinals(cardFront).length > 0
+    : Boolean(cardFront.trim() && cardBack.trim());
 
-    await db.createCard(cardFront, cardBack, deckId);
+  const handleAddCard = useCallback(async () => {
+    if (!canAddCard) return;
+
+    if (addCloze) {
+      const noteType = await db.getOrCreateBuiltinNoteType("cloze");
+      await db.createNote(deckId, noteType.id, {
+        [CLOZE_TEXT_FIELD]: cardFront,
+        [CLOZE_EXTRA_FIELD]: cardBack,
+      });
+    } else {
+      const noteType = await db.getOrCreateBuiltinNoteType(
+        addReverse ? "basicReversed" : "basic",
+      );
+      await db.createNote(deckId, noteType.id, {
+        Front: cardFront,
+        Back: cardBack,
+      });
+    }
     setCardFront("");
     setCardBack("");
     setShowAddDialog(false);
     await loadDeckAndCards();
-  }, [cardFront, cardBack, deckId]);
+  }, [canAddCard, cardFront, cardBack, addCloze, addReverse, deckId]);
 
   const handleEditCard = useCallback(async () => {
-    if (!selectedCard || !cardFront.trim() || !cardBack.trim()) return;
+    if (!selectedCard) return;
 
-    await db.cards.update(selectedCard.id, {
-      front: cardFront,
-      back: cardBack,
-    });
+    if (editingNote) {
+      // Editing the note regenerates every card built from it
+      await db.updateNote(editingNote.id, noteFields);
+    } else {
+      if (!cardFront.trim() || !cardBack.trim()) return;
+      await db.cards.update(selectedCard.id, {
+        front: cardFront,
+        back: cardBack,
+      });
+    }
 
     setCardFront("");
     setCardBack("");
     setSelectedCard(null);
+    setEditingNote(null);
+    setEditingNoteType(null);
     setShowEditDialog(false);
     await loadDeckAndCards();
-  }, [selectedCard, cardFront, cardBack]);
+  }, [selectedCard, editingNote, noteFields, cardFront, cardBack]);
 
   const handleDeleteCard = useCallback(async () => {
     if (!selectedCard) return;
@@ -164,10 +200,16 @@ export function DeckView({ deckId, onBack }: DeckViewProps) {
     await loadDeckAndCards();
   }, [selectedCard]);
 
-  const openEditDialog = (card: Card) => {
+  const openEditDialog = async (card: Card) => {
     setSelectedCard(card);
     setCardFront(card.front);
     setCardBack(card.back);
+
+    const note = card.noteId ? await db.getNote(card.noteId) : undefined;
+    const noteType = note ? await db.noteTypes.get(note.modelId) : undefined;
+    setEditingNote(note && noteType ? note : null);
+    setEditingNoteType(note && noteType ? noteType : null);
+    setNoteFields(note?.fields ?? {});
     setShowEditDialog(true);
   };
 
@@ -195,6 +237,30 @@ export function DeckView({ deckId, onBack }: DeckViewProps) {
     [],
   );
 
+  const handleNoteFieldChange = useCallback(
+    (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+      const fieldName = e.currentTarget.dataset.fieldName;
+      if (!fieldName) return;
+      const { value } = e.currentTarget;
+      setNoteFields((prev) => ({ ...prev, [fieldName]: value }));
+    },
+    [],
+  );
+
+  const handleAddReverseChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setAddReverse(e.target.checked);
+    },
+    [],
+  );
+
+  const handleNoteKindChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setAddCloze(e.target.value === "cloze");
+    },
+    [],
+  );
+
   const handleShowAddDialog = useCallback(() => {
     setShowAddDialog(true);
   }, []);
@@ -395,38 +461,78 @@ export function DeckView({ deckId, onBack }: DeckViewProps) {
               Add New Card
             </Dialog.Title>
             <div className="space-y-4">
+              <div>
+                <label
+                  htmlFor="create-card-type"
+                  className="block text-gray-600 dark:text-white/80 text-sm mb-2"
+                >
+                  Type
+                </label>
+                <select
+                  id="create-card-type"
+                  value={addCloze ? "cloze" : "basic"}
+                  onChange={handleNoteKindChange}
+                  className="w-full px-4 py-3 bg-gray-100 dark:bg-white/10 border border-gray-300 dark:border-white/20 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:border-gray-400 dark:focus:border-white/40"
+                >
+                  <option value="basic">Basic</option>
+                  <option value="cloze">Cloze</option>
+                </select>
+              </div>
               <div>
                 <label
                   htmlFor="create-card-front"
                   className="block text-gray-600 dark:text-white/80 text-sm mb-2"
                 >
-                  Front
+                  {addCloze ? CLOZE_TEXT_FIELD : "Front"}
                 </label>
                 <textarea
                   id="create-card-front"
                   value={cardFront}
                   onChange={handleCardFrontChange}
                   className="w-full px-4 py-3 bg-gray-100 dark:bg-white/10 border border-gray-300 dark:border-white/20 rounded-lg text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-white/40 focus:outline-none focus:border-gray-400 dark:focus:border-white/40 resize-none"
-                  placeholder="Enter the question or prompt"
+                  placeholder={
+                    addCloze
+                      ? "The {{c1::mitochondria::organelle}} is the powerhouse of the {{c2::cell}}"
+                      : "Enter the question or prompt"
+                  }
                   rows={3}
                 />
+                {addCloze && (
+                  <p className="mt-1 text-gray-500 dark:text-white/50 text-xs">
+                    Each cloze number becomes its own card
+                  </p>
+                )}
               </div>
               <div>
                 <label
                   htmlFor="create-card-back"
                   className="block text-gray-600 dark:text-white/80 text-sm mb-2"
                 >
-                  Back
+                  {addCloze ? CLOZE_EXTRA_FIELD : "Back"}
                 </label>
                 <textarea
                   id="create-card-back"
                   value={cardBack}
                   onChange={handleCardBackChange}
                   className="w-full px-4 py-3 bg-gray-100 dark:bg-white/10 border border-gray-300 dark:border-white/20 rounded-lg text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-white/40 focus:outline-none focus:border-gray-400 dark:focus:border-white/40 resize-none"
-                  placeholder="Enter the answer"
+                  placeholder={
+                    addCloze
+                      ? "Optional notes shown with the answer"
+                      : "Enter the answer"
+                  }
                   rows={3}
                 />
               </div>
+              {!addCloze && (
+                <label className="flex items-center gap-2 text-gray-600 dark:text-white/80 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={addReverse}
+                    onChange={handleAddReverseChange}
+                  />
+                  Also create a reverse card (Back → Front)
+                </label>
+              )}
               <div className="flex gap-3 justify-end">
                 <Dialog.Close asChild>
                   <button className="px-4 py-2 text-gray-600 dark:text-white/80 hover:text-gray-900 dark:hover:text-white transition-colors">
@@ -435,7 +541,7 @@ export function DeckView({ deckId, onBack }: DeckViewProps) {
                 </Dialog.Close>
                 <button
                   onClick={handleAddCard}
-                  disabled={!cardFront.trim() || !cardBack.trim()}
+                  disabled={!canAddCard}
                   className="px-6 py-2 bg-gray-200 dark:bg-white/20 hover:bg-gray-300 dark:hover:bg-white/30 disabled:bg-gray-100 dark:disabled:bg-white/10 disabled:text-gray-400 dark:disabled:text-white/40 text-gray-900 dark:text-white rounded-lg transition-colors"
                 >
                   Add Card
@@ -455,43 +561,67 @@ export function DeckView({ deckId, onBack }: DeckViewProps) {
               Edit Card
             </Dialog.Title>
             <div className="space-y-4">
-              <div>
-                <label
-                  htmlFor="edit-card-front"
-                  className="block text-gray-600 dark:text-white/80 text-sm mb-2"
-                >
-                  Front
-                </label>
-                <textarea
-                  id="edit-card-front"
-                  value={cardFront}
-                  onChange={handleCardFrontChange}
-                  className="w-full px-4 py-3 bg-gray-100 dark:bg-white/10 border border-gray-300 dark:border-white/20 rounded-lg text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-white/40 focus:outline-none focus:border-gray-400 dark:focus:border-white/40 resize-none"
-                  placeholder="Enter the question or prompt"
-                  rows={3}
-                />
-              </div>
-              <div>
-                <label
-                  htmlFor="edit-card-back"
-                  className="block text-gray-600 dark:text-white/80 text-sm mb-2"
-                >
-                  Back
-                </label>
-                <textarea
-                  id="edit-card-back"
-                  value={cardBack}
-                  onChange={handleCardBackChange}
-                  className="w-full px-4 py-3 bg-gray-100 dark:bg-white/10 border border-gray-300 dark:border-white/20 rounded-lg text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-white/40 focus:outline-none focus:border-gray-400 dark:focus:border-white/40 resize-none"
-                  placeholder="Enter the answer"
-                  rows={3}
-                />
-              </div>
+              {editingNoteType ? (
+                editingNoteType.fields.map((field) => (
+                  <div key={field.name}>
+                    <label
+                      htmlFor={`edit-note-${field.name}`}
+                      className="block text-gray-600 dark:text-white/80 text-sm mb-2"
+                    >
+                      {field.name}
+                    </label>
+                    <textarea
+                      id={`edit-note-${field.name}`}
+                      data-field-name={field.name}
+                      value={noteFields[field.name] ?? ""}
+                      onChange={handleNoteFieldChange}
+                      className="w-full px-4 py-3 bg-gray-100 dark:bg-white/10 border border-gray-300 dark:border-white/20 rounded-lg text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-white/40 focus:outline-none focus:border-gray-400 dark:focus:border-white/40 resize-none"
+                      rows={3}
+                    />
+                  </div>
+                ))
+              ) : (
+                <>
+                  <div>
+                    <label
+                      htmlFor="edit-card-front"
+                      className="block text-gray-600 dark:text-white/80 text-sm mb-2"
+                    >
+                      Front
+                    </label>
+                    <textarea
+                      id="edit-card-front"
+                      value={cardFront}
+                      onChange={handleCardFrontChange}
+                      className="w-full px-4 py-3 bg-gray-100 dark:bg-white/10 border border-gray-300 dark:border-white/20 rounded-lg text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-white/40 focus:outline-none focus:border-gray-400 dark:focus:border-white/40 resize-none"
+                      placeholder="Enter the question or prompt"
+                      rows={3}
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="edit-card-back"
+                      className="block text-gray-600 dark:text-white/80 text-sm mb-2"
+                    >
+                      Back
+                    </label>
+                    <textarea
+                      id="edit-card-back"
+                      value={cardBack}
+                      onChange={handleCardBackChange}
+                      className="w-full px-4 py-3 bg-gray-100 dark:bg-white/10 border border-gray-300 dark:border-white/20 rounded-lg text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-white/40 focus:outline-none focus:border-gray-400 dark:focus:border-white/40 resize-none"
+                      placeholder="Enter the answer"
+                      rows={3}
+                    />
+                  </div>
+                </>
+              )}
               <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3 text-sm text-yellow-200">
                 <p className="font-medium mb-1">Note:</p>
                 <p className="text-yellow-200/80">
-                  Changes will be saved permanently to the deck upon
-                  confirmation.
+                  {editingNote
+                    ? "Changes update every card generated from this note."
+                    : "Changes will be saved permanently to the deck upon confirmation."}
                 </p>
               </div>
               <div className="flex gap-3 justify-end">
@@ -502,7 +632,9 @@ export function DeckView({ deckId, onBack }: DeckViewProps) {
                 </Dialog.Close>
                 <button
                   onClick={handleEditCard}
-                  disabled={!cardFront.trim() || !cardBack.trim()}
+                  disabled={
+                    !editingNote && (!cardFront.trim() || !cardBack.trim())
+                  }
                   className="px-6 py-2 bg-gray-200 dark:bg-white/20 hover:bg-gray-300 dark:hover:bg-white/30 disabled:bg-gray-100 dark:disabled:bg-white/10 disabled:text-gray-400 dark:disabled:text-white/40 text-gray-900 dark:text-white rounded-lg transition-colors"
                 >
                   Save Changes
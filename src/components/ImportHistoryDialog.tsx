@@ -0,0 +1,319 @@
+import { useState, useEffect, useCallback } from "react";
+// skipcq: JS-C1003 - Radix UI Dialog components require namespace import
+import * as Dialog from "@radix-ui/react-dialog";
+import { X, History, Loader2 } from "lucide-react";
+import type { ImportBatch, SyncableCard } from "../storage/database";
+import { ImportMappingService } from "../services/import-mapping-service";
+
+interface ImportHistoryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRolledBack: (batch: ImportBatch, cardsRemoved: number) => Promise<void>;
+}
+
+// Only the first cards of a batch are listed when inspecting it
+const MAX_LISTED_CARDS = 50;
+
+const STATUS_LABELS: Record<ImportBatch["status"], string> = {
+  in_progress: "in progress",
+  completed: "completed",
+  failed: "failed",
+  rolled_back: "rolled back",
+};
+
+/**
+ * Dialog listing past imports, with the cards each one created and a way to
+ * roll an import back.
+ */
+export function ImportHistoryDialog({
+  isOpen,
+  onClose,
+  onRolledBack,
+}: ImportHistoryDialogProps) {
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [inspectedBatchId, setInspectedBatchId] = useState<string | null>(null);
+  const [inspectedCards, setInspectedCards] = useState<SyncableCard[] | null>(
+    null,
+  );
+  const [confirmBatchId, setConfirmBatchId] = useState<string | null>(null);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBatches = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setBatches(await ImportMappingService.getAllImportBatches());
+    } catch {
+      setError("Failed to load import history");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setInspectedBatchId(null);
+      setInspectedCards(null);
+      setConfirmBatchId(null);
+      setError(null);
+      loadBatches();
+    }
+  }, [isOpen, loadBatches]);
+
+  /** Show or hide the cards a batch created. */
+  const handleInspect = useCallback(
+    async (e: React.MouseEvent<HTMLButtonElement>) => {
+      const batchId = e.currentTarget.dataset.batchId;
+      if (!batchId) return;
+
+      if (batchId === inspectedBatchId) {
+        setInspectedBatchId(null);
+        setInspectedCards(null);
+        return;
+      }
+
+      setInspectedBatchId(batchId);
+      setInspectedCards(null);
+      try {
+        setInspectedCards(await ImportMappingService.getCardsByBatch(batchId));
+      } catch {
+        setError("Failed to load cards");
+      }
+    },
+    [inspectedBatchId],
+  );
+
+  const handleRequestRollback = useCallback(
+    (e: React.MouseEvent<HTMLButtonElement>) => {
+      setConfirmBatchId(e.currentTarget.dataset.batchId ?? null);
+    },
+    [],
+  );
+
+  const handleCancelRollback = useCallback(() => {
+    setConfirmBatchId(null);
+  }, []);
+
+  /** Remove everything the confirmed batch created. */
+  const handleConfirmRollback = useCallback(async () => {
+    const batch = batches.find((entry) => entry.id === confirmBatchId);
+    if (!batch) return;
+
+    setRollingBackId(batch.id);
+    setError(null);
+    try {
+      const { cardsRemoved } = await ImportMappingService.rollbackImportBatch(
+        batch.id,
+      );
+      setConfirmBatchId(null);
+      if (inspectedBatchId === batch.id) {
+        setInspectedBatchId(null);
+        setInspectedCards(null);
+      }
+      await onRolledBack(batch, cardsRemoved);
+      await loadBatches();
+    } catch {
+      setError("Failed to roll back import");
+    } finally {
+      setRollingBackId(null);
+    }
+  }, [batches, confirmBatchId, inspectedBatchId, onRolledBack, loadBatches]);
+
+  const handleOpenChange = useCallback(
+    (open: boolean) => {
+      if (!open && !rollingBackId) onClose();
+    },
+    [rollingBackId, onClose],
+  );
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={handleOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+        <Dialog.Content
+          className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2
+                     w-full max-w-2xl p-6 rounded-lg
+                     bg-terminal-surface dark:bg-dark-surface
+                     border-2 border-terminal-primary dark:border-cyan
+                     shadow-terminal-glow dark:shadow-cyan-glow
+                     z-50 max-h-[90vh] overflow-y-auto"
+        >
+          <Dialog.Title className="font-mono text-lg font-bold text-terminal-primary dark:text-cyan flex items-center gap-2">
+            <History size={20} />
+            [IMPORT_HISTORY]
+          </Dialog.Title>
+
+          <Dialog.Description className="mt-2 font-mono text-sm text-terminal-muted dark:text-text-muted">
+            Rolling back an import removes the cards, notes and media it
+            created. Decks and media still used by other cards are kept.
+          </Dialog.Description>
+
+          {isLoading && batches.length === 0 && (
+            <div className="mt-6 flex justify-center">
+              <Loader2
+                className="animate-spin text-terminal-primary dark:text-cyan"
+                size={24}
+              />
+            </div>
+          )}
+
+          {!isLoading && batches.length === 0 && (
+            <p className="mt-6 font-mono text-sm text-terminal-muted dark:text-text-muted">
+              No imports yet
+            </p>
+          )}
+
+          <ul className="mt-6 space-y-3">
+            {batches.map((batch) => (
+              <li
+                key={batch.id}
+                className="p-4 rounded-lg border-2 border-terminal-muted dark:border-gray-600 bg-terminal-base dark:bg-dark font-mono text-sm text-gray-700 dark:text-gray-300"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-bold truncate">
+                      {batch.fileName ?? batch.id}
+                    </p>
+                    <p className="text-xs text-terminal-muted dark:text-text-muted">
+                      {batch.sourceSystem} ·{" "}
+                      {new Date(batch.importedAt).toLocaleString()} ·{" "}
+                      {STATUS_LABELS[batch.status]}
+                    </p>
+                    <p className="text-xs text-terminal-muted dark:text-text-muted">
+                      {batch.decksImported} decks · {batch.notesImported} notes
+                      · {batch.cardsImported} cards
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      onClick={handleInspect}
+                      data-batch-id={batch.id}
+                      disabled={batch.status === "rolled_back"}
+                      className="px-3 py-1 text-xs rounded border border-terminal-muted dark:border-gray-600
+                               hover:border-terminal-primary dark:hover:border-cyan
+                               disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      {inspectedBatchId === batch.id ? "Hide" : "Cards"}
+                    </button>
+                    <button
+                      onClick={handleRequestRollback}
+                      data-batch-id={batch.id}
+                      disabled={
+                        batch.status === "rolled_back" ||
+                        batch.status === "in_progress" ||
+                        !!rollingBackId
+                      }
+                      className="px-3 py-1 text-xs rounded border border-red-300 dark:border-red-700
+                               text-red-600 dark:text-red-400
+                               hover:bg-red-50 dark:hover:bg-red-900/20
+                               disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      Roll back
+                    </button>
+                  </div>
+                </div>
+
+                {confirmBatchId === batch.id && (
+                  <div className="mt-3 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 flex items-center justify-between gap-3">
+                    <span className="text-xs text-red-600 dark:text-red-400">
+                      Remove everything this import created? Reviews of its
+                      cards are removed too.
+                    </span>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={handleCancelRollback}
+                        disabled={!!rollingBackId}
+                        className="px-3 py-1 text-xs text-terminal-muted dark:text-text-muted hover:text-gray-700 dark:hover:text-gray-300"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={handleConfirmRollback}
+                        disabled={!!rollingBackId}
+                        className="px-3 py-1 text-xs font-bold rounded bg-red-600 text-white disabled:opacity-50 flex items-center gap-1"
+                      >
+                        {rollingBackId === batch.id && (
+                          <Loader2 className="animate-spin" size={12} />
+                        )}
+                        Confirm
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {inspectedBatchId === batch.id && (
+                  <div className="mt-3 max-h-48 overflow-y-auto text-xs">
+                    {inspectedCards === null && (
+                      <p className="text-terminal-muted dark:text-text-muted">
+                        Loading cards...
+                      </p>
+                    )}
+                    {inspectedCards?.length === 0 && (
+                      <p className="text-terminal-muted dark:text-text-muted">
+                        No cards from this import remain
+                      </p>
+                    )}
+                    {inspectedCards && inspectedCards.length > 0 && (
+                      <>
+                        <ul className="space-y-1">
+                          {inspectedCards
+                            .slice(0, MAX_LISTED_CARDS)
+                            .map((card) => (
+                              <li key={card.id} className="truncate">
+                                {card.front || "(empty)"}
+                              </li>
+                            ))}
+                        </ul>
+                        {inspectedCards.length > MAX_LISTED_CARDS && (
+                          <p className="mt-1 text-terminal-muted dark:text-text-muted">
+                            and {inspectedCards.length - MAX_LISTED_CARDS} more
+                          </p>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {error && (
+            <div className="mt-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700">
+              <p className="font-mono text-sm text-red-600 dark:text-red-400">
+                {error}
+              </p>
+            </div>
+          )}
+
+          <div className="mt-6 flex justify-end">
+            <button
+              onClick={onClose}
+              disabled={!!rollingBackId}
+              className="px-4 py-2 font-mono text-sm
+                       text-terminal-muted dark:text-text-muted
+                       hover:text-gray-700 dark:hover:text-gray-300
+                       transition-colors"
+            >
+              Close
+            </button>
+          </div>
+
+          <Dialog.Close asChild>
+            <button
+              onClick={onClose}
+              disabled={!!rollingBackId}
+              className="absolute top-4 right-4 p-1 rounded
+                       text-terminal-muted dark:text-text-muted
+                       hover:text-terminal-primary dark:hover:text-cyan
+                       transition-colors"
+              aria-label="Close"
+            >
+              <X size={20} />
+            </button>
+          </Dialog.Close>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,299 @@
+import { useState, useEffect, useCallback } from "react";
+// skipcq: JS-C1003 - Radix UI Dialog components require namespace import
+import * as Dialog from "@radix-ui/react-dialog";
+import { X, Activity, Loader2 } from "lucide-react";
+import { db } from "../storage/database";
+import { Deck } from "../lib/srs-engine";
+import { DeckId } from "../types/ids";
+import { DEFAULT_DECK_CONFIG } from "../core";
+import {
+  optimizeFSRSWeights,
+  type OptimizerResult,
+} from "../core/scheduler";
+
+interface OptimizeSchedulerDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onApply: (
+    deckIds: DeckId[],
+    weights: number[],
+    switchToFsrs: boolean,
+  ) => Promise<void>;
+  decks: Deck[];
+}
+
+function usesFsrs(deck: Deck): boolean {
+  return (deck.config?.algorithm ?? DEFAULT_DECK_CONFIG.algorithm) === "fsrs";
+}
+
+/**
+ * Dialog that fits FSRS parameters to the chosen decks' local review history
+ * and applies them to those decks. Nothing leaves the device.
+ */
+export function OptimizeSchedulerDialog({
+  isOpen,
+  onClose,
+  onApply,
+  decks,
+}: OptimizeSchedulerDialogProps) {
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<OptimizerResult | null>(null);
+  const [selectedDeckIds, setSelectedDeckIds] = useState<Set<DeckId>>(
+    new Set(),
+  );
+  const [switchToFsrs, setSwitchToFsrs] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setResult(null);
+      setProgress(null);
+      setError(null);
+      setSwitchToFsrs(false);
+      setSelectedDeckIds(new Set(decks.map((deck) => deck.id)));
+    }
+  }, [isOpen, decks]);
+
+  /** Fit weights to the selected decks' reviews recorded on this device. */
+  const handleRun = useCallback(async () => {
+    if (selectedDeckIds.size === 0) return;
+
+    setIsRunning(true);
+    setError(null);
+    setResult(null);
+    try {
+      const sessions = await db.getReviewLogsByCard(
+        Array.from(selectedDeckIds),
+      );
+      const fitted = await optimizeFSRSWeights(sessions, {
+        onProgress: (_pass, logLoss) => setProgress(logLoss),
+      });
+      setResult(fitted);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Optimization failed");
+    } finally {
+      setIsRunning(false);
+      setProgress(null);
+    }
+  }, [selectedDeckIds]);
+
+  const handleToggleDeck = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const deckId = e.target.value as DeckId;
+      const { checked } = e.target;
+      setSelectedDeckIds((prev) => {
+        const next = new Set(prev);
+        if (checked) next.add(deckId);
+        else next.delete(deckId);
+        return next;
+      });
+      // Fitted weights only describe the decks they were fitted to
+      setResult(null);
+    },
+    [],
+  );
+
+  const handleToggleSwitch = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setSwitchToFsrs(e.target.checked);
+    },
+    [],
+  );
+
+  /** Save the fitted weights to the selected decks. */
+  const handleApply = useCallback(async () => {
+    if (!result || selectedDeckIds.size === 0) return;
+
+    setIsApplying(true);
+    setError(null);
+    try {
+      await onApply(Array.from(selectedDeckIds), result.weights, switchToFsrs);
+      onClose();
+    } catch {
+      setError("Failed to apply parameters");
+    } finally {
+      setIsApplying(false);
+    }
+  }, [result, selectedDeckIds, switchToFsrs, onApply, onClose]);
+
+  const handleOpenChange = useCallback(
+    (open: boolean) => {
+      if (!open && !isRunning) onClose();
+    },
+    [isRunning, onClose],
+  );
+
+  const improvement =
+    result && result.logLossBefore > 0
+      ? ((result.logLossBefore - result.logLossAfter) / result.logLossBefore) *
+        100
+      : 0;
+  const sm2DeckCount = decks.filter(
+    (deck) => selectedDeckIds.has(deck.id) && !usesFsrs(deck),
+  ).length;
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={handleOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+        <Dialog.Content
+          className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2
+                     w-full max-w-lg p-6 rounded-lg
+                     bg-terminal-surface dark:bg-dark-surface
+                     border-2 border-terminal-primary dark:border-cyan
+                     shadow-terminal-glow dark:shadow-cyan-glow
+                     z-50 max-h-[90vh] overflow-y-auto"
+        >
+          <Dialog.Title className="font-mono text-lg font-bold text-terminal-primary dark:text-cyan flex items-center gap-2">
+            <Activity size={20} />
+            [OPTIMIZE_SCHEDULER]
+          </Dialog.Title>
+
+          <Dialog.Description className="mt-2 font-mono text-sm text-terminal-muted dark:text-text-muted">
+            Fit FSRS parameters to your own review history. Runs on this
+            device only.
+          </Dialog.Description>
+
+          <div className="mt-6">
+            <span className="block font-mono text-sm text-gray-700 dark:text-gray-300 mb-2">
+              Decks
+            </span>
+            <p className="font-mono text-xs text-terminal-muted dark:text-text-muted mb-3">
+              Parameters are fitted to these decks&apos; reviews and saved to
+              them
+            </p>
+            <div className="max-h-48 overflow-y-auto space-y-2">
+              {decks.map((deck) => (
+                <label
+                  key={deck.id}
+                  className="flex items-center gap-2 font-mono text-sm text-gray-700 dark:text-gray-300 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    value={deck.id}
+                    checked={selectedDeckIds.has(deck.id)}
+                    onChange={handleToggleDeck}
+                    disabled={isRunning || isApplying}
+                  />
+                  {deck.name}
+                  {usesFsrs(deck) && (
+                    <span className="text-xs text-terminal-muted dark:text-text-muted">
+                      FSRS
+                    </span>
+                  )}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {!result && (
+            <div className="mt-6 flex flex-col items-center gap-3">
+              <button
+                onClick={handleRun}
+                disabled={isRunning || selectedDeckIds.size === 0}
+                className="px-6 py-2 font-mono text-sm font-bold
+                         bg-terminal-primary dark:bg-cyan text-white
+                         rounded-lg hover:shadow-terminal-glow dark:hover:shadow-cyan-glow
+                         disabled:opacity-50 disabled:cursor-not-allowed
+                         transition-all flex items-center gap-2"
+              >
+                {isRunning && <Loader2 className="animate-spin" size={16} />}
+                {isRunning ? "Optimizing..." : "Run Optimizer"}
+              </button>
+              {progress !== null && (
+                <p className="font-mono text-xs text-terminal-muted dark:text-text-muted">
+                  log-loss: {progress.toFixed(4)}
+                </p>
+              )}
+            </div>
+          )}
+
+          {result && (
+            <>
+              <div className="mt-6 p-4 rounded-lg border-2 border-terminal-muted dark:border-gray-600 bg-terminal-base dark:bg-dark font-mono text-sm text-gray-700 dark:text-gray-300">
+                <p>Reviews scored: {result.reviewCount}</p>
+                <p>Log-loss before: {result.logLossBefore.toFixed(4)}</p>
+                <p>Log-loss after: {result.logLossAfter.toFixed(4)}</p>
+                <p className="mt-2 text-terminal-primary dark:text-cyan">
+                  {improvement > 0
+                    ? `${improvement.toFixed(1)}% better fit`
+                    : "Default parameters already fit your history"}
+                </p>
+              </div>
+
+              {sm2DeckCount > 0 && (
+                <label className="mt-4 flex items-start gap-2 font-mono text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={switchToFsrs}
+                    onChange={handleToggleSwitch}
+                    className="mt-1"
+                  />
+                  <span>
+                    Also switch {sm2DeckCount} deck
+                    {sm2DeckCount === 1 ? "" : "s"} from SM-2 to FSRS
+                    <span className="block text-xs text-terminal-muted dark:text-text-muted">
+                      Cards keep their progress: FSRS starts from each
+                      card&apos;s current interval and ease. Otherwise the
+                      parameters are saved and used once you switch.
+                    </span>
+                  </span>
+                </label>
+              )}
+            </>
+          )}
+
+          {error && (
+            <div className="mt-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700">
+              <p className="font-mono text-sm text-red-600 dark:text-red-400">
+                {error}
+              </p>
+            </div>
+          )}
+
+          <div className="mt-6 flex justify-end gap-3">
+            <button
+              onClick={onClose}
+              disabled={isRunning}
+              className="px-4 py-2 font-mono text-sm
+                       text-terminal-muted dark:text-text-muted
+                       hover:text-gray-700 dark:hover:text-gray-300
+                       transition-colors"
+            >
+              Cancel
+            </button>
+            {result && (
+              <button
+                onClick={handleApply}
+                disabled={selectedDeckIds.size === 0 || isApplying}
+                className="px-6 py-2 font-mono text-sm font-bold
+                         bg-terminal-primary dark:bg-cyan text-white
+                         rounded-lg hover:shadow-terminal-glow dark:hover:shadow-cyan-glow
+                         disabled:opacity-50 disabled:cursor-not-allowed
+                         transition-all"
+              >
+                {isApplying ? "Applying..." : "Apply Parameters"}
+              </button>
+            )}
+          </div>
+
+          <Dialog.Close asChild>
+            <button
+              onClick={onClose}
+              disabled={isRunning}
+              className="absolute top-4 right-4 p-1 rounded
+                       text-terminal-muted dark:text-text-muted
+                       hover:text-terminal-primary dark:hover:text-cyan
+                       transition-colors"
+              aria-label="Close"
+            >
+              <X size={20} />
+            </button>
+          </Dialog.Close>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
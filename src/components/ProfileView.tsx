@@ -8,6 +8,7 @@ import {
   UserAchievement,
 } from "../services/api";
 import { CommandHistory } from "./CommandHistory";
+import { ResearchConsentSection } from "./ResearchConsentSection";
 
 interface ProfileViewProps {
   onBack: () => void;
@@ -508,6 +509,14 @@ export function ProfileView({ onBack }: ProfileViewProps) {
             <CommandHistory maxVisible={10} showSearch={true} />
           </div>
 
+          {/* Privacy Section */}
+          <div className="px-8 py-6 border-b border-border">
+            <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide mb-4">
+              Privacy
+            </h2>
+            <ResearchConsentSection />
+          </div>
+
           {/* Actions Section */}
           <div className="px-8 py-6 bg-muted/30">
             <div className="flex gap-3">
@@ -0,0 +1,275 @@
+import { useState, useEffect, useCallback } from "react";
+// skipcq: JS-C1003 - Radix UI Dialog components require namespace import
+import * as Dialog from "@radix-ui/react-dialog";
+import { X, Bell, Loader2 } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  useReminderSettings,
+  MAX_NUDGES_PER_DAY,
+  type MaxNudgesPerDay,
+} from "../hooks/useReminderSettings";
+import {
+  reminderService,
+  getReminderHours,
+} from "../services/reminder-service";
+
+interface ReminderSettingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+function formatHour(hour: number): string {
+  if (hour === 0) return "12am";
+  if (hour === 12) return "12pm";
+  if (hour < 12) return `${hour}am`;
+  return `${hour - 12}pm`;
+}
+
+function formatHours(hours: number[]): string {
+  return hours.map(formatHour).join(", ");
+}
+
+/**
+ * Dialog for study reminders: turning them on, quiet hours, and how many
+ * nudges a day. Reminders come at the learner's best hours when cards are due.
+ */
+export function ReminderSettingsDialog({
+  isOpen,
+  onClose,
+}: ReminderSettingsDialogProps) {
+  const { user } = useAuth();
+  const {
+    enabled,
+    quietHoursStart,
+    quietHoursEnd,
+    maxNudgesPerDay,
+    bestHours,
+    setQuietHours,
+    setMaxNudgesPerDay,
+  } = useReminderSettings();
+  const [isLoadingHours, setIsLoadingHours] = useState(false);
+  const [isToggling, setIsToggling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isSupported = reminderService.isSupported();
+  const isBlocked = isSupported && Notification.permission === "denied";
+  const reminderHours = getReminderHours(
+    bestHours,
+    quietHoursStart,
+    quietHoursEnd,
+    maxNudgesPerDay,
+  );
+
+  useEffect(() => {
+    if (!isOpen || !user) return;
+
+    setError(null);
+    setIsLoadingHours(true);
+    reminderService
+      .refreshBestHours(user.id)
+      .catch(() => setError("Failed to load your best study hours"))
+      .finally(() => setIsLoadingHours(false));
+  }, [isOpen, user]);
+
+  const handleToggle = useCallback(async () => {
+    setIsToggling(true);
+    setError(null);
+    try {
+      if (enabled) {
+        await reminderService.disable();
+      } else if (!(await reminderService.enable())) {
+        setError("Notifications were not allowed in this browser");
+      }
+    } catch {
+      setError("Failed to change reminders");
+    } finally {
+      setIsToggling(false);
+    }
+  }, [enabled]);
+
+  const handleQuietStartChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setQuietHours(Number(e.target.value), quietHoursEnd);
+    },
+    [setQuietHours, quietHoursEnd],
+  );
+
+  const handleQuietEndChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setQuietHours(quietHoursStart, Number(e.target.value));
+    },
+    [setQuietHours, quietHoursStart],
+  );
+
+  const handleMaxNudgesChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setMaxNudgesPerDay(Number(e.target.value) as MaxNudgesPerDay);
+    },
+    [setMaxNudgesPerDay],
+  );
+
+  const handleOpenChange = useCallback(
+    (open: boolean) => {
+      if (!open) onClose();
+    },
+    [onClose],
+  );
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={handleOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+        <Dialog.Content
+          className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2
+                     w-full max-w-md p-6 rounded-lg
+                     bg-terminal-surface dark:bg-dark-surface
+                     border-2 border-terminal-primary dark:border-cyan
+                     shadow-terminal-glow dark:shadow-cyan-glow
+                     z-50 max-h-[90vh] overflow-y-auto"
+        >
+          <Dialog.Title className="font-mono text-lg font-bold text-terminal-primary dark:text-cyan flex items-center gap-2">
+            <Bell size={20} />
+            [REMINDERS]
+          </Dialog.Title>
+
+          <Dialog.Description className="mt-2 font-mono text-sm text-terminal-muted dark:text-text-muted">
+            A nudge at the hours you recall best, only when cards are due.
+            Reminders are shown by this browser; nothing is sent to a server.
+          </Dialog.Description>
+
+          <div className="mt-6 space-y-4 font-mono text-sm text-gray-700 dark:text-gray-300">
+            <div className="flex items-center justify-between gap-3">
+              <span>
+                {!isSupported
+                  ? "Not supported in this browser"
+                  : isBlocked
+                    ? "Blocked in browser settings"
+                    : enabled
+                      ? "Reminders are on"
+                      : "Reminders are off"}
+              </span>
+              <button
+                onClick={handleToggle}
+                disabled={!isSupported || isBlocked || isToggling}
+                className="px-3 py-1 text-xs font-bold rounded
+                         bg-terminal-primary dark:bg-cyan text-paper dark:text-dark
+                         disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+              >
+                {isToggling && <Loader2 className="animate-spin" size={12} />}
+                {enabled ? "Turn off" : "Turn on"}
+              </button>
+            </div>
+
+            <div>
+              <p className="mb-1">Quiet hours</p>
+              <div className="flex items-center gap-2">
+                <select
+                  value={quietHoursStart}
+                  onChange={handleQuietStartChange}
+                  aria-label="Quiet hours start"
+                  className="px-2 py-1 rounded border-2 border-terminal-muted dark:border-gray-600
+                           bg-terminal-base dark:bg-dark focus:outline-none
+                           focus:border-terminal-primary dark:focus:border-cyan"
+                >
+                  {HOURS.map((hour) => (
+                    <option key={hour} value={hour}>
+                      {formatHour(hour)}
+                    </option>
+                  ))}
+                </select>
+                <span>to</span>
+                <select
+                  value={quietHoursEnd}
+                  onChange={handleQuietEndChange}
+                  aria-label="Quiet hours end"
+                  className="px-2 py-1 rounded border-2 border-terminal-muted dark:border-gray-600
+                           bg-terminal-base dark:bg-dark focus:outline-none
+                           focus:border-terminal-primary dark:focus:border-cyan"
+                >
+                  {HOURS.map((hour) => (
+                    <option key={hour} value={hour}>
+                      {formatHour(hour)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+              <label htmlFor="max-nudges">Nudges per day, at most</label>
+              <select
+                id="max-nudges"
+                value={maxNudgesPerDay}
+                onChange={handleMaxNudgesChange}
+                className="px-2 py-1 rounded border-2 border-terminal-muted dark:border-gray-600
+                         bg-terminal-base dark:bg-dark focus:outline-none
+                         focus:border-terminal-primary dark:focus:border-cyan"
+              >
+                {MAX_NUDGES_PER_DAY.map((count) => (
+                  <option key={count} value={count}>
+                    {count}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="p-3 rounded-lg border-2 border-terminal-muted dark:border-gray-600 bg-terminal-base dark:bg-dark text-xs space-y-1">
+              {isLoadingHours ? (
+                <p className="flex items-center gap-2 text-terminal-muted dark:text-text-muted">
+                  <Loader2 className="animate-spin" size={12} />
+                  Finding your best hours...
+                </p>
+              ) : (
+                <p>
+                  {bestHours.length > 0
+                    ? `You recall best around ${formatHours(bestHours)}`
+                    : "Not enough study history yet to find your best hours"}
+                </p>
+              )}
+              <p className="text-terminal-muted dark:text-text-muted">
+                {reminderHours.length > 0
+                  ? `Reminders at ${formatHours(reminderHours)}`
+                  : "All your reminder hours fall in quiet hours"}
+              </p>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mt-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700">
+              <p className="font-mono text-sm text-red-600 dark:text-red-400">
+                {error}
+              </p>
+            </div>
+          )}
+
+          <div className="mt-6 flex justify-end">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 font-mono text-sm
+                       text-terminal-muted dark:text-text-muted
+                       hover:text-gray-700 dark:hover:text-gray-300
+                       transition-colors"
+            >
+              Close
+            </button>
+          </div>
+
+          <Dialog.Close asChild>
+            <button
+              onClick={onClose}
+              className="absolute top-4 right-4 p-1 rounded
+                       text-terminal-muted dark:text-text-muted
+                       hover:text-terminal-primary dark:hover:text-cyan
+                       transition-colors"
+              aria-label="Close"
+            >
+              <X size={20} />
+            </button>
+          </Dialog.Close>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState, useEffect, useCallback } from "react";
+import { ShieldCheck, AlertTriangle, Loader2 } from "lucide-react";
+import {
+  api,
+  ResearchConsent,
+  ResearchInfo,
+  ResearchScope,
+} from "../services/api";
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function hasSameScopes(a: ResearchScope[], b: ResearchScope[]) {
+  return a.length === b.length && a.every((scope) => b.includes(scope));
+}
+
+/**
+ * Privacy section of the profile: the research program's consent form and
+ * a choice of which data categories go into anonymized research exports.
+ * Asks the learner to confirm again when the consent form changes.
+ */
+export function ResearchConsentSection() {
+  const [consent, setConsent] = useState<ResearchConsent | null>(null);
+  const [info, setInfo] = useState<ResearchInfo | null>(null);
+  const [selectedScopes, setSelectedScopes] = useState<ResearchScope[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchConsent = async () => {
+      const [consentResponse, infoResponse] = await Promise.all([
+        api.getResearchConsent(),
+        api.getResearchInfo(),
+      ]);
+
+      if (consentResponse.error || infoResponse.error) {
+        setError(consentResponse.error || infoResponse.error || null);
+      }
+      if (consentResponse.data) {
+        setConsent(consentResponse.data.consent);
+        setSelectedScopes(consentResponse.data.consent.scopes);
+      }
+      if (infoResponse.data) {
+        setInfo(infoResponse.data.info);
+      }
+      setLoading(false);
+    };
+
+    fetchConsent();
+  }, []);
+
+  const handleScopeToggle = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const scope = e.currentTarget.dataset.scope as ResearchScope;
+      const checked = e.currentTarget.checked;
+      setSelectedScopes((current) =>
+        checked
+          ? [...current, scope]
+          : current.filter((selected) => selected !== scope),
+      );
+      setMessage(null);
+    },
+    [],
+  );
+
+  const handleToggleForm = useCallback(() => {
+    setShowForm((current) => !current);
+  }, []);
+
+  const saveConsent = useCallback(
+    async (agree: boolean) => {
+      setSaving(true);
+      setError(null);
+      setMessage(null);
+
+      const response = await api.updateResearchConsent(agree, selectedScopes);
+      if (response.error || !response.data) {
+        setError(response.error || "Failed to update consent");
+      } else {
+        setConsent(response.data.consent);
+        setSelectedScopes(response.data.consent.scopes);
+        setMessage(response.data.message);
+      }
+      setSaving(false);
+    },
+    [selectedScopes],
+  );
+
+  const handleSave = useCallback(() => {
+    saveConsent(true);
+  }, [saveConsent]);
+
+  const handleOptOut = useCallback(() => {
+    saveConsent(false);
+  }, [saveConsent]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="animate-spin" size={16} />
+        Loading privacy settings...
+      </div>
+    );
+  }
+
+  if (!consent || !info) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {error || "Privacy settings are unavailable"}
+      </p>
+    );
+  }
+
+  // Consent given to an older form no longer covers what the current one asks
+  const needsUpdate =
+    consent.needsUpdate ||
+    (consent.hasConsented && consent.consentVersion !== consent.currentVersion);
+  const isUnchanged =
+    consent.hasConsented &&
+    !needsUpdate &&
+    hasSameScopes(selectedScopes, consent.scopes);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="font-medium text-foreground flex items-center gap-2">
+            <ShieldCheck size={16} className="text-cyan" aria-hidden="true" />
+            {info.title}
+          </p>
+          <p className="text-sm text-muted-foreground mt-1">{info.summary}</p>
+        </div>
+        <span className="shrink-0 text-xs text-muted-foreground">
+          Form v{info.version} · {formatDate(info.lastUpdated)}
+        </span>
+      </div>
+
+      {needsUpdate && (
+        <div className="flex items-start gap-2 p-3 rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 text-sm text-foreground">
+          <AlertTriangle
+            size={16}
+            className="shrink-0 mt-0.5 text-amber-600 dark:text-amber-400"
+            aria-hidden="true"
+          />
+          <p>
+            The consent form has changed since you agreed to v
+            {consent.consentVersion}. Review the categories below and confirm to
+            keep sharing under v{consent.currentVersion}.
+          </p>
+        </div>
+      )}
+
+      <p className="text-sm text-foreground">
+        {consent.hasConsented && consent.consentDate
+          ? `Sharing ${consent.scopes.length} of ${info.dataCategories.length} categories since ${formatDate(consent.consentDate)}.`
+          : "You are not sharing any data with researchers."}
+      </p>
+
+      <div className="space-y-2">
+        {info.dataCategories.map((category) => (
+          <label
+            key={category.id}
+            className="flex items-start gap-3 p-3 rounded-lg border border-border bg-muted/30 cursor-pointer"
+          >
+            <input
+              type="checkbox"
+              data-scope={category.id}
+              checked={selectedScopes.includes(category.id)}
+              onChange={handleScopeToggle}
+              disabled={saving}
+              className="mt-1 accent-cyan"
+            />
+            <span>
+              <span className="block font-medium text-foreground">
+                {category.name}
+              </span>
+              <span className="block text-sm text-muted-foreground">
+                {category.description}
+              </span>
+              <span className="block text-xs text-muted-foreground mt-1">
+                {category.fields.join(" · ")}
+              </span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={handleToggleForm}
+        className="text-sm text-cyan hover:underline"
+      >
+        {showForm ? "Hide the consent form" : "Read the full consent form"}
+      </button>
+      {showForm && (
+        <div className="p-4 rounded-lg border border-border text-sm text-muted-foreground space-y-3">
+          <p className="whitespace-pre-line">{info.description}</p>
+          <ul className="list-disc pl-5">
+            {info.privacyMeasures.map((measure) => (
+              <li key={measure}>{measure}</li>
+            ))}
+          </ul>
+          <p>Questions: {info.contactEmail}</p>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {message && <p className="text-sm text-cyan">{message}</p>}
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={handleSave}
+          disabled={saving || selectedScopes.length === 0 || isUnchanged}
+          className="bg-primary hover:bg-primary/90 text-primary-foreground py-2 px-4 rounded-lg transition-all text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+        >
+          {saving && <Loader2 className="animate-spin" size={14} />}
+          {!consent.hasConsented
+            ? "Share selected data"
+            : needsUpdate
+              ? `Confirm v${consent.currentVersion}`
+              : "Save choices"}
+        </button>
+        {consent.hasConsented && (
+          <button
+            onClick={handleOptOut}
+            disabled={saving}
+            className="bg-secondary hover:bg-secondary/80 text-secondary-foreground py-2 px-4 rounded-lg transition-all text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Opt out
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
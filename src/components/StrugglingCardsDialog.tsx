@@ -0,0 +1,644 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+// skipcq: JS-C1003 - Radix UI Dialog components require namespace import
+import * as Dialog from "@radix-ui/react-dialog";
+import { X, Wrench, Loader2 } from "lucide-react";
+import { db } from "../storage/database";
+import { Deck } from "../lib/srs-engine";
+import { DeckId } from "../types/ids";
+import { QUEUE_TYPES } from "../core";
+import { useAuth } from "../contexts/AuthContext";
+import type { HardestCard, StruggleType } from "../services/api";
+import {
+  getDeckDifficulty,
+  getStrugglingCards,
+  suggestSplit,
+  type StrugglingCardEntry,
+  type StrugglingCardsReport,
+} from "../lib/struggle-analysis";
+
+interface StrugglingCardsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChanged: (message: string) => Promise<void>;
+  decks: Deck[];
+}
+
+type WorkbenchMode = "list" | "edit" | "split" | "confirmReset";
+
+const STRUGGLE_LABELS: Record<StruggleType, string> = {
+  high_fail_rate: "Often failed",
+  repeated_lapses: "Keeps lapsing",
+  getting_worse: "Getting worse",
+  slow_recall: "Slow recall",
+  moderate_struggle: "Struggling",
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+function getCardState(entry: StrugglingCardEntry): string {
+  return entry.card.queue === QUEUE_TYPES.SUSPENDED
+    ? "suspended"
+    : entry.card.status;
+}
+
+/**
+ * Workbench listing each deck's struggling cards with their difficulty
+ * metrics, to edit, split, suspend or reset in bulk. Metrics come from the
+ * server's learning analytics, or from this device's reviews when offline.
+ */
+export function StrugglingCardsDialog({
+  isOpen,
+  onClose,
+  onChanged,
+  decks,
+}: StrugglingCardsDialogProps) {
+  const { user } = useAuth();
+  const [report, setReport] = useState<StrugglingCardsReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [deckId, setDeckId] = useState<DeckId | null>(null);
+  const [difficulty, setDifficulty] = useState<Map<string, HardestCard>>(
+    new Map(),
+  );
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [mode, setMode] = useState<WorkbenchMode>("list");
+  const [edits, setEdits] = useState<
+    Record<string, { front: string; back: string }>
+  >({});
+  const [splits, setSplits] = useState<Record<string, string>>({});
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const deckNames = useMemo(
+    () => new Map(decks.map((deck) => [deck.id, deck.name])),
+    [decks],
+  );
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const loaded = await getStrugglingCards(user?.id);
+      setReport(loaded);
+      setDeckId((current) =>
+        current && loaded.decks.some((deck) => deck.deckId === current)
+          ? current
+          : (loaded.decks[0]?.deckId ?? null),
+      );
+    } catch {
+      setError("Failed to load struggling cards");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedIds(new Set());
+      setMode("list");
+      setError(null);
+      loadReport();
+    }
+  }, [isOpen, loadReport]);
+
+  // Cross-user difficulty is only known to the server
+  useEffect(() => {
+    setDifficulty(new Map());
+    if (!deckId || report?.source !== "server") return;
+
+    let cancelled = false;
+    getDeckDifficulty(deckId).then((loaded) => {
+      if (!cancelled) setDifficulty(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [deckId, report]);
+
+  const entries = useMemo(
+    () => report?.decks.find((deck) => deck.deckId === deckId)?.cards ?? [],
+    [report, deckId],
+  );
+  const selectedEntries = entries.filter((entry) =>
+    selectedIds.has(entry.card.id),
+  );
+  // Note cards are regenerated from their note, so they are edited there
+  const editableEntries = selectedEntries.filter((entry) => !entry.card.noteId);
+
+  const handleDeckChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setDeckId(e.target.value as DeckId);
+      setSelectedIds(new Set());
+      setMode("list");
+    },
+    [],
+  );
+
+  const handleToggleCard = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const cardId = e.currentTarget.dataset.cardId;
+      if (!cardId) return;
+
+      setSelectedIds((current) => {
+        const next = new Set(current);
+        if (next.has(cardId)) next.delete(cardId);
+        else next.add(cardId);
+        return next;
+      });
+    },
+    [],
+  );
+
+  const handleToggleAll = useCallback(() => {
+    setSelectedIds((current) =>
+      current.size === entries.length
+        ? new Set()
+        : new Set(entries.map((entry) => entry.card.id)),
+    );
+  }, [entries]);
+
+  /** Run a bulk action, then report it and reload the metrics. */
+  const runAction = useCallback(
+    async (action: () => Promise<string>) => {
+      setIsWorking(true);
+      setError(null);
+      try {
+        const message = await action();
+        setSelectedIds(new Set());
+        setMode("list");
+        await onChanged(message);
+        await loadReport();
+      } catch {
+        setError("Failed to update cards");
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [onChanged, loadReport],
+  );
+
+  const handleSuspend = useCallback(() => {
+    const cardIds = selectedEntries.map((entry) => entry.card.id);
+    runAction(async () => {
+      await db.suspendCards(cardIds);
+      return `Suspended ${cardIds.length} cards`;
+    });
+  }, [selectedEntries, runAction]);
+
+  const handleRequestReset = useCallback(() => {
+    setMode("confirmReset");
+  }, []);
+
+  const handleConfirmReset = useCallback(() => {
+    const cardIds = selectedEntries.map((entry) => entry.card.id);
+    runAction(async () => {
+      await db.resetCards(cardIds);
+      return `Reset ${cardIds.length} cards to new`;
+    });
+  }, [selectedEntries, runAction]);
+
+  const handleStartEdit = useCallback(() => {
+    setEdits(
+      Object.fromEntries(
+        editableEntries.map(({ card }) => [
+          card.id,
+          { front: card.front, back: card.back },
+        ]),
+      ),
+    );
+    setMode("edit");
+  }, [editableEntries]);
+
+  const handleEditChange = useCallback(
+    (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+      const { cardId, side } = e.currentTarget.dataset;
+      const value = e.currentTarget.value;
+      if (!cardId || (side !== "front" && side !== "back")) return;
+
+      setEdits((current) => ({
+        ...current,
+        [cardId]: { ...current[cardId], [side]: value },
+      }));
+    },
+    [],
+  );
+
+  const handleSaveEdits = useCallback(() => {
+    runAction(async () => {
+      let saved = 0;
+      for (const { card } of editableEntries) {
+        const edit = edits[card.id];
+        if (!edit?.front.trim() || !edit.back.trim()) continue;
+        if (edit.front === card.front && edit.back === card.back) continue;
+
+        await db.updateCard(card.id, { front: edit.front, back: edit.back });
+        saved++;
+      }
+      return `Edited ${saved} cards`;
+    });
+  }, [editableEntries, edits, runAction]);
+
+  const handleStartSplit = useCallback(() => {
+    setSplits(
+      Object.fromEntries(
+        selectedEntries.map(({ card }) => [
+          card.id,
+          suggestSplit(card.back).join("\n"),
+        ]),
+      ),
+    );
+    setMode("split");
+  }, [selectedEntries]);
+
+  const handleSplitChange = useCallback(
+    (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+      const cardId = e.currentTarget.dataset.cardId;
+      const value = e.currentTarget.value;
+      if (!cardId) return;
+
+      setSplits((current) => ({ ...current, [cardId]: value }));
+    },
+    [],
+  );
+
+  const handleSaveSplits = useCallback(() => {
+    runAction(async () => {
+      let split = 0;
+      let created = 0;
+      for (const { card } of selectedEntries) {
+        const parts = (splits[card.id] ?? "")
+          .split("\n")
+          .map((part) => part.trim())
+          .filter(Boolean);
+        if (parts.length < 2) continue;
+
+        created += (await db.splitCard(card.id, parts)).length;
+        split++;
+      }
+      return `Split ${split} cards into ${created}`;
+    });
+  }, [selectedEntries, splits, runAction]);
+
+  const handleCancelMode = useCallback(() => {
+    setMode("list");
+  }, []);
+
+  const handleOpenChange = useCallback(
+    (open: boolean) => {
+      if (!open && !isWorking) onClose();
+    },
+    [isWorking, onClose],
+  );
+
+  const hasSelection = selectedEntries.length > 0;
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={handleOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+        <Dialog.Content
+          className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2
+                     w-full max-w-4xl p-6 rounded-lg
+                     bg-terminal-surface dark:bg-dark-surface
+                     border-2 border-terminal-primary dark:border-cyan
+                     shadow-terminal-glow dark:shadow-cyan-glow
+                     z-50 max-h-[90vh] overflow-y-auto"
+        >
+          <Dialog.Title className="font-mono text-lg font-bold text-terminal-primary dark:text-cyan flex items-center gap-2">
+            <Wrench size={20} />
+            [STRUGGLING_CARDS]
+          </Dialog.Title>
+
+          <Dialog.Description className="mt-2 font-mono text-sm text-terminal-muted dark:text-text-muted">
+            Cards you keep failing, lapsing on or recalling slowly. Rewrite
+            them, split them into smaller cards, set them aside or start them
+            over.
+          </Dialog.Description>
+
+          {report && (
+            <p className="mt-2 font-mono text-xs text-terminal-muted dark:text-text-muted">
+              {report.source === "server"
+                ? "Scored from your reviews on every device"
+                : "Offline: scored from reviews on this device"}
+            </p>
+          )}
+
+          {isLoading && !report && (
+            <div className="mt-6 flex justify-center">
+              <Loader2
+                className="animate-spin text-terminal-primary dark:text-cyan"
+                size={24}
+              />
+            </div>
+          )}
+
+          {report && report.decks.length === 0 && (
+            <p className="mt-6 font-mono text-sm text-terminal-muted dark:text-text-muted">
+              No struggling cards. Cards need at least three reviews to be
+              scored.
+            </p>
+          )}
+
+          {report && report.decks.length > 0 && (
+            <div className="mt-6 font-mono text-sm text-gray-700 dark:text-gray-300">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <select
+                  value={deckId ?? ""}
+                  onChange={handleDeckChange}
+                  disabled={isWorking}
+                  className="px-3 py-2 rounded border-2 border-terminal-muted dark:border-gray-600
+                           bg-terminal-base dark:bg-dark focus:outline-none
+                           focus:border-terminal-primary dark:focus:border-cyan"
+                >
+                  {report.decks.map((deck) => (
+                    <option key={deck.deckId} value={deck.deckId}>
+                      {deckNames.get(deck.deckId) ?? deck.deckId} (
+                      {deck.cards.length})
+                    </option>
+                  ))}
+                </select>
+
+                {mode === "list" && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleStartEdit}
+                      disabled={editableEntries.length === 0 || isWorking}
+                      className="px-3 py-1 text-xs rounded border border-terminal-muted dark:border-gray-600
+                               hover:border-terminal-primary dark:hover:border-cyan
+                               disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={handleStartSplit}
+                      disabled={!hasSelection || isWorking}
+                      className="px-3 py-1 text-xs rounded border border-terminal-muted dark:border-gray-600
+                               hover:border-terminal-primary dark:hover:border-cyan
+                               disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      Split
+                    </button>
+                    <button
+                      onClick={handleSuspend}
+                      disabled={!hasSelection || isWorking}
+                      className="px-3 py-1 text-xs rounded border border-terminal-muted dark:border-gray-600
+                               hover:border-terminal-primary dark:hover:border-cyan
+                               disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      Suspend
+                    </button>
+                    <button
+                      onClick={handleRequestReset}
+                      disabled={!hasSelection || isWorking}
+                      className="px-3 py-1 text-xs rounded border border-red-300 dark:border-red-700
+                               text-red-600 dark:text-red-400
+                               hover:bg-red-50 dark:hover:bg-red-900/20
+                               disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      Reset
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {mode === "confirmReset" && (
+                <div className="mt-3 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 flex items-center justify-between gap-3">
+                  <span className="text-xs text-red-600 dark:text-red-400">
+                    Start {selectedEntries.length} cards over as new? Their
+                    review history is kept.
+                  </span>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      onClick={handleCancelMode}
+                      disabled={isWorking}
+                      className="px-3 py-1 text-xs text-terminal-muted dark:text-text-muted hover:text-gray-700 dark:hover:text-gray-300"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleConfirmReset}
+                      disabled={isWorking}
+                      className="px-3 py-1 text-xs font-bold rounded bg-red-600 text-white disabled:opacity-50 flex items-center gap-1"
+                    >
+                      {isWorking && (
+                        <Loader2 className="animate-spin" size={12} />
+                      )}
+                      Confirm
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {mode === "edit" && (
+                <div className="mt-4 space-y-3">
+                  {editableEntries.length < selectedEntries.length && (
+                    <p className="text-xs text-terminal-muted dark:text-text-muted">
+                      Cards made from a note are left out; edit their note in
+                      the deck instead.
+                    </p>
+                  )}
+                  {editableEntries.map(({ card }) => (
+                    <div
+                      key={card.id}
+                      className="grid grid-cols-2 gap-2 p-3 rounded-lg border-2 border-terminal-muted dark:border-gray-600 bg-terminal-base dark:bg-dark"
+                    >
+                      {(["front", "back"] as const).map((side) => (
+                        <textarea
+                          key={side}
+                          value={edits[card.id]?.[side] ?? ""}
+                          onChange={handleEditChange}
+                          data-card-id={card.id}
+                          data-side={side}
+                          disabled={isWorking}
+                          rows={3}
+                          aria-label={side === "front" ? "Front" : "Back"}
+                          className="w-full px-2 py-1 text-xs rounded border border-terminal-muted dark:border-gray-600
+                                   bg-terminal-surface dark:bg-dark-surface focus:outline-none
+                                   focus:border-terminal-primary dark:focus:border-cyan"
+                        />
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {mode === "split" && (
+                <div className="mt-4 space-y-3">
+                  <p className="text-xs text-terminal-muted dark:text-text-muted">
+                    Each line becomes a card asking the same question for that
+                    part of the answer. The original card is suspended; cards
+                    left with one line are not split.
+                  </p>
+                  {selectedEntries.map(({ card }) => (
+                    <div
+                      key={card.id}
+                      className="p-3 rounded-lg border-2 border-terminal-muted dark:border-gray-600 bg-terminal-base dark:bg-dark"
+                    >
+                      <p className="text-xs font-bold truncate">
+                        {card.front || "(empty)"}
+                      </p>
+                      <textarea
+                        value={splits[card.id] ?? ""}
+                        onChange={handleSplitChange}
+                        data-card-id={card.id}
+                        disabled={isWorking}
+                        rows={4}
+                        aria-label="Answer parts, one per line"
+                        className="mt-2 w-full px-2 py-1 text-xs rounded border border-terminal-muted dark:border-gray-600
+                                 bg-terminal-surface dark:bg-dark-surface focus:outline-none
+                                 focus:border-terminal-primary dark:focus:border-cyan"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {(mode === "edit" || mode === "split") && (
+                <div className="mt-3 flex justify-end gap-2">
+                  <button
+                    onClick={handleCancelMode}
+                    disabled={isWorking}
+                    className="px-3 py-1 text-xs text-terminal-muted dark:text-text-muted hover:text-gray-700 dark:hover:text-gray-300"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={
+                      mode === "edit" ? handleSaveEdits : handleSaveSplits
+                    }
+                    disabled={isWorking}
+                    className="px-3 py-1 text-xs font-bold rounded
+                             bg-terminal-primary dark:bg-cyan text-paper dark:text-dark
+                             disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+                  >
+                    {isWorking && (
+                      <Loader2 className="animate-spin" size={12} />
+                    )}
+                    {mode === "edit" ? "Save edits" : "Split cards"}
+                  </button>
+                </div>
+              )}
+
+              {mode !== "edit" && mode !== "split" && (
+                <table className="mt-4 w-full table-fixed text-xs">
+                  <thead>
+                    <tr className="text-left text-terminal-muted dark:text-text-muted">
+                      <th className="w-8 pb-1 font-normal">
+                        <input
+                          type="checkbox"
+                          checked={
+                            entries.length > 0 &&
+                            selectedIds.size === entries.length
+                          }
+                          onChange={handleToggleAll}
+                          disabled={isWorking}
+                          aria-label="Select all"
+                          className="accent-terminal-primary dark:accent-cyan"
+                        />
+                      </th>
+                      <th className="pb-1 font-normal">Card</th>
+                      <th className="w-16 pb-1 font-normal">Score</th>
+                      <th className="w-16 pb-1 font-normal">Failed</th>
+                      <th className="w-16 pb-1 font-normal">Lapses</th>
+                      <th className="w-16 pb-1 font-normal">Reviews</th>
+                      <th className="w-16 pb-1 font-normal">Avg time</th>
+                      <th className="w-28 pb-1 font-normal">Problem</th>
+                      <th className="w-20 pb-1 font-normal">All users</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entries.map((entry) => {
+                      const { card, metrics } = entry;
+                      const shared = difficulty.get(card.id);
+
+                      return (
+                        <tr
+                          key={card.id}
+                          className="border-t border-terminal-muted/30 dark:border-gray-700 align-top"
+                        >
+                          <td className="py-2">
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.has(card.id)}
+                              onChange={handleToggleCard}
+                              data-card-id={card.id}
+                              disabled={isWorking}
+                              aria-label={`Select ${card.front}`}
+                              className="accent-terminal-primary dark:accent-cyan"
+                            />
+                          </td>
+                          <td className="py-2 pr-2">
+                            <p className="truncate font-bold">
+                              {card.front || "(empty)"}
+                            </p>
+                            <p className="truncate text-terminal-muted dark:text-text-muted">
+                              {card.back || "(empty)"} · {getCardState(entry)}
+                            </p>
+                          </td>
+                          <td className="py-2">
+                            {formatPercent(metrics.struggleScore)}
+                          </td>
+                          <td className="py-2">
+                            {formatPercent(
+                              metrics.failCount / metrics.reviewCount,
+                            )}
+                          </td>
+                          <td className="py-2">{metrics.totalLapses}</td>
+                          <td className="py-2">{metrics.reviewCount}</td>
+                          <td className="py-2">
+                            {(metrics.avgTimeMs / 1000).toFixed(1)}s
+                          </td>
+                          <td className="py-2" title={metrics.recommendation}>
+                            {STRUGGLE_LABELS[metrics.struggleType]}
+                          </td>
+                          <td className="py-2">
+                            {shared
+                              ? `${formatPercent(shared.globalSuccessRate)} pass`
+                              : "—"}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="mt-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700">
+              <p className="font-mono text-sm text-red-600 dark:text-red-400">
+                {error}
+              </p>
+            </div>
+          )}
+
+          <div className="mt-6 flex justify-end">
+            <button
+              onClick={onClose}
+              disabled={isWorking}
+              className="px-4 py-2 font-mono text-sm
+                       text-terminal-muted dark:text-text-muted
+                       hover:text-gray-700 dark:hover:text-gray-300
+                       transition-colors"
+            >
+              Close
+            </button>
+          </div>
+
+          <Dialog.Close asChild>
+            <button
+              onClick={onClose}
+              disabled={isWorking}
+              className="absolute top-4 right-4 p-1 rounded
+                       text-terminal-muted dark:text-text-muted
+                       hover:text-terminal-primary dark:hover:text-cyan
+                       transition-colors"
+              aria-label="Close"
+            >
+              <X size={20} />
+            </button>
+          </Dialog.Close>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
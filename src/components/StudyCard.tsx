@@ -1,29 +1,61 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Card } from "../lib/srs-engine";
+import { Card, SRSEngine } from "../lib/srs-engine";
+import type { Scheduler } from "../core/scheduler";
 import { getMediaUrl } from "../lib/anki-import";
+import { gradeTypedAnswer, type TypedAnswerGrade } from "../lib/typed-answer";
+import type { MultipleChoiceQuestion } from "../lib/multiple-choice";
+import type { AnswerMode } from "../hooks/useStudySettings";
 import { SafeHtml } from "./SafeHtml";
+import { MultipleChoiceOptions } from "./study/MultipleChoiceOptions";
 import { Volume2, Clock, BarChart3 } from "lucide-react";
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DIFF_CLASSES: Record<TypedAnswerGrade["diff"][number]["type"], string> = {
+  equal: "text-green dark:text-emerald-400",
+  extra: "text-red-600 dark:text-red-400 line-through",
+  missing: "text-amber-dark dark:text-amber underline",
+};
+
 interface StudyCardProps {
   card: Card;
-  onRate: (rating: number) => void;
+  scheduler: Scheduler;
+  onRate: (rating: number, typedAnswer?: TypedAnswerGrade) => void;
   onFlip?: () => void;
   currentStreak: number;
   totalReviewed: number;
   fontSize?: number;
+  answerMode?: AnswerMode;
+  onAnswerKeyDown?: (key: string) => void;
+  onAnswerPaste?: () => void;
+  onAnswerChange?: (value: string) => void;
+  choices?: MultipleChoiceQuestion | null;
+  onOptionHover?: (optionIndex: number, durationMs: number) => void;
+  onOptionSelect?: (optionIndex: number) => void;
 }
 
 export default function StudyCard({
   card,
+  scheduler,
   onRate,
   onFlip,
   currentStreak,
   totalReviewed,
   fontSize = 16,
+  answerMode = "self_rating",
+  onAnswerKeyDown,
+  onAnswerPaste,
+  onAnswerChange,
+  choices,
+  onOptionHover,
+  onOptionSelect,
 }: StudyCardProps) {
+  const isTyped = answerMode === "typed_response";
+  // Without enough other answers in the deck, fall back to revealing
+  const isChoice = answerMode === "multiple_choice" && Boolean(choices);
   const [isFlipped, setIsFlipped] = useState(false);
   const [showRating, setShowRating] = useState(false);
   const [startTime, setStartTime] = useState(Date.now());
@@ -32,6 +64,9 @@ export default function StudyCard({
   const [backAudioUrl, setBackAudioUrl] = useState<string | null>(null);
   const [frontImageUrl, setFrontImageUrl] = useState<string | null>(null);
   const [backImageUrl, setBackImageUrl] = useState<string | null>(null);
+  const [typedAnswer, setTypedAnswer] = useState("");
+  const [grade, setGrade] = useState<TypedAnswerGrade | null>(null);
+  const [selectedOption, setSelectedOption] = useState<number | null>(null);
 
   // Load media URLs when card changes
   useEffect(() => {
@@ -103,6 +138,9 @@ export default function StudyCard({
     setShowRating(false);
     setStartTime(Date.now());
     setSelectedRating(null);
+    setTypedAnswer("");
+    setGrade(null);
+    setSelectedOption(null);
   }, [card.id]);
 
   const handleFlip = () => {
@@ -114,14 +152,71 @@ export default function StudyCard({
     }
   };
 
-  const handleRate = (rating: number) => {
-    setSelectedRating(rating);
+  const handleRate = useCallback(
+    (rating: number) => {
+      setSelectedRating(rating);
 
-    // Add a satisfying delay before moving to next card
-    setTimeout(() => {
-      onRate(rating);
-    }, 400);
-  };
+      // Add a satisfying delay before moving to next card
+      setTimeout(() => {
+        onRate(rating, grade ?? undefined);
+      }, 400);
+    },
+    [onRate, grade],
+  );
+
+  /** Grade the typed answer, then reveal the back with the diff. */
+  const handleCheckAnswer = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      if (isFlipped) return;
+      setGrade(gradeTypedAnswer(typedAnswer, card));
+      setIsFlipped(true);
+      setTimeout(() => setShowRating(true), 300);
+      onFlip?.();
+    },
+    [isFlipped, typedAnswer, card, onFlip],
+  );
+
+  const handleTypedAnswerChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setTypedAnswer(e.target.value);
+      onAnswerChange?.(e.target.value);
+    },
+    [onAnswerChange],
+  );
+
+  const handleTypedAnswerKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLInputElement>) => {
+      // Count characters and deletions, not modifiers or navigation
+      if (e.key.length === 1 || e.key === "Backspace" || e.key === "Delete") {
+        onAnswerKeyDown?.(e.key);
+      }
+    },
+    [onAnswerKeyDown],
+  );
+
+  const handleTypedAnswerPaste = useCallback(() => {
+    onAnswerPaste?.();
+  }, [onAnswerPaste]);
+
+  /** Lock in a multiple-choice answer and reveal the back. */
+  const handleOptionSelect = useCallback(
+    (optionIndex: number) => {
+      if (isFlipped) return;
+      setSelectedOption(optionIndex);
+      onOptionSelect?.(optionIndex);
+      setIsFlipped(true);
+      setTimeout(() => setShowRating(true), 300);
+      onFlip?.();
+    },
+    [isFlipped, onOptionSelect, onFlip],
+  );
+
+  // Typed answers suggest from similarity; choices from right or wrong
+  let suggestedRating: number | undefined = grade?.suggestedRating;
+  if (isChoice && choices && selectedOption !== null) {
+    suggestedRating = selectedOption === choices.correctIndex ? 3 : 1;
+  }
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === "Enter" || e.key === " ") {
@@ -137,7 +232,21 @@ export default function StudyCard({
         handleRate(parseInt(rating));
       }
     },
-    [],
+    [handleRate],
+  );
+
+  // Interval previews come from the deck's scheduler so they match what a rating will do
+  const intervalPreviews = useMemo(
+    () =>
+      [1, 2, 3, 4].map((rating) => {
+        // Learning steps are minutes away, so preview from the due time
+        const { due } = scheduler.updateCard(card, rating);
+        const days = due
+          ? (new Date(due).getTime() - Date.now()) / DAY_MS
+          : scheduler.getNextInterval(card, rating);
+        return SRSEngine.formatInterval(days);
+      }),
+    [card, scheduler],
   );
 
   // Rating buttons using terminal color palette
@@ -146,7 +255,7 @@ export default function StudyCard({
     {
       value: 1,
       label: "Again",
-      interval: "1 day",
+      interval: intervalPreviews[0],
       bgColor: "bg-red-500/10 dark:bg-red-500/20",
       hoverColor: "hover:bg-red-500/20 dark:hover:bg-red-500/30",
       textColor: "text-red-600 dark:text-red-400",
@@ -155,7 +264,7 @@ export default function StudyCard({
     {
       value: 2,
       label: "Hard",
-      interval: "3 days",
+      interval: intervalPreviews[1],
       bgColor: "bg-amber/10 dark:bg-amber/20",
       hoverColor: "hover:bg-amber/20 dark:hover:bg-amber/30",
       textColor: "text-amber-dark dark:text-amber",
@@ -164,7 +273,7 @@ export default function StudyCard({
     {
       value: 3,
       label: "Good",
-      interval: "10 days",
+      interval: intervalPreviews[2],
       bgColor: "bg-cyan/10 dark:bg-cyan/20",
       hoverColor: "hover:bg-cyan/20 dark:hover:bg-cyan/30",
       textColor: "text-cyan-dark dark:text-cyan",
@@ -173,7 +282,7 @@ export default function StudyCard({
     {
       value: 4,
       label: "Easy",
-      interval: "20 days",
+      interval: intervalPreviews[3],
       bgColor: "bg-green/10 dark:bg-emerald-500/20",
       hoverColor: "hover:bg-green/20 dark:hover:bg-emerald-500/30",
       textColor: "text-green dark:text-emerald-400",
@@ -181,18 +290,21 @@ export default function StudyCard({
     },
   ];
 
+  // Typed and multiple-choice answers reveal the back once answered
+  const canReveal = !isFlipped && !isTyped && !isChoice;
+
   return (
     <div className="max-w-4xl mx-auto px-6 py-12 flex flex-col items-center justify-center min-h-[calc(100vh-300px)]">
       {/* Card Container - Simple Reveal */}
       <div className="w-full max-w-2xl space-y-6">
         {/* Question Card */}
         <div
-          onClick={!isFlipped ? handleFlip : undefined}
-          onKeyDown={!isFlipped ? handleKeyDown : undefined}
-          tabIndex={!isFlipped ? 0 : -1}
-          role={!isFlipped ? "button" : undefined}
-          aria-label={!isFlipped ? "Click to reveal answer" : undefined}
-          className={`${!isFlipped ? "cursor-pointer hover:border-cyan dark:hover:border-cyan hover:shadow-[0_0_20px_rgba(0,217,255,0.2)]" : ""} bg-paper dark:bg-dark-surface rounded-2xl shadow-2xl p-8 flex flex-col items-center justify-center border-2 border-ink/10 dark:border-cyan/30 transition-all min-h-[200px]`}
+          onClick={canReveal ? handleFlip : undefined}
+          onKeyDown={canReveal ? handleKeyDown : undefined}
+          tabIndex={canReveal ? 0 : -1}
+          role={canReveal ? "button" : undefined}
+          aria-label={canReveal ? "Click to reveal answer" : undefined}
+          className={`${canReveal ? "cursor-pointer hover:border-cyan dark:hover:border-cyan hover:shadow-[0_0_20px_rgba(0,217,255,0.2)]" : ""} bg-paper dark:bg-dark-surface rounded-2xl shadow-2xl p-8 flex flex-col items-center justify-center border-2 border-ink/10 dark:border-cyan/30 transition-all min-h-[200px]`}
         >
           {frontAudioUrl && (
             <button
@@ -206,7 +318,7 @@ export default function StudyCard({
 
           <div className="text-center w-full">
             <span className="inline-block px-3 py-1 bg-cyan/10 dark:bg-cyan/20 text-cyan-dark dark:text-cyan text-xs font-semibold font-mono rounded-full mb-4">
-              [QUESTION]
+              {card.clozeOrd ? `[CLOZE ${card.clozeOrd}]` : "[QUESTION]"}
             </span>
             {frontImageUrl && (
               <div className="mb-4">
@@ -231,9 +343,48 @@ export default function StudyCard({
                 {card.front}
               </h3>
             )}
+            {isTyped && (
+              <form
+                onSubmit={handleCheckAnswer}
+                className="w-full flex gap-2 mb-4"
+              >
+                <input
+                  type="text"
+                  value={typedAnswer}
+                  onChange={handleTypedAnswerChange}
+                  onKeyDown={handleTypedAnswerKeyDown}
+                  onPaste={handleTypedAnswerPaste}
+                  disabled={isFlipped}
+                  autoFocus
+                  autoComplete="off"
+                  spellCheck={false}
+                  aria-label="Your answer"
+                  placeholder="Type your answer"
+                  className="flex-1 px-4 py-2 rounded-lg border-2 border-ink/10 dark:border-cyan/30 bg-white dark:bg-dark font-mono text-ink dark:text-text-primary focus:outline-none focus:border-cyan disabled:opacity-60"
+                />
+                {!isFlipped && (
+                  <button
+                    type="submit"
+                    className="px-4 py-2 rounded-lg bg-cyan/10 dark:bg-cyan/20 text-cyan-dark dark:text-cyan font-mono font-semibold border border-cyan/40 hover:bg-cyan/20 dark:hover:bg-cyan/30 transition-colors"
+                  >
+                    Check
+                  </button>
+                )}
+              </form>
+            )}
+            {isChoice && choices && (
+              <MultipleChoiceOptions
+                question={choices}
+                selectedIndex={selectedOption}
+                onSelect={handleOptionSelect}
+                onHover={onOptionHover}
+              />
+            )}
             {!isFlipped && (
               <p className="text-ink-light dark:text-text-muted text-lg font-mono">
-                &gt; Click to reveal answer
+                {isTyped && "> Press Enter to check your answer"}
+                {isChoice && "> Pick the correct answer"}
+                {canReveal && "> Click to reveal answer"}
               </p>
             )}
           </div>
@@ -263,6 +414,32 @@ export default function StudyCard({
                 <span className="inline-block px-3 py-1 bg-amber/10 dark:bg-amber/20 text-amber-dark dark:text-amber text-xs font-semibold font-mono rounded-full mb-4">
                   [ANSWER]
                 </span>
+                {grade && (
+                  <div className="mb-4 font-mono">
+                    <p
+                      className="text-lg break-words"
+                      aria-label="Your answer compared with the expected answer"
+                    >
+                      {grade.diff.length > 0 ? (
+                        grade.diff.map((segment, index) => (
+                          <span
+                            key={index}
+                            className={DIFF_CLASSES[segment.type]}
+                          >
+                            {segment.text}
+                          </span>
+                        ))
+                      ) : (
+                        <span className="text-ink-light dark:text-text-muted">
+                          (no answer)
+                        </span>
+                      )}
+                    </p>
+                    <p className="mt-1 text-xs text-ink-light dark:text-text-muted">
+                      {Math.round(grade.similarity * 100)}% match
+                    </p>
+                  </div>
+                )}
                 {backImageUrl && (
                   <div className="mb-4">
                     <img
@@ -304,6 +481,7 @@ export default function StudyCard({
             >
               {ratingButtons.map((btn) => {
                 const isSelected = selectedRating === btn.value;
+                const isSuggested = suggestedRating === btn.value;
                 return (
                   <button
                     key={btn.value}
@@ -312,10 +490,15 @@ export default function StudyCard({
                     disabled={selectedRating !== null}
                     className={`py-3 px-4 ${btn.bgColor} ${btn.hoverColor} ${btn.textColor} font-semibold rounded-lg transition-all border ${btn.borderColor} hover:shadow-lg ${
                       selectedRating !== null && !isSelected ? "opacity-30" : ""
-                    }`}
+                    } ${isSuggested ? "ring-2 ring-current" : ""}`}
                   >
                     <div className="text-sm">{btn.label}</div>
                     <div className="text-xs opacity-75">{btn.interval}</div>
+                    {isSuggested && (
+                      <div className="text-[10px] font-mono uppercase opacity-75">
+                        suggested
+                      </div>
+                    )}
                   </button>
                 );
               })}
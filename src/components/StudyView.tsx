@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Card, Deck } from "../lib/srs-engine";
 import { db } from "../storage/database";
@@ -9,16 +9,91 @@ import { reviewEventCapture } from "../services/review-event-capture";
 import { DeckId } from "../types/ids";
 import { useStudySettings } from "../hooks/useStudySettings";
 import { FontSizeControl } from "./study/FontSizeControl";
+import { AnswerModeControl } from "./study/AnswerModeControl";
+import { StudyInsightBanner } from "./study/StudyInsightBanner";
+import { SessionPacingNotice } from "./study/SessionPacingNotice";
+import type { TypedAnswerGrade } from "../lib/typed-answer";
+import { buildMultipleChoice } from "../lib/multiple-choice";
+import { loadStudyInsights, type CardInsight } from "../lib/study-insights";
+import { DEFAULT_DECK_CONFIG } from "../core";
+import { Scheduler, schedulerRegistry } from "../core/scheduler";
+import { calculateLiveSessionHealth } from "../types/study-sessions";
+
+// Cards to study after dismissing the pacing notice before it shows again
+const PACING_RENOTIFY_CARDS = 10;
 
 interface StudyViewProps {
   onBack: () => void;
   initialDeckId?: DeckId;
 }
 
+/**
+ * Whether a just-reviewed card is sitting in a minute-level learning step
+ * that comes due again before the day is over.
+ */
+function isInLearningStep(card: Card): boolean {
+  if (card.status !== "learning" && card.status !== "relearning") return false;
+  const endOfDay = new Date();
+  endOfDay.setHours(23, 59, 59, 999);
+  return new Date(card.due).getTime() <= endOfDay.getTime();
+}
+
+/**
+ * Moves the first card that is due by a given time to the front of the
+ * queue, so cards in a learning step wait until their step is up.
+ * @param queue - Cards left to study.
+ * @param now - The time cards must be due by.
+ * @returns The reordered queue, or null if no card is due yet.
+ */
+function bringDueCardForward(queue: Card[], now: Date): Card[] | null {
+  const index = queue.findIndex(
+    (card) => new Date(card.due).getTime() <= now.getTime(),
+  );
+  if (index === -1) return null;
+  return [queue[index], ...queue.slice(0, index), ...queue.slice(index + 1)];
+}
+
+/** When the first of the queued cards comes due. */
+function getNextDue(queue: Card[]): Date {
+  return new Date(
+    Math.min(...queue.map((card) => new Date(card.due).getTime())),
+  );
+}
+
+/**
+ * Rough effort a card takes to review: known cards, then cards still being
+ * learned, then new cards.
+ */
+function getReviewEffort(card: Card): number {
+  if (card.status === "new") return 2;
+  if (card.status === "review") return 0;
+  return 1;
+}
+
+/** Order cards easiest first, for when the learner is tiring. */
+function orderEasiestFirst(cards: Card[]): Card[] {
+  return [...cards].sort(
+    (a, b) =>
+      getReviewEffort(a) - getReviewEffort(b) ||
+      a.lapses - b.lapses ||
+      b.easeFactor - a.easeFactor,
+  );
+}
+
 export function StudyView({ onBack, initialDeckId }: StudyViewProps) {
-  const { isAuthenticated } = useAuth();
-  const { startSession, endSession, recordCardCompleted } = useSession();
-  const { fontSize, increaseFontSize, decreaseFontSize } = useStudySettings();
+  const { isAuthenticated, user } = useAuth();
+  const {
+    startSession,
+    endSession,
+    recordCardCompleted,
+    pauseSession,
+    resumeSession,
+    isSessionActive,
+    sessionHealth,
+    optimalSessionLength,
+  } = useSession();
+  const { fontSize, answerMode, increaseFontSize, decreaseFontSize } =
+    useStudySettings();
   const [currentCard, setCurrentCard] = useState<Card | null>(null);
   const [dueCards, setDueCards] = useState<Card[]>([]);
   const [allCards, setAllCards] = useState<Card[]>([]);
@@ -33,6 +108,24 @@ export function StudyView({ onBack, initialDeckId }: StudyViewProps) {
     streak: 0,
   });
   const [cardStartTime, setCardStartTime] = useState<number>(Date.now());
+  const [scheduler, setScheduler] = useState<Scheduler>(() =>
+    schedulerRegistry.resolve(DEFAULT_DECK_CONFIG),
+  );
+  const [dailyGoal, setDailyGoal] = useState(
+    DEFAULT_DECK_CONFIG.newCardsPerDay,
+  );
+  const [insights, setInsights] = useState<Map<string, CardInsight>>(new Map());
+  // This visit's reviews, for pacing when there is no server session
+  const [reviewTimeline, setReviewTimeline] = useState({
+    responseTimes: [] as number[],
+    correctAnswers: [] as boolean[],
+  });
+  const [pacingDismissedAt, setPacingDismissedAt] = useState<number | null>(
+    null,
+  );
+  const [isOnBreak, setIsOnBreak] = useState(false);
+  // Set while the only cards left are learning steps that are not up yet
+  const [waitingUntil, setWaitingUntil] = useState<Date | null>(null);
   const sessionStartedRef = useRef(false);
 
   const loadStats = () => {
@@ -73,10 +166,14 @@ export function StudyView({ onBack, initialDeckId }: StudyViewProps) {
         .where("deckId")
         .equals(selectedDeck)
         .toArray();
-      const cardsForReview = await db.getCardsForReview(selectedDeck, 20);
+      const cardsForReview = await db.getCardsForReview(selectedDeck);
+      const deckConfig = await db.getDeckConfig(selectedDeck);
 
-      setAllCards(allCardsArray);
+      setScheduler(schedulerRegistry.resolve(deckConfig));
+      setDailyGoal(deckConfig.newCardsPerDay);
+      setAllCards(allCardsArray.filter((card) => !card.isDeleted));
       setDueCards(cardsForReview);
+      setWaitingUntil(null);
 
       // Start session if authenticated and we have cards
       if (
@@ -99,9 +196,11 @@ export function StudyView({ onBack, initialDeckId }: StudyViewProps) {
 
       // Start review event capture for the first card (fire-and-forget)
       if (firstCard && isAuthenticated) {
-        reviewEventCapture.startCardReview(firstCard).catch((error) => {
-          console.warn("[StudyView] Failed to start review event:", error);
-        });
+        reviewEventCapture
+          .startCardReview(firstCard, answerMode)
+          .catch((error) => {
+            console.warn("[StudyView] Failed to start review event:", error);
+          });
       }
     } catch (error) {
       console.error("Failed to load cards:", error);
@@ -122,6 +221,24 @@ export function StudyView({ onBack, initialDeckId }: StudyViewProps) {
     }
   }, [selectedDeck]);
 
+  // Confusable cards and prerequisite gaps come from the server's analytics
+  useEffect(() => {
+    setInsights(new Map());
+    if (!isAuthenticated || !user || !selectedDeck) return;
+
+    let cancelled = false;
+    loadStudyInsights(user.id, selectedDeck)
+      .then((loaded) => {
+        if (!cancelled) setInsights(loaded);
+      })
+      .catch((error) => {
+        console.warn("[StudyView] Failed to load study insights:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, user, selectedDeck]);
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
@@ -133,6 +250,9 @@ export function StudyView({ onBack, initialDeckId }: StudyViewProps) {
         return;
       }
 
+      // Cards stay hidden behind the break overlay
+      if (isOnBreak) return;
+
       if (e.code === "Space" && currentCard) {
         e.preventDefault();
         const flipButton = document.querySelector("[data-flip-button]");
@@ -160,7 +280,7 @@ export function StudyView({ onBack, initialDeckId }: StudyViewProps) {
 
     window.addEventListener("keydown", handleKeyPress);
     return () => window.removeEventListener("keydown", handleKeyPress);
-  }, [currentCard, increaseFontSize, decreaseFontSize]);
+  }, [currentCard, isOnBreak, increaseFontSize, decreaseFontSize]);
 
   // Cleanup: end session on unmount
   useEffect(() => {
@@ -181,12 +301,59 @@ export function StudyView({ onBack, initialDeckId }: StudyViewProps) {
   // Handle card flip tracking
   const handleCardFlip = useCallback(() => {
     if (isAuthenticated && reviewEventCapture.hasActiveReview()) {
+      if (answerMode === "typed_response") {
+        reviewEventCapture.snapshotResponse();
+      }
       reviewEventCapture.recordAnswerShown();
     }
+  }, [isAuthenticated, answerMode]);
+
+  // Typed-answer tracking for the review event
+  const handleAnswerKeyDown = useCallback(
+    (key: string) => {
+      if (isAuthenticated) reviewEventCapture.recordKeystroke(key);
+    },
+    [isAuthenticated],
+  );
+
+  const handleAnswerPaste = useCallback(() => {
+    if (isAuthenticated) reviewEventCapture.recordPaste();
   }, [isAuthenticated]);
 
+  const handleAnswerChange = useCallback(
+    (value: string) => {
+      if (isAuthenticated) reviewEventCapture.updateResponse(value);
+    },
+    [isAuthenticated],
+  );
+
+  const handleOptionHover = useCallback(
+    (optionIndex: number, durationMs: number) => {
+      if (isAuthenticated) {
+        reviewEventCapture.recordOptionHover(optionIndex, durationMs);
+      }
+    },
+    [isAuthenticated],
+  );
+
+  const handleOptionSelect = useCallback(
+    (optionIndex: number) => {
+      if (isAuthenticated) reviewEventCapture.recordOptionClick(optionIndex);
+    },
+    [isAuthenticated],
+  );
+
+  // Distractors come from the other answers in the deck being studied
+  const choices = useMemo(
+    () =>
+      answerMode === "multiple_choice" && currentCard
+        ? buildMultipleChoice(currentCard, allCards)
+        : null,
+    [answerMode, currentCard, allCards],
+  );
+
   const handleRating = useCallback(
-    async (rating: number) => {
+    async (rating: number, typedAnswer?: TypedAnswerGrade) => {
       if (!currentCard) return;
 
       try {
@@ -203,7 +370,13 @@ export function StudyView({ onBack, initialDeckId }: StudyViewProps) {
         // Complete the review event capture (non-blocking)
         if (isAuthenticated) {
           reviewEventCapture
-            .completeReview(currentCard, typedRating)
+            .completeReview(
+              currentCard,
+              typedRating,
+              typedAnswer?.userResponse,
+              typedAnswer?.expectedResponse,
+              typedAnswer?.similarity,
+            )
             .then((success) => {
               if (success) {
                 console.log("[StudyView] Review event captured successfully");
@@ -228,6 +401,10 @@ export function StudyView({ onBack, initialDeckId }: StudyViewProps) {
         };
         setSessionStats(newStats);
         localStorage.setItem("srs-stats", JSON.stringify(newStats));
+        setReviewTimeline((timeline) => ({
+          responseTimes: [...timeline.responseTimes, duration],
+          correctAnswers: [...timeline.correctAnswers, rating >= 3],
+        }));
 
         // Show success animation for good/easy ratings
         if (rating >= 3) {
@@ -235,26 +412,39 @@ export function StudyView({ onBack, initialDeckId }: StudyViewProps) {
           setTimeout(() => setShowSuccess(false), 1500);
         }
 
-        // Move to next card
+        // Move to next card; cards still in a learning step come back later
+        // today, once their step is up
         const remainingDue = dueCards.slice(1);
-        setDueCards(remainingDue);
+        if (isInLearningStep(result.card)) {
+          remainingDue.push(result.card);
+        }
+        const dueQueue = bringDueCardForward(remainingDue, new Date());
+        setDueCards(dueQueue ?? remainingDue);
 
-        if (remainingDue.length > 0) {
-          const nextCard = remainingDue[0];
+        if (dueQueue) {
+          const nextCard = dueQueue[0];
           setTimeout(async () => {
             setCurrentCard(nextCard);
             setCardStartTime(Date.now());
 
             // Start review event for the next card (fire-and-forget)
             if (isAuthenticated && nextCard) {
-              reviewEventCapture.startCardReview(nextCard).catch((error) => {
-                console.warn(
-                  "[StudyView] Failed to start review event:",
-                  error,
-                );
-              });
+              reviewEventCapture
+                .startCardReview(nextCard, answerMode)
+                .catch((error) => {
+                  console.warn(
+                    "[StudyView] Failed to start review event:",
+                    error,
+                  );
+                });
             }
           }, 500);
+        } else if (remainingDue.length > 0) {
+          // Only learning steps are left; wait for the first to come due
+          setTimeout(() => {
+            setCurrentCard(null);
+            setWaitingUntil(getNextDue(remainingDue));
+          }, 500);
         } else {
           // Session complete - end the session
           setTimeout(async () => {
@@ -275,11 +465,109 @@ export function StudyView({ onBack, initialDeckId }: StudyViewProps) {
       sessionStats,
       cardStartTime,
       isAuthenticated,
+      answerMode,
       recordCardCompleted,
       endSession,
     ],
   );
 
+  // Show the waiting learning-step card once its step is up
+  useEffect(() => {
+    if (!waitingUntil) return;
+
+    const timer = setTimeout(
+      () => {
+        const dueQueue = bringDueCardForward(dueCards, waitingUntil);
+        if (!dueQueue) return;
+
+        setWaitingUntil(null);
+        setDueCards(dueQueue);
+        setCurrentCard(dueQueue[0]);
+        setCardStartTime(Date.now());
+
+        if (isAuthenticated) {
+          reviewEventCapture
+            .startCardReview(dueQueue[0], answerMode)
+            .catch((error) => {
+              console.warn("[StudyView] Failed to start review event:", error);
+            });
+        }
+      },
+      Math.max(0, waitingUntil.getTime() - Date.now()),
+    );
+    return () => clearTimeout(timer);
+  }, [waitingUntil, dueCards, isAuthenticated, answerMode]);
+
+  // Study the basics a card builds on before coming back to it
+  const handleStudyPrerequisites = useCallback(
+    (prerequisites: Card[]) => {
+      if (!currentCard) return;
+
+      const basics = prerequisites.filter((card) => card.id !== currentCard.id);
+      if (basics.length === 0) return;
+
+      const basicIds = new Set(basics.map((card) => card.id));
+      const reordered = [
+        ...basics,
+        ...dueCards.filter((card) => !basicIds.has(card.id)),
+      ];
+
+      if (reviewEventCapture.hasActiveReview()) {
+        reviewEventCapture.cancelReview();
+      }
+      setDueCards(reordered);
+      setCurrentCard(reordered[0]);
+      setCardStartTime(Date.now());
+
+      if (isAuthenticated) {
+        reviewEventCapture
+          .startCardReview(reordered[0], answerMode)
+          .catch((error) => {
+            console.warn("[StudyView] Failed to start review event:", error);
+          });
+      }
+    },
+    [currentCard, dueCards, isAuthenticated, answerMode],
+  );
+
+  const cardsStudied = reviewTimeline.responseTimes.length;
+
+  const handleTakeBreak = useCallback(() => {
+    pauseSession();
+    setIsOnBreak(true);
+    setPacingDismissedAt(cardsStudied);
+  }, [pauseSession, cardsStudied]);
+
+  const handleResumeFromBreak = useCallback(() => {
+    resumeSession();
+    setIsOnBreak(false);
+    setCardStartTime(Date.now());
+  }, [resumeSession]);
+
+  // The current card stays up; the rest are reordered easiest first
+  const handleEasierFirst = useCallback(() => {
+    setDueCards((cards) => [cards[0], ...orderEasiestFirst(cards.slice(1))]);
+    setPacingDismissedAt(cardsStudied);
+  }, [cardsStudied]);
+
+  const handleEndSessionEarly = useCallback(async () => {
+    if (reviewEventCapture.hasActiveReview()) {
+      reviewEventCapture.cancelReview();
+    }
+    setDueCards([]);
+    setCurrentCard(null);
+    setWaitingUntil(null);
+
+    if (isAuthenticated && sessionStartedRef.current) {
+      await endSession(false);
+      sessionStartedRef.current = false;
+    }
+  }, [isAuthenticated, endSession]);
+
+  const handleDismissPacing = useCallback(() => {
+    setPacingDismissedAt(cardsStudied);
+  }, [cardsStudied]);
+
   const handleFileImport = useCallback(
     async (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
@@ -332,6 +620,30 @@ export function StudyView({ onBack, initialDeckId }: StudyViewProps) {
     e.stopPropagation();
   }, []);
 
+  const currentInsight = currentCard && insights.get(currentCard.id);
+
+  // The server session's health when there is one, else this visit's own
+  const localHealth = calculateLiveSessionHealth(
+    reviewTimeline.responseTimes,
+    reviewTimeline.correctAnswers,
+  );
+  const health = isSessionActive
+    ? sessionHealth
+    : "health" in localHealth
+      ? localHealth
+      : null;
+  const isTiring =
+    health?.health === "fatigued" ||
+    health?.health === "declining" ||
+    (optimalSessionLength !== null &&
+      optimalSessionLength > 0 &&
+      cardsStudied >= optimalSessionLength);
+  const showPacing =
+    isTiring &&
+    dueCards.length > 1 &&
+    (pacingDismissedAt === null ||
+      cardsStudied - pacingDismissedAt >= PACING_RENOTIFY_CARDS);
+
   if (isLoading && sessionStats.reviewed === 0) {
     return (
       <div className="h-full flex items-center justify-center bg-terminal-base">
@@ -409,7 +721,23 @@ export function StudyView({ onBack, initialDeckId }: StudyViewProps) {
             animate={{ scale: 1, opacity: 1 }}
             className="bg-terminal-surface dark:bg-dark-surface border-2 border-terminal-primary dark:border-cyan rounded-lg p-12 text-center shadow-terminal-glow dark:shadow-[0_0_30px_rgba(0,217,255,0.3)]"
           >
-            {sessionStats.reviewed > 0 ? (
+            {waitingUntil ? (
+              <>
+                <div className="w-20 h-20 terminal-accent dark:text-amber mx-auto mb-6 text-7xl [text-shadow:0_0_20px_var(--terminal-orange)] dark:[text-shadow:0_0_20px_#fbbf24]">
+                  ⏳
+                </div>
+                <h2 className="text-3xl font-bold mb-4 terminal-accent dark:text-amber font-mono text-shadow-terminal-accent dark:[text-shadow:0_0_15px_rgba(251,191,36,0.5)]">
+                  LEARNING_STEP
+                </h2>
+                <p className="text-xl text-terminal-muted dark:text-text-muted mb-8 font-mono">
+                  Next card due at{" "}
+                  {waitingUntil.toLocaleTimeString([], {
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                </p>
+              </>
+            ) : sessionStats.reviewed > 0 ? (
               <>
                 <motion.div
                   initial={{ scale: 0 }}
@@ -509,7 +837,7 @@ export function StudyView({ onBack, initialDeckId }: StudyViewProps) {
             <div className="bg-terminal-surface dark:bg-dark-surface border border-terminal-primary/30 dark:border-cyan/30 rounded-lg p-6 text-center hover:border-terminal-primary dark:hover:border-cyan hover:shadow-terminal-glow dark:hover:shadow-cyan-glow transition-all">
               <p className="text-3xl mb-2">🎯</p>
               <p className="text-2xl font-bold terminal-primary dark:text-cyan font-mono">
-                20
+                {dailyGoal}
               </p>
               <p className="text-terminal-muted dark:text-text-muted font-mono text-sm">
                 Daily Goal
@@ -609,6 +937,7 @@ export function StudyView({ onBack, initialDeckId }: StudyViewProps) {
                   )}
                 </div>
                 <div className="flex items-center gap-4">
+                  <AnswerModeControl />
                   <FontSizeControl />
                   <div className="text-right">
                     <div className="text-2xl font-bold text-cyan-600 dark:text-cyan-400">
@@ -647,20 +976,78 @@ export function StudyView({ onBack, initialDeckId }: StudyViewProps) {
               </div>
             </div>
 
+            {showPacing && (
+              <SessionPacingNotice
+                health={health}
+                cardsStudied={cardsStudied}
+                optimalSessionLength={optimalSessionLength}
+                onTakeBreak={handleTakeBreak}
+                onEasierFirst={handleEasierFirst}
+                onEndSession={handleEndSessionEarly}
+                onDismiss={handleDismissPacing}
+              />
+            )}
+
+            {currentInsight && (
+              <StudyInsightBanner
+                key={currentCard.id}
+                card={currentCard}
+                insight={currentInsight}
+                onStudyPrerequisites={handleStudyPrerequisites}
+              />
+            )}
+
             {/* Study Card Component */}
             <StudyCard
               key={currentCard.id}
               card={currentCard}
+              scheduler={scheduler}
               onRate={handleRating}
               onFlip={handleCardFlip}
               currentStreak={sessionStats.streak}
               totalReviewed={sessionStats.reviewed}
               fontSize={fontSize}
+              answerMode={answerMode}
+              onAnswerKeyDown={handleAnswerKeyDown}
+              onAnswerPaste={handleAnswerPaste}
+              onAnswerChange={handleAnswerChange}
+              choices={choices}
+              onOptionHover={handleOptionHover}
+              onOptionSelect={handleOptionSelect}
             />
           </div>
         )}
       </AnimatePresence>
 
+      {/* Break Overlay */}
+      <AnimatePresence>
+        {isOnBreak && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/70 flex items-center justify-center p-4 z-50"
+          >
+            <div className="bg-white dark:bg-gray-900 rounded-lg p-8 max-w-sm w-full text-center">
+              <p className="text-5xl mb-4">☕</p>
+              <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">
+                On a break
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+                Stretch, get some water, look away from the screen. Your session
+                is paused.
+              </p>
+              <button
+                onClick={handleResumeFromBreak}
+                className="w-full px-6 py-3 rounded-lg font-medium bg-cyan-600 text-white hover:bg-cyan-700 transition-colors"
+              >
+                Resume
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Success Animation Overlay */}
       <AnimatePresence>
         {showSuccess && (
@@ -0,0 +1,340 @@
+import { useState, useEffect, useCallback } from "react";
+// skipcq: JS-C1003 - Radix UI Dialog components require namespace import
+import * as Dialog from "@radix-ui/react-dialog";
+import { X, RefreshCw, Loader2 } from "lucide-react";
+import type { DeckSubscription } from "../storage/database";
+import type { SubscriptionChangeset } from "../types/sync";
+import {
+  subscriptionService,
+  type ChangesetSummary,
+} from "../services/subscription-service";
+
+interface SubscriptionUpdatesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onApplied: (
+    subscription: DeckSubscription,
+    summary: ChangesetSummary,
+  ) => Promise<void>;
+  onChecked: (pendingCount: number) => void;
+}
+
+// Only the first cards of each kind of change are listed when reviewing
+const MAX_LISTED_CARDS = 50;
+
+function describeChanges(changeset: SubscriptionChangeset): string {
+  return [
+    `${changeset.added.length} new`,
+    `${changeset.updated.length} edited`,
+    `${changeset.removed.length} removed`,
+  ].join(" · ");
+}
+
+/**
+ * Dialog listing subscribed public decks with the changes their authors
+ * made since the last review, to apply or dismiss per deck.
+ */
+export function SubscriptionUpdatesDialog({
+  isOpen,
+  onClose,
+  onApplied,
+  onChecked,
+}: SubscriptionUpdatesDialogProps) {
+  const [subscriptions, setSubscriptions] = useState<DeckSubscription[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [applyingId, setApplyingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSubscriptions = useCallback(async () => {
+    try {
+      setSubscriptions(await subscriptionService.getSubscriptions());
+    } catch {
+      setError("Failed to load subscriptions");
+    }
+  }, []);
+
+  const checkForUpdates = useCallback(async () => {
+    setIsChecking(true);
+    try {
+      onChecked(await subscriptionService.checkForUpdates(true));
+      await loadSubscriptions();
+    } catch {
+      setError("Failed to check for updates");
+    } finally {
+      setIsChecking(false);
+    }
+  }, [onChecked, loadSubscriptions]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setReviewingId(null);
+      setError(null);
+      loadSubscriptions().then(checkForUpdates);
+    }
+  }, [isOpen, loadSubscriptions, checkForUpdates]);
+
+  /** Show or hide the cards a changeset touches. */
+  const handleReview = useCallback((e: React.MouseEvent<HTMLButtonElement>) => {
+    const subscriptionId = e.currentTarget.dataset.subscriptionId ?? null;
+    setReviewingId((current) =>
+      current === subscriptionId ? null : subscriptionId,
+    );
+  }, []);
+
+  const handleApply = useCallback(
+    async (e: React.MouseEvent<HTMLButtonElement>) => {
+      const subscription = subscriptions.find(
+        (entry) => entry.id === e.currentTarget.dataset.subscriptionId,
+      );
+      if (!subscription) return;
+
+      setApplyingId(subscription.id);
+      setError(null);
+      try {
+        const summary = await subscriptionService.applyChanges(subscription.id);
+        await onApplied(subscription, summary);
+        onChecked(await subscriptionService.countPendingChanges());
+        await loadSubscriptions();
+      } catch {
+        setError("Failed to apply changes");
+      } finally {
+        setApplyingId(null);
+      }
+    },
+    [subscriptions, onApplied, onChecked, loadSubscriptions],
+  );
+
+  const handleDismiss = useCallback(
+    async (e: React.MouseEvent<HTMLButtonElement>) => {
+      const subscriptionId = e.currentTarget.dataset.subscriptionId;
+      if (!subscriptionId) return;
+
+      setApplyingId(subscriptionId);
+      setError(null);
+      try {
+        await subscriptionService.dismissChanges(subscriptionId);
+        onChecked(await subscriptionService.countPendingChanges());
+        await loadSubscriptions();
+      } catch {
+        setError("Failed to dismiss changes");
+      } finally {
+        setApplyingId(null);
+      }
+    },
+    [onChecked, loadSubscriptions],
+  );
+
+  const handleOpenChange = useCallback(
+    (open: boolean) => {
+      if (!open && !applyingId) onClose();
+    },
+    [applyingId, onClose],
+  );
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={handleOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+        <Dialog.Content
+          className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2
+                     w-full max-w-2xl p-6 rounded-lg
+                     bg-terminal-surface dark:bg-dark-surface
+                     border-2 border-terminal-primary dark:border-cyan
+                     shadow-terminal-glow dark:shadow-cyan-glow
+                     z-50 max-h-[90vh] overflow-y-auto"
+        >
+          <Dialog.Title className="font-mono text-lg font-bold text-terminal-primary dark:text-cyan flex items-center gap-2">
+            <RefreshCw size={20} />
+            [SUBSCRIPTION_UPDATES]
+          </Dialog.Title>
+
+          <Dialog.Description className="mt-2 font-mono text-sm text-terminal-muted dark:text-text-muted">
+            Changes the authors of your subscribed decks have published.
+            Applying them updates card content only; your progress and your own
+            tags are kept.
+          </Dialog.Description>
+
+          {isChecking && (
+            <p className="mt-4 font-mono text-xs text-terminal-muted dark:text-text-muted flex items-center gap-2">
+              <Loader2 className="animate-spin" size={12} />
+              Checking for updates...
+            </p>
+          )}
+
+          {!isChecking && subscriptions.length === 0 && (
+            <p className="mt-6 font-mono text-sm text-terminal-muted dark:text-text-muted">
+              No subscribed decks on this device. Subscribe to decks in The
+              Commons to study them here.
+            </p>
+          )}
+
+          <ul className="mt-6 space-y-3">
+            {subscriptions.map((subscription) => {
+              const changes = subscription.pendingChanges;
+
+              return (
+                <li
+                  key={subscription.id}
+                  className="p-4 rounded-lg border-2 border-terminal-muted dark:border-gray-600 bg-terminal-base dark:bg-dark font-mono text-sm text-gray-700 dark:text-gray-300"
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-bold truncate">{subscription.name}</p>
+                      <p className="text-xs text-terminal-muted dark:text-text-muted">
+                        {changes ? describeChanges(changes) : "Up to date"}
+                        {subscription.lastCheckedAt &&
+                          ` · checked ${new Date(subscription.lastCheckedAt).toLocaleString()}`}
+                      </p>
+                    </div>
+                    {changes && (
+                      <div className="flex gap-2 shrink-0">
+                        <button
+                          onClick={handleReview}
+                          data-subscription-id={subscription.id}
+                          className="px-3 py-1 text-xs rounded border border-terminal-muted dark:border-gray-600
+                                   hover:border-terminal-primary dark:hover:border-cyan transition-colors"
+                        >
+                          {reviewingId === subscription.id ? "Hide" : "Review"}
+                        </button>
+                        <button
+                          onClick={handleDismiss}
+                          data-subscription-id={subscription.id}
+                          disabled={!!applyingId}
+                          className="px-3 py-1 text-xs rounded border border-terminal-muted dark:border-gray-600
+                                   hover:border-terminal-primary dark:hover:border-cyan
+                                   disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          Dismiss
+                        </button>
+                        <button
+                          onClick={handleApply}
+                          data-subscription-id={subscription.id}
+                          disabled={!!applyingId}
+                          className="px-3 py-1 text-xs font-bold rounded
+                                   bg-terminal-primary dark:bg-cyan text-paper dark:text-dark
+                                   disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+                        >
+                          {applyingId === subscription.id && (
+                            <Loader2 className="animate-spin" size={12} />
+                          )}
+                          Apply
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  {changes && reviewingId === subscription.id && (
+                    <div className="mt-3 max-h-64 overflow-y-auto text-xs space-y-3">
+                      {changes.added.length > 0 && (
+                        <div>
+                          <p className="font-bold text-green-600 dark:text-green-400">
+                            New
+                          </p>
+                          <ul className="space-y-1">
+                            {changes.added
+                              .slice(0, MAX_LISTED_CARDS)
+                              .map((card) => (
+                                <li key={card.id} className="truncate">
+                                  + {card.front || "(empty)"}
+                                </li>
+                              ))}
+                          </ul>
+                        </div>
+                      )}
+                      {changes.updated.length > 0 && (
+                        <div>
+                          <p className="font-bold text-terminal-primary dark:text-cyan">
+                            Edited
+                          </p>
+                          <ul className="space-y-1">
+                            {changes.updated
+                              .slice(0, MAX_LISTED_CARDS)
+                              .map(({ previous, card }) => (
+                                <li key={card.id} className="break-words">
+                                  ~ {previous.front || "(empty)"}
+                                  {previous.front !== card.front &&
+                                    ` → ${card.front || "(empty)"}`}
+                                  {previous.back !== card.back && (
+                                    <span className="block pl-3 text-terminal-muted dark:text-text-muted">
+                                      {previous.back || "(empty)"} →{" "}
+                                      {card.back || "(empty)"}
+                                    </span>
+                                  )}
+                                </li>
+                              ))}
+                          </ul>
+                        </div>
+                      )}
+                      {changes.removed.length > 0 && (
+                        <div>
+                          <p className="font-bold text-red-600 dark:text-red-400">
+                            Removed
+                          </p>
+                          <ul className="space-y-1">
+                            {changes.removed
+                              .slice(0, MAX_LISTED_CARDS)
+                              .map((card) => (
+                                <li key={card.id} className="truncate">
+                                  - {card.front || "(empty)"}
+                                </li>
+                              ))}
+                          </ul>
+                        </div>
+                      )}
+                      {Math.max(
+                        changes.added.length,
+                        changes.updated.length,
+                        changes.removed.length,
+                      ) > MAX_LISTED_CARDS && (
+                        <p className="text-terminal-muted dark:text-text-muted">
+                          Only the first {MAX_LISTED_CARDS} cards of each kind
+                          are listed
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          {error && (
+            <div className="mt-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700">
+              <p className="font-mono text-sm text-red-600 dark:text-red-400">
+                {error}
+              </p>
+            </div>
+          )}
+
+          <div className="mt-6 flex justify-end">
+            <button
+              onClick={onClose}
+              disabled={!!applyingId}
+              className="px-4 py-2 font-mono text-sm
+                       text-terminal-muted dark:text-text-muted
+                       hover:text-gray-700 dark:hover:text-gray-300
+                       transition-colors"
+            >
+              Close
+            </button>
+          </div>
+
+          <Dialog.Close asChild>
+            <button
+              onClick={onClose}
+              disabled={!!applyingId}
+              className="absolute top-4 right-4 p-1 rounded
+                       text-terminal-muted dark:text-text-muted
+                       hover:text-terminal-primary dark:hover:text-cyan
+                       transition-colors"
+              aria-label="Close"
+            >
+              <X size={20} />
+            </button>
+          </Dialog.Close>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
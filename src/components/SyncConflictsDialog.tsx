@@ -0,0 +1,325 @@
+import { useState, useEffect, useCallback } from "react";
+// skipcq: JS-C1003 - Radix UI Dialog components require namespace import
+import * as Dialog from "@radix-ui/react-dialog";
+import { X, GitMerge, Loader2 } from "lucide-react";
+import type { SyncConflictRecord } from "../storage/database";
+import type { ConflictResolution, ConflictSide } from "../types/sync";
+import { syncService } from "../services/sync-service";
+
+interface SyncConflictsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onResolved: () => Promise<void>;
+}
+
+const ENTITY_LABELS: Record<SyncConflictRecord["entityType"], string> = {
+  deck: "Deck",
+  card: "Card",
+  session: "Review",
+  media: "Media",
+  note: "Note",
+  noteType: "Note type",
+};
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+// Values arrive as JSON from the server, so dates are strings
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "(empty)";
+  if (value instanceof Date) return value.toLocaleString();
+  if (typeof value === "string") {
+    return ISO_DATE_PATTERN.test(value)
+      ? new Date(value).toLocaleString()
+      : value;
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function getConflictLabel(conflict: SyncConflictRecord): string {
+  const data = conflict.localData as Record<string, unknown>;
+  const label = data.name ?? data.front ?? data.fileName;
+  return typeof label === "string" && label ? label : conflict.entityId;
+}
+
+/**
+ * Dialog listing sync conflicts with the local and server versions of each
+ * conflicted field side by side. Fields start on the suggested merge, which
+ * keeps whichever version was modified last.
+ */
+export function SyncConflictsDialog({
+  isOpen,
+  onClose,
+  onResolved,
+}: SyncConflictsDialogProps) {
+  const [conflicts, setConflicts] = useState<SyncConflictRecord[]>([]);
+  const [choices, setChoices] = useState<Record<string, ConflictResolution>>(
+    {},
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadConflicts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const loaded = await syncService.getConflicts();
+      setConflicts(loaded);
+      setChoices(
+        Object.fromEntries(
+          loaded.map((conflict) => [
+            conflict.id,
+            syncService.suggestResolution(conflict),
+          ]),
+        ),
+      );
+    } catch {
+      setError("Failed to load sync conflicts");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setError(null);
+      loadConflicts();
+    }
+  }, [isOpen, loadConflicts]);
+
+  const handleChoose = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const { conflictId, field } = e.currentTarget.dataset;
+    const side = e.currentTarget.value as ConflictSide;
+    if (!conflictId || !field) return;
+
+    setChoices((current) => ({
+      ...current,
+      [conflictId]: { ...current[conflictId], [field]: side },
+    }));
+  }, []);
+
+  const resolve = useCallback(
+    async (conflictId: string, resolution?: ConflictResolution) => {
+      const conflict = conflicts.find((entry) => entry.id === conflictId);
+      if (!conflict) return;
+
+      setResolvingId(conflictId);
+      setError(null);
+      try {
+        await syncService.resolveConflict(conflict, resolution);
+        await onResolved();
+        await loadConflicts();
+      } catch {
+        setError("Failed to resolve conflict");
+      } finally {
+        setResolvingId(null);
+      }
+    },
+    [conflicts, onResolved, loadConflicts],
+  );
+
+  /** Keep the versions chosen for each field. */
+  const handleApply = useCallback(
+    (e: React.MouseEvent<HTMLButtonElement>) => {
+      const conflictId = e.currentTarget.dataset.conflictId;
+      if (conflictId) resolve(conflictId, choices[conflictId]);
+    },
+    [choices, resolve],
+  );
+
+  /** Keep whichever version of each field was modified last. */
+  const handleAcceptMerge = useCallback(
+    (e: React.MouseEvent<HTMLButtonElement>) => {
+      const conflictId = e.currentTarget.dataset.conflictId;
+      if (conflictId) resolve(conflictId);
+    },
+    [resolve],
+  );
+
+  const handleOpenChange = useCallback(
+    (open: boolean) => {
+      if (!open && !resolvingId) onClose();
+    },
+    [resolvingId, onClose],
+  );
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={handleOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+        <Dialog.Content
+          className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2
+                     w-full max-w-3xl p-6 rounded-lg
+                     bg-terminal-surface dark:bg-dark-surface
+                     border-2 border-terminal-primary dark:border-cyan
+                     shadow-terminal-glow dark:shadow-cyan-glow
+                     z-50 max-h-[90vh] overflow-y-auto"
+        >
+          <Dialog.Title className="font-mono text-lg font-bold text-terminal-primary dark:text-cyan flex items-center gap-2">
+            <GitMerge size={20} />
+            [SYNC_CONFLICTS]
+          </Dialog.Title>
+
+          <Dialog.Description className="mt-2 font-mono text-sm text-terminal-muted dark:text-text-muted">
+            These changed on this device and on another one since they last
+            synced. Choose which version of each field to keep; fields not
+            listed keep this device&apos;s version.
+          </Dialog.Description>
+
+          {isLoading && conflicts.length === 0 && (
+            <div className="mt-6 flex justify-center">
+              <Loader2
+                className="animate-spin text-terminal-primary dark:text-cyan"
+                size={24}
+              />
+            </div>
+          )}
+
+          {!isLoading && conflicts.length === 0 && (
+            <p className="mt-6 font-mono text-sm text-terminal-muted dark:text-text-muted">
+              No conflicts to resolve
+            </p>
+          )}
+
+          <ul className="mt-6 space-y-4">
+            {conflicts.map((conflict) => (
+              <li
+                key={conflict.id}
+                className="p-4 rounded-lg border-2 border-terminal-muted dark:border-gray-600 bg-terminal-base dark:bg-dark font-mono text-sm text-gray-700 dark:text-gray-300"
+              >
+                <p className="font-bold truncate">
+                  {ENTITY_LABELS[conflict.entityType]}:{" "}
+                  {getConflictLabel(conflict)}
+                </p>
+                <p className="text-xs text-terminal-muted dark:text-text-muted">
+                  Detected {new Date(conflict.detectedAt).toLocaleString()} ·
+                  local v{conflict.localVersion} · server v
+                  {conflict.serverVersion}
+                </p>
+
+                <table className="mt-3 w-full table-fixed text-xs">
+                  <thead>
+                    <tr className="text-left text-terminal-muted dark:text-text-muted">
+                      <th className="w-1/5 pb-1 font-normal">Field</th>
+                      <th className="pb-1 font-normal">This device</th>
+                      <th className="pb-1 font-normal">Server</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {conflict.conflictedFields.map((field) => {
+                      const local = conflict.localData as Record<
+                        string,
+                        unknown
+                      >;
+                      const server = conflict.serverData as Record<
+                        string,
+                        unknown
+                      >;
+                      const choice = choices[conflict.id]?.[field];
+
+                      return (
+                        <tr
+                          key={field}
+                          className="border-t border-terminal-muted/30 dark:border-gray-700 align-top"
+                        >
+                          <td className="py-2 pr-2 font-bold break-words">
+                            {field}
+                          </td>
+                          {(["local", "server"] as const).map((side) => (
+                            <td key={side} className="py-2 pr-2">
+                              <label className="flex items-start gap-2 cursor-pointer">
+                                <input
+                                  type="radio"
+                                  name={`${conflict.id}:${field}`}
+                                  value={side}
+                                  checked={choice === side}
+                                  onChange={handleChoose}
+                                  data-conflict-id={conflict.id}
+                                  data-field={field}
+                                  disabled={!!resolvingId}
+                                  className="mt-0.5 accent-terminal-primary dark:accent-cyan"
+                                />
+                                <span className="max-h-24 overflow-y-auto break-words whitespace-pre-wrap">
+                                  {formatValue(
+                                    side === "local"
+                                      ? local[field]
+                                      : server[field],
+                                  )}
+                                </span>
+                              </label>
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+
+                <div className="mt-3 flex justify-end gap-2">
+                  <button
+                    onClick={handleAcceptMerge}
+                    data-conflict-id={conflict.id}
+                    disabled={!!resolvingId}
+                    className="px-3 py-1 text-xs rounded border border-terminal-muted dark:border-gray-600
+                             hover:border-terminal-primary dark:hover:border-cyan
+                             disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Accept merge
+                  </button>
+                  <button
+                    onClick={handleApply}
+                    data-conflict-id={conflict.id}
+                    disabled={!!resolvingId}
+                    className="px-3 py-1 text-xs font-bold rounded
+                             bg-terminal-primary dark:bg-cyan text-paper dark:text-dark
+                             disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+                  >
+                    {resolvingId === conflict.id && (
+                      <Loader2 className="animate-spin" size={12} />
+                    )}
+                    Apply choices
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {error && (
+            <div className="mt-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700">
+              <p className="font-mono text-sm text-red-600 dark:text-red-400">
+                {error}
+              </p>
+            </div>
+          )}
+
+          <div className="mt-6 flex justify-end">
+            <button
+              onClick={onClose}
+              disabled={!!resolvingId}
+              className="px-4 py-2 font-mono text-sm
+                       text-terminal-muted dark:text-text-muted
+                       hover:text-gray-700 dark:hover:text-gray-300
+                       transition-colors"
+            >
+              Close
+            </button>
+          </div>
+
+          <Dialog.Close asChild>
+            <button
+              onClick={onClose}
+              disabled={!!resolvingId}
+              className="absolute top-4 right-4 p-1 rounded
+                       text-terminal-muted dark:text-text-muted
+                       hover:text-terminal-primary dark:hover:text-cyan
+                       transition-colors"
+              aria-label="Close"
+            >
+              <X size={20} />
+            </button>
+          </Dialog.Close>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -10,12 +10,14 @@ import { motion, AnimatePresence } from "framer-motion";
 import { CloudOff, RefreshCw, Check, AlertCircle, Clock } from "lucide-react";
 import { syncService } from "../services/sync-service";
 import type { SyncStats, SyncResult } from "../types/sync";
+import { SyncConflictsDialog } from "./SyncConflictsDialog";
 
 export function SyncStatusIndicator() {
   const [stats, setStats] = useState<SyncStats | null>(null);
   const [isManualSyncing, setIsManualSyncing] = useState(false);
   const [lastSyncResult, setLastSyncResult] = useState<SyncResult | null>(null);
   const [showDetails, setShowDetails] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
 
   // Close dropdown handler
   const closeDropdown = useCallback(() => {
@@ -57,6 +59,19 @@ export function SyncStatusIndicator() {
     return () => clearInterval(interval);
   }, []);
 
+  const openConflicts = useCallback(() => {
+    setShowDetails(false);
+    setShowConflicts(true);
+  }, []);
+
+  const closeConflicts = useCallback(() => {
+    setShowConflicts(false);
+  }, []);
+
+  const refreshStats = useCallback(async () => {
+    setStats(await syncService.getSyncStats());
+  }, []);
+
   const handleManualSync = async () => {
     setIsManualSyncing(true);
     try {
@@ -81,6 +96,7 @@ export function SyncStatusIndicator() {
     if (!stats.isOnline) return <CloudOff className="w-4 h-4" />;
     if (stats.isSyncing) return <RefreshCw className="w-4 h-4 animate-spin" />;
     if (stats.errorCount > 0) return <AlertCircle className="w-4 h-4" />;
+    if (stats.conflictCount > 0) return <AlertCircle className="w-4 h-4" />;
     if (stats.pendingCount > 0) return <Clock className="w-4 h-4" />;
     return <Check className="w-4 h-4" />;
   };
@@ -89,6 +105,7 @@ export function SyncStatusIndicator() {
     if (!stats.isOnline) return "Offline";
     if (stats.isSyncing) return "Syncing...";
     if (stats.errorCount > 0) return "Sync Error";
+    if (stats.conflictCount > 0) return `${stats.conflictCount} conflicts`;
     if (stats.pendingCount > 0) return `${stats.pendingCount} pending`;
     return "Synced";
   };
@@ -97,6 +114,7 @@ export function SyncStatusIndicator() {
     if (!stats.isOnline) return "text-terminal-muted dark:text-text-muted";
     if (stats.isSyncing) return "text-terminal-primary dark:text-cyan";
     if (stats.errorCount > 0) return "text-red-500";
+    if (stats.conflictCount > 0) return "text-red-500";
     if (stats.pendingCount > 0) return "text-terminal-accent dark:text-amber";
     return "text-green-500";
   };
@@ -192,8 +210,15 @@ export function SyncStatusIndicator() {
                   <span className="text-sm font-mono text-terminal-muted dark:text-text-muted">
                     Conflicts
                   </span>
-                  <span className="text-sm font-mono text-red-500">
+                  <span className="flex items-center gap-2 text-sm font-mono text-red-500">
                     {stats.conflictCount} items
+                    <button
+                      onClick={openConflicts}
+                      className="px-2 py-0.5 text-xs rounded border border-red-300 dark:border-red-700
+                               hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                    >
+                      Resolve
+                    </button>
                   </span>
                 </div>
               )}
@@ -280,6 +305,12 @@ export function SyncStatusIndicator() {
           aria-label="Close sync status dropdown"
         />
       )}
+
+      <SyncConflictsDialog
+        isOpen={showConflicts}
+        onClose={closeConflicts}
+        onResolved={refreshStats}
+      />
     </div>
   );
 }
@@ -0,0 +1,355 @@
+import { useState, useEffect, useCallback } from "react";
+// skipcq: JS-C1003 - Radix UI Dialog components require namespace import
+import * as Dialog from "@radix-ui/react-dialog";
+import { X, FileText, Loader2 } from "lucide-react";
+import { Deck } from "../lib/srs-engine";
+import { DeckId } from "../types/ids";
+import {
+  guessColumnMapping,
+  importTextRows,
+  type ColumnMapping,
+  type ParsedTextFile,
+  type TextImportResult,
+} from "../lib/text-import";
+
+interface TextImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (result: TextImportResult) => Promise<void>;
+  file: File | null;
+  parsed: ParsedTextFile | null;
+  decks: Deck[];
+}
+
+const PREVIEW_ROWS = 5;
+const NEW_DECK = "";
+const NO_COLUMN = "none";
+
+const inputClass = `w-full px-3 py-2 rounded-lg border-2
+  border-terminal-muted dark:border-gray-600
+  bg-terminal-base dark:bg-dark
+  font-mono text-sm text-gray-700 dark:text-gray-300
+  focus:border-terminal-primary dark:focus:border-cyan
+  focus:outline-none`;
+
+const labelClass =
+  "block font-mono text-sm text-gray-700 dark:text-gray-300 mb-1";
+
+const getDefaultDeckName = (fileName: string): string =>
+  fileName.replace(/\.[^.]+$/, "") || "Imported Deck";
+
+/**
+ * Dialog for importing a CSV, TSV or Markdown file: previews the rows and
+ * lets the user choose which columns hold the front, back and tags.
+ */
+export function TextImportDialog({
+  isOpen,
+  onClose,
+  onImported,
+  file,
+  parsed,
+  decks,
+}: TextImportDialogProps) {
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [targetDeckId, setTargetDeckId] = useState<string>(NEW_DECK);
+  const [deckName, setDeckName] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen && file && parsed) {
+      setMapping(guessColumnMapping(parsed));
+      setTargetDeckId(NEW_DECK);
+      setDeckName(getDefaultDeckName(file.name));
+      setError(null);
+    }
+  }, [isOpen, file, parsed]);
+
+  const handleColumnChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      const { name, value } = e.target;
+      const column = value === NO_COLUMN ? null : Number(value);
+      setMapping((prev) => (prev ? { ...prev, [name]: column } : prev));
+    },
+    [],
+  );
+
+  const handleHeaderChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const { checked } = e.target;
+      setMapping((prev) => (prev ? { ...prev, hasHeader: checked } : prev));
+    },
+    [],
+  );
+
+  const handleTargetChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setTargetDeckId(e.target.value);
+    },
+    [],
+  );
+
+  const handleDeckNameChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setDeckName(e.target.value);
+    },
+    [],
+  );
+
+  const targetDeck = decks.find((deck) => deck.id === targetDeckId);
+  const canImport =
+    !!mapping &&
+    mapping.front !== mapping.back &&
+    (!!targetDeck || deckName.trim() !== "");
+
+  const handleImport = useCallback(async () => {
+    if (!file || !parsed || !mapping || !canImport) return;
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      const result = await importTextRows(file.name, parsed.rows, mapping, {
+        deckId: targetDeck?.id as DeckId | undefined,
+        deckName: targetDeck?.name ?? deckName.trim(),
+      });
+      await onImported(result);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setIsImporting(false);
+    }
+  }, [
+    file,
+    parsed,
+    mapping,
+    canImport,
+    targetDeck,
+    deckName,
+    onImported,
+    onClose,
+  ]);
+
+  const handleOpenChange = useCallback(
+    (open: boolean) => {
+      if (!open && !isImporting) onClose();
+    },
+    [isImporting, onClose],
+  );
+
+  const rows = parsed?.rows ?? [];
+  const columnCount = Math.max(0, ...rows.map((row) => row.length));
+  const columns = Array.from({ length: columnCount }, (_, index) =>
+    mapping?.hasHeader && rows[0]?.[index]?.trim()
+      ? rows[0][index].trim()
+      : `Column ${index + 1}`,
+  );
+  const dataRows = mapping?.hasHeader ? rows.slice(1) : rows;
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={handleOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+        <Dialog.Content
+          className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2
+                     w-full max-w-2xl p-6 rounded-lg
+                     bg-terminal-surface dark:bg-dark-surface
+                     border-2 border-terminal-primary dark:border-cyan
+                     shadow-terminal-glow dark:shadow-cyan-glow
+                     z-50 max-h-[90vh] overflow-y-auto"
+        >
+          <Dialog.Title className="font-mono text-lg font-bold text-terminal-primary dark:text-cyan flex items-center gap-2">
+            <FileText size={20} />
+            [IMPORT_TEXT]
+          </Dialog.Title>
+
+          <Dialog.Description className="mt-2 font-mono text-sm text-terminal-muted dark:text-text-muted">
+            {file?.name}: {dataRows.length} rows. Rows whose front was imported
+            into the same deck before update that card instead of adding a
+            duplicate.
+          </Dialog.Description>
+
+          {mapping && (
+            <>
+              <div className="mt-6 overflow-x-auto rounded-lg border-2 border-terminal-muted dark:border-gray-600">
+                <table className="w-full font-mono text-xs text-gray-700 dark:text-gray-300">
+                  <thead>
+                    <tr className="bg-terminal-base dark:bg-dark">
+                      {columns.map((column, index) => (
+                        <th
+                          key={index}
+                          className="px-2 py-1 text-left font-bold"
+                        >
+                          {column}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {dataRows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                      <tr
+                        key={rowIndex}
+                        className="border-t border-terminal-muted dark:border-gray-700"
+                      >
+                        {columns.map((_, index) => (
+                          <td
+                            key={index}
+                            className="px-2 py-1 max-w-[12rem] truncate"
+                          >
+                            {row[index] ?? ""}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <label className="mt-4 flex items-center gap-2 font-mono text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={mapping.hasHeader}
+                  onChange={handleHeaderChange}
+                />
+                First row is a header
+              </label>
+
+              <div className="mt-4 grid grid-cols-3 gap-3">
+                <div>
+                  <label htmlFor="text-import-front" className={labelClass}>
+                    Front
+                  </label>
+                  <select
+                    id="text-import-front"
+                    name="front"
+                    value={mapping.front}
+                    onChange={handleColumnChange}
+                    className={inputClass}
+                  >
+                    {columns.map((column, index) => (
+                      <option key={index} value={index}>
+                        {column}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="text-import-back" className={labelClass}>
+                    Back
+                  </label>
+                  <select
+                    id="text-import-back"
+                    name="back"
+                    value={mapping.back}
+                    onChange={handleColumnChange}
+                    className={inputClass}
+                  >
+                    {columns.map((column, index) => (
+                      <option key={index} value={index}>
+                        {column}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="text-import-tags" className={labelClass}>
+                    Tags
+                  </label>
+                  <select
+                    id="text-import-tags"
+                    name="tags"
+                    value={mapping.tags ?? NO_COLUMN}
+                    onChange={handleColumnChange}
+                    className={inputClass}
+                  >
+                    <option value={NO_COLUMN}>None</option>
+                    {columns.map((column, index) => (
+                      <option key={index} value={index}>
+                        {column}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="mt-4">
+                <label htmlFor="text-import-deck" className={labelClass}>
+                  Deck
+                </label>
+                <select
+                  id="text-import-deck"
+                  value={targetDeckId}
+                  onChange={handleTargetChange}
+                  className={inputClass}
+                >
+                  <option value={NEW_DECK}>New deck</option>
+                  {decks.map((deck) => (
+                    <option key={deck.id} value={deck.id}>
+                      {deck.name}
+                    </option>
+                  ))}
+                </select>
+                {!targetDeck && (
+                  <input
+                    type="text"
+                    aria-label="New deck name"
+                    value={deckName}
+                    onChange={handleDeckNameChange}
+                    className={`${inputClass} mt-2`}
+                  />
+                )}
+              </div>
+            </>
+          )}
+
+          {error && (
+            <div className="mt-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700">
+              <p className="font-mono text-sm text-red-600 dark:text-red-400">
+                {error}
+              </p>
+            </div>
+          )}
+
+          <div className="mt-6 flex justify-end gap-3">
+            <button
+              onClick={onClose}
+              disabled={isImporting}
+              className="px-4 py-2 font-mono text-sm
+                       text-terminal-muted dark:text-text-muted
+                       hover:text-gray-700 dark:hover:text-gray-300
+                       transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={!canImport || isImporting}
+              className="px-6 py-2 font-mono text-sm font-bold
+                       bg-terminal-primary dark:bg-cyan text-white
+                       rounded-lg hover:shadow-terminal-glow dark:hover:shadow-cyan-glow
+                       disabled:opacity-50 disabled:cursor-not-allowed
+                       transition-all flex items-center gap-2"
+            >
+              {isImporting && <Loader2 className="animate-spin" size={16} />}
+              {isImporting ? "Importing..." : "Import"}
+            </button>
+          </div>
+
+          <Dialog.Close asChild>
+            <button
+              onClick={onClose}
+              disabled={isImporting}
+              className="absolute top-4 right-4 p-1 rounded
+                       text-terminal-muted dark:text-text-muted
+                       hover:text-terminal-primary dark:hover:text-cyan
+                       transition-colors"
+              aria-label="Close"
+            >
+              <X size={20} />
+            </button>
+          </Dialog.Close>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
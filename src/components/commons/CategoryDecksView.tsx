@@ -7,6 +7,7 @@ import {
   type BrowseDeck,
   type BrowseTag,
 } from "../../services/api";
+import { subscriptionService } from "../../services/subscription-service";
 import { PublicDeckCard } from "./PublicDeckCard";
 import { SortDropdown, type SortOption } from "./SortDropdown";
 import { TagFilter } from "./TagFilter";
@@ -92,10 +93,11 @@ export function CategoryDecksView({
   const handleSubscribe = useCallback(
     async (deckId: string, isSubscribed: boolean) => {
       try {
+        // Subscribing also downloads the deck so it can be studied here
         if (isSubscribed) {
-          await api.unsubscribeFromDeck(deckId);
+          await subscriptionService.unsubscribe(deckId);
         } else {
-          await api.subscribeToDeck(deckId);
+          await subscriptionService.subscribe(deckId);
         }
         // Refresh decks to get updated subscription status
         loadDecks();
@@ -0,0 +1,43 @@
+import { useCallback } from "react";
+import { Keyboard } from "lucide-react";
+import { useStudySettings, AnswerMode } from "../../hooks/useStudySettings";
+
+const ANSWER_MODES: { value: AnswerMode; label: string }[] = [
+  { value: "self_rating", label: "Reveal" },
+  { value: "typed_response", label: "Type" },
+  { value: "multiple_choice", label: "Choose" },
+];
+
+export function AnswerModeControl() {
+  const { answerMode, setAnswerMode } = useStudySettings();
+
+  const handleChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setAnswerMode(e.target.value as AnswerMode);
+    },
+    [setAnswerMode],
+  );
+
+  return (
+    <div className="flex items-center gap-1">
+      <Keyboard
+        size={16}
+        className="text-gray-600 dark:text-gray-400 mr-1"
+        aria-hidden="true"
+      />
+      <select
+        value={answerMode}
+        onChange={handleChange}
+        className="text-sm font-mono text-gray-600 dark:text-gray-400 bg-transparent rounded hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none"
+        aria-label="Answer mode"
+        title="How to answer each card"
+      >
+        {ANSWER_MODES.map((mode) => (
+          <option key={mode.value} value={mode.value}>
+            {mode.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useCallback, useRef } from "react";
+import type { MultipleChoiceQuestion } from "../../lib/multiple-choice";
+
+interface MultipleChoiceOptionsProps {
+  question: MultipleChoiceQuestion;
+  selectedIndex: number | null;
+  onSelect: (optionIndex: number) => void;
+  onHover?: (optionIndex: number, durationMs: number) => void;
+}
+
+const OPTION_KEYS = ["A", "B", "C", "D", "E", "F"];
+
+export function MultipleChoiceOptions({
+  question,
+  selectedIndex,
+  onSelect,
+  onHover,
+}: MultipleChoiceOptionsProps) {
+  // When the pointer entered each option, for hover time logging
+  const hoverStartedAt = useRef(new Map<number, number>());
+  const isAnswered = selectedIndex !== null;
+
+  const handleMouseEnter = useCallback(
+    (e: React.MouseEvent<HTMLButtonElement>) => {
+      const index = Number(e.currentTarget.dataset.optionIndex);
+      hoverStartedAt.current.set(index, performance.now());
+    },
+    [],
+  );
+
+  const endHover = useCallback(
+    (index: number) => {
+      const startedAt = hoverStartedAt.current.get(index);
+      hoverStartedAt.current.delete(index);
+      if (startedAt !== undefined) {
+        onHover?.(index, performance.now() - startedAt);
+      }
+    },
+    [onHover],
+  );
+
+  const handleMouseLeave = useCallback(
+    (e: React.MouseEvent<HTMLButtonElement>) => {
+      endHover(Number(e.currentTarget.dataset.optionIndex));
+    },
+    [endHover],
+  );
+
+  const handleClick = useCallback(
+    (e: React.MouseEvent<HTMLButtonElement>) => {
+      e.stopPropagation();
+      if (isAnswered) return;
+      const index = Number(e.currentTarget.dataset.optionIndex);
+      // Disabled buttons may never see mouseleave, so close the hover now
+      endHover(index);
+      onSelect(index);
+    },
+    [isAnswered, endHover, onSelect],
+  );
+
+  const optionClass = (index: number): string => {
+    if (!isAnswered) {
+      return "border-ink/10 dark:border-cyan/30 hover:border-cyan hover:bg-cyan/5 dark:hover:bg-cyan/10";
+    }
+    if (index === question.correctIndex) {
+      return "border-green dark:border-emerald-400 bg-green/10 dark:bg-emerald-500/20";
+    }
+    if (index === selectedIndex) {
+      return "border-red-500 bg-red-500/10 dark:bg-red-500/20";
+    }
+    return "border-ink/10 dark:border-cyan/10 opacity-50";
+  };
+
+  return (
+    <div className="w-full grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+      {question.options.map((option, index) => (
+        <button
+          key={option}
+          type="button"
+          data-option-index={index}
+          onClick={handleClick}
+          onMouseEnter={handleMouseEnter}
+          onMouseLeave={handleMouseLeave}
+          disabled={isAnswered}
+          className={`flex items-start gap-3 px-4 py-3 rounded-lg border-2 text-left text-ink dark:text-text-primary transition-all ${optionClass(index)}`}
+        >
+          <span className="font-mono text-sm text-ink-light dark:text-text-muted">
+            {OPTION_KEYS[index] ?? index + 1}
+          </span>
+          <span className="break-words">{option}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { Coffee, X } from "lucide-react";
+import type { LiveSessionHealth } from "../../types/study-sessions";
+
+interface SessionPacingNoticeProps {
+  health: LiveSessionHealth | null;
+  cardsStudied: number;
+  optimalSessionLength: number | null;
+  onTakeBreak: () => void;
+  onEasierFirst: () => void;
+  onEndSession: () => void;
+  onDismiss: () => void;
+}
+
+function describeFatigue(
+  health: LiveSessionHealth | null,
+  cardsStudied: number,
+  optimalSessionLength: number | null,
+): string {
+  if (
+    health &&
+    (health.health === "fatigued" || health.health === "declining")
+  ) {
+    const signs = [];
+    if (health.accuracyDecay > 0) {
+      signs.push(
+        `accuracy is down ${Math.round(health.accuracyDecay * 100)} points`,
+      );
+    }
+    if (health.paceDecayPct > 0) {
+      signs.push(`you are ${health.paceDecayPct}% slower`);
+    }
+    return signs.length > 0
+      ? `Since the start of this session, ${signs.join(" and ")}.`
+      : "Your recent reviews are weaker than at the start of this session.";
+  }
+  return `You have studied ${cardsStudied} cards; you usually start to tire after about ${optimalSessionLength}.`;
+}
+
+/**
+ * Suggests a break, easier cards or ending the session once the learner's
+ * accuracy and pace drop during a session.
+ */
+export function SessionPacingNotice({
+  health,
+  cardsStudied,
+  optimalSessionLength,
+  onTakeBreak,
+  onEasierFirst,
+  onEndSession,
+  onDismiss,
+}: SessionPacingNoticeProps) {
+  return (
+    <div className="max-w-4xl mx-auto px-6 pt-4">
+      <div className="relative p-3 pr-10 rounded-lg border border-cyan-300 dark:border-cyan-700 bg-cyan-50 dark:bg-cyan-900/20 text-sm text-gray-700 dark:text-gray-300">
+        <p className="font-bold flex items-center gap-2">
+          <Coffee
+            size={14}
+            className="text-cyan-600 dark:text-cyan-400"
+            aria-hidden="true"
+          />
+          Time for a breather?
+        </p>
+        <p className="mt-1">
+          {describeFatigue(health, cardsStudied, optimalSessionLength)}
+        </p>
+
+        <div className="mt-2 flex flex-wrap gap-2">
+          <button
+            onClick={onTakeBreak}
+            className="px-3 py-1 text-xs font-medium rounded border border-cyan-400 dark:border-cyan-600 hover:bg-cyan-100 dark:hover:bg-cyan-900/40 transition-colors"
+          >
+            Take a break
+          </button>
+          <button
+            onClick={onEasierFirst}
+            className="px-3 py-1 text-xs font-medium rounded border border-cyan-400 dark:border-cyan-600 hover:bg-cyan-100 dark:hover:bg-cyan-900/40 transition-colors"
+          >
+            Easier cards first
+          </button>
+          <button
+            onClick={onEndSession}
+            className="px-3 py-1 text-xs font-medium rounded border border-cyan-400 dark:border-cyan-600 hover:bg-cyan-100 dark:hover:bg-cyan-900/40 transition-colors"
+          >
+            End session
+          </button>
+        </div>
+
+        <button
+          onClick={onDismiss}
+          className="absolute top-3 right-3 text-gray-500 hover:text-gray-900 dark:hover:text-white transition-colors"
+          aria-label="Dismiss"
+        >
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+}
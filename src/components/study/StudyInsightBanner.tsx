@@ -0,0 +1,181 @@
+import { useState, useCallback } from "react";
+// skipcq: JS-C1003 - Radix UI Dialog components require namespace import
+import * as Dialog from "@radix-ui/react-dialog";
+import { Shuffle, Layers, X } from "lucide-react";
+import type { Card } from "../../lib/srs-engine";
+import { SafeHtml } from "../SafeHtml";
+import {
+  INTERFERENCE_ADVICE,
+  type CardInsight,
+} from "../../lib/study-insights";
+
+interface StudyInsightBannerProps {
+  card: Card;
+  insight: CardInsight;
+  onStudyPrerequisites: (cards: Card[]) => void;
+}
+
+function CardSide({
+  html,
+  text,
+  label,
+}: {
+  html?: string;
+  text: string;
+  label: string;
+}) {
+  return (
+    <div>
+      <p className="text-xs font-mono text-gray-500 dark:text-gray-400">
+        {label}
+      </p>
+      {html ? (
+        <SafeHtml
+          html={html}
+          className="text-gray-900 dark:text-white anki-card-content"
+        />
+      ) : (
+        <p className="text-gray-900 dark:text-white whitespace-pre-line">
+          {text || "(empty)"}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function CardPanel({ card, title }: { card: Card; title: string }) {
+  return (
+    <div className="flex-1 min-w-0 p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-black space-y-3">
+      <p className="text-sm font-bold text-cyan-600 dark:text-cyan-400">
+        {title}
+      </p>
+      <CardSide html={card.frontHtml} text={card.front} label="Front" />
+      <CardSide html={card.backHtml} text={card.back} label="Back" />
+    </div>
+  );
+}
+
+/**
+ * Notice above the card being studied when the learner often confuses it
+ * with another card, or fails it while passing the basics it builds on.
+ */
+export function StudyInsightBanner({
+  card,
+  insight,
+  onStudyPrerequisites,
+}: StudyInsightBannerProps) {
+  const [isComparing, setIsComparing] = useState(false);
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  const confused = insight.confusedWith[0];
+  const prerequisites = insight.prerequisites;
+
+  const handleCompare = useCallback(() => {
+    setIsComparing(true);
+  }, []);
+
+  const handleCompareOpenChange = useCallback((open: boolean) => {
+    setIsComparing(open);
+  }, []);
+
+  const handleStudyPrerequisites = useCallback(() => {
+    if (prerequisites) onStudyPrerequisites(prerequisites.basicCards);
+  }, [prerequisites, onStudyPrerequisites]);
+
+  const handleDismiss = useCallback(() => {
+    setIsDismissed(true);
+  }, []);
+
+  if (isDismissed || (!confused && !prerequisites)) return null;
+
+  return (
+    <div className="max-w-4xl mx-auto px-6 pt-4">
+      <div className="relative p-3 pr-10 rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 text-sm text-gray-700 dark:text-gray-300 space-y-2">
+        {confused && (
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="min-w-0">
+              <Shuffle
+                size={14}
+                className="inline mr-2 text-amber-600 dark:text-amber-400"
+                aria-hidden="true"
+              />
+              Often confused with{" "}
+              <span className="font-bold">
+                {confused.card.front || "(empty)"}
+              </span>
+            </p>
+            <button
+              onClick={handleCompare}
+              className="px-3 py-1 text-xs font-medium rounded border border-amber-400 dark:border-amber-600 hover:bg-amber-100 dark:hover:bg-amber-900/40 transition-colors"
+            >
+              Compare side by side
+            </button>
+          </div>
+        )}
+
+        {prerequisites && (
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="min-w-0">
+              <Layers
+                size={14}
+                className="inline mr-2 text-amber-600 dark:text-amber-400"
+                aria-hidden="true"
+              />
+              {prerequisites.gap.recommendation}
+            </p>
+            <button
+              onClick={handleStudyPrerequisites}
+              className="px-3 py-1 text-xs font-medium rounded border border-amber-400 dark:border-amber-600 hover:bg-amber-100 dark:hover:bg-amber-900/40 transition-colors"
+            >
+              Study {prerequisites.basicCards.length} basics first
+            </button>
+          </div>
+        )}
+
+        <button
+          onClick={handleDismiss}
+          className="absolute top-3 right-3 text-gray-500 hover:text-gray-900 dark:hover:text-white transition-colors"
+          aria-label="Dismiss"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      {confused && (
+        <Dialog.Root open={isComparing} onOpenChange={handleCompareOpenChange}>
+          <Dialog.Portal>
+            <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+            <Dialog.Content
+              className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2
+                         w-full max-w-4xl p-6 rounded-lg
+                         bg-gray-50 dark:bg-gray-900
+                         border border-gray-200 dark:border-gray-700
+                         shadow-lg z-50 max-h-[90vh] overflow-y-auto"
+            >
+              <Dialog.Title className="text-lg font-bold text-gray-900 dark:text-white">
+                Compare confusable cards
+              </Dialog.Title>
+              <Dialog.Description className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                {INTERFERENCE_ADVICE[confused.pattern.recommendation]}
+              </Dialog.Description>
+
+              <div className="mt-4 flex flex-col sm:flex-row gap-4">
+                <CardPanel card={card} title="This card" />
+                <CardPanel card={confused.card} title="Confused with" />
+              </div>
+
+              <Dialog.Close asChild>
+                <button
+                  className="absolute top-4 right-4 p-1 rounded text-gray-500 hover:text-gray-900 dark:hover:text-white transition-colors"
+                  aria-label="Close"
+                >
+                  <X size={20} />
+                </button>
+              </Dialog.Close>
+            </Dialog.Content>
+          </Dialog.Portal>
+        </Dialog.Root>
+      )}
+    </div>
+  );
+}
@@ -1 +1,5 @@
 export { FontSizeControl } from "./FontSizeControl";
+export { AnswerModeControl } from "./AnswerModeControl";
+export { MultipleChoiceOptions } from "./MultipleChoiceOptions";
+export { StudyInsightBanner } from "./StudyInsightBanner";
+export { SessionPacingNotice } from "./SessionPacingNotice";
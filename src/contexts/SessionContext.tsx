@@ -7,6 +7,7 @@
  * - Break tracking (visibility change, manual pause)
  * - Tab visibility handling
  * - Browser close handling (beforeunload + sendBeacon)
+ * - Live session health (fatigue) polling, computed locally between polls
  */
 
 import {
@@ -30,7 +31,9 @@ import type {
   SessionStatistics,
   SessionConfig,
   SessionStats,
+  LiveSessionHealth,
 } from "../types/study-sessions";
+import { calculateLiveSessionHealth } from "../types/study-sessions";
 import type { StudySessionId } from "../types/ids";
 
 // ============================================================
@@ -38,6 +41,7 @@ import type { StudySessionId } from "../types/ids";
 // ============================================================
 
 const HEARTBEAT_INTERVAL_MS = 30000; // 30 seconds
+const HEALTH_POLL_INTERVAL_MS = 60000; // 1 minute
 const CLIENT_VERSION = "1.0.0";
 const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3000";
 
@@ -50,6 +54,8 @@ interface SessionContextType {
   session: ClientSessionState | null;
   isSessionActive: boolean;
   isPaused: boolean;
+  sessionHealth: LiveSessionHealth | null;
+  optimalSessionLength: number | null; // Cards before this user usually tires
 
   // Actions
   startSession: (config: SessionConfig) => Promise<StudySessionId | null>;
@@ -122,6 +128,7 @@ function createInitialSessionState(
     newCardsCompleted: 0,
     reviewCardsCompleted: 0,
     responseTimes: [],
+    correctAnswers: [],
     totalActiveTimeMs: 0,
     lastCardCompletedAt: now,
     breaks: [],
@@ -139,8 +146,14 @@ function createInitialSessionState(
 // ============================================================
 
 export function SessionProvider({ children }: { children: ReactNode }) {
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, user } = useAuth();
   const [session, setSession] = useState<ClientSessionState | null>(null);
+  const [sessionHealth, setSessionHealth] = useState<LiveSessionHealth | null>(
+    null,
+  );
+  const [optimalSessionLength, setOptimalSessionLength] = useState<
+    number | null
+  >(null);
 
   // Refs for intervals and cleanup
   const heartbeatIntervalRef = useRef<ReturnType<typeof setInterval> | null>(
@@ -197,6 +210,58 @@ export function SessionProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  // ============================================================
+  // SESSION HEALTH
+  // ============================================================
+
+  // Health is computed locally after every card; the server's view
+  // replaces it when it has seen at least as many reviews
+  useEffect(() => {
+    if (!session) {
+      setSessionHealth(null);
+      return;
+    }
+
+    const local = calculateLiveSessionHealth(
+      session.responseTimes,
+      session.correctAnswers,
+    );
+    setSessionHealth((current) => {
+      if (!("health" in local)) return null;
+      return current && current.cardsCompleted >= local.cardsCompleted
+        ? current
+        : local;
+    });
+  }, [session]);
+
+  const refreshHealth = useCallback(async () => {
+    const current = sessionRef.current;
+    if (!current?.isActive) return;
+
+    try {
+      const response = await api.getLiveSessionHealth(current.sessionId);
+      const health = response.data?.success ? response.data.data : null;
+      if (
+        health &&
+        "health" in health &&
+        health.cardsCompleted >= current.cardsCompleted
+      ) {
+        setSessionHealth(health);
+      }
+    } catch (error) {
+      console.warn("[SessionContext] Health check failed:", error);
+    }
+  }, []);
+
+  const isSessionRunning = !!session?.isActive && !session.isPaused;
+
+  useEffect(() => {
+    if (!isSessionRunning) return;
+
+    const interval = setInterval(refreshHealth, HEALTH_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isSessionRunning, refreshHealth]);
+
   // ============================================================
   // VISIBILITY HANDLING
   // ============================================================
@@ -328,6 +393,18 @@ export function SessionProvider({ children }: { children: ReactNode }) {
           // This ensures review events are linked to the correct session
           reviewEventCapture.setSessionId(sessionId);
 
+          // Past sessions tell how long this user can study before tiring
+          if (user) {
+            api.getFatigueAnalysis(user.id).then((analysis) => {
+              const data = analysis.data?.success ? analysis.data.data : null;
+              setOptimalSessionLength(
+                data && "optimalSessionLength" in data
+                  ? data.optimalSessionLength
+                  : null,
+              );
+            });
+          }
+
           return sessionId;
         }
       } catch (error) {
@@ -336,7 +413,7 @@ export function SessionProvider({ children }: { children: ReactNode }) {
 
       return null;
     },
-    [isAuthenticated, session, startHeartbeat],
+    [isAuthenticated, user, session, startHeartbeat],
   );
 
   const endSession = useCallback(
@@ -478,6 +555,7 @@ export function SessionProvider({ children }: { children: ReactNode }) {
           newCardsCompleted: prev.newCardsCompleted + (isNewCard ? 1 : 0),
           reviewCardsCompleted: prev.reviewCardsCompleted + (isNewCard ? 0 : 1),
           responseTimes: [...prev.responseTimes, responseTimeMs],
+          correctAnswers: [...prev.correctAnswers, rating >= 3],
           lastCardCompletedAt: Date.now(),
         };
       });
@@ -543,6 +621,8 @@ export function SessionProvider({ children }: { children: ReactNode }) {
     session,
     isSessionActive: session?.isActive ?? false,
     isPaused: session?.isPaused ?? false,
+    sessionHealth,
+    optimalSessionLength,
     startSession,
     endSession,
     pauseSession,
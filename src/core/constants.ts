@@ -9,6 +9,9 @@ export const ALGORITHMS = {
   SM18: 'sm18'
 } as const;
 
+export const DEFAULT_NEW_CARDS_PER_DAY = 20;
+export const DEFAULT_REVIEWS_PER_DAY = 200;
+
 export const DEFAULT_DECK_CONFIG: DeckConfig = {
   algorithm: 'sm2',
   learningSteps: [1, 10], // 1 minute, 10 minutes
@@ -19,13 +22,15 @@ export const DEFAULT_DECK_CONFIG: DeckConfig = {
   easyBonus: 1.3, // 130%
   intervalModifier: 1.0, // 100%
   maximumInterval: 36500, // 100 years
-  leechThreshold: 8 // 8 lapses
+  leechThreshold: 8, // 8 lapses
+  leechAction: 'tag',
+  desiredRetention: 0.9, // 90%
+  newCardsPerDay: DEFAULT_NEW_CARDS_PER_DAY,
+  reviewsPerDay: DEFAULT_REVIEWS_PER_DAY
 };
 
-export const DEFAULT_NEW_CARDS_PER_DAY = 20;
-export const DEFAULT_REVIEWS_PER_DAY = 200;
-
 export const QUEUE_TYPES = {
+  SUSPENDED: -1,
   NEW: 0,
   LEARNING: 1,
   REVIEW: 2,
@@ -40,6 +45,8 @@ export const CARD_STATES = {
   RELEARNING: 'relearning'
 } as const;
 
+export const LEECH_TAG = 'leech';
+
 export const MINIMUM_INTERVAL = 1; // 1 day
 export const MAXIMUM_INTERVAL = 36500; // 100 years
 export const MINIMUM_EASE_FACTOR = 1.3; // 130%
@@ -12,10 +12,16 @@ export interface Card {
   easeFactor: number;
   repetitions: number;
   lapses: number;
+  lastReview?: Date;
+
+  // FSRS memory state (unset until the first FSRS review)
+  stability?: number; // days until recall probability drops to 90%
+  difficulty?: number; // 1 (easy) - 10 (hard)
   
   // State
   status: 'new' | 'learning' | 'review' | 'relearning';
   queue: number;
+  learningStep?: number; // index into learningSteps/relearnSteps while (re)learning
   
   createdAt: Date;
   modifiedAt: Date;
@@ -57,4 +63,9 @@ export interface DeckConfig {
   intervalModifier: number; // 1.0 = 100%
   maximumInterval: number; // days
   leechThreshold: number; // number of lapses
+  leechAction: 'suspend' | 'tag';
+  desiredRetention: number; // FSRS target recall probability, 0.9 = 90%
+  fsrsWeights?: number[]; // fitted by the optimizer; defaults to the FSRS-4.5 weights
+  newCardsPerDay: number;
+  reviewsPerDay: number;
 }
\ No newline at end of file
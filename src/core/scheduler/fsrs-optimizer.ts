@@ -0,0 +1,194 @@
+// src/core/scheduler/fsrs-optimizer.ts
+import { DEFAULT_FSRS_WEIGHTS, FSRSScheduler } from "./fsrs";
+import { SchedulingState } from "./types";
+
+/**
+ * A single logged review of a card, as recorded in the local study sessions.
+ */
+export interface ReviewLog {
+  rating: number;
+  timestamp: Date;
+}
+
+export interface OptimizerOptions {
+  /** Weights to start the search from and to score the "before" log-loss */
+  initialWeights?: readonly number[];
+  /** Maximum number of full passes over the weights */
+  maxPasses?: number;
+  /** Called after every pass with the pass number and current log-loss */
+  onProgress?: (pass: number, logLoss: number) => void;
+}
+
+export interface OptimizerResult {
+  weights: number[];
+  logLossBefore: number;
+  logLossAfter: number;
+  /** Number of reviews the model was scored on */
+  reviewCount: number;
+}
+
+// Reviews needed before fitted weights are more trustworthy than the defaults
+export const MIN_REVIEWS_FOR_OPTIMIZATION = 100;
+
+const DEFAULT_MAX_PASSES = 25;
+const MIN_STEP = 1e-4;
+const EPSILON = 1e-6;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Allowed range for each FSRS-4.5 weight, matching the reference optimizer
+const WEIGHT_BOUNDS: readonly [number, number][] = [
+  [0.1, 100],
+  [0.1, 100],
+  [0.1, 100],
+  [0.1, 100],
+  [1, 10],
+  [0.1, 5],
+  [0.1, 5],
+  [0, 0.5],
+  [0, 3],
+  [0.1, 0.8],
+  [0.01, 2.5],
+  [0.5, 5],
+  [0.01, 0.2],
+  [0.01, 0.9],
+  [0.01, 2],
+  [0, 1],
+  [1, 4],
+];
+
+/**
+ * Fits FSRS weights to a user's own review history by minimising the log-loss
+ * of predicted recall against what actually happened. Runs entirely locally
+ * with a bounded coordinate search, yielding between passes to keep the UI responsive.
+ * @param {ReviewLog[][]} histories - Each card's reviews, oldest first.
+ * @param {OptimizerOptions} [options] - Search settings.
+ * @returns {Promise<OptimizerResult>} The fitted weights and log-loss before and after.
+ */
+export async function optimizeFSRSWeights(
+  histories: ReviewLog[][],
+  options: OptimizerOptions = {},
+): Promise<OptimizerResult> {
+  const initial = [...(options.initialWeights ?? DEFAULT_FSRS_WEIGHTS)];
+  const maxPasses = options.maxPasses ?? DEFAULT_MAX_PASSES;
+  const reviews = prepareHistories(histories);
+
+  const baseline = evaluateLogLoss(reviews, initial);
+  if (baseline.count < MIN_REVIEWS_FOR_OPTIMIZATION) {
+    throw new Error(
+      `Not enough review history to optimize: ${baseline.count} of ${MIN_REVIEWS_FOR_OPTIMIZATION} reviews needed`,
+    );
+  }
+
+  const weights = initial.map((w, i) => clampWeight(w, i));
+  let best = evaluateLogLoss(reviews, weights).logLoss;
+  const steps = weights.map((w) => Math.max(Math.abs(w) * 0.1, 0.01));
+
+  for (let pass = 1; pass <= maxPasses; pass++) {
+    let improved = false;
+
+    for (let i = 0; i < weights.length; i++) {
+      for (const direction of [1, -1]) {
+        const candidate = [...weights];
+        candidate[i] = clampWeight(weights[i] + direction * steps[i], i);
+        if (candidate[i] === weights[i]) continue;
+
+        const loss = evaluateLogLoss(reviews, candidate).logLoss;
+        if (loss < best) {
+          best = loss;
+          weights[i] = candidate[i];
+          improved = true;
+          break;
+        }
+      }
+    }
+
+    if (!improved) {
+      for (let i = 0; i < steps.length; i++) steps[i] /= 2;
+      if (steps.every((step) => step < MIN_STEP)) break;
+    }
+
+    options.onProgress?.(pass, best);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  return {
+    weights,
+    logLossBefore: baseline.logLoss,
+    logLossAfter: best,
+    reviewCount: baseline.count,
+  };
+}
+
+/**
+ * Scores a set of weights by replaying every card's history and averaging
+ * the binary cross-entropy of predicted recall on each day-spaced review.
+ * Same-day reviews update the simulated memory state but are not scored.
+ * @param {ReviewLog[][]} histories - Each card's reviews, oldest first.
+ * @param {readonly number[]} weights - The FSRS weights to score.
+ * @returns The mean log-loss and the number of reviews scored.
+ */
+export function evaluateLogLoss(
+  histories: ReviewLog[][],
+  weights: readonly number[],
+): { logLoss: number; count: number } {
+  const scheduler = new FSRSScheduler({ weights });
+  let total = 0;
+  let count = 0;
+
+  for (const history of histories) {
+    let state: SchedulingState | null = null;
+
+    for (const review of history) {
+      const at = new Date(review.timestamp);
+
+      const elapsed = state?.lastReview
+        ? (at.getTime() - state.lastReview.getTime()) / DAY_MS
+        : 0;
+
+      // Same-day repeats are learning steps; the model only predicts across
+      // days, but they still shape the memory state below
+      if (state && elapsed >= 1) {
+        const p = Math.min(
+          1 - EPSILON,
+          Math.max(EPSILON, scheduler.getRetrievability(state, at)),
+        );
+        total -= review.rating > 1 ? Math.log(p) : Math.log(1 - p);
+        count += 1;
+      }
+
+      const base: SchedulingState = state ?? {
+        due: at,
+        interval: 0,
+        easeFactor: 0,
+        repetitions: 0,
+        lapses: 0,
+        status: "new",
+      };
+      state = {
+        ...base,
+        ...scheduler.getNextMemoryState(base, review.rating, at),
+        lastReview: at,
+      };
+    }
+  }
+
+  return { logLoss: count > 0 ? total / count : 0, count };
+}
+
+function prepareHistories(histories: ReviewLog[][]): ReviewLog[][] {
+  return histories
+    .map((history) =>
+      history
+        .filter((review) => review.rating >= 1 && review.rating <= 4)
+        .sort(
+          (a, b) =>
+            new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+        ),
+    )
+    .filter((history) => history.length > 1);
+}
+
+function clampWeight(value: number, index: number): number {
+  const [min, max] = WEIGHT_BOUNDS[index];
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,302 @@
+// src/core/scheduler/fsrs.ts
+import { Card } from "../models";
+import { Scheduler, SchedulingState } from "./types";
+
+/**
+ * Default FSRS-4.5 model weights (w0..w16), trained by the FSRS project
+ * on a large corpus of Anki review logs.
+ */
+export const DEFAULT_FSRS_WEIGHTS: readonly number[] = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+export const DEFAULT_DESIRED_RETENTION = 0.9;
+
+// Forgetting curve constants: R(t, S) = (1 + FACTOR * t / S) ^ DECAY
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+const MIN_STABILITY = 0.01;
+// Recall SM-2 intervals are assumed to be scheduled for
+const SM2_RETENTION = 0.9;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface FSRSOptions {
+  /** Target probability of recall when a card comes due (0.7 - 0.99) */
+  desiredRetention?: number;
+  /** Upper bound on scheduled intervals, in days */
+  maximumInterval?: number;
+  /** Model weights; must contain 17 values */
+  weights?: readonly number[];
+}
+
+/**
+ * FSRS (Free Spaced Repetition Scheduler) implementing the core Scheduler interface.
+ * Models each card's memory with a stability (days until recall drops to 90%)
+ * and a difficulty (1-10), and schedules the next review when predicted recall
+ * falls to the desired retention.
+ */
+export class FSRSScheduler implements Scheduler {
+  name = "fsrs";
+
+  private readonly desiredRetention: number;
+  private readonly maximumInterval: number;
+  private readonly w: readonly number[];
+
+  constructor(options: FSRSOptions = {}) {
+    const weights = options.weights ?? DEFAULT_FSRS_WEIGHTS;
+    if (weights.length !== DEFAULT_FSRS_WEIGHTS.length) {
+      throw new Error(
+        `FSRS requires ${DEFAULT_FSRS_WEIGHTS.length} weights, got ${weights.length}`,
+      );
+    }
+
+    const retention = options.desiredRetention ?? DEFAULT_DESIRED_RETENTION;
+    if (retention <= 0 || retention >= 1) {
+      throw new Error("Desired retention must be between 0 and 1");
+    }
+
+    this.desiredRetention = retention;
+    this.maximumInterval = options.maximumInterval ?? 36500;
+    this.w = weights;
+  }
+
+  /**
+   * Updates the card's memory state and schedule based on the user's rating.
+   * @param {SchedulingState} card - The card to update.
+   * @param {number} rating - The rating from the review (1=Again, 2=Hard, 3=Good, 4=Easy).
+   * @param {Date} [now] - The time of the review (defaults to now).
+   * @returns {Partial<SchedulingState>} Partial card object containing updated scheduling fields.
+   */
+  updateCard(
+    card: SchedulingState,
+    rating: number,
+    now: Date = new Date(),
+  ): Partial<SchedulingState> {
+    const { stability, difficulty } = this.getNextMemoryState(
+      card,
+      rating,
+      now,
+    );
+    const interval = this.intervalFromStability(stability);
+
+    const isFirstReview = this.getMemoryState(card) === null;
+    const failed = rating === 1;
+
+    let status: Card["status"];
+    if (isFirstReview) {
+      status = failed ? "learning" : "review";
+    } else if (failed) {
+      status = "relearning";
+    } else {
+      status = "review";
+    }
+
+    const due = new Date(now);
+    due.setDate(due.getDate() + interval);
+
+    return {
+      stability,
+      difficulty,
+      interval,
+      repetitions: failed ? 0 : card.repetitions + 1,
+      lapses: failed && !isFirstReview ? card.lapses + 1 : card.lapses,
+      due,
+      status,
+      lastReview: now,
+    };
+  }
+
+  /**
+   * Calculates the next review interval for a card based on its current state and given rating.
+   * @param {SchedulingState} card - The card for which to calculate the next interval.
+   * @param {number} rating - The rating from the review (1=Again, 2=Hard, 3=Good, 4=Easy).
+   * @returns {number} The number of days until the next review.
+   */
+  getNextInterval(card: SchedulingState, rating: number): number {
+    const { stability } = this.getNextMemoryState(card, rating, new Date());
+    return this.intervalFromStability(stability);
+  }
+
+  /**
+   * FSRS does not use an ease factor; the card's existing value is carried
+   * through unchanged so SM-2 can resume from it if the deck switches back.
+   * @param {SchedulingState} card - The card being reviewed.
+   * @param {number} _rating - Unused.
+   * @returns {number} The card's current ease factor.
+   */
+  // skipcq: JS-0105 - Method must be instance method to implement Scheduler interface
+  getNextEaseFactor(card: SchedulingState, _rating: number): number {
+    return card.easeFactor;
+  }
+
+  /**
+   * Predicts the probability that the card can be recalled at the given time.
+   * @param {SchedulingState} card - The card to evaluate.
+   * @param {Date} [at] - The moment to evaluate recall at (defaults to now).
+   * @returns {number} Recall probability between 0 and 1, or 0 for unseen cards.
+   */
+  getRetrievability(card: SchedulingState, at: Date = new Date()): number {
+    const memory = this.getMemoryState(card);
+    if (!memory) return 0;
+    return this.forgettingCurve(this.elapsedDays(card, at), memory.stability);
+  }
+
+  /**
+   * Computes the stability and difficulty a card will have after a review.
+   * @param {SchedulingState} card - The card being reviewed.
+   * @param {number} rating - The rating from the review (1-4).
+   * @param {Date} now - The time of the review.
+   * @returns The new stability (days) and difficulty (1-10).
+   */
+  getNextMemoryState(
+    card: SchedulingState,
+    rating: number,
+    now: Date,
+  ): { stability: number; difficulty: number } {
+    const grade = Math.min(4, Math.max(1, Math.round(rating)));
+
+    const memory = this.getMemoryState(card);
+    if (!memory) {
+      return {
+        stability: this.initStability(grade),
+        difficulty: this.initDifficulty(grade),
+      };
+    }
+
+    const retrievability = this.forgettingCurve(
+      this.elapsedDays(card, now),
+      memory.stability,
+    );
+
+    const stability =
+      grade === 1
+        ? this.nextForgetStability(
+            memory.difficulty,
+            memory.stability,
+            retrievability,
+          )
+        : this.nextRecallStability(
+            memory.difficulty,
+            memory.stability,
+            retrievability,
+            grade,
+          );
+
+    return {
+      stability,
+      difficulty: this.nextDifficulty(memory.difficulty, grade),
+    };
+  }
+
+  /**
+   * Returns the card's current stability and difficulty. Cards that were
+   * scheduled before the deck switched to FSRS have theirs derived from
+   * their SM-2 state; cards that never graduated from learning have none.
+   * @param {SchedulingState} card - The card to read.
+   * @returns The card's memory state, or null if it has not been learned yet.
+   */
+  private getMemoryState(
+    card: SchedulingState,
+  ): { stability: number; difficulty: number } | null {
+    if (card.stability !== undefined && card.difficulty !== undefined) {
+      return { stability: card.stability, difficulty: card.difficulty };
+    }
+    if (card.status === "new" || card.status === "learning") return null;
+
+    // SM-2 schedules a review when recall has fallen to about 90%, which is
+    // exactly where the forgetting curve puts an interval equal to stability
+    const stability = Math.max(card.interval, MIN_STABILITY);
+
+    // The difficulty at which a "Good" review on time would grow stability
+    // by the card's ease factor, as its next SM-2 interval would have
+    const growthPerDifficulty =
+      Math.exp(this.w[8]) *
+      Math.pow(stability, -this.w[9]) *
+      (Math.exp((1 - SM2_RETENTION) * this.w[10]) - 1);
+    const difficulty = clampDifficulty(
+      11 - (card.easeFactor - 1) / growthPerDifficulty,
+    );
+
+    return { stability, difficulty };
+  }
+
+  private initStability(grade: number): number {
+    return Math.max(this.w[grade - 1], MIN_STABILITY);
+  }
+
+  private initDifficulty(grade: number): number {
+    return clampDifficulty(this.w[4] - (grade - 3) * this.w[5]);
+  }
+
+  private nextDifficulty(difficulty: number, grade: number): number {
+    const next = difficulty - this.w[6] * (grade - 3);
+    // Mean reversion towards the difficulty of a "Good" first rating
+    return clampDifficulty(
+      this.w[7] * this.initDifficulty(3) + (1 - this.w[7]) * next,
+    );
+  }
+
+  private nextRecallStability(
+    difficulty: number,
+    stability: number,
+    retrievability: number,
+    grade: number,
+  ): number {
+    const hardPenalty = grade === 2 ? this.w[15] : 1;
+    const easyBonus = grade === 4 ? this.w[16] : 1;
+
+    return (
+      stability *
+      (1 +
+        Math.exp(this.w[8]) *
+          (11 - difficulty) *
+          Math.pow(stability, -this.w[9]) *
+          (Math.exp((1 - retrievability) * this.w[10]) - 1) *
+          hardPenalty *
+          easyBonus)
+    );
+  }
+
+  private nextForgetStability(
+    difficulty: number,
+    stability: number,
+    retrievability: number,
+  ): number {
+    const next =
+      this.w[11] *
+      Math.pow(difficulty, -this.w[12]) *
+      (Math.pow(stability + 1, this.w[13]) - 1) *
+      Math.exp((1 - retrievability) * this.w[14]);
+
+    // A lapse never increases stability
+    return Math.max(MIN_STABILITY, Math.min(next, stability));
+  }
+
+  // skipcq: JS-0105 - Kept alongside the other model equations for readability
+  private forgettingCurve(elapsedDays: number, stability: number): number {
+    return Math.pow(1 + (FACTOR * elapsedDays) / stability, DECAY);
+  }
+
+  private intervalFromStability(stability: number): number {
+    const interval =
+      (stability / FACTOR) *
+      (Math.pow(this.desiredRetention, 1 / DECAY) - 1);
+
+    return Math.min(this.maximumInterval, Math.max(1, Math.round(interval)));
+  }
+
+  // skipcq: JS-0105 - Kept alongside the other model equations for readability
+  private elapsedDays(card: SchedulingState, now: Date): number {
+    if (!card.lastReview) return card.interval;
+    const lastReview = new Date(card.lastReview);
+    return Math.max(0, (now.getTime() - lastReview.getTime()) / DAY_MS);
+  }
+}
+
+function clampDifficulty(difficulty: number): number {
+  return Math.min(MAX_DIFFICULTY, Math.max(MIN_DIFFICULTY, difficulty));
+}
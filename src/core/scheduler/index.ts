@@ -1,3 +1,7 @@
 // src/core/scheduler/index.ts
 export * from './types';
-export * from './sm2';
\ No newline at end of file
+export * from './sm2';
+export * from './fsrs';
+export * from './fsrs-optimizer';
+export * from './learning-steps';
+export * from './registry';
\ No newline at end of file
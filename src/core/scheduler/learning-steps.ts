@@ -0,0 +1,163 @@
+// src/core/scheduler/learning-steps.ts
+import { Card, DeckConfig } from "../models";
+import { Scheduler, SchedulingState } from "./types";
+
+const MINUTE_MS = 60 * 1000;
+
+type StepConfig = Pick<DeckConfig, "learningSteps" | "relearnSteps">;
+
+/**
+ * Wraps a day-based scheduler with Anki-style minute learning steps.
+ * New and lapsed cards walk through the deck's learningSteps / relearnSteps
+ * (in minutes) before the inner scheduler takes over with day intervals.
+ */
+export class LearningStepScheduler implements Scheduler {
+  readonly name: string;
+
+  constructor(
+    private readonly inner: Scheduler,
+    private readonly config: StepConfig,
+  ) {
+    this.name = inner.name;
+  }
+
+  /**
+   * Moves a card through its learning steps, or delegates to the inner scheduler
+   * once the card has graduated.
+   * @param {SchedulingState} card - The card to update.
+   * @param {number} rating - The rating from the review (1=Again, 2=Hard, 3=Good, 4=Easy).
+   * @param {Date} [now] - The time of the review (defaults to now).
+   * @returns {Partial<SchedulingState>} Partial card object containing updated scheduling fields.
+   */
+  updateCard(
+    card: SchedulingState,
+    rating: number,
+    now: Date = new Date(),
+  ): Partial<SchedulingState> {
+    switch (card.status) {
+      case "new":
+      case "learning":
+        return this.updateLearningCard(card, rating, now);
+      case "relearning":
+        return this.updateRelearningCard(card, rating, now);
+      default:
+        return this.updateReviewCard(card, rating, now);
+    }
+  }
+
+  /**
+   * Calculates the next review interval in days. Cards that stay in a learning
+   * step keep their current interval; use updateCard().due for the exact time.
+   * @param {SchedulingState} card - The card for which to calculate the next interval.
+   * @param {number} rating - The rating from the review (1=Again, 2=Hard, 3=Good, 4=Easy).
+   * @returns {number} The number of days until the next review.
+   */
+  getNextInterval(card: SchedulingState, rating: number): number {
+    return this.updateCard(card, rating).interval ?? card.interval;
+  }
+
+  /**
+   * Delegates to the inner scheduler's ease factor calculation.
+   * @param {SchedulingState} card - The card for which to calculate the ease factor.
+   * @param {number} rating - The rating from the review (1=Again, 2=Hard, 3=Good, 4=Easy).
+   * @returns {number} The updated ease factor.
+   */
+  getNextEaseFactor(card: SchedulingState, rating: number): number {
+    return this.inner.getNextEaseFactor(card, rating);
+  }
+
+  private updateLearningCard(
+    card: SchedulingState,
+    rating: number,
+    now: Date,
+  ): Partial<SchedulingState> {
+    const steps = this.config.learningSteps;
+    if (steps.length === 0 || rating === 4) {
+      return this.graduate(card, rating, now);
+    }
+
+    const step = card.status === "new" ? 0 : (card.learningStep ?? 0);
+    if (rating === 1) return atStep(steps, 0, "learning", now);
+    if (rating === 2) return atStep(steps, step, "learning", now);
+
+    const nextStep = step + 1;
+    if (nextStep >= steps.length) {
+      return this.graduate(card, rating, now);
+    }
+    return atStep(steps, nextStep, "learning", now);
+  }
+
+  private updateRelearningCard(
+    card: SchedulingState,
+    rating: number,
+    now: Date,
+  ): Partial<SchedulingState> {
+    const steps = this.config.relearnSteps;
+    if (steps.length === 0) {
+      // Relearning cards created before relearn steps existed
+      return this.inner.updateCard(card, rating, now);
+    }
+
+    const step = Math.min(card.learningStep ?? 0, steps.length - 1);
+    if (rating === 1) return atStep(steps, 0, "relearning", now);
+    if (rating === 2) return atStep(steps, step, "relearning", now);
+
+    const nextStep = step + 1;
+    if (rating === 3 && nextStep < steps.length) {
+      return atStep(steps, nextStep, "relearning", now);
+    }
+
+    // Back to reviews at the interval the lapse left the card with
+    const due = new Date(now);
+    due.setDate(due.getDate() + Math.max(1, card.interval));
+    return {
+      status: "review",
+      learningStep: undefined,
+      due,
+      lastReview: now,
+    };
+  }
+
+  private updateReviewCard(
+    card: SchedulingState,
+    rating: number,
+    now: Date,
+  ): Partial<SchedulingState> {
+    const result = this.inner.updateCard(card, rating, now);
+    if (rating !== 1) return result;
+
+    const steps = this.config.relearnSteps;
+    if (steps.length === 0) {
+      return { ...result, status: "review" };
+    }
+    return { ...result, ...atStep(steps, 0, "relearning", now) };
+  }
+
+  private graduate(
+    card: SchedulingState,
+    rating: number,
+    now: Date,
+  ): Partial<SchedulingState> {
+    // The inner scheduler grades a learning card as graduating on Good/Easy
+    const result = this.inner.updateCard(
+      { ...card, status: "learning" },
+      Math.max(3, rating),
+      now,
+    );
+    return { ...result, status: "review", learningStep: undefined };
+  }
+}
+
+function atStep(
+  steps: number[],
+  index: number,
+  status: Card["status"],
+  now: Date,
+): Partial<SchedulingState> {
+  return {
+    status,
+    learningStep: index,
+    due: new Date(now.getTime() + steps[index] * MINUTE_MS),
+    lastReview: now,
+  };
+}
@@ -0,0 +1,74 @@
+// src/core/scheduler/registry.ts
+import { DeckConfig } from "../models";
+import { SM2Scheduler } from "./sm2";
+import { FSRSScheduler } from "./fsrs";
+import { LearningStepScheduler } from "./learning-steps";
+import { Scheduler, SchedulerFactory } from "./types";
+
+// Used for decks whose algorithm has no registered scheduler
+const FALLBACK_ALGORITHM = "sm2";
+
+/**
+ * Registry of scheduling algorithms keyed by DeckConfig.algorithm.
+ * Storage and UI resolve a deck's scheduler through here, so a new algorithm
+ * only needs to implement Scheduler and register a factory.
+ */
+export class SchedulerRegistry {
+  private readonly factories = new Map<string, SchedulerFactory>();
+
+  /**
+   * Registers (or replaces) the factory for an algorithm.
+   * @param {string} algorithm - The DeckConfig.algorithm value this factory serves.
+   * @param {SchedulerFactory} factory - Builds a scheduler from a deck config.
+   */
+  register(algorithm: string, factory: SchedulerFactory): void {
+    this.factories.set(algorithm, factory);
+  }
+
+  /**
+   * Checks whether an algorithm has a registered scheduler.
+   * @param {string} algorithm - The algorithm name.
+   * @returns {boolean} True if the algorithm can be resolved.
+   */
+  has(algorithm: string): boolean {
+    return this.factories.has(algorithm);
+  }
+
+  /**
+   * Lists the registered algorithm names.
+   * @returns {string[]} Algorithm names in registration order.
+   */
+  getAlgorithms(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Builds the scheduler for a deck config, wrapped with the deck's
+   * minute-level learning and relearning steps. Decks set to an algorithm
+   * with no registered scheduler (such as "sm18") are scheduled with SM-2.
+   * @param {DeckConfig} config - The deck's configuration.
+   * @returns {Scheduler} A scheduler configured for the deck.
+   */
+  resolve(config: DeckConfig): Scheduler {
+    const factory =
+      this.factories.get(config.algorithm) ??
+      this.factories.get(FALLBACK_ALGORITHM);
+    if (!factory) {
+      throw new Error(`No scheduler registered for algorithm: ${config.algorithm}`);
+    }
+    return new LearningStepScheduler(factory(config), config);
+  }
+}
+
+export const schedulerRegistry = new SchedulerRegistry();
+
+schedulerRegistry.register("sm2", (config) => new SM2Scheduler(config));
+schedulerRegistry.register(
+  "fsrs",
+  (config) =>
+    new FSRSScheduler({
+      desiredRetention: config.desiredRetention,
+      maximumInterval: config.maximumInterval,
+      weights: config.fsrsWeights,
+    }),
+);
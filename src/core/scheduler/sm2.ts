@@ -1,108 +1,122 @@
 // src/core/scheduler/sm2.ts
-import { Card } from "../models";
-import { Scheduler } from "./types";
+import { Card, DeckConfig } from "../models";
+import { DEFAULT_DECK_CONFIG, MINIMUM_EASE_FACTOR } from "../constants";
+import { Scheduler, SchedulingState } from "./types";
+
+const HARD_INTERVAL_MULTIPLIER = 0.8;
+const LAPSE_EASE_PENALTY = 0.2;
+const EASE_ADJUSTMENTS = [0, -0.15, 0, 0.15]; // Again, Hard, Good, Easy
 
 /**
- * SM-2 scheduler implementing the spaced repetition algorithm.
+ * SM-2 scheduler implementing the spaced repetition algorithm, with Anki-style
+ * easy bonus, hard multiplier and interval modifier taken from the deck config.
  * Schedules card reviews by updating interval, ease factor, repetitions, and status.
  */
 export class SM2Scheduler implements Scheduler {
   name = "sm2";
 
+  private readonly config: DeckConfig;
+
+  constructor(config: Partial<DeckConfig> = {}) {
+    this.config = { ...DEFAULT_DECK_CONFIG, ...config };
+  }
+
   /**
    * Updates the learning card based on the user's rating and SM-2 algorithm.
-   * @param {Card} card - The card to update.
+   * @param {SchedulingState} card - The card to update.
    * @param {number} rating - The rating from the review (1=Again, 2=Hard, 3=Good, 4=Easy).
-   * @returns {Partial<Card>} Partial card object containing updated scheduling fields.
+   * @param {Date} [now] - The time of the review (defaults to now).
+   * @returns {Partial<SchedulingState>} Partial card object containing updated scheduling fields.
    */
-  // skipcq: JS-0105 - Method must be instance method to implement Scheduler interface
-  updateCard(card: Card, rating: number): Partial<Card> {
-    const now = new Date();
-    let { interval, easeFactor, repetitions, lapses } = card;
+  updateCard(
+    card: SchedulingState,
+    rating: number,
+    now: Date = new Date(),
+  ): Partial<SchedulingState> {
+    let { interval, repetitions, lapses } = card;
+    let status: Card["status"];
 
-    // Rating: 1 = Again, 2 = Hard, 3 = Good, 4 = Easy
-    if (rating < 3) {
-      // Failed review
+    if (rating === 1) {
+      // Again - card was forgotten
+      lapses += 1;
       repetitions = 0;
       interval = 1;
-      lapses += 1;
-
-      if (rating === 1) {
-        interval = Math.max(1, Math.floor(interval * 0.6));
+      status = "relearning";
+    } else if (card.status === "new" || card.status === "learning") {
+      // Still in learning phase: Good/Easy graduate the card
+      if (rating >= 3) {
+        // Graduating counts as the first successful review
+        status = "review";
+        repetitions = 1;
+        interval =
+          rating === 4
+            ? this.config.easyInterval
+            : this.config.graduatingInterval;
+      } else {
+        status = card.status;
+        interval = 1;
       }
     } else {
-      // Successful review
+      // In review phase
+      status = "review";
       if (repetitions === 0) {
         interval = 1;
       } else if (repetitions === 1) {
         interval = 6;
       } else {
-        interval = Math.round(interval * easeFactor);
+        let newInterval = interval * card.easeFactor;
+
+        // Apply rating modifiers
+        if (rating === 2) {
+          newInterval *= HARD_INTERVAL_MULTIPLIER;
+        } else if (rating === 4) {
+          newInterval *= this.config.easyBonus;
+        }
+
+        interval = Math.round(newInterval * this.config.intervalModifier);
       }
 
       repetitions += 1;
-
-      // Update ease factor
-      easeFactor = this.getNextEaseFactor(card, rating);
     }
 
+    interval = Math.min(this.config.maximumInterval, Math.max(1, interval));
+
     // Calculate next due date
     const due = new Date(now);
     due.setDate(due.getDate() + interval);
 
-    // Update status
-    let status: Card["status"] = "review";
-    if (repetitions <= 1) {
-      status = "learning";
-    } else if (lapses > card.lapses && rating < 3) {
-      status = "relearning";
-    }
-
     return {
       interval,
-      easeFactor,
+      easeFactor: this.getNextEaseFactor(card, rating),
       repetitions,
       lapses,
       due,
       status,
-      modifiedAt: now,
+      lastReview: now,
     };
   }
 
   /**
    * Calculates the next review interval for a card based on its current state and given rating.
-   * @param {Card} card - The card for which to calculate the next interval.
+   * @param {SchedulingState} card - The card for which to calculate the next interval.
    * @param {number} rating - The rating from the review (1=Again, 2=Hard, 3=Good, 4=Easy).
    * @returns {number} The number of days until the next review.
    */
-  // skipcq: JS-0105 - Method must be instance method to implement Scheduler interface
-  getNextInterval(card: Card, rating: number): number {
-    if (rating < 3) {
-      return rating === 1 ? 1 : Math.max(1, Math.floor(card.interval * 0.6));
-    }
-
-    if (card.repetitions === 0) {
-      return 1;
-    } else if (card.repetitions === 1) {
-      return 6;
-    } else {
-      return Math.round(card.interval * card.easeFactor);
-    }
+  getNextInterval(card: SchedulingState, rating: number): number {
+    return this.updateCard(card, rating).interval ?? card.interval;
   }
 
   /**
    * Calculates the next ease factor (EF) for a card based on its current EF and rating.
-   * @param {Card} card - The card for which to calculate the ease factor.
+   * @param {SchedulingState} card - The card for which to calculate the ease factor.
    * @param {number} rating - The rating from the review (1=Again, 2=Hard, 3=Good, 4=Easy).
-   * @returns {number} The updated ease factor, clamped between 1.3 and 2.5.
+   * @returns {number} The updated ease factor, never below the minimum ease factor.
    */
   // skipcq: JS-0105 - Method must be instance method to implement Scheduler interface
-  getNextEaseFactor(card: Card, rating: number): number {
-    // EF' = EF + (0.1 - (5 - rating) * (0.08 + (5 - rating) * 0.02))
-    const ef =
-      card.easeFactor + (0.1 - (5 - rating) * (0.08 + (5 - rating) * 0.02));
+  getNextEaseFactor(card: SchedulingState, rating: number): number {
+    const adjustment =
+      rating === 1 ? -LAPSE_EASE_PENALTY : EASE_ADJUSTMENTS[rating - 1] ?? 0;
 
-    // Clamp between 1.3 and 2.5
-    return Math.max(1.3, Math.min(2.5, ef));
+    return Math.max(MINIMUM_EASE_FACTOR, card.easeFactor + adjustment);
   }
 }
@@ -1,9 +1,36 @@
 // src/core/scheduler/types.ts
-import { Card } from '../models';
+import { Card, DeckConfig } from '../models';
+
+/**
+ * The scheduling fields a scheduler reads and writes. Both the core Card
+ * model and the stored Dexie cards carry these, so any Scheduler can drive either.
+ */
+export type SchedulingState = Pick<
+  Card,
+  | 'due'
+  | 'interval'
+  | 'easeFactor'
+  | 'repetitions'
+  | 'lapses'
+  | 'status'
+  | 'learningStep'
+  | 'lastReview'
+  | 'stability'
+  | 'difficulty'
+>;
 
 export interface Scheduler {
   name: string;
-  updateCard(card: Card, rating: number): Partial<Card>;
-  getNextInterval(card: Card, rating: number): number;
-  getNextEaseFactor(card: Card, rating: number): number;
-}
\ No newline at end of file
+  updateCard(
+    card: SchedulingState,
+    rating: number,
+    now?: Date,
+  ): Partial<SchedulingState>;
+  getNextInterval(card: SchedulingState, rating: number): number;
+  getNextEaseFactor(card: SchedulingState, rating: number): number;
+}
+
+/**
+ * Builds a scheduler instance configured for a deck.
+ */
+export type SchedulerFactory = (config: DeckConfig) => Scheduler;
@@ -22,6 +22,7 @@ export interface CardTemplate {
 export interface NoteType {
   id: string;
   name: string;
+  type?: "standard" | "cloze"; // cloze types make one card per {{cN::...}}
   fields: Field[];
   templates: CardTemplate[];
   css: string;
@@ -0,0 +1,46 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+const MAX_NUDGES_PER_DAY = [1, 2, 3, 4] as const;
+type MaxNudgesPerDay = (typeof MAX_NUDGES_PER_DAY)[number];
+
+interface ReminderSettingsState {
+  enabled: boolean;
+  // Quiet hours run from start up to end, wrapping past midnight
+  quietHoursStart: number;
+  quietHoursEnd: number;
+  maxNudgesPerDay: MaxNudgesPerDay;
+  // The learner's most accurate hours, best first, and when they were fetched
+  bestHours: number[];
+  bestHoursFetchedAt: number | null;
+  setEnabled: (enabled: boolean) => void;
+  setQuietHours: (start: number, end: number) => void;
+  setMaxNudgesPerDay: (count: MaxNudgesPerDay) => void;
+  setBestHours: (hours: number[]) => void;
+}
+
+export const useReminderSettings = create<ReminderSettingsState>()(
+  persist(
+    (set) => ({
+      enabled: false,
+      quietHoursStart: 22,
+      quietHoursEnd: 8,
+      maxNudgesPerDay: 2,
+      bestHours: [],
+      bestHoursFetchedAt: null,
+      setEnabled: (enabled: boolean) => set({ enabled }),
+      setQuietHours: (start: number, end: number) =>
+        set({ quietHoursStart: start, quietHoursEnd: end }),
+      setMaxNudgesPerDay: (count: MaxNudgesPerDay) =>
+        set({ maxNudgesPerDay: count }),
+      setBestHours: (hours: number[]) =>
+        set({ bestHours: hours, bestHoursFetchedAt: Date.now() }),
+    }),
+    {
+      name: "commonry-reminder-settings",
+    },
+  ),
+);
+
+export { MAX_NUDGES_PER_DAY };
+export type { MaxNudgesPerDay };
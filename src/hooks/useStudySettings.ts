@@ -1,20 +1,30 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import type { ResponseType } from "../types/review-events";
 
 const FONT_SIZES = [14, 16, 18, 20, 24] as const;
 type FontSize = (typeof FONT_SIZES)[number];
 
+// How the learner answers a card during study
+type AnswerMode = Extract<
+  ResponseType,
+  "self_rating" | "typed_response" | "multiple_choice"
+>;
+
 interface StudySettingsState {
   fontSize: FontSize;
+  answerMode: AnswerMode;
   setFontSize: (size: FontSize) => void;
   increaseFontSize: () => void;
   decreaseFontSize: () => void;
+  setAnswerMode: (mode: AnswerMode) => void;
 }
 
 export const useStudySettings = create<StudySettingsState>()(
   persist(
     (set, get) => ({
       fontSize: 16,
+      answerMode: "self_rating",
       setFontSize: (size: FontSize) => set({ fontSize: size }),
       increaseFontSize: () => {
         const currentIndex = FONT_SIZES.indexOf(get().fontSize);
@@ -28,6 +38,7 @@ export const useStudySettings = create<StudySettingsState>()(
           set({ fontSize: FONT_SIZES[currentIndex - 1] });
         }
       },
+      setAnswerMode: (mode: AnswerMode) => set({ answerMode: mode }),
     }),
     {
       name: "commonry-study-settings",
@@ -36,4 +47,4 @@ export const useStudySettings = create<StudySettingsState>()(
 );
 
 export { FONT_SIZES };
-export type { FontSize };
+export type { FontSize, AnswerMode };
@@ -2,17 +2,67 @@
 import JSZip from "jszip";
 import initSqlJs from "sql.js";
 import type { Database, SqlJsStatic } from "sql.js";
-import { db } from "../storage/database";
+import {
+  db,
+  type NoteTypeRecord,
+  type StudySession,
+} from "../storage/database";
 import type { Card, Deck } from "./srs-engine";
-import type { DeckId } from "../types/ids";
+import type { CardId, CardModelId, DeckId, NoteId } from "../types/ids";
 import { ImportMappingService } from "../services/import-mapping-service";
+import { ExportOptions, QUEUE_TYPES } from "../core";
+import { getMediaBlob } from "../storage/media-store";
+import { processHtml } from "./note-templates";
+
+const ANKI_DECK_SEPARATOR = "::";
 
 export interface AnkiExportResult {
   fileName: string;
   blob: Blob;
   cardCount: number;
+  mediaCount: number;
+  reviewCount: number;
+}
+
+export type AnkiExportOptions = Partial<
+  Pick<ExportOptions, "includeMedia" | "includeScheduling">
+>;
+
+// Scheduling values written to Anki's cards table
+interface AnkiCardSchedule {
+  type: number;
+  queue: number;
+  due: number;
+  ivl: number;
+  factor: number;
+  reps: number;
+  lapses: number;
+  left: number;
+  data: string;
+}
+
+interface ExportedNote {
+  ankiNoteId: string;
+  noteType: NoteTypeRecord;
 }
 
+const ANKI_CARD_TYPES: Record<Card["status"], number> = {
+  new: 0,
+  learning: 1,
+  review: 2,
+  relearning: 3,
+};
+const ANKI_REVLOG_TYPES: Record<
+  NonNullable<StudySession["cardStatus"]>,
+  number
+> = {
+  new: 0,
+  learning: 0,
+  review: 1,
+  relearning: 2,
+};
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 let SQL: SqlJsStatic | null = null;
 
 async function initSQL() {
@@ -27,133 +77,198 @@ async function initSQL() {
 }
 
 /**
- * Export a Commonry deck to Anki .apkg format
+ * Export a Commonry deck, with its subdecks, to Anki .apkg format
  *
  * If the deck was imported from Anki, original IDs will be restored using:
  * 1. ImportMappingService - looks up original Anki IDs from import mappings
  * 2. externalId field - falls back to stored external IDs
  * 3. Generated IDs - creates new IDs for native Commonry cards
  *
- * This ensures that re-importing the exported deck into Anki maintains
- * referential integrity and sync compatibility.
+ * Notes keep their note type, fields, tags and GUID, and referenced media is
+ * bundled, so re-importing the exported deck into Anki updates the original
+ * notes. With includeScheduling, cards keep their progress and the local
+ * review history is written as the revlog.
  */
 export async function exportAnkiDeck(
   deckId: DeckId,
+  options: AnkiExportOptions = {},
 ): Promise<AnkiExportResult> {
+  const { includeMedia = true, includeScheduling = false } = options;
+
   try {
     const SQLModule = await initSQL();
 
-    // Get deck and cards
+    // Get deck, its subdecks and their cards
     const deck = await db.getDeck(deckId);
     if (!deck) {
       throw new Error("Deck not found");
     }
 
-    const cards = await db.cards.where("deckId").equals(deckId).toArray();
+    const deckTree = await getDeckTree(deck);
+    const cards = (
+      await db.cards
+        .where("deckId")
+        .anyOf(deckTree.map((entry) => entry.deck.id))
+        .toArray()
+    ).filter((card) => !card.isDeleted);
     if (cards.length === 0) {
       throw new Error("Deck has no cards to export");
     }
 
     // Create a new SQLite database for Anki
     const database = new SQLModule.Database();
-
-    // Initialize Anki database schema
-    initializeAnkiSchema(database, deck);
-
-    // Get or create deck ID for Anki
-    // First try to get original Anki ID from mapping service
-    let ankiDeckId = await ImportMappingService.getExternalId(deckId, "anki");
-
-    // Fall back to externalId field if mapping not found
-    if (!ankiDeckId && deck.externalId) {
-      ankiDeckId = deck.externalId;
-    }
-
-    // Generate new ID if this deck was never imported
-    if (!ankiDeckId) {
-      ankiDeckId = String(Date.now());
+    const collectionCreated = getCollectionCreated(cards);
+    initializeAnkiSchema(database, collectionCreated);
+
+    // Anki IDs are millisecond timestamps; generated ones count up from now
+    let lastGeneratedId = Date.now();
+    const nextId = () => String(++lastGeneratedId);
+
+    // Insert decks, named "Parent::Child" as in Anki
+    const ankiDeckIds = new Map<DeckId, string>();
+    for (const { deck: exportDeck, path } of deckTree) {
+      const ankiDeckId =
+        toAnkiId(
+          await ImportMappingService.getExternalId(exportDeck.id, "anki"),
+        ) ??
+        toAnkiId(exportDeck.externalId) ??
+        nextId();
+      insertDeck(database, ankiDeckId, path);
+      ankiDeckIds.set(exportDeck.id, ankiDeckId);
     }
 
-    // Insert deck
-    insertDeck(database, ankiDeckId, deck.name);
-
-    // Create a basic model (note type)
-    const modelId = String(Date.now());
-    insertBasicModel(database, modelId);
-
-    // Insert notes and cards
-    // Track which notes we've already inserted (multiple cards can share one note)
-    const insertedNotes = new Set<string>();
-    const baseTimestamp = Date.now();
-
-    // IMPORTANT: Each card needs a unique integer ID for Anki's SQLite database
-    // External IDs may have format "noteId_templateIndex" which can't be used directly
-    for (let cardIndex = 0; cardIndex < cards.length; cardIndex++) {
-      const card = cards[cardIndex];
-
-      // Try to get original Anki card ID from mapping service
-      let ankiCardExternalId = await ImportMappingService.getExternalId(card.id, "anki");
-
-      // Fall back to externalId field if mapping not found
-      if (!ankiCardExternalId && card.externalId) {
-        ankiCardExternalId = card.externalId;
+    // Notes are inserted once, with their note type, when their first card is reached
+    const exportedNotes = new Map<NoteId, ExportedNote | null>();
+    const ankiModelIds = new Map<CardModelId, string>();
+    const basicNoteIds = new Set<string>();
+    let basicModelId: string | null = null;
+    const mediaFiles = new Set<string>();
+    const revlogIds = new Set<number>();
+    let reviewCount = 0;
+
+    for (let position = 0; position < cards.length; position++) {
+      const card = cards[position];
+      const ankiDeckId =
+        ankiDeckIds.get(card.deckId) ?? ankiDeckIds.get(deck.id) ?? "";
+
+      if (card.noteId && !exportedNotes.has(card.noteId)) {
+        exportedNotes.set(
+          card.noteId,
+          await insertNoteWithModel(
+            database,
+            card.noteId,
+            ankiModelIds,
+            mediaFiles,
+            nextId,
+          ),
+        );
       }
+      const exportedNote = card.noteId ? exportedNotes.get(card.noteId) : null;
+
+      let ankiNoteId: string;
+      let ord: number;
+
+      if (exportedNote) {
+        ankiNoteId = exportedNote.ankiNoteId;
+        // Anki numbers cloze cards from ord 0 for {{c1::...}}
+        ord = card.clozeOrd
+          ? card.clozeOrd - 1
+          : Math.max(
+              0,
+              exportedNote.noteType.templates.findIndex(
+                (template) => template.id === card.templateId,
+              ),
+            );
+      } else {
+        // Cards without a note are written as Basic notes
+        if (!basicModelId) {
+          basicModelId = nextId();
+          insertBasicModel(database, basicModelId);
+        }
 
-      // Extract note ID from external ID format "noteId_templateIndex"
-      // or use the external ID directly if no underscore
-      let noteId: string;
-      let ankiCardIdInt: number;
-
-      if (ankiCardExternalId) {
-        if (ankiCardExternalId.includes("_")) {
-          // Format: "noteId_templateIndex"
-          noteId = ankiCardExternalId.split("_")[0];
-          // Generate unique card ID (can't reuse the external ID format with underscore)
-          ankiCardIdInt = baseTimestamp + cardIndex;
-        } else {
-          // Simple format: just the ID
-          noteId = ankiCardExternalId;
-          // Try to parse as integer, or generate new one
-          const parsedId = parseInt(ankiCardExternalId);
-          ankiCardIdInt = isNaN(parsedId) ? baseTimestamp + cardIndex : parsedId;
+        // External IDs may have format "noteId_templateIndex"
+        const ankiCardExternalId =
+          (await ImportMappingService.getExternalId(card.id, "anki")) ??
+          card.externalId;
+        ankiNoteId = toAnkiId(ankiCardExternalId?.split("_")[0]) ?? nextId();
+        ord = 0;
+
+        if (!basicNoteIds.has(ankiNoteId)) {
+          insertNote(
+            database,
+            ankiNoteId,
+            basicModelId,
+            [card.front, card.back],
+            [],
+            generateGUID(),
+          );
+          basicNoteIds.add(ankiNoteId);
+          for (const fileName of [
+            card.frontAudio,
+            card.backAudio,
+            card.frontImage,
+            card.backImage,
+          ]) {
+            if (fileName) mediaFiles.add(fileName);
+          }
         }
-      } else {
-        // Generate new IDs for cards that were never imported
-        noteId = String(baseTimestamp + cardIndex * 2); // Even numbers for notes
-        ankiCardIdInt = baseTimestamp + cardIndex * 2 + 1; // Odd numbers for cards
       }
 
-      // Only insert note if we haven't already inserted it
-      if (!insertedNotes.has(noteId)) {
-        insertNote(database, noteId, modelId, card, ankiDeckId);
-        insertedNotes.add(noteId);
+      // IMPORTANT: Each card needs a unique integer ID for Anki's SQLite database
+      const ankiCardId = nextId();
+      insertCard(
+        database,
+        ankiCardId,
+        ankiNoteId,
+        ankiDeckId,
+        ord,
+        includeScheduling
+          ? getAnkiCardSchedule(card, position, collectionCreated)
+          : getNewCardSchedule(position),
+      );
+
+      if (includeScheduling) {
+        reviewCount += await insertReviewLog(
+          database,
+          card.id,
+          ankiCardId,
+          revlogIds,
+        );
       }
-
-      insertCard(database, String(ankiCardIdInt), noteId, ankiDeckId);
     }
 
     // Export database to Uint8Array
     const data = database.export();
+    database.close();
 
     // Create ZIP file
     const zip = new JSZip();
     zip.file("collection.anki2", data);
 
-    // Add media mapping (empty for now - could be enhanced to include actual media files)
+    // Media files are stored as "0", "1", ... and named in the media mapping
     const mediaMapping: Record<string, string> = {};
+    if (includeMedia) {
+      for (const fileName of mediaFiles) {
+        const blob = await getMediaBlob(fileName);
+        if (!blob) continue;
+        const zipName = String(Object.keys(mediaMapping).length);
+        zip.file(zipName, blob);
+        mediaMapping[zipName] = fileName;
+      }
+    }
     zip.file("media", JSON.stringify(mediaMapping));
 
     // Generate ZIP blob
     const blob = await zip.generateAsync({ type: "blob" });
 
-    database.close();
-
     const fileName = `${sanitizeFileName(deck.name)}.apkg`;
 
     return {
       fileName,
       blob,
       cardCount: cards.length,
+      mediaCount: Object.keys(mediaMapping).length,
+      reviewCount,
     };
   } catch (error) {
     console.error("Error exporting Anki deck:", error);
@@ -163,10 +278,70 @@ export async function exportAnkiDeck(
   }
 }
 
+/**
+ * List a deck and all its subdecks with their full Anki names
+ */
+export async function getDeckTree(
+  deck: Deck,
+): Promise<{ deck: Deck; path: string }[]> {
+  const allDecks = await db.getAllDecks();
+  const decksById = new Map(allDecks.map((entry) => [entry.id, entry]));
+
+  // The exported deck keeps its own parents in its name
+  const names = [deck.name];
+  const seen = new Set<DeckId>([deck.id]);
+  let parent = deck.parentId ? decksById.get(deck.parentId) : undefined;
+  while (parent && !seen.has(parent.id)) {
+    names.unshift(parent.name);
+    seen.add(parent.id);
+    parent = parent.parentId ? decksById.get(parent.parentId) : undefined;
+  }
+
+  const tree = [{ deck, path: names.join(ANKI_DECK_SEPARATOR) }];
+  for (let i = 0; i < tree.length; i++) {
+    for (const child of allDecks) {
+      if (child.parentId !== tree[i].deck.id || seen.has(child.id)) continue;
+      seen.add(child.id);
+      tree.push({
+        deck: child,
+        path: `${tree[i].path}${ANKI_DECK_SEPARATOR}${child.name}`,
+      });
+    }
+  }
+  return tree;
+}
+
+/**
+ * Pick the collection creation time. Review due dates are stored as day
+ * numbers from it, so it starts no later than the earliest due review.
+ */
+function getCollectionCreated(cards: Card[]): number {
+  const earliest = cards.reduce(
+    (min, card) =>
+      card.status === "review"
+        ? Math.min(min, new Date(card.due).getTime())
+        : min,
+    Date.now(),
+  );
+  const created = new Date(earliest);
+  created.setHours(0, 0, 0, 0);
+  return created.getTime();
+}
+
+/**
+ * Use an ID from the import mappings only if Anki can store it as an integer
+ */
+function toAnkiId(id: string | null | undefined): string | null {
+  return id && /^\d+$/.test(id) ? id : null;
+}
+
 /**
  * Initialize basic Anki database schema
  */
-function initializeAnkiSchema(database: Database, _deck: Deck): void {
+function initializeAnkiSchema(
+  database: Database,
+  collectionCreated: number,
+): void {
   // Create col table (collection metadata)
   database.run(`
     CREATE TABLE col (
@@ -227,6 +402,21 @@ function initializeAnkiSchema(database: Database, _deck: Deck): void {
     )
   `);
 
+  // Create revlog table (review history)
+  database.run(`
+    CREATE TABLE revlog (
+      id INTEGER PRIMARY KEY,
+      cid INTEGER NOT NULL,
+      usn INTEGER NOT NULL,
+      ease INTEGER NOT NULL,
+      ivl INTEGER NOT NULL,
+      lastIvl INTEGER NOT NULL,
+      factor INTEGER NOT NULL,
+      time INTEGER NOT NULL,
+      type INTEGER NOT NULL
+    )
+  `);
+
   // Create graves table (for sync)
   database.run(`
     CREATE TABLE graves (
@@ -241,7 +431,7 @@ function initializeAnkiSchema(database: Database, _deck: Deck): void {
   // Insert collection metadata
   const colData = {
     id: 1,
-    crt: now,
+    crt: Math.floor(collectionCreated / 1000),
     mod: now,
     scm: now,
     ver: 11,
@@ -369,6 +559,113 @@ function insertBasicModel(database: Database, modelId: string): void {
   database.run("UPDATE col SET models = ? WHERE id = 1", [JSON.stringify(models)]);
 }
 
+/**
+ * Insert a note type into Anki database, keeping its fields, templates and styling
+ */
+function insertModel(
+  database: Database,
+  modelId: string,
+  noteType: NoteTypeRecord,
+): void {
+  const now = Math.floor(Date.now() / 1000);
+  const isCloze = noteType.type === "cloze";
+
+  const result = database.exec("SELECT models FROM col");
+  const modelsJson = result[0].values[0][0] as string;
+  const models = JSON.parse(modelsJson);
+
+  models[modelId] = {
+    id: parseInt(modelId),
+    name: noteType.name,
+    type: isCloze ? 1 : 0,
+    mod: now,
+    usn: 0,
+    sortf: 0,
+    did: null,
+    tmpls: noteType.templates.map((template, ord) => ({
+      name: template.name,
+      ord,
+      qfmt: template.frontTemplate,
+      afmt: template.backTemplate,
+      bqfmt: "",
+      bafmt: "",
+      did: null,
+    })),
+    flds: noteType.fields.map((field, ord) => ({
+      name: field.name,
+      ord,
+      sticky: field.sticky,
+      rtl: field.rtl,
+      font: field.font,
+      size: field.fontSize,
+    })),
+    css:
+      noteType.css ||
+      (isCloze
+        ? ".card {\n font-family: arial;\n font-size: 20px;\n text-align: center;\n color: black;\n background-color: white;\n}\n.cloze {\n font-weight: bold;\n color: blue;\n}\n"
+        : ".card {\n font-family: arial;\n font-size: 20px;\n text-align: center;\n color: black;\n background-color: white;\n}\n"),
+    latexPre:
+      "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+    latexPost: "\\end{document}",
+    latexsvg: false,
+  };
+
+  database.run("UPDATE col SET models = ? WHERE id = 1", [JSON.stringify(models)]);
+}
+
+/**
+ * Insert a note and, on first use, its note type into Anki database.
+ * Media referenced by the note's fields is added to mediaFiles.
+ * Returns null if the note or its note type no longer exists.
+ */
+async function insertNoteWithModel(
+  database: Database,
+  noteId: NoteId,
+  ankiModelIds: Map<CardModelId, string>,
+  mediaFiles: Set<string>,
+  nextId: () => string,
+): Promise<ExportedNote | null> {
+  const note = await db.getNote(noteId);
+  const noteType = note ? await db.noteTypes.get(note.modelId) : undefined;
+  if (!note || !noteType) {
+    return null;
+  }
+
+  let modelId = ankiModelIds.get(noteType.id);
+  if (!modelId) {
+    modelId =
+      toAnkiId(await ImportMappingService.getExternalId(noteType.id, "anki")) ??
+      toAnkiId(noteType.externalId) ??
+      nextId();
+    insertModel(database, modelId, noteType);
+    ankiModelIds.set(noteType.id, modelId);
+  }
+
+  const ankiNoteId =
+    toAnkiId(await ImportMappingService.getExternalId(note.id, "anki")) ??
+    toAnkiId(note.externalId) ??
+    nextId();
+  const fields = noteType.fields.map((field) => note.fields[field.name] ?? "");
+  insertNote(
+    database,
+    ankiNoteId,
+    modelId,
+    fields,
+    note.tags,
+    note.guid ?? generateGUID(),
+  );
+
+  for (const field of fields) {
+    const { audio, images } = processHtml(field);
+    for (const fileName of [...audio, ...images]) {
+      // Remote and inline images are not stored locally
+      if (!/^(https?:|data:|blob:)/i.test(fileName)) mediaFiles.add(fileName);
+    }
+  }
+
+  return { ankiNoteId, noteType };
+}
+
 /**
  * Insert note into Anki database
  */
@@ -376,26 +673,27 @@ function insertNote(
   database: Database,
   noteId: string,
   modelId: string,
-  card: Card,
-  _deckId: string,
+  fieldValues: string[],
+  tags: string[],
+  guid: string,
 ): void {
   const now = Math.floor(Date.now() / 1000);
 
   // Combine fields with Anki field separator
-  const fields = [card.front, card.back].join("\x1f");
+  const fields = fieldValues.join("\x1f");
 
   database.run(
     `INSERT INTO notes (id, guid, mid, mod, usn, tags, flds, sfld, csum, flags, data)
      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       parseInt(noteId),
-      generateGUID(),
+      guid,
       parseInt(modelId),
       now,
       0,
-      "",
+      tags.length > 0 ? ` ${tags.join(" ")} ` : "",
       fields,
-      card.front.substring(0, 64), // sfld is first field truncated
+      (fieldValues[0] ?? "").substring(0, 64), // sfld is first field truncated
       0,
       0,
       "",
@@ -411,6 +709,8 @@ function insertCard(
   cardId: string,
   noteId: string,
   deckId: string,
+  ord: number,
+  schedule: AnkiCardSchedule,
 ): void {
   const now = Math.floor(Date.now() / 1000);
 
@@ -421,25 +721,125 @@ function insertCard(
       parseInt(cardId),
       parseInt(noteId),
       parseInt(deckId),
-      0, // ord (template ordinal)
+      ord, // ord (template ordinal, or cloze number - 1)
       now,
       0, // usn
-      0, // type (0 = new)
-      0, // queue (0 = new)
-      0, // due
-      0, // interval
-      2500, // factor (2.5 = 250%)
-      0, // reps
-      0, // lapses
-      0, // left
+      schedule.type,
+      schedule.queue,
+      schedule.due,
+      schedule.ivl,
+      schedule.factor,
+      schedule.reps,
+      schedule.lapses,
+      schedule.left,
       0, // odue
       0, // odid
       0, // flags
-      "", // data
+      schedule.data,
     ],
   );
 }
 
+/**
+ * Scheduling for a card exported as new; due is its position in the new queue
+ */
+function getNewCardSchedule(position: number): AnkiCardSchedule {
+  return {
+    type: 0, // new
+    queue: 0, // new
+    due: position,
+    ivl: 0,
+    factor: 2500, // 2.5 = 250%
+    reps: 0,
+    lapses: 0,
+    left: 0,
+    data: "",
+  };
+}
+
+/**
+ * Convert a card's scheduling state to Anki's. Due is a position for new
+ * cards, an epoch second while learning and a day number for reviews.
+ */
+function getAnkiCardSchedule(
+  card: Card,
+  position: number,
+  collectionCreated: number,
+): AnkiCardSchedule {
+  const type = ANKI_CARD_TYPES[card.status] ?? 0;
+  if (type === 0) {
+    return {
+      ...getNewCardSchedule(position),
+      queue: card.queue === QUEUE_TYPES.SUSPENDED ? QUEUE_TYPES.SUSPENDED : 0,
+    };
+  }
+
+  const dueTime = new Date(card.due).getTime();
+  const isReview = type === ANKI_CARD_TYPES.review;
+  let queue: number = isReview ? QUEUE_TYPES.REVIEW : QUEUE_TYPES.LEARNING;
+  if (card.queue === QUEUE_TYPES.SUSPENDED) queue = QUEUE_TYPES.SUSPENDED;
+
+  return {
+    type,
+    queue,
+    due: isReview
+      ? Math.round((dueTime - collectionCreated) / DAY_MS)
+      : Math.floor(dueTime / 1000),
+    ivl: isReview
+      ? Math.max(1, Math.round(card.interval))
+      : Math.round(card.interval),
+    factor: Math.round(card.easeFactor * 1000),
+    reps: card.totalReviews,
+    lapses: card.lapses,
+    left: isReview ? 0 : 1, // one learning step left
+    data:
+      card.stability !== undefined && card.difficulty !== undefined
+        ? JSON.stringify({ s: card.stability, d: card.difficulty })
+        : "",
+  };
+}
+
+/**
+ * Write a card's local review history to Anki's revlog.
+ * Returns the number of entries written.
+ */
+async function insertReviewLog(
+  database: Database,
+  cardId: CardId,
+  ankiCardId: string,
+  revlogIds: Set<number>,
+): Promise<number> {
+  const sessions = await db.sessions
+    .where("cardId")
+    .equals(cardId)
+    .sortBy("timestamp");
+
+  for (const session of sessions) {
+    // The revlog ID is the review time in milliseconds and must be unique
+    let revlogId = new Date(session.timestamp).getTime();
+    while (revlogIds.has(revlogId)) revlogId++;
+    revlogIds.add(revlogId);
+
+    database.run(
+      `INSERT INTO revlog (id, cid, usn, ease, ivl, lastIvl, factor, time, type)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        revlogId,
+        parseInt(ankiCardId),
+        0, // usn
+        Math.min(4, Math.max(1, session.rating)),
+        0, // ivl (not recorded locally)
+        0, // lastIvl
+        0, // factor
+        Math.round(session.duration),
+        session.cardStatus ? ANKI_REVLOG_TYPES[session.cardStatus] : 1,
+      ],
+    );
+  }
+
+  return sessions.length;
+}
+
 /**
  * Generate a GUID for Anki note
  */
@@ -455,7 +855,7 @@ function generateGUID(): string {
 /**
  * Sanitize filename for safe download
  */
-function sanitizeFileName(name: string): string {
+export function sanitizeFileName(name: string): string {
   return name
     .replace(/[^a-z0-9_\- ]/gi, "_")
     .replace(/\s+/g, "_")
@@ -3,19 +3,51 @@ import JSZip from "jszip";
 import initSqlJs from "sql.js";
 import type { Database, SqlJsStatic } from "sql.js";
 import { decompress } from "fzstd";
-import DOMPurify from "dompurify";
 import { db } from "../storage/database";
+import {
+  getMediaBlob,
+  getMediaByHash,
+  hashMedia,
+  rewriteMediaReferences,
+  storeMediaFile,
+} from "../storage/media-store";
+import type {
+  NoteTypeRecord,
+  StudySession,
+  SyncableCard,
+} from "../storage/database";
 import { ImportMappingService } from "../services/import-mapping-service";
-import { DeckId, CardId } from "../types/ids";
+import { IdService } from "../services/id-service";
+import { DeckId, CardId, CardModelId, NoteId } from "../types/ids";
+import { DEFAULT_DECK_CONFIG, ImportOptions, QUEUE_TYPES } from "../core";
+import { SRSEngine, type Card } from "./srs-engine";
+import {
+  applyRenderedCard,
+  processHtml,
+  renderNoteCards,
+} from "./note-templates";
 
 export interface AnkiImportResult {
-  deckName: string;
+  deckName: string; // Top-level deck, or the first one if there are several
   cardCount: number;
   deckId: string;
+  deckCount: number;
+  reviewCount: number; // Review log entries added to local history
   isReimport: boolean;
   importBatchId: string;
 }
 
+// Dry-run comparison of an Anki file with what earlier imports brought in
+export interface AnkiImportPreview {
+  deckName: string;
+  deckCount: number;
+  isReimport: boolean;
+  newNotes: number;
+  changedNotes: number;
+  unchangedNotes: number;
+  removedNotes: number; // Imported before but no longer in the file; kept
+}
+
 export type CardDirection = "all" | "forward" | "reverse";
 
 // Anki model (note type) structure
@@ -44,120 +76,94 @@ interface AnkiModel {
   flds: AnkiField[];
   tmpls: AnkiTemplate[];
   css?: string;
-  type?: number;
+  type?: number; // 0 = standard, 1 = cloze
   mod?: number;
 }
 
-// Store media files in IndexedDB
-async function storeMediaFile(
-  fileName: string,
-  data: Uint8Array,
-): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open("AnkiMedia", 1);
+const ANKI_MODEL_TYPE_CLOZE = 1;
 
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains("media")) {
-        db.createObjectStore("media", { keyPath: "fileName" });
-      }
-    };
-
-    request.onsuccess = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      const transaction = db.transaction(["media"], "readwrite");
-      const store = transaction.objectStore("media");
-
-      // Determine MIME type based on file extension
-      let mimeType = "application/octet-stream";
-      const lowerFileName = fileName.toLowerCase();
-
-      // Audio types
-      if (lowerFileName.endsWith(".mp3")) {
-        mimeType = "audio/mpeg";
-      } else if (lowerFileName.endsWith(".wav")) {
-        mimeType = "audio/wav";
-      } else if (lowerFileName.endsWith(".ogg")) {
-        mimeType = "audio/ogg";
-      }
-      // Image types
-      else if (
-        lowerFileName.endsWith(".jpg") ||
-        lowerFileName.endsWith(".jpeg")
-      ) {
-        mimeType = "image/jpeg";
-      } else if (lowerFileName.endsWith(".png")) {
-        mimeType = "image/png";
-      } else if (lowerFileName.endsWith(".gif")) {
-        mimeType = "image/gif";
-      } else if (lowerFileName.endsWith(".webp")) {
-        mimeType = "image/webp";
-      } else if (lowerFileName.endsWith(".svg")) {
-        mimeType = "image/svg+xml";
-      } else if (lowerFileName.endsWith(".bmp")) {
-        mimeType = "image/bmp";
-      }
-
-      // Convert Uint8Array to Blob with proper MIME type
-      const blob = new Blob([new Uint8Array(data)], { type: mimeType });
+interface AnkiDeck {
+  id: string;
+  name: string; // Full path, e.g. "Languages::Spanish::Verbs"
+}
 
-      store.put({ fileName, blob });
+const ANKI_DECK_SEPARATOR = "::";
 
-      transaction.oncomplete = () => {
-        db.close();
-        resolve("stored");
-      };
+// Row of Anki's cards table
+interface AnkiCard {
+  id: string;
+  deckId: string;
+  type: number; // 0 = new, 1 = learning, 2 = review, 3 = relearning
+  queue: number; // Same values as QUEUE_TYPES; -2 and -3 are buried
+  due: number;
+  ivl: number; // Days; negative values are seconds for learning cards
+  factor: number; // Ease in permille, e.g. 2500
+  reps: number;
+  lapses: number;
+  data: string;
+}
 
-      transaction.onerror = () => {
-        db.close();
-        reject(transaction.error);
-      };
-    };
+// Row of Anki's revlog table
+interface AnkiReview {
+  timestamp: number; // The revlog ID is the review time in milliseconds
+  ease: number; // 1-4, or 0 for manual rescheduling
+  time: number; // Milliseconds spent on the answer
+  type: number; // 0 = learn, 1 = review, 2 = relearn, 3 = filtered, 4+ = manual
+}
 
-    request.onerror = () => reject(request.error);
-  });
+type AnkiSchedule = Pick<
+  Card,
+  | "status"
+  | "queue"
+  | "due"
+  | "interval"
+  | "easeFactor"
+  | "repetitions"
+  | "lapses"
+  | "totalReviews"
+  | "lastReview"
+  | "stability"
+  | "difficulty"
+>;
+
+// Where an Anki card is imported to and, if scheduling is kept, its progress
+interface CardImport {
+  deckId?: DeckId;
+  schedule?: AnkiSchedule;
 }
 
+const ANKI_CARD_STATUSES: Card["status"][] = [
+  "new",
+  "learning",
+  "review",
+  "relearning",
+];
+const ANKI_TYPE_QUEUES: number[] = [
+  QUEUE_TYPES.NEW,
+  QUEUE_TYPES.LEARNING,
+  QUEUE_TYPES.REVIEW,
+  QUEUE_TYPES.LEARNING,
+];
+const ANKI_REVIEW_STATUSES: StudySession["cardStatus"][] = [
+  "learning",
+  "review",
+  "relearning",
+  "review",
+];
+// Due values above this are epoch seconds rather than day numbers
+const ANKI_EPOCH_SECONDS_THRESHOLD = 1_000_000_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 // Get media file URL from IndexedDB
 export async function getMediaUrl(fileName: string): Promise<string | null> {
-  return new Promise((resolve) => {
-    const request = indexedDB.open("AnkiMedia", 1);
-
-    request.onsuccess = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-
-      if (!db.objectStoreNames.contains("media")) {
-        db.close();
-        resolve(null);
-        return;
-      }
-
-      const transaction = db.transaction(["media"], "readonly");
-      const store = transaction.objectStore("media");
-      const getRequest = store.get(fileName);
-
-      getRequest.onsuccess = () => {
-        const result = getRequest.result;
-        db.close();
-
-        if (result?.blob) {
-          // Create a new object URL from the blob each time
-          const url = URL.createObjectURL(result.blob);
-          resolve(url);
-        } else {
-          console.log("No media found for:", fileName);
-          resolve(null);
-        }
-      };
-
-      getRequest.onerror = () => {
-        db.close();
-        resolve(null);
-      };
-    };
+  const blob = await getMediaBlob(fileName);
+  if (!blob) {
+    console.log("No media found for:", fileName);
+    return null;
+  }
 
-    request.onerror = () => resolve(null);
-  });
+  // Create a new object URL from the blob each time
+  return URL.createObjectURL(blob);
 }
 
 let SQL: SqlJsStatic | null = null;
@@ -173,14 +179,113 @@ async function initSQL() {
   return SQL;
 }
 
-// Helper: Extract and store media files from ZIP
-async function extractMediaFiles(zip: JSZip): Promise<void> {
+// Newer exports (.anki21b and recent .colpkg) zstd-compress the media map and files
+const ZSTD_MAGIC = [0x28, 0xb5, 0x2f, 0xfd];
+
+function isZstdCompressed(data: Uint8Array): boolean {
+  return ZSTD_MAGIC.every((byte, index) => data[index] === byte);
+}
+
+type ProtobufFields = Map<number, (number | Uint8Array)[]>;
+
+// Helper: Minimal protobuf reader for the schema 18 note type configs and the
+// media map. Varints become numbers and length-delimited fields stay as bytes.
+function readProtobuf(bytes: Uint8Array): ProtobufFields {
+  const fields: ProtobufFields = new Map();
+  let pos = 0;
+
+  const readVarint = (): number => {
+    let result = 0;
+    let multiplier = 1;
+    let byte: number;
+    do {
+      byte = bytes[pos++] ?? 0;
+      result += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+    } while (byte & 0x80);
+    return result;
+  };
+
+  while (pos < bytes.length) {
+    const key = readVarint();
+    const fieldNumber = Math.floor(key / 8);
+    let value: number | Uint8Array;
+
+    switch (key % 8) {
+      case 0:
+        value = readVarint();
+        break;
+      case 1: // 64-bit; no field we read uses it
+        value = 0;
+        pos += 8;
+        break;
+      case 2: {
+        const length = readVarint();
+        value = bytes.subarray(pos, pos + length);
+        pos += length;
+        break;
+      }
+      case 5: // 32-bit; no field we read uses it
+        value = 0;
+        pos += 4;
+        break;
+      default:
+        throw new Error(`Unsupported protobuf wire type ${key % 8}`);
+    }
+
+    fields.set(fieldNumber, [...(fields.get(fieldNumber) ?? []), value]);
+  }
+
+  return fields;
+}
+
+function protobufString(
+  fields: ProtobufFields,
+  fieldNumber: number,
+): string | undefined {
+  const value = fields.get(fieldNumber)?.[0];
+  return value instanceof Uint8Array
+    ? new TextDecoder().decode(value)
+    : undefined;
+}
+
+function protobufNumber(
+  fields: ProtobufFields,
+  fieldNumber: number,
+): number | undefined {
+  const value = fields.get(fieldNumber)?.[0];
+  return typeof value === "number" ? value : undefined;
+}
+
+// Helper: Parse the protobuf media map (MediaEntries) used by newer exports.
+// Files in the ZIP are named by their index unless a legacy name is recorded.
+function parseMediaEntries(bytes: Uint8Array): Record<string, string> {
+  const mapping: Record<string, string> = {};
+
+  (readProtobuf(bytes).get(1) ?? []).forEach((entry, index) => {
+    if (!(entry instanceof Uint8Array)) return;
+    const fields = readProtobuf(entry);
+    const zipName = String(protobufNumber(fields, 255) ?? index);
+    mapping[zipName] = protobufString(fields, 1) ?? zipName;
+  });
+
+  return mapping;
+}
+
+// Helper: Visit each media file in ZIP under its name in the deck. Files
+// are read one at a time so large collections are not held in memory.
+async function forEachMediaFile(
+  zip: JSZip,
+  visit: (fileName: string, data: Uint8Array) => Promise<void>,
+): Promise<void> {
   const mediaFile = zip.file("media");
   let mediaMapping: Record<string, string> = {};
 
   if (mediaFile) {
-    const mediaJson = await mediaFile.async("text");
-    mediaMapping = JSON.parse(mediaJson);
+    const mediaBytes = await mediaFile.async("uint8array");
+    mediaMapping = isZstdCompressed(mediaBytes)
+      ? parseMediaEntries(decompress(mediaBytes))
+      : JSON.parse(new TextDecoder().decode(mediaBytes));
     console.log("Media mapping:", mediaMapping);
   }
 
@@ -188,16 +293,41 @@ async function extractMediaFiles(zip: JSZip): Promise<void> {
   console.log("Found media files:", mediaFiles.length);
 
   for (const file of mediaFiles) {
-    const mediaData = await file.async("uint8array");
-    const mediaNumber = file.name;
-    const actualFileName = mediaMapping[mediaNumber] || mediaNumber;
+    const rawData = await file.async("uint8array");
+    await visit(
+      mediaMapping[file.name] || file.name,
+      isZstdCompressed(rawData) ? decompress(rawData) : rawData,
+    );
+  }
+}
+
+// Helper: Extract and store media files from ZIP. Returns the name each
+// file was stored under, keyed by its name in the deck.
+async function extractMediaFiles(zip: JSZip): Promise<Map<string, string>> {
+  const storedFileNames = new Map<string, string>();
+
+  await forEachMediaFile(zip, async (fileName, data) => {
+    const storedFileName = await storeMediaFile(fileName, data);
+    console.log("Stored media file:", fileName, "→", storedFileName);
+    storedFileNames.set(fileName, storedFileName);
+  });
+
+  return storedFileNames;
+}
 
-    await storeMediaFile(mediaNumber, mediaData);
-    if (actualFileName !== mediaNumber) {
-      await storeMediaFile(actualFileName, mediaData);
+// Helper: Names media files would be renamed to on import because the same
+// contents are already stored under another name
+async function getStoredMediaRenames(zip: JSZip): Promise<Map<string, string>> {
+  const renames = new Map<string, string>();
+
+  await forEachMediaFile(zip, async (fileName, data) => {
+    const existing = await getMediaByHash(await hashMedia(data));
+    if (existing && existing.fileName !== fileName) {
+      renames.set(fileName, existing.fileName);
     }
-    console.log("Stored media file:", mediaNumber, "→", actualFileName);
-  }
+  });
+
+  return renames;
 }
 
 // Helper: Load collection database from ZIP
@@ -233,45 +363,242 @@ async function loadCollectionDatabase(
   return new SQLModule.Database(collectionData);
 }
 
-// Helper: Extract deck info from database
-function extractDeckInfo(database: Database): {
-  deckName: string;
-  deckId: string | null;
-} {
+// Helper: Extract every deck from database. Names are full paths such as
+// "Parent::Child"; schema 18 stores the separator as \x1f instead.
+function extractDecks(database: Database): AnkiDeck[] {
+  try {
+    const decksTableResult = database.exec("SELECT id, name FROM decks");
+    if (decksTableResult.length) {
+      return decksTableResult[0].values.map(([id, name]) => ({
+        id: String(id),
+        name: String(name).split("\x1f").join(ANKI_DECK_SEPARATOR),
+      }));
+    }
+  } catch (e) {
+    // Older collections have no decks table; their decks live in col.decks
+  }
+
   try {
-    const decksTableResult = database.exec(
-      "SELECT id, name FROM decks LIMIT 1",
+    const decksResult = database.exec("SELECT decks FROM col");
+    if (decksResult.length && decksResult[0].values.length) {
+      const decksJson: Record<string, { name: string }> = JSON.parse(
+        decksResult[0].values[0][0] as string,
+      );
+      return Object.entries(decksJson).map(([id, deck]) => ({
+        id,
+        name: deck.name,
+      }));
+    }
+  } catch {
+    console.log("Could not parse deck info, using defaults");
+  }
+  return [];
+}
+
+// Helper: Read Anki's cards, grouped by note and then by template or cloze
+// ord. Cards sitting in a filtered deck report their original deck and due.
+function extractCards(database: Database): Map<string, Map<number, AnkiCard>> {
+  const cards = new Map<string, Map<number, AnkiCard>>();
+
+  try {
+    const cardsResult = database.exec(
+      `SELECT id, nid, ord, CASE WHEN odid != 0 THEN odid ELSE did END,
+              type, queue, CASE WHEN odid != 0 THEN odue ELSE due END,
+              ivl, factor, reps, lapses, data
+       FROM cards`,
     );
-    if (decksTableResult.length && decksTableResult[0].values.length) {
-      return {
-        deckName: decksTableResult[0].values[0][1] as string,
-        deckId: String(decksTableResult[0].values[0][0]),
-      };
+    for (const row of cardsResult[0]?.values ?? []) {
+      const [id, nid, did, data] = [row[0], row[1], row[3], row[11]];
+      const [ord, type, queue, due, ivl, factor, reps, lapses] = [
+        row[2],
+        ...row.slice(4, 11),
+      ].map(Number);
+
+      const noteId = String(nid);
+      const noteCards = cards.get(noteId) ?? new Map<number, AnkiCard>();
+      noteCards.set(ord, {
+        id: String(id),
+        deckId: String(did),
+        type,
+        queue,
+        due,
+        ivl,
+        factor,
+        reps,
+        lapses,
+        data: String(data ?? ""),
+      });
+      cards.set(noteId, noteCards);
     }
   } catch (e) {
-    try {
-      const decksResult = database.exec("SELECT decks FROM col");
-      if (decksResult.length && decksResult[0].values.length) {
-        const decksJson = JSON.parse(decksResult[0].values[0][0] as string);
-        const firstDeckId = Object.keys(decksJson).find((id) => id !== "1");
-        if (firstDeckId) {
-          return {
-            deckName: decksJson[firstDeckId].name,
-            deckId: firstDeckId,
-          };
-        }
-      }
-    } catch (e2) {
-      console.log("Could not parse deck info, using defaults");
+    console.warn("Could not read cards, using a single deck:", e);
+  }
+
+  return cards;
+}
+
+// Helper: The deck a note belongs to is the deck of its first card
+function getNoteDeck(
+  noteCards: Map<number, AnkiCard> | undefined,
+): string | null {
+  if (!noteCards?.size) return null;
+  const firstOrd = Math.min(...noteCards.keys());
+  return noteCards.get(firstOrd)?.deckId ?? null;
+}
+
+// Helper: Only decks that hold cards are imported (plus their parents), which
+// skips Anki's empty "Default" deck
+function getUsedDecks(
+  notes: unknown[][],
+  ankiCards: Map<string, Map<number, AnkiCard>>,
+): { usedDeckIds: Set<string>; noteCounts: Map<string, number> } {
+  const usedDeckIds = new Set<string>();
+  const noteCounts = new Map<string, number>();
+  for (const note of notes) {
+    const noteCards = ankiCards.get(String(note[0]));
+    noteCards?.forEach((ankiCard) => usedDeckIds.add(ankiCard.deckId));
+    const noteDeck = getNoteDeck(noteCards);
+    if (noteDeck) {
+      noteCounts.set(noteDeck, (noteCounts.get(noteDeck) ?? 0) + 1);
+    }
+  }
+  return { usedDeckIds, noteCounts };
+}
+
+// Helper: The top-level deck, or the first one if none is top-level
+function getRootDeck(importedDecks: AnkiDeck[]): AnkiDeck | undefined {
+  return (
+    importedDecks.find((deck) => !deck.name.includes(ANKI_DECK_SEPARATOR)) ??
+    importedDecks[0]
+  );
+}
+
+// Helper: Check if any of these decks was previously imported
+async function findPreviousImport(
+  usedDeckIds: Set<string>,
+): Promise<string | null> {
+  for (const ankiDeckId of usedDeckIds) {
+    const existingBatchId = await ImportMappingService.getDeckImportBatch(
+      "anki",
+      ankiDeckId,
+    );
+    if (existingBatchId) return existingBatchId;
+  }
+  return null;
+}
+
+// Helper: Read the review log, grouped by Anki card ID in review order
+function extractReviewLog(database: Database): Map<string, AnkiReview[]> {
+  const reviews = new Map<string, AnkiReview[]>();
+
+  try {
+    const revlogResult = database.exec(
+      "SELECT id, cid, ease, time, type FROM revlog ORDER BY id",
+    );
+    for (const [id, cid, ease, time, type] of revlogResult[0]?.values ?? []) {
+      const cardReviews = reviews.get(String(cid)) ?? [];
+      cardReviews.push({
+        timestamp: Number(id),
+        ease: Number(ease),
+        time: Number(time),
+        type: Number(type),
+      });
+      reviews.set(String(cid), cardReviews);
     }
+  } catch (e) {
+    console.warn("Could not read review log:", e);
+  }
+
+  return reviews;
+}
+
+// Helper: Day numbers in Anki's cards table count from the collection's creation
+function extractCollectionCreated(database: Database): number {
+  try {
+    const colResult = database.exec("SELECT crt FROM col");
+    const crt = Number(colResult[0]?.values[0]?.[0]);
+    if (crt > 0) return crt * 1000;
+  } catch (e) {
+    console.warn("Could not read collection creation time:", e);
+  }
+  return Date.now();
+}
+
+// Helper: Convert an Anki card's scheduling state to Commonry's card fields
+function getAnkiSchedule(
+  ankiCard: AnkiCard,
+  reviews: AnkiReview[],
+  collectionCreated: number,
+): AnkiSchedule {
+  const status = ANKI_CARD_STATUSES[ankiCard.type] ?? "new";
+  const answers = reviews.filter((review) => review.ease > 0);
+  const lastAnswer = answers[answers.length - 1];
+
+  // Due is a position for new cards, an epoch second for intraday learning
+  // and a day number for everything else
+  let due = new Date();
+  if (status !== "new") {
+    due =
+      ankiCard.due > ANKI_EPOCH_SECONDS_THRESHOLD
+        ? new Date(ankiCard.due * 1000)
+        : new Date(collectionCreated + ankiCard.due * DAY_MS);
+  }
+
+  // Suspended cards stay suspended; buried cards go back to their usual queue
+  let queue = ankiCard.queue;
+  if (queue < QUEUE_TYPES.SUSPENDED) {
+    queue = ANKI_TYPE_QUEUES[ankiCard.type] ?? QUEUE_TYPES.NEW;
+  }
+
+  // SM-2 counts consecutive passing answers; without a log, estimate from totals
+  let repetitions = Math.max(0, ankiCard.reps - ankiCard.lapses);
+  if (answers.length > 0) {
+    repetitions = answers.reduce(
+      (count, review) => (review.ease === 1 ? 0 : count + 1),
+      0,
+    );
+  }
+
+  const interval = Math.max(0, ankiCard.ivl);
+  let lastReview: Date | undefined;
+  if (lastAnswer) {
+    lastReview = new Date(lastAnswer.timestamp);
+  } else if (status === "review") {
+    lastReview = new Date(due.getTime() - interval * DAY_MS);
   }
-  return { deckName: "Imported Deck", deckId: null };
+
+  // Anki 23.10+ keeps FSRS memory state in the card's data column
+  let memoryState: { s?: number; d?: number } = {};
+  try {
+    memoryState = ankiCard.data ? JSON.parse(ankiCard.data) : {};
+  } catch {
+    // Older collections leave data empty or use it for add-on storage
+  }
+
+  return {
+    status,
+    queue,
+    due,
+    interval,
+    easeFactor:
+      ankiCard.factor > 0
+        ? ankiCard.factor / 1000
+        : DEFAULT_DECK_CONFIG.startingEase,
+    repetitions,
+    lapses: ankiCard.lapses,
+    totalReviews: ankiCard.reps,
+    lastReview,
+    stability: memoryState.s,
+    difficulty: memoryState.d,
+  };
 }
 
 // Helper: Extract notes from database
 function extractNotes(database: Database): unknown[][] {
   try {
-    const notesResult = database.exec("SELECT id, mid, flds, tags FROM notes");
+    const notesResult = database.exec(
+      "SELECT id, mid, flds, tags, guid FROM notes",
+    );
     if (notesResult.length && notesResult[0].values.length) {
       return notesResult[0].values;
     }
@@ -293,11 +620,17 @@ function extractNotes(database: Database): unknown[][] {
 function extractModels(database: Database): Record<string, AnkiModel> {
   try {
     const modelsResult = database.exec("SELECT models FROM col");
-    if (modelsResult.length && modelsResult[0].values.length) {
-      const models = JSON.parse(modelsResult[0].values[0][0] as string);
+    const modelsJson = modelsResult[0]?.values[0]?.[0];
+    const models: Record<string, AnkiModel> = modelsJson
+      ? JSON.parse(String(modelsJson))
+      : {};
+    if (Object.keys(models).length > 0) {
       console.log("Loaded models:", Object.keys(models));
       return models;
     }
+
+    // Schema 18 collections (anki21b) keep note types in their own tables
+    return extractModelsFromTables(database);
   } catch (e) {
     console.warn(
       "Could not load models, falling back to simple field mapping:",
@@ -307,105 +640,58 @@ function extractModels(database: Database): Record<string, AnkiModel> {
   return {};
 }
 
-// Helper: Process HTML to extract text and media
-function processHtml(html: string) {
-  if (!html || typeof html !== "string") {
-    return { text: "", html: "", audio: [], images: [] };
-  }
-
-  const audioMatches = html.match(/\[sound:([^\]]+)\]/g);
-  const audioFiles = audioMatches
-    ? (audioMatches
-        .map((m) => m.match(/\[sound:([^\]]+)\]/)?.[1])
-        .filter(Boolean) as string[])
-    : [];
-
-  const imgMatches = html.match(/<img[^>]+src=["']?([^"'>]+)["']?[^>]*>/gi);
-  const imageFiles = imgMatches
-    ? (imgMatches
-        .map((m) => {
-          const srcMatch = m.match(/src=["']?([^"'>]+)["']?/i);
-          return srcMatch?.[1];
-        })
-        .filter(Boolean) as string[])
-    : [];
-
-  // Clean HTML: remove [sound:...] tags but keep HTML structure
-  let cleanedHtml = html.replace(/\[sound:([^\]]+)\]/g, "");
-
-  // Sanitize HTML to prevent XSS attacks while preserving formatting
-  // Allow common formatting tags used in Anki cards
-  cleanedHtml = DOMPurify.sanitize(cleanedHtml, {
-    ALLOWED_TAGS: [
-      "h1",
-      "h2",
-      "h3",
-      "h4",
-      "h5",
-      "h6",
-      "p",
-      "div",
-      "span",
-      "br",
-      "hr",
-      "strong",
-      "b",
-      "em",
-      "i",
-      "u",
-      "a",
-      "ul",
-      "ol",
-      "li",
-      "img",
-    ],
-    ALLOWED_ATTR: ["class", "style", "href", "src", "alt", "title"],
-  });
-
-  // Also extract plain text for fallback/search
-  const tempDiv = document.createElement("div");
-  tempDiv.innerHTML = cleanedHtml;
-  const plainText = (tempDiv.textContent || tempDiv.innerText || "")
-    .replace(/\s+/g, " ")
-    .trim();
-
-  return {
-    text: plainText, // Plain text for backwards compatibility
-    html: cleanedHtml, // Sanitized HTML to display safely
-    audio: audioFiles,
-    images: imageFiles,
-  };
-}
+// Helper: Read note types from the schema 18 notetypes, fields and templates
+// tables. Their config columns are protobuf messages.
+function extractModelsFromTables(
+  database: Database,
+): Record<string, AnkiModel> {
+  const models: Record<string, AnkiModel> = {};
 
-// Helper: Render Anki template (Mustache-like)
-function renderTemplate(
-  template: string,
-  fieldMap: Record<string, string>,
-): string {
-  let rendered = template;
-
-  // Support field names with any characters (spaces, hyphens, parentheses, etc.)
-  const conditionalRegex = /\{\{#([^}]+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
-  rendered = rendered.replace(
-    conditionalRegex,
-    (_match, fieldName, content) => {
-      const fieldValue = fieldMap[fieldName] || "";
-      return fieldValue.trim() ? content : "";
-    },
+  const notetypesResult = database.exec(
+    "SELECT id, name, config FROM notetypes",
   );
+  for (const [id, name, config] of notetypesResult[0]?.values ?? []) {
+    const fields = readProtobuf(config as Uint8Array);
+    models[String(id)] = {
+      id: String(id),
+      name: String(name),
+      type: protobufNumber(fields, 1), // kind
+      css: protobufString(fields, 3),
+      flds: [],
+      tmpls: [],
+    };
+  }
 
-  const invertedRegex = /\{\{\^([^}]+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
-  rendered = rendered.replace(invertedRegex, (_match, fieldName, content) => {
-    const fieldValue = fieldMap[fieldName] || "";
-    return fieldValue.trim() ? "" : content;
-  });
+  const fieldsResult = database.exec(
+    "SELECT ntid, ord, name, config FROM fields ORDER BY ntid, ord",
+  );
+  for (const [ntid, ord, name, config] of fieldsResult[0]?.values ?? []) {
+    const fields = readProtobuf(config as Uint8Array);
+    models[String(ntid)]?.flds.push({
+      name: String(name),
+      ord: Number(ord),
+      sticky: protobufNumber(fields, 1) === 1,
+      rtl: protobufNumber(fields, 2) === 1,
+      font: protobufString(fields, 3),
+      size: protobufNumber(fields, 4),
+    });
+  }
 
-  const fieldRegex = /\{\{([^}]+)\}\}/g;
-  rendered = rendered.replace(fieldRegex, (_match, fieldName) => {
-    return fieldMap[fieldName] || "";
-  });
+  const templatesResult = database.exec(
+    "SELECT ntid, ord, name, config FROM templates ORDER BY ntid, ord",
+  );
+  for (const [ntid, ord, name, config] of templatesResult[0]?.values ?? []) {
+    const fields = readProtobuf(config as Uint8Array);
+    models[String(ntid)]?.tmpls.push({
+      name: String(name),
+      ord: Number(ord),
+      qfmt: protobufString(fields, 1) ?? "",
+      afmt: protobufString(fields, 2) ?? "",
+    });
+  }
 
-  return rendered;
+  console.log("Loaded note types:", Object.keys(models));
+  return models;
 }
 
 // Helper: Process a note with fallback (no model)
@@ -415,19 +701,23 @@ async function processNoteWithFallback(
   deckId: string,
   importBatchId: string,
   processHtmlFn: typeof processHtml,
-): Promise<void> {
+  duplicateResolution: ImportOptions["duplicateResolution"],
+  schedule?: AnkiSchedule,
+): Promise<number> {
   const processedFields = fieldValues.map((f) => processHtmlFn(f));
   const frontData = processedFields[0] || { text: "", audio: [], images: [] };
   const backData = processedFields[1] ||
     processedFields[0] || { text: "", audio: [], images: [] };
 
   // Create mapping for this card (note -> card in Anki terminology)
-  const cardId = await ImportMappingService.getOrCreateMapping(
-    "anki",
+  const cardId = await resolveMapping(
     noteId,
     "card",
     importBatchId,
+    duplicateResolution,
   );
+  const existingCard = await db.cards.get(cardId as CardId);
+  if (existingCard && duplicateResolution === "skip") return 0;
 
   // Create card with external ID tracking
   const card = db.srsEngine.createCard(
@@ -450,147 +740,416 @@ async function processNoteWithFallback(
   if (frontData.images[0]) card.frontImage = frontData.images[0];
   if (backData.images[0]) card.backImage = backData.images[0];
 
-  // Add sync metadata for SyncableCard
-  const syncableCard = {
-    ...card,
+  // Add sync metadata for SyncableCard; updates keep the card's scheduling.
+  // Anki's scheduling is where replays of the review log start from.
+  const syncableCard: SyncableCard = {
+    ...(existingCard ?? {
+      ...card,
+      ...schedule,
+      replayBase: schedule && SRSEngine.createReplayBase(schedule),
+    }),
+    ...pickCardContent(card),
+    lastModifiedAt: new Date(),
+    syncStatus: "pending",
+    version: (existingCard?.version ?? 0) + 1,
+  };
+
+  await db.cards.put(syncableCard);
+  return 1;
+}
+
+// Helper: The content fields of a fallback card, which a re-import refreshes
+function pickCardContent(card: Card): Partial<Card> {
+  return {
+    front: card.front,
+    back: card.back,
+    deckId: card.deckId,
+    frontHtml: card.frontHtml,
+    backHtml: card.backHtml,
+    frontAudio: card.frontAudio,
+    backAudio: card.backAudio,
+    frontImage: card.frontImage,
+    backImage: card.backImage,
+    importSource: card.importSource,
+    externalId: card.externalId,
+  };
+}
+
+// Helper: Look up the internal ID for an Anki note or card. With "duplicate",
+// a new copy is made and the mapping moves to it, so later re-imports and the
+// review log follow the newest copy.
+async function resolveMapping(
+  sourceId: string,
+  entityType: "note" | "card",
+  importBatchId: string,
+  duplicateResolution: ImportOptions["duplicateResolution"],
+) {
+  return duplicateResolution === "duplicate"
+    ? ImportMappingService.createMapping(
+        "anki",
+        sourceId,
+        entityType,
+        importBatchId,
+      )
+    : ImportMappingService.getOrCreateMapping(
+        "anki",
+        sourceId,
+        entityType,
+        importBatchId,
+      );
+}
+
+// Helper: Store an Anki model as a note type, keeping template IDs stable across re-imports
+async function importNoteType(
+  model: AnkiModel,
+  importBatchId: string,
+): Promise<NoteTypeRecord> {
+  const noteTypeId = (await ImportMappingService.getOrCreateMapping(
+    "anki",
+    String(model.id),
+    "cardModel",
+    importBatchId,
+  )) as CardModelId;
+  const existing = await db.noteTypes.get(noteTypeId);
+
+  const noteType: NoteTypeRecord = {
+    id: noteTypeId,
+    name: model.name,
+    type: model.type === ANKI_MODEL_TYPE_CLOZE ? "cloze" : "standard",
+    fields: (model.flds || []).map((field) => ({
+      name: field.name,
+      sticky: field.sticky ?? false,
+      rtl: field.rtl ?? false,
+      fontSize: field.size ?? 20,
+      font: field.font ?? "Arial",
+    })),
+    templates: (model.tmpls || []).map((template, index) => ({
+      id: existing?.templates[index]?.id ?? IdService.generateCardTemplateId(),
+      name: template.name || `Card ${index + 1}`,
+      frontTemplate: template.qfmt || "",
+      backTemplate: template.afmt || "",
+      styling: "",
+    })),
+    css: model.css || "",
+    importSource: "anki",
+    externalId: String(model.id),
+    serverId: existing?.serverId,
+    lastSyncedAt: existing?.lastSyncedAt,
     lastModifiedAt: new Date(),
-    syncStatus: "pending" as const,
-    version: 1,
+    syncStatus: "pending",
+    version: (existing?.version ?? 0) + 1,
   };
 
-  await db.cards.add(syncableCard);
+  await db.noteTypes.put(noteType);
+  return noteType;
 }
 
-// Helper: Process a note with model templates
+// Helper: Store a note and generate its cards from the note type's templates
 async function processNoteWithModel(
   noteId: string,
   fieldValues: string[],
-  model: AnkiModel,
-  deckId: string,
+  tags: string[],
+  guid: string | undefined,
+  noteType: NoteTypeRecord,
+  deckId: DeckId,
+  cardImports: Map<number, CardImport>,
   importBatchId: string,
   cardDirection: CardDirection,
-  processHtmlFn: typeof processHtml,
-  renderTemplateFn: typeof renderTemplate,
+  duplicateResolution: ImportOptions["duplicateResolution"],
 ): Promise<number> {
-  const fieldMap: Record<string, string> = {};
-  const modelFields = model.flds || [];
-
-  modelFields.forEach((field: AnkiField, index: number) => {
-    fieldMap[field.name] = fieldValues[index] || "";
+  const fields: Record<string, string> = {};
+  noteType.fields.forEach((field, index) => {
+    fields[field.name] = fieldValues[index] || "";
   });
 
-  console.log("Field map:", fieldMap);
-
-  const templates = model.tmpls || [];
-  const filteredTemplates = templates.filter((_template, index) => {
-    if (cardDirection === "all") return true;
-    if (cardDirection === "forward") return index === 0;
-    if (cardDirection === "reverse") return index === 1;
-    return true;
+  const internalNoteId = (await resolveMapping(
+    noteId,
+    "note",
+    importBatchId,
+    duplicateResolution,
+  )) as NoteId;
+  const now = new Date();
+  const existingNote = await db.notes.get(internalNoteId);
+  if (existingNote && duplicateResolution === "skip") return 0;
+
+  await db.notes.put({
+    id: internalNoteId,
+    deckId,
+    modelId: noteType.id,
+    fields,
+    tags,
+    createdAt: existingNote?.createdAt ?? now,
+    modifiedAt: now,
+    importSource: "anki",
+    externalId: noteId,
+    guid,
+    serverId: existingNote?.serverId,
+    lastSyncedAt: existingNote?.lastSyncedAt,
+    lastModifiedAt: now,
+    syncStatus: "pending",
+    version: (existingNote?.version ?? 0) + 1,
   });
 
   let cardsCreated = 0;
 
-  for (
-    let templateIndex = 0;
-    templateIndex < filteredTemplates.length;
-    templateIndex++
-  ) {
-    const template = filteredTemplates[templateIndex];
-    const qfmt = template.qfmt || "";
-    const afmt = template.afmt || "";
-
-    console.log(`\n--- Template: ${template.name || "Card"} ---`);
-    console.log("Front template (qfmt):", qfmt.substring(0, 200));
-    console.log("Back template (afmt):", afmt.substring(0, 200));
-
-    const renderedFront = renderTemplateFn(qfmt, fieldMap);
-    const fieldMapWithFront = { ...fieldMap, FrontSide: renderedFront };
-    const renderedBack = renderTemplateFn(afmt, fieldMapWithFront);
-
-    console.log("Rendered front:", renderedFront.substring(0, 200));
-    console.log("Rendered back:", renderedBack.substring(0, 200));
-
-    const frontData = processHtmlFn(renderedFront);
-    const backData = processHtmlFn(renderedBack);
-
-    console.log("Processed front text:", frontData.text.substring(0, 200));
-    console.log("Processed back text:", backData.text.substring(0, 200));
-
-    if (
-      !frontData.text.trim() &&
-      !frontData.images.length &&
-      !backData.text.trim()
-    ) {
-      console.log("Skipping empty card");
-      continue;
+  for (const rendered of renderNoteCards(noteType, fields)) {
+    const templateIndex = noteType.templates.findIndex(
+      (template) => template.id === rendered.templateId,
+    );
+    // Direction only applies to standard two-sided types, not cloze
+    if (!rendered.clozeOrd) {
+      if (cardDirection === "forward" && templateIndex !== 0) continue;
+      if (cardDirection === "reverse" && templateIndex !== 1) continue;
     }
 
-    // Create unique ID for this card (note + template combination)
-    const cardExternalId = `${noteId}_${templateIndex}`;
-    const cardId = await ImportMappingService.getOrCreateMapping(
-      "anki",
+    // Create unique ID for this card from Anki's ord: the template index,
+    // or the cloze number minus one for cloze notes
+    const ord = rendered.clozeOrd ? rendered.clozeOrd - 1 : templateIndex;
+    const cardExternalId = `${noteId}_${ord}`;
+    const cardId = (await resolveMapping(
       cardExternalId,
       "card",
       importBatchId,
+      duplicateResolution,
+    )) as CardId;
+
+    // Sibling cards can sit in different decks; default to the note's deck
+    const cardImport = cardImports.get(ord);
+    const cardDeckId = cardImport?.deckId ?? deckId;
+
+    // Re-imports refresh content but keep the card's scheduling, unless
+    // Anki has a more recent review than this device
+    const existingCard = await db.cards.get(cardId);
+    const baseCard = existingCard ?? {
+      ...db.srsEngine.createCard("", "", cardDeckId),
+      id: cardId,
+    };
+    const schedule = cardImport?.schedule;
+    const useSchedule =
+      schedule &&
+      (!existingCard ||
+        (schedule.lastReview &&
+          schedule.lastReview.getTime() >
+            (existingCard.lastReview
+              ? new Date(existingCard.lastReview).getTime()
+              : 0)));
+
+    const card: SyncableCard = {
+      ...applyRenderedCard(baseCard, rendered),
+      ...(useSchedule
+        ? { ...schedule, replayBase: SRSEngine.createReplayBase(schedule, now) }
+        : {}),
+      deckId: cardDeckId,
+      noteId: internalNoteId,
+      tags,
+      importSource: "anki",
+      externalId: cardExternalId,
+      lastModifiedAt: now,
+      syncStatus: "pending",
+      version: (existingCard?.version ?? 0) + 1,
+    };
+
+    await db.cards.put(card);
+    cardsCreated++;
+  }
+
+  return cardsCreated;
+}
+
+// Helper: Create or update a Commonry deck for each Anki deck that has cards,
+// along with its parents, so "Parent::Child" becomes a parentId chain.
+// With "merge", every card goes into one deck named after the first top-level
+// deck; with "new", fresh decks are made even if these were imported before.
+async function importDecks(
+  ankiDecks: AnkiDeck[],
+  usedDeckIds: Set<string>,
+  noteCounts: Map<string, number>,
+  importBatchId: string,
+  deckMapping: ImportOptions["deckMapping"],
+): Promise<Map<string, DeckId>> {
+  const decksByName = new Map(ankiDecks.map((deck) => [deck.name, deck]));
+  const usedDecks = ankiDecks.filter((deck) => usedDeckIds.has(deck.id));
+  const paths = new Set<string>();
+
+  for (const deck of usedDecks) {
+    const parts = deck.name.split(ANKI_DECK_SEPARATOR);
+    if (deckMapping === "merge") {
+      if (paths.size === 0) paths.add(parts[0]);
+      continue;
+    }
+    parts.forEach((_, index) =>
+      paths.add(parts.slice(0, index + 1).join(ANKI_DECK_SEPARATOR)),
     );
+  }
 
-    // Create card with external ID tracking
-    const card = db.srsEngine.createCard(
-      frontData.text || "(image only)",
-      backData.text || frontData.text || "(image only)",
-      deckId as DeckId,
+  // Parents sort before their children, so their IDs are known first
+  const sortedPaths = Array.from(paths).sort(
+    (a, b) =>
+      a.split(ANKI_DECK_SEPARATOR).length - b.split(ANKI_DECK_SEPARATOR).length,
+  );
+
+  const deckIdsByPath = new Map<string, DeckId>();
+  const deckIds = new Map<string, DeckId>();
+
+  for (const path of sortedPaths) {
+    const parts = path.split(ANKI_DECK_SEPARATOR);
+    const ankiDeck = decksByName.get(path);
+    // A parent missing from the decks list is keyed by its path instead
+    const externalId = ankiDeck?.id ?? path;
+    const parentId = deckIdsByPath.get(
+      parts.slice(0, -1).join(ANKI_DECK_SEPARATOR),
     );
+    const noteCount =
+      deckMapping === "merge"
+        ? Array.from(noteCounts.values()).reduce((sum, count) => sum + count, 0)
+        : (noteCounts.get(externalId) ?? 0);
+
+    const deckId = (
+      deckMapping === "new"
+        ? await ImportMappingService.createMapping(
+            "anki",
+            externalId,
+            "deck",
+            importBatchId,
+          )
+        : await ImportMappingService.getOrCreateMapping(
+            "anki",
+            externalId,
+            "deck",
+            importBatchId,
+          )
+    ) as DeckId;
+
+    const existingDeck = await db.getDeck(deckId);
+    if (!existingDeck) {
+      await db.decks.add({
+        id: deckId,
+        name: parts[parts.length - 1],
+        description: `Imported from Anki (${noteCount} notes)`,
+        parentId,
+        cardCount: 0,
+        dueCount: 0,
+        newCount: 0,
+        importSource: "anki",
+        externalId,
+        lastModifiedAt: new Date(),
+        syncStatus: "pending",
+        version: 1,
+      });
+    } else {
+      // Update the name and position in case they changed in Anki
+      await db.decks.update(deckId, {
+        name: parts[parts.length - 1],
+        description: `Re-imported from Anki (${noteCount} notes)`,
+        parentId,
+      });
+    }
 
-    card.id = cardId as CardId;
-    card.importSource = "anki";
-    card.externalId = cardExternalId;
+    deckIdsByPath.set(path, deckId);
+    if (ankiDeck) deckIds.set(ankiDeck.id, deckId);
+  }
 
-    // Store HTML for formatted display
-    card.frontHtml = frontData.html;
-    card.backHtml = backData.html;
+  if (deckMapping === "merge") {
+    const mergedDeckId = deckIdsByPath.values().next().value;
+    if (mergedDeckId) {
+      usedDecks.forEach((deck) => deckIds.set(deck.id, mergedDeckId));
+    }
+  }
 
-    // Store media references
-    if (frontData.audio[0]) card.frontAudio = frontData.audio[0];
-    if (backData.audio[0]) card.backAudio = backData.audio[0];
-    if (frontData.images[0]) card.frontImage = frontData.images[0];
-    if (backData.images[0]) card.backImage = backData.images[0];
+  return deckIds;
+}
 
-    // Add sync metadata for SyncableCard
-    const syncableCard = {
-      ...card,
-      lastModifiedAt: new Date(),
-      syncStatus: "pending" as const,
-      version: 1,
-    };
+// Helper: Add Anki's review log to local study history. Entries brought in by
+// an earlier import are skipped, so re-imports only add new reviews.
+async function importReviewLog(
+  ankiCards: Map<string, Map<number, AnkiCard>>,
+  reviewLog: Map<string, AnkiReview[]>,
+): Promise<number> {
+  let reviewsImported = 0;
 
-    await db.cards.add(syncableCard);
-    cardsCreated++;
+  for (const [noteId, noteCards] of ankiCards) {
+    for (const [ord, ankiCard] of noteCards) {
+      const reviews = reviewLog.get(ankiCard.id);
+      if (!reviews?.length) continue;
+
+      // Cards skipped by the direction filter have no mapping and are skipped
+      const cardId = ((await ImportMappingService.getInternalId(
+        "anki",
+        `${noteId}_${ord}`,
+        "card",
+      )) ??
+        (ord === 0
+          ? await ImportMappingService.getInternalId("anki", noteId, "card")
+          : null)) as CardId | null;
+      if (!cardId) continue;
+
+      const existingTimestamps = new Set(
+        (await db.sessions.where("cardId").equals(cardId).toArray()).map(
+          (session) => new Date(session.timestamp).getTime(),
+        ),
+      );
+
+      const sessions: StudySession[] = [];
+      reviews.forEach((review, index) => {
+        if (review.ease === 0 || existingTimestamps.has(review.timestamp)) {
+          return;
+        }
+        sessions.push({
+          cardId,
+          rating: review.ease,
+          duration: review.time,
+          timestamp: new Date(review.timestamp),
+          cardStatus:
+            index === 0 && review.type === 0
+              ? "new"
+              : ANKI_REVIEW_STATUSES[review.type],
+          syncStatus: "pending",
+        });
+      });
+
+      await db.sessions.bulkAdd(sessions);
+      reviewsImported += sessions.length;
+    }
   }
 
-  return cardsCreated;
+  return reviewsImported;
 }
 
 export async function importAnkiDeck(
   file: File,
   cardDirection: CardDirection = "all",
+  options: Partial<ImportOptions> = {},
 ): Promise<AnkiImportResult> {
+  const {
+    duplicateResolution = "update",
+    deckMapping = "preserve",
+    scheduling = "reset",
+  } = options;
   let importBatchId: string | null = null;
 
   try {
     const SQLModule = await initSQL();
     const zip = await JSZip.loadAsync(file);
 
-    // Extract media files
-    await extractMediaFiles(zip);
+    // Extract media files; fields are pointed at any that were renamed
+    const mediaFileNames = await extractMediaFiles(zip);
+    const mediaRenames = new Map(
+      Array.from(mediaFileNames).filter(([name, stored]) => name !== stored),
+    );
 
     // Load database
     const database = await loadCollectionDatabase(zip, SQLModule);
 
     // Extract data from database
-    const { deckName, deckId: ankiDeckId } = extractDeckInfo(database);
+    const ankiDecks = extractDecks(database);
+    const ankiCards = extractCards(database);
     const notes = extractNotes(database);
     const modelsData = extractModels(database);
+    const keepScheduling = scheduling === "preserve";
+    const reviewLog = keepScheduling
+      ? extractReviewLog(database)
+      : new Map<string, AnkiReview[]>();
+    const collectionCreated = extractCollectionCreated(database);
 
     if (notes.length === 0) {
       throw new Error(
@@ -598,10 +1157,8 @@ export async function importAnkiDeck(
       );
     }
 
-    // Check if this deck was previously imported
-    const existingBatchId = ankiDeckId
-      ? await ImportMappingService.getDeckImportBatch("anki", ankiDeckId)
-      : null;
+    const { usedDeckIds, noteCounts } = getUsedDecks(notes, ankiCards);
+    const existingBatchId = await findPreviousImport(usedDeckIds);
     const isReimport = Boolean(existingBatchId);
 
     if (isReimport) {
@@ -610,91 +1167,128 @@ export async function importAnkiDeck(
       );
     }
 
+    const importedDecks = ankiDecks.filter((deck) => usedDeckIds.has(deck.id));
+    const rootDeck = getRootDeck(importedDecks);
+    const deckName = rootDeck?.name ?? "Imported Deck";
+
     // Create import batch
     importBatchId = await ImportMappingService.createImportBatch(
       "anki",
       file.name,
-      { deckName, ankiDeckId, isReimport },
+      {
+        deckName,
+        deckCount: importedDecks.length,
+        isReimport,
+        duplicateResolution,
+        deckMapping,
+      },
     );
 
-    // Get or create deck mapping
-    let newDeckId: string;
-    if (ankiDeckId) {
-      newDeckId = await ImportMappingService.getOrCreateMapping(
+    // Media is recorded against the batch that first brought it in
+    for (const fileName of new Set(mediaFileNames.values())) {
+      await ImportMappingService.getOrCreateMapping(
         "anki",
-        ankiDeckId,
-        "deck",
+        fileName,
+        "media",
         importBatchId,
       );
+    }
 
-      // Check if deck already exists
-      const existingDeck = await db.getDeck(newDeckId as DeckId);
-      if (!existingDeck) {
-        // Create new deck with sync metadata
-        const deck = {
-          id: newDeckId as DeckId,
-          name: deckName,
-          description: `Imported from Anki (${notes.length} notes)`,
-          cardCount: 0,
-          dueCount: 0,
-          newCount: 0,
-          importSource: "anki" as const,
-          externalId: ankiDeckId,
-          lastModifiedAt: new Date(),
-          syncStatus: "pending" as const,
-          version: 1,
-        };
-        await db.decks.add(deck);
-      } else if (isReimport) {
-        // Update existing deck name if changed
-        await db.decks.update(newDeckId, {
-          name: deckName,
-          description: `Re-imported from Anki (${notes.length} notes)`,
-        });
+    const deckIds = await importDecks(
+      ankiDecks,
+      usedDeckIds,
+      noteCounts,
+      importBatchId,
+      deckMapping,
+    );
+
+    // Notes whose cards reference no known deck go into a single new deck
+    let fallbackDeckId: DeckId | null = null;
+    const getFallbackDeckId = async (): Promise<DeckId> => {
+      if (!fallbackDeckId) {
+        fallbackDeckId = await db.createDeck(
+          deckName,
+          `Imported from Anki (${notes.length} notes)`,
+        );
+        // Keyed with the others so its stats are updated below
+        deckIds.set("", fallbackDeckId);
       }
-    } else {
-      // No Anki deck ID found, create new deck without mapping
-      newDeckId = await db.createDeck(
-        deckName,
-        `Imported from Anki (${notes.length} notes)`,
-      );
-    }
+      return fallbackDeckId;
+    };
 
     let totalCardsCreated = 0;
+    const noteTypes = new Map<string, NoteTypeRecord>();
 
     for (const note of notes) {
       const noteId = String(note[0]);
       const modelId = String(note[1]);
       const fieldsData = note[2] as string;
+      const tags = String(note[3] ?? "")
+        .split(/\s+/)
+        .filter(Boolean);
+      const guid = note[4] ? String(note[4]) : undefined;
 
       if (!fieldsData) continue;
 
-      const fieldValues = fieldsData.split("\x1f");
+      const fieldValues = fieldsData
+        .split("\x1f")
+        .map((value) => rewriteMediaReferences(value, mediaRenames));
       const model = modelsData[modelId];
 
+      const noteCards = ankiCards.get(noteId);
+      const noteDeck = getNoteDeck(noteCards);
+      const deckId =
+        (noteDeck && deckIds.get(noteDeck)) || (await getFallbackDeckId());
+
+      const cardImports = new Map<number, CardImport>();
+      noteCards?.forEach((ankiCard, ord) => {
+        cardImports.set(ord, {
+          deckId: deckIds.get(ankiCard.deckId),
+          schedule: keepScheduling
+            ? getAnkiSchedule(
+                ankiCard,
+                reviewLog.get(ankiCard.id) ?? [],
+                collectionCreated,
+              )
+            : undefined,
+        });
+      });
+
       console.log("=== NOTE DEBUG ===");
       console.log("Note ID:", noteId, "| Model ID:", modelId);
 
       if (!model) {
         console.warn(`Model ${modelId} not found, using fallback`);
-        await processNoteWithFallback(
+        totalCardsCreated += await processNoteWithFallback(
           noteId,
           fieldValues,
-          newDeckId,
+          deckId,
           importBatchId,
           processHtml,
+          duplicateResolution,
+          cardImports.get(0)?.schedule,
         );
-        totalCardsCreated++;
       } else {
+        let noteType = noteTypes.get(modelId);
+        if (!noteType) {
+          noteType = await importNoteType(
+            { ...model, id: model.id ?? modelId },
+            importBatchId,
+          );
+          noteTypes.set(modelId, noteType);
+        }
+
         const cardsCreated = await processNoteWithModel(
           noteId,
           fieldValues,
-          model,
-          newDeckId,
+          tags,
+          guid,
+          noteType,
+          deckId,
+          cardImports,
           importBatchId,
           cardDirection,
-          processHtml,
-          renderTemplate,
+          duplicateResolution,
         );
         totalCardsCreated += cardsCreated;
       }
@@ -704,20 +1298,34 @@ export async function importAnkiDeck(
       `\n✅ Created ${totalCardsCreated} cards from ${notes.length} notes`,
     );
 
-    await db.updateDeckStats(newDeckId as DeckId);
+    const reviewCount = keepScheduling
+      ? await importReviewLog(ankiCards, reviewLog)
+      : 0;
+    if (reviewCount > 0) {
+      console.log(`📜 Imported ${reviewCount} reviews from the Anki revlog`);
+    }
+
+    const allDeckIds = Array.from(new Set(deckIds.values()));
+    for (const deckId of allDeckIds) {
+      await db.updateDeckStats(deckId);
+    }
     database.close();
 
     // Mark import batch as completed
     await ImportMappingService.completeImportBatch(importBatchId, {
       notesImported: notes.length,
       cardsImported: totalCardsCreated,
-      decksImported: 1,
+      decksImported: allDeckIds.length,
     });
 
+    const mainDeckId = (rootDeck && deckIds.get(rootDeck.id)) || allDeckIds[0];
+
     return {
       deckName,
       cardCount: totalCardsCreated,
-      deckId: newDeckId,
+      deckId: mainDeckId,
+      deckCount: allDeckIds.length,
+      reviewCount,
       isReimport,
       importBatchId,
     };
@@ -734,3 +1342,133 @@ export async function importAnkiDeck(
     );
   }
 }
+
+/**
+ * Compare an Anki file with earlier imports without changing anything, so
+ * the user can see what an import would do before running it
+ */
+export async function previewAnkiImport(
+  file: File,
+): Promise<AnkiImportPreview> {
+  const SQLModule = await initSQL();
+  const zip = await JSZip.loadAsync(file);
+  const database = await loadCollectionDatabase(zip, SQLModule);
+
+  let ankiDecks: AnkiDeck[];
+  let ankiCards: Map<string, Map<number, AnkiCard>>;
+  let notes: unknown[][];
+  let modelsData: Record<string, AnkiModel>;
+  try {
+    ankiDecks = extractDecks(database);
+    ankiCards = extractCards(database);
+    notes = extractNotes(database);
+    modelsData = extractModels(database);
+  } finally {
+    database.close();
+  }
+
+  const { usedDeckIds } = getUsedDecks(notes, ankiCards);
+  const importedDecks = ankiDecks.filter((deck) => usedDeckIds.has(deck.id));
+  const preview: AnkiImportPreview = {
+    deckName: getRootDeck(importedDecks)?.name ?? "Imported Deck",
+    deckCount: importedDecks.length,
+    isReimport: Boolean(await findPreviousImport(usedDeckIds)),
+    newNotes: 0,
+    changedNotes: 0,
+    unchangedNotes: 0,
+    removedNotes: 0,
+  };
+
+  const mediaRenames = await getStoredMediaRenames(zip);
+  const fileNoteIds = new Set<string>();
+  for (const note of notes) {
+    const noteId = String(note[0]);
+    const fieldValues = String(note[2] ?? "")
+      .split("\x1f")
+      .map((value) => rewriteMediaReferences(value, mediaRenames));
+    const tags = String(note[3] ?? "")
+      .split(/\s+/)
+      .filter(Boolean);
+    const model = modelsData[String(note[1])];
+    fileNoteIds.add(noteId);
+
+    const change = model
+      ? await getNoteChange(noteId, fieldValues, tags, model)
+      : await getFallbackNoteChange(noteId, fieldValues);
+    if (change === "new") preview.newNotes++;
+    else if (change === "changed") preview.changedNotes++;
+    else preview.unchangedNotes++;
+  }
+
+  const deckIds: DeckId[] = [];
+  for (const ankiDeckId of usedDeckIds) {
+    const deckId = await ImportMappingService.getInternalId(
+      "anki",
+      ankiDeckId,
+      "deck",
+    );
+    if (deckId) deckIds.push(deckId as DeckId);
+  }
+  if (deckIds.length > 0) {
+    const deckNotes = await db.notes.where("deckId").anyOf(deckIds).toArray();
+    preview.removedNotes = deckNotes.filter(
+      (note) =>
+        note.importSource === "anki" &&
+        !note.isDeleted &&
+        note.externalId &&
+        !fileNoteIds.has(note.externalId),
+    ).length;
+  }
+
+  return preview;
+}
+
+type NoteChange = "new" | "changed" | "unchanged";
+
+// Helper: Compare a note in the file with the note an earlier import made
+async function getNoteChange(
+  noteId: string,
+  fieldValues: string[],
+  tags: string[],
+  model: AnkiModel,
+): Promise<NoteChange> {
+  const internalNoteId = await ImportMappingService.getInternalId(
+    "anki",
+    noteId,
+    "note",
+  );
+  const existingNote = internalNoteId
+    ? await db.notes.get(internalNoteId as NoteId)
+    : undefined;
+  if (!existingNote || existingNote.isDeleted) return "new";
+
+  const sameFields = (model.flds || []).every(
+    (field, index) =>
+      (existingNote.fields[field.name] ?? "") === (fieldValues[index] ?? ""),
+  );
+  const sameTags = existingNote.tags.join(" ") === tags.join(" ");
+  return sameFields && sameTags ? "unchanged" : "changed";
+}
+
+// Helper: Compare a note without a known model with its fallback card
+async function getFallbackNoteChange(
+  noteId: string,
+  fieldValues: string[],
+): Promise<NoteChange> {
+  const cardId = await ImportMappingService.getInternalId(
+    "anki",
+    noteId,
+    "card",
+  );
+  const existingCard = cardId
+    ? await db.cards.get(cardId as CardId)
+    : undefined;
+  if (!existingCard || existingCard.isDeleted) return "new";
+
+  const front = processHtml(fieldValues[0] ?? "");
+  const back = processHtml(fieldValues[1] ?? fieldValues[0] ?? "");
+  return existingCard.frontHtml === front.html &&
+    existingCard.backHtml === back.html
+    ? "unchanged"
+    : "changed";
+}
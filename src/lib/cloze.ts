@@ -0,0 +1,140 @@
+// src/lib/cloze.ts
+// Parser and renderer for Anki-style cloze deletions: {{c1::answer::hint}}
+
+type ClozeNode = string | ClozeDeletion;
+
+interface ClozeDeletion {
+  ord: number;
+  children: ClozeNode[];
+  hint?: string;
+}
+
+export type ClozeSide = "front" | "back";
+
+const CLOZE_OPEN = /^\{\{c(\d+)::/;
+
+/**
+ * Parses text into plain runs and (possibly nested) cloze deletions.
+ * Unbalanced markers are kept as literal text.
+ */
+function parseCloze(text: string): ClozeNode[] {
+  const root: ClozeNode[] = [];
+  const stack: { node: ClozeDeletion; inHint: boolean; raw: string }[] = [];
+
+  const append = (value: string) => {
+    const frame = stack[stack.length - 1];
+    if (!frame) {
+      pushText(root, value);
+    } else if (frame.inHint) {
+      frame.node.hint = (frame.node.hint ?? "") + value;
+    } else {
+      pushText(frame.node.children, value);
+    }
+    for (const open of stack) open.raw += value;
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const open = CLOZE_OPEN.exec(text.slice(i));
+    if (open) {
+      for (const frame of stack) frame.raw += open[0];
+      stack.push({
+        node: { ord: Number(open[1]), children: [] },
+        inHint: false,
+        raw: open[0],
+      });
+      i += open[0].length;
+      continue;
+    }
+
+    const frame = stack[stack.length - 1];
+    if (frame && text.startsWith("}}", i)) {
+      stack.pop();
+      for (const outer of stack) outer.raw += "}}";
+      const parent = stack[stack.length - 1];
+      if (!parent) root.push(frame.node);
+      else if (parent.inHint)
+        parent.node.hint = (parent.node.hint ?? "") + frame.raw;
+      else parent.node.children.push(frame.node);
+      i += 2;
+      continue;
+    }
+
+    if (frame && !frame.inHint && text.startsWith("::", i)) {
+      frame.inHint = true;
+      for (const open of stack) open.raw += "::";
+      i += 2;
+      continue;
+    }
+
+    append(text[i]);
+    i += 1;
+  }
+
+  // Unclosed deletions fall back to their literal source
+  if (stack.length > 0) {
+    pushText(root, stack[0].raw);
+  }
+
+  return root;
+}
+
+function pushText(nodes: ClozeNode[], value: string): void {
+  const last = nodes[nodes.length - 1];
+  if (typeof last === "string") {
+    nodes[nodes.length - 1] = last + value;
+  } else {
+    nodes.push(value);
+  }
+}
+
+function collectOrdinals(nodes: ClozeNode[], ordinals: Set<number>): void {
+  for (const node of nodes) {
+    if (typeof node === "string") continue;
+    ordinals.add(node.ord);
+    collectOrdinals(node.children, ordinals);
+  }
+}
+
+function renderNodes(nodes: ClozeNode[], ord: number, side: ClozeSide): string {
+  return nodes
+    .map((node) => {
+      if (typeof node === "string") return node;
+      if (node.ord !== ord) return renderNodes(node.children, ord, side);
+      if (side === "front") {
+        return `<span class="cloze">[${node.hint ?? "..."}]</span>`;
+      }
+      return `<span class="cloze">${renderNodes(node.children, ord, side)}</span>`;
+    })
+    .join("");
+}
+
+/**
+ * Lists the cloze numbers used in a text, including nested deletions.
+ * @param text - Field content that may contain cloze deletions.
+ * @returns The distinct cloze numbers in ascending order.
+ */
+export function getClozeOrdinals(text: string): number[] {
+  const ordinals = new Set<number>();
+  collectOrdinals(parseCloze(text), ordinals);
+  return Array.from(ordinals)
+    .filter((ord) => ord > 0)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Renders a text for one cloze card. On the front the active deletion becomes
+ * a blank (showing its hint, if any); on the back it is revealed and highlighted.
+ * Other deletions always show their content.
+ * @param text - Field content that may contain cloze deletions.
+ * @param ord - The cloze number this card tests.
+ * @param side - Which side of the card is being rendered.
+ * @returns HTML with cloze markers resolved.
+ */
+export function renderCloze(
+  text: string,
+  ord: number,
+  side: ClozeSide,
+): string {
+  return renderNodes(parseCloze(text), ord, side);
+}
@@ -0,0 +1,101 @@
+// src/lib/csv-export.ts
+// Flat CSV export of a deck's cards, one row per card
+import { db } from "../storage/database";
+import type { Card } from "./srs-engine";
+import type { DeckId } from "../types/ids";
+import type { ExportOptions } from "../core";
+import { getDeckTree, sanitizeFileName } from "./anki-export";
+import type { DeckFileExportResult } from "./json-export";
+
+export type CsvExportOptions = Partial<
+  Pick<ExportOptions, "includeScheduling">
+>;
+
+// Front, back and tags use the header names the text importer recognizes
+const CSV_COLUMNS = ["front", "back", "tags", "deck"];
+const CSV_SCHEDULING_COLUMNS = [
+  "status",
+  "due",
+  "interval",
+  "ease",
+  "repetitions",
+  "lapses",
+];
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function getSchedulingValues(card: Card): string[] {
+  return [
+    card.status,
+    new Date(card.due).toISOString(),
+    String(card.interval),
+    String(card.easeFactor),
+    String(card.repetitions),
+    String(card.lapses),
+  ];
+}
+
+/**
+ * Export a deck and its subdecks to CSV. Each card is one row with its plain
+ * text front and back, its tags and the full name of its deck, so the file
+ * opens in a spreadsheet and can be imported again as text.
+ */
+export async function exportCsvDeck(
+  deckId: DeckId,
+  options: CsvExportOptions = {},
+): Promise<DeckFileExportResult> {
+  const { includeScheduling = false } = options;
+
+  try {
+    const deck = await db.getDeck(deckId);
+    if (!deck) {
+      throw new Error("Deck not found");
+    }
+
+    const deckTree = await getDeckTree(deck);
+    const deckPaths = new Map(
+      deckTree.map((entry) => [entry.deck.id, entry.path]),
+    );
+    const cards = (
+      await db.cards
+        .where("deckId")
+        .anyOf(Array.from(deckPaths.keys()))
+        .toArray()
+    ).filter((card) => !card.isDeleted);
+    if (cards.length === 0) {
+      throw new Error("Deck has no cards to export");
+    }
+
+    const rows = [
+      includeScheduling
+        ? [...CSV_COLUMNS, ...CSV_SCHEDULING_COLUMNS]
+        : CSV_COLUMNS,
+      ...cards.map((card) => {
+        const values = [
+          card.front,
+          card.back,
+          (card.tags ?? []).join(" "),
+          deckPaths.get(card.deckId) ?? "",
+        ];
+        return includeScheduling
+          ? [...values, ...getSchedulingValues(card)]
+          : values;
+      }),
+    ];
+    const csv = rows
+      .map((row) => row.map(escapeCsvField).join(","))
+      .join("\r\n");
+
+    return {
+      fileName: `${sanitizeFileName(deck.name)}.csv`,
+      // The byte order mark lets spreadsheet apps detect UTF-8
+      blob: new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" }),
+      cardCount: cards.length,
+    };
+  } catch (error) {
+    console.error("Error exporting CSV deck:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,318 @@
+// src/lib/json-export.ts
+// Versioned Commonry JSON format for backing up and sharing decks
+import { db, type NoteRecord, type StudySession } from "../storage/database";
+import type { Card, Deck } from "./srs-engine";
+import type { CardId, CardModelId, DeckId, NoteId } from "../types/ids";
+import type { ExportOptions, NoteType } from "../core";
+import { getMediaBlob } from "../storage/media-store";
+import { getDeckTree, sanitizeFileName } from "./anki-export";
+import { processHtml } from "./note-templates";
+
+export const COMMONRY_DECK_FORMAT = "commonry-deck";
+// Bump when the file layout changes; older files must stay importable
+export const COMMONRY_DECK_VERSION = 1;
+
+export type CommonryDeckEntry = Pick<
+  Deck,
+  "id" | "name" | "description" | "parentId" | "config"
+>;
+
+export type CommonryNoteEntry = Pick<
+  NoteRecord,
+  "id" | "deckId" | "modelId" | "fields" | "tags" | "guid"
+> & {
+  createdAt: string;
+  modifiedAt: string;
+};
+
+// Scheduling state, written only when includeScheduling is set
+export type CommonryCardScheduling = Pick<
+  Card,
+  | "interval"
+  | "easeFactor"
+  | "repetitions"
+  | "stability"
+  | "difficulty"
+  | "lapses"
+  | "totalReviews"
+  | "status"
+  | "queue"
+  | "learningStep"
+> & {
+  due: string;
+  lastReview?: string;
+};
+
+export type CommonryCardEntry = Pick<
+  Card,
+  | "id"
+  | "deckId"
+  | "noteId"
+  | "templateId"
+  | "clozeOrd"
+  | "front"
+  | "back"
+  | "frontHtml"
+  | "backHtml"
+  | "frontAudio"
+  | "backAudio"
+  | "frontImage"
+  | "backImage"
+  | "tags"
+> & {
+  scheduling?: CommonryCardScheduling;
+};
+
+export interface CommonryMediaEntry {
+  fileName: string;
+  mimeType?: string;
+  data?: string; // Base64 contents, present when media is included
+}
+
+export type CommonryReviewEntry = Pick<
+  StudySession,
+  "cardId" | "rating" | "duration" | "cardStatus"
+> & {
+  timestamp: string;
+};
+
+export interface CommonryDeckFile {
+  format: typeof COMMONRY_DECK_FORMAT;
+  version: number;
+  exportedAt: string;
+  deckId: DeckId; // The exported deck; the others are its subdecks
+  decks: CommonryDeckEntry[];
+  noteTypes: NoteType[];
+  notes: CommonryNoteEntry[];
+  cards: CommonryCardEntry[];
+  media: CommonryMediaEntry[];
+  reviews?: CommonryReviewEntry[];
+}
+
+export interface DeckFileExportResult {
+  fileName: string;
+  blob: Blob;
+  cardCount: number;
+}
+
+export interface JsonExportResult extends DeckFileExportResult {
+  mediaCount: number;
+  reviewCount: number;
+}
+
+export type JsonExportOptions = Partial<
+  Pick<
+    ExportOptions,
+    "includeDeckOptions" | "includeMedia" | "includeScheduling"
+  >
+>;
+
+/**
+ * Export a deck and its subdecks to the Commonry JSON format
+ *
+ * The file keeps notes with their note types, card HTML, tags and media file
+ * names, so importing it again restores the deck as it was. Media contents
+ * are embedded with includeMedia; with includeScheduling, cards keep their
+ * progress and the local review history is included.
+ */
+export async function exportJsonDeck(
+  deckId: DeckId,
+  options: JsonExportOptions = {},
+): Promise<JsonExportResult> {
+  const {
+    includeDeckOptions = true,
+    includeMedia = true,
+    includeScheduling = false,
+  } = options;
+
+  try {
+    const deck = await db.getDeck(deckId);
+    if (!deck) {
+      throw new Error("Deck not found");
+    }
+
+    const deckTree = await getDeckTree(deck);
+    const cards = (
+      await db.cards
+        .where("deckId")
+        .anyOf(deckTree.map((entry) => entry.deck.id))
+        .toArray()
+    ).filter((card) => !card.isDeleted);
+    if (cards.length === 0) {
+      throw new Error("Deck has no cards to export");
+    }
+
+    const decks: CommonryDeckEntry[] = deckTree.map(({ deck: entry }) => ({
+      id: entry.id,
+      name: entry.name,
+      description: entry.description,
+      // The exported deck becomes a top-level deck when imported
+      parentId: entry.id === deck.id ? undefined : entry.parentId,
+      config: includeDeckOptions ? entry.config : undefined,
+    }));
+
+    const noteIds = new Set(
+      cards.map((card) => card.noteId).filter(Boolean) as NoteId[],
+    );
+    const noteRecords = (await db.notes.bulkGet(Array.from(noteIds))).filter(
+      (note): note is NoteRecord => !!note && !note.isDeleted,
+    );
+    const notes: CommonryNoteEntry[] = noteRecords.map((note) => ({
+      id: note.id,
+      deckId: note.deckId,
+      modelId: note.modelId,
+      fields: note.fields,
+      tags: note.tags,
+      guid: note.guid,
+      createdAt: new Date(note.createdAt).toISOString(),
+      modifiedAt: new Date(note.modifiedAt).toISOString(),
+    }));
+
+    const modelIds = new Set<CardModelId>(
+      noteRecords.map((note) => note.modelId),
+    );
+    const noteTypes: NoteType[] = [];
+    for (const modelId of modelIds) {
+      const noteType = await db.noteTypes.get(modelId);
+      if (!noteType) continue;
+      noteTypes.push({
+        id: noteType.id,
+        name: noteType.name,
+        type: noteType.type,
+        fields: noteType.fields,
+        templates: noteType.templates,
+        css: noteType.css,
+      });
+    }
+
+    const mediaFiles = new Set<string>();
+    const addMedia = (html: string | undefined) => {
+      if (!html) return;
+      const { audio, images } = processHtml(html);
+      for (const fileName of [...audio, ...images]) {
+        // Remote and inline images are not stored locally
+        if (!/^(https?:|data:|blob:)/i.test(fileName)) mediaFiles.add(fileName);
+      }
+    };
+    for (const note of noteRecords) {
+      Object.values(note.fields).forEach(addMedia);
+    }
+
+    const cardEntries: CommonryCardEntry[] = cards.map((card) => {
+      addMedia(card.frontHtml);
+      addMedia(card.backHtml);
+      for (const fileName of [
+        card.frontAudio,
+        card.backAudio,
+        card.frontImage,
+        card.backImage,
+      ]) {
+        if (fileName) mediaFiles.add(fileName);
+      }
+
+      return {
+        id: card.id,
+        deckId: card.deckId,
+        noteId: card.noteId,
+        templateId: card.templateId,
+        clozeOrd: card.clozeOrd,
+        front: card.front,
+        back: card.back,
+        frontHtml: card.frontHtml,
+        backHtml: card.backHtml,
+        frontAudio: card.frontAudio,
+        backAudio: card.backAudio,
+        frontImage: card.frontImage,
+        backImage: card.backImage,
+        tags: card.tags,
+        scheduling: includeScheduling ? getCardScheduling(card) : undefined,
+      };
+    });
+
+    const media: CommonryMediaEntry[] = [];
+    for (const fileName of mediaFiles) {
+      const blob = includeMedia ? await getMediaBlob(fileName) : null;
+      media.push(
+        blob
+          ? {
+              fileName,
+              mimeType: blob.type || undefined,
+              data: await blobToBase64(blob),
+            }
+          : { fileName },
+      );
+    }
+
+    const reviews = includeScheduling
+      ? await getReviews(cards.map((card) => card.id))
+      : undefined;
+
+    const file: CommonryDeckFile = {
+      format: COMMONRY_DECK_FORMAT,
+      version: COMMONRY_DECK_VERSION,
+      exportedAt: new Date().toISOString(),
+      deckId: deck.id,
+      decks,
+      noteTypes,
+      notes,
+      cards: cardEntries,
+      media,
+      reviews,
+    };
+
+    return {
+      fileName: `${sanitizeFileName(deck.name)}.json`,
+      blob: new Blob([JSON.stringify(file)], { type: "application/json" }),
+      cardCount: cards.length,
+      mediaCount: media.filter((entry) => entry.data).length,
+      reviewCount: reviews?.length ?? 0,
+    };
+  } catch (error) {
+    console.error("Error exporting JSON deck:", error);
+    throw error;
+  }
+}
+
+function getCardScheduling(card: Card): CommonryCardScheduling {
+  return {
+    due: new Date(card.due).toISOString(),
+    interval: card.interval,
+    easeFactor: card.easeFactor,
+    repetitions: card.repetitions,
+    stability: card.stability,
+    difficulty: card.difficulty,
+    lapses: card.lapses,
+    totalReviews: card.totalReviews,
+    lastReview: card.lastReview
+      ? new Date(card.lastReview).toISOString()
+      : undefined,
+    status: card.status,
+    queue: card.queue,
+    learningStep: card.learningStep,
+  };
+}
+
+async function getReviews(cardIds: CardId[]): Promise<CommonryReviewEntry[]> {
+  const sessions = await db.sessions
+    .where("cardId")
+    .anyOf(cardIds)
+    .sortBy("timestamp");
+
+  return sessions.map((session) => ({
+    cardId: session.cardId,
+    rating: session.rating,
+    duration: session.duration,
+    timestamp: new Date(session.timestamp).toISOString(),
+    cardStatus: session.cardStatus,
+  }));
+}
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = "";
+  // Chunked so large files do not overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
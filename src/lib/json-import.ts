@@ -0,0 +1,361 @@
+// src/lib/json-import.ts
+// Importer for decks exported in the Commonry JSON format
+import {
+  db,
+  type NoteTypeRecord,
+  type StudySession,
+  type SyncableCard,
+} from "../storage/database";
+import { ImportMappingService } from "../services/import-mapping-service";
+import { IdService } from "../services/id-service";
+import type {
+  CardId,
+  CardModelId,
+  CardTemplateId,
+  DeckId,
+  NoteId,
+} from "../types/ids";
+import { rewriteMediaReferences, storeMediaFile } from "../storage/media-store";
+import { SRSEngine } from "./srs-engine";
+import {
+  COMMONRY_DECK_FORMAT,
+  COMMONRY_DECK_VERSION,
+  type CommonryCardScheduling,
+  type CommonryDeckFile,
+} from "./json-export";
+
+export interface JsonImportResult {
+  deckId: DeckId;
+  deckName: string;
+  deckCount: number;
+  cardCount: number;
+  mediaCount: number;
+  reviewCount: number;
+}
+
+function parseDeckFile(text: string): CommonryDeckFile {
+  let file: CommonryDeckFile;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error("Invalid deck file: not valid JSON");
+  }
+
+  if (file?.format !== COMMONRY_DECK_FORMAT || !Array.isArray(file.cards)) {
+    throw new Error("Invalid deck file: not a Commonry deck export");
+  }
+  if (file.version > COMMONRY_DECK_VERSION) {
+    throw new Error(
+      `This deck was exported by a newer version of Commonry (format v${file.version})`,
+    );
+  }
+  return file;
+}
+
+function toCardScheduling(scheduling: CommonryCardScheduling) {
+  return {
+    ...scheduling,
+    due: new Date(scheduling.due),
+    lastReview: scheduling.lastReview
+      ? new Date(scheduling.lastReview)
+      : undefined,
+  };
+}
+
+function base64ToBytes(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Import a deck from a Commonry JSON export
+ *
+ * Entities are matched to earlier imports of the same file through
+ * ImportMappingService, so importing an updated export refreshes the deck
+ * instead of duplicating it. Cards keep the file's scheduling unless this
+ * device has reviewed them more recently.
+ */
+export async function importJsonDeck(file: File): Promise<JsonImportResult> {
+  let importBatchId: string | null = null;
+
+  try {
+    const deckFile = parseDeckFile(await file.text());
+    const rootDeck = deckFile.decks.find((deck) => deck.id === deckFile.deckId);
+
+    importBatchId = await ImportMappingService.createImportBatch(
+      "commonry",
+      file.name,
+      {
+        deckName: rootDeck?.name,
+        deckCount: deckFile.decks.length,
+        version: deckFile.version,
+      },
+    );
+
+    // Decks are listed parents first, so parent IDs are known in time
+    const deckIds = new Map<string, DeckId>();
+    for (const entry of deckFile.decks) {
+      const deckId = (await ImportMappingService.getOrCreateMapping(
+        "commonry",
+        entry.id,
+        "deck",
+        importBatchId,
+      )) as DeckId;
+      const parentId = entry.parentId ? deckIds.get(entry.parentId) : undefined;
+
+      const existingDeck = await db.getDeck(deckId);
+      if (!existingDeck) {
+        await db.decks.add({
+          id: deckId,
+          name: entry.name,
+          description: entry.description,
+          parentId,
+          config: entry.config,
+          cardCount: 0,
+          dueCount: 0,
+          newCount: 0,
+          importSource: "commonry",
+          externalId: entry.id,
+          lastModifiedAt: new Date(),
+          syncStatus: "pending",
+          version: 1,
+        });
+      } else {
+        await db.decks.update(deckId, {
+          name: entry.name,
+          description: entry.description,
+          parentId,
+          config: entry.config ?? existingDeck.config,
+        });
+      }
+      deckIds.set(entry.id, deckId);
+    }
+
+    const fallbackDeckId = deckIds.get(deckFile.deckId);
+    if (!fallbackDeckId) {
+      throw new Error("Invalid deck file: exported deck is missing");
+    }
+
+    // Template IDs are remapped by position within their note type
+    const noteTypeIds = new Map<string, CardModelId>();
+    const templateIds = new Map<string, CardTemplateId>();
+    for (const entry of deckFile.noteTypes ?? []) {
+      const noteTypeId = (await ImportMappingService.getOrCreateMapping(
+        "commonry",
+        entry.id,
+        "cardModel",
+        importBatchId,
+      )) as CardModelId;
+      const existing = await db.noteTypes.get(noteTypeId);
+
+      const noteType: NoteTypeRecord = {
+        ...entry,
+        id: noteTypeId,
+        templates: entry.templates.map((template, index) => {
+          const templateId = (existing?.templates[index]?.id ??
+            IdService.generateCardTemplateId()) as CardTemplateId;
+          templateIds.set(template.id, templateId);
+          return { ...template, id: templateId };
+        }),
+        importSource: "commonry",
+        externalId: entry.id,
+        serverId: existing?.serverId,
+        lastSyncedAt: existing?.lastSyncedAt,
+        lastModifiedAt: new Date(),
+        syncStatus: "pending",
+        version: (existing?.version ?? 0) + 1,
+      };
+
+      await db.noteTypes.put(noteType);
+      noteTypeIds.set(entry.id, noteTypeId);
+    }
+
+    // Media is stored first so notes and cards can point at any file that
+    // was renamed to avoid overwriting a different one
+    let mediaCount = 0;
+    const mediaRenames = new Map<string, string>();
+    for (const entry of deckFile.media ?? []) {
+      if (!entry.data) continue;
+      const fileName = await storeMediaFile(
+        entry.fileName,
+        base64ToBytes(entry.data),
+      );
+      if (fileName !== entry.fileName) {
+        mediaRenames.set(entry.fileName, fileName);
+      }
+      await ImportMappingService.getOrCreateMapping(
+        "commonry",
+        fileName,
+        "media",
+        importBatchId,
+      );
+      mediaCount++;
+    }
+    const rewriteHtml = (html: string | undefined) =>
+      html && rewriteMediaReferences(html, mediaRenames);
+    const renameFile = (fileName: string | undefined) =>
+      fileName && (mediaRenames.get(fileName) ?? fileName);
+
+    const noteIds = new Map<string, NoteId>();
+    for (const entry of deckFile.notes ?? []) {
+      const modelId = noteTypeIds.get(entry.modelId);
+      if (!modelId) continue;
+
+      const noteId = (await ImportMappingService.getOrCreateMapping(
+        "commonry",
+        entry.id,
+        "note",
+        importBatchId,
+      )) as NoteId;
+
+      const existingNote = await db.notes.get(noteId);
+      await db.notes.put({
+        id: noteId,
+        deckId: deckIds.get(entry.deckId) ?? fallbackDeckId,
+        modelId,
+        fields: Object.fromEntries(
+          Object.entries(entry.fields).map(([name, value]) => [
+            name,
+            rewriteMediaReferences(value, mediaRenames),
+          ]),
+        ),
+        tags: entry.tags ?? [],
+        guid: entry.guid,
+        createdAt: new Date(entry.createdAt),
+        modifiedAt: new Date(entry.modifiedAt),
+        importSource: "commonry",
+        externalId: entry.id,
+        serverId: existingNote?.serverId,
+        lastSyncedAt: existingNote?.lastSyncedAt,
+        lastModifiedAt: new Date(),
+        syncStatus: "pending",
+        version: (existingNote?.version ?? 0) + 1,
+      });
+      noteIds.set(entry.id, noteId);
+    }
+
+    const now = new Date();
+    const cardIds = new Map<string, CardId>();
+    for (const entry of deckFile.cards) {
+      const { scheduling, ...content } = entry;
+      const cardId = (await ImportMappingService.getOrCreateMapping(
+        "commonry",
+        entry.id,
+        "card",
+        importBatchId,
+      )) as CardId;
+      const deckId = deckIds.get(entry.deckId) ?? fallbackDeckId;
+
+      // Re-imports refresh content but keep the card's scheduling, unless
+      // the file has a more recent review than this device
+      const existingCard = await db.cards.get(cardId);
+      const baseCard = existingCard ?? {
+        ...db.srsEngine.createCard(entry.front, entry.back, deckId),
+        id: cardId,
+      };
+      const schedule = scheduling ? toCardScheduling(scheduling) : undefined;
+      const useSchedule =
+        schedule &&
+        (!existingCard ||
+          (schedule.lastReview &&
+            schedule.lastReview.getTime() >
+              (existingCard.lastReview
+                ? new Date(existingCard.lastReview).getTime()
+                : 0)));
+
+      const card: SyncableCard = {
+        ...baseCard,
+        ...content,
+        ...(useSchedule
+          ? {
+              ...schedule,
+              replayBase: SRSEngine.createReplayBase(schedule, now),
+            }
+          : {}),
+        frontHtml: rewriteHtml(content.frontHtml),
+        backHtml: rewriteHtml(content.backHtml),
+        frontAudio: renameFile(content.frontAudio),
+        backAudio: renameFile(content.backAudio),
+        frontImage: renameFile(content.frontImage),
+        backImage: renameFile(content.backImage),
+        id: cardId,
+        deckId,
+        noteId: entry.noteId ? noteIds.get(entry.noteId) : undefined,
+        templateId: entry.templateId
+          ? templateIds.get(entry.templateId)
+          : undefined,
+        importSource: "commonry",
+        externalId: entry.id,
+        lastModifiedAt: now,
+        syncStatus: "pending",
+        version: (existingCard?.version ?? 0) + 1,
+      };
+
+      await db.cards.put(card);
+      cardIds.set(entry.id, cardId);
+    }
+
+    // Reviews brought in by an earlier import are skipped
+    let reviewCount = 0;
+    const reviewsByCard = new Map<CardId, StudySession[]>();
+    for (const review of deckFile.reviews ?? []) {
+      const cardId = cardIds.get(review.cardId);
+      if (!cardId) continue;
+      reviewsByCard.set(cardId, [
+        ...(reviewsByCard.get(cardId) ?? []),
+        {
+          cardId,
+          rating: review.rating,
+          duration: review.duration,
+          timestamp: new Date(review.timestamp),
+          cardStatus: review.cardStatus,
+          syncStatus: "pending",
+        },
+      ]);
+    }
+    for (const [cardId, reviews] of reviewsByCard) {
+      const existingTimestamps = new Set(
+        (await db.sessions.where("cardId").equals(cardId).toArray()).map(
+          (session) => new Date(session.timestamp).getTime(),
+        ),
+      );
+      const sessions = reviews.filter(
+        (review) => !existingTimestamps.has(review.timestamp.getTime()),
+      );
+      await db.sessions.bulkAdd(sessions);
+      reviewCount += sessions.length;
+    }
+
+    const allDeckIds = Array.from(deckIds.values());
+    for (const deckId of allDeckIds) {
+      await db.updateDeckStats(deckId);
+    }
+
+    await ImportMappingService.completeImportBatch(importBatchId, {
+      notesImported: noteIds.size,
+      cardsImported: cardIds.size,
+      decksImported: allDeckIds.length,
+    });
+
+    return {
+      deckId: fallbackDeckId,
+      deckName: rootDeck?.name ?? "Imported Deck",
+      deckCount: allDeckIds.length,
+      cardCount: cardIds.size,
+      mediaCount,
+      reviewCount,
+    };
+  } catch (error) {
+    console.error("Error importing JSON deck:", error);
+
+    if (importBatchId) {
+      await ImportMappingService.failImportBatch(importBatchId);
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,102 @@
+// src/lib/multiple-choice.ts
+// Builds multiple-choice options from the answers of other cards in a deck
+import type { Card } from "./srs-engine";
+import { calculateSimilarity, getExpectedAnswer } from "./typed-answer";
+
+export interface MultipleChoiceQuestion {
+  options: string[];
+  correctIndex: number;
+}
+
+export const DEFAULT_CHOICE_COUNT = 4;
+
+// Long answers are compared on a prefix to bound each comparison
+const MAX_COMPARE_LENGTH = 120;
+
+// Distractors are ranked from a random sample of this many distinct answers
+const MAX_CANDIDATES = 50;
+
+interface DeckAnswer {
+  card: Card;
+  answer: string;
+}
+
+// Expected answers by deck ID, kept until the deck's cards are reloaded so
+// card HTML is parsed once per deck rather than once per question
+const deckAnswerCache = new Map<
+  string,
+  { deckCards: Card[]; answers: DeckAnswer[] }
+>();
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function getDeckAnswers(deckId: string, deckCards: Card[]): DeckAnswer[] {
+  const cached = deckAnswerCache.get(deckId);
+  if (cached?.deckCards === deckCards) return cached.answers;
+
+  const answers = deckCards
+    .filter((card) => card.deckId === deckId)
+    .map((card) => ({ card, answer: getExpectedAnswer(card) }))
+    .filter(({ answer }) => answer);
+  deckAnswerCache.set(deckId, { deckCards, answers });
+  return answers;
+}
+
+/**
+ * Builds a multiple-choice question for a card. Distractors are drawn from a
+ * random sample of other cards' answers in the same deck, preferring the ones
+ * most similar to the correct answer so the choice is not given away by shape
+ * alone. Siblings from the same note are skipped, since they often share the
+ * answer.
+ * @param card - The card being studied.
+ * @param deckCards - Cards to draw distractors from.
+ * @param count - Total number of options, including the correct one.
+ * @returns The shuffled options, or null if the deck has no distinct answers.
+ */
+export function buildMultipleChoice(
+  card: Card,
+  deckCards: Card[],
+  count: number = DEFAULT_CHOICE_COUNT,
+): MultipleChoiceQuestion | null {
+  const correct = getExpectedAnswer(card);
+  if (!correct) return null;
+
+  const target = correct.toLowerCase().slice(0, MAX_COMPARE_LENGTH);
+  const seen = new Set([correct.toLowerCase()]);
+  const candidates: { answer: string; score: number }[] = [];
+
+  for (const { card: other, answer } of shuffle(
+    getDeckAnswers(card.deckId, deckCards),
+  )) {
+    if (candidates.length >= MAX_CANDIDATES) break;
+    if (other.id === card.id) continue;
+    if (card.noteId && other.noteId === card.noteId) continue;
+
+    const key = answer.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    candidates.push({
+      answer,
+      score: calculateSimilarity(key.slice(0, MAX_COMPARE_LENGTH), target),
+    });
+  }
+
+  if (candidates.length === 0) return null;
+
+  // Shuffled first, so equally similar answers are picked at random
+  const distractors = candidates
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count - 1)
+    .map((candidate) => candidate.answer);
+
+  const options = shuffle([correct, ...distractors]);
+  return { options, correctIndex: options.indexOf(correct) };
+}
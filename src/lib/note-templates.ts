@@ -0,0 +1,361 @@
+// src/lib/note-templates.ts
+import DOMPurify from "dompurify";
+import type { Card } from "./srs-engine";
+import type { NoteType, CardTemplate } from "../core";
+import { IdService } from "../services/id-service";
+import { CardTemplateId } from "../types/ids";
+import { getClozeOrdinals, renderCloze, type ClozeSide } from "./cloze";
+
+export interface ProcessedHtml {
+  text: string; // Plain text for search and fallback display
+  html: string; // Sanitized HTML
+  audio: string[]; // [sound:...] file names
+  images: string[]; // <img src> file names
+}
+
+export interface RenderedCard {
+  templateId: CardTemplateId;
+  clozeOrd?: number; // Cloze number, for cards generated from a cloze note type
+  front: ProcessedHtml;
+  back: ProcessedHtml;
+}
+
+export interface RenderOptions {
+  clozeOrd?: number; // Which cloze deletion {{cloze:Field}} blanks out
+  side?: ClozeSide;
+}
+
+export const BASIC_NOTE_TYPE_NAME = "Basic";
+export const BASIC_REVERSED_NOTE_TYPE_NAME = "Basic (and reversed card)";
+export const CLOZE_NOTE_TYPE_NAME = "Cloze";
+export const CLOZE_TEXT_FIELD = "Text";
+export const CLOZE_EXTRA_FIELD = "Back Extra";
+
+export type BuiltinNoteTypeKind = "basic" | "basicReversed" | "cloze";
+
+export const BUILTIN_NOTE_TYPE_NAMES: Record<BuiltinNoteTypeKind, string> = {
+  basic: BASIC_NOTE_TYPE_NAME,
+  basicReversed: BASIC_REVERSED_NOTE_TYPE_NAME,
+  cloze: CLOZE_NOTE_TYPE_NAME,
+};
+
+// Process HTML to extract text and media
+export function processHtml(html: string): ProcessedHtml {
+  if (!html || typeof html !== "string") {
+    return { text: "", html: "", audio: [], images: [] };
+  }
+
+  const audioMatches = html.match(/\[sound:([^\]]+)\]/g);
+  const audioFiles = audioMatches
+    ? (audioMatches
+        .map((m) => m.match(/\[sound:([^\]]+)\]/)?.[1])
+        .filter(Boolean) as string[])
+    : [];
+
+  const imgMatches = html.match(/<img[^>]+src=["']?([^"'>]+)["']?[^>]*>/gi);
+  const imageFiles = imgMatches
+    ? (imgMatches
+        .map((m) => {
+          const srcMatch = m.match(/src=["']?([^"'>]+)["']?/i);
+          return srcMatch?.[1];
+        })
+        .filter(Boolean) as string[])
+    : [];
+
+  // Clean HTML: remove [sound:...] tags but keep HTML structure
+  let cleanedHtml = html.replace(/\[sound:([^\]]+)\]/g, "");
+
+  // Sanitize HTML to prevent XSS attacks while preserving formatting
+  // Allow common formatting tags used in Anki cards
+  cleanedHtml = DOMPurify.sanitize(cleanedHtml, {
+    ALLOWED_TAGS: [
+      "h1",
+      "h2",
+      "h3",
+      "h4",
+      "h5",
+      "h6",
+      "p",
+      "div",
+      "span",
+      "br",
+      "hr",
+      "strong",
+      "b",
+      "em",
+      "i",
+      "u",
+      "a",
+      "ul",
+      "ol",
+      "li",
+      "img",
+    ],
+    ALLOWED_ATTR: ["class", "style", "href", "src", "alt", "title"],
+  });
+
+  // Also extract plain text for fallback/search
+  const tempDiv = document.createElement("div");
+  tempDiv.innerHTML = cleanedHtml;
+  const plainText = (tempDiv.textContent || tempDiv.innerText || "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return {
+    text: plainText, // Plain text for backwards compatibility
+    html: cleanedHtml, // Sanitized HTML to display safely
+    audio: audioFiles,
+    images: imageFiles,
+  };
+}
+
+// Apply a single field filter such as {{cloze:Text}} or {{text:Front}}
+function applyFieldFilter(
+  filter: string,
+  value: string,
+  options: RenderOptions,
+): string {
+  switch (filter) {
+    case "cloze":
+      return options.clozeOrd
+        ? renderCloze(value, options.clozeOrd, options.side ?? "front")
+        : value;
+    case "text": {
+      // An inert document keeps event handlers in the field from running
+      const doc = new DOMParser().parseFromString(value, "text/html");
+      return doc.body.textContent || "";
+    }
+    default:
+      // Unsupported filters (hint, furigana, ...) show the field unchanged
+      return value;
+  }
+}
+
+// Render a card template (Anki's Mustache-like syntax)
+export function renderTemplate(
+  template: string,
+  fieldMap: Record<string, string>,
+  options: RenderOptions = {},
+): string {
+  let rendered = template;
+
+  // Support field names with any characters (spaces, hyphens, parentheses, etc.)
+  const conditionalRegex = /\{\{#([^}]+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+  rendered = rendered.replace(
+    conditionalRegex,
+    (_match, fieldName, content) => {
+      const fieldValue = fieldMap[fieldName] || "";
+      return fieldValue.trim() ? content : "";
+    },
+  );
+
+  const invertedRegex = /\{\{\^([^}]+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+  rendered = rendered.replace(invertedRegex, (_match, fieldName, content) => {
+    const fieldValue = fieldMap[fieldName] || "";
+    return fieldValue.trim() ? "" : content;
+  });
+
+  // Filters chain right to left: {{text:cloze:Text}} clozes first
+  const fieldRegex = /\{\{([^}]+)\}\}/g;
+  rendered = rendered.replace(fieldRegex, (_match, reference: string) => {
+    const parts = reference.split(":");
+    const fieldName = parts.pop() ?? "";
+    return parts.reduceRight(
+      (value, filter) => applyFieldFilter(filter.trim(), value, options),
+      fieldMap[fieldName] || "",
+    );
+  });
+
+  return rendered;
+}
+
+function renderCard(
+  template: CardTemplate,
+  fields: Record<string, string>,
+  clozeOrd?: number,
+): RenderedCard | null {
+  const frontHtml = renderTemplate(template.frontTemplate, fields, {
+    clozeOrd,
+    side: "front",
+  });
+  const backHtml = renderTemplate(
+    template.backTemplate,
+    { ...fields, FrontSide: frontHtml },
+    { clozeOrd, side: "back" },
+  );
+
+  const front = processHtml(frontHtml);
+  const back = processHtml(backHtml);
+  if (!front.text.trim() && !front.images.length) return null;
+
+  return {
+    templateId: template.id as CardTemplateId,
+    ...(clozeOrd !== undefined && { clozeOrd }),
+    front,
+    back,
+  };
+}
+
+/**
+ * Lists the cloze numbers a cloze note's fields use, across all fields
+ * referenced with the cloze filter.
+ * @param template - The cloze note type's template.
+ * @param fields - The note's field values keyed by field name.
+ * @returns The distinct cloze numbers in ascending order.
+ */
+function getNoteClozeOrdinals(
+  template: CardTemplate,
+  fields: Record<string, string>,
+): number[] {
+  const ordinals = new Set<number>();
+  const clozeRegex = /\{\{(?:[^}:]+:)*cloze:([^}]+)\}\}/g;
+  for (const match of template.frontTemplate.matchAll(clozeRegex)) {
+    for (const ord of getClozeOrdinals(fields[match[1]] || "")) {
+      ordinals.add(ord);
+    }
+  }
+  return Array.from(ordinals).sort((a, b) => a - b);
+}
+
+/**
+ * Renders every card a note produces from its note type's templates.
+ * Templates whose front renders empty produce no card, as in Anki. Cloze
+ * note types produce one card per cloze number from their single template.
+ * @param noteType - The note's type, providing templates.
+ * @param fields - The note's field values keyed by field name.
+ * @returns One rendered card per non-empty template or cloze, in order.
+ */
+export function renderNoteCards(
+  noteType: NoteType,
+  fields: Record<string, string>,
+): RenderedCard[] {
+  const rendered: RenderedCard[] = [];
+
+  if (noteType.type === "cloze") {
+    const [template] = noteType.templates;
+    if (!template) return rendered;
+
+    for (const ord of getNoteClozeOrdinals(template, fields)) {
+      const card = renderCard(template, fields, ord);
+      if (card) rendered.push(card);
+    }
+    return rendered;
+  }
+
+  for (const template of noteType.templates) {
+    const card = renderCard(template, fields);
+    if (card) rendered.push(card);
+  }
+
+  return rendered;
+}
+
+/**
+ * Copies rendered template content onto a card, leaving scheduling untouched.
+ * @param card - The card to fill.
+ * @param rendered - The rendered template output.
+ * @returns The card with text, HTML and media references updated.
+ */
+export function applyRenderedCard<T extends Card>(
+  card: T,
+  rendered: RenderedCard,
+): T {
+  const { front, back } = rendered;
+  return {
+    ...card,
+    templateId: rendered.templateId,
+    clozeOrd: rendered.clozeOrd,
+    front: front.text || "(image only)",
+    back: back.text || front.text || "(image only)",
+    frontHtml: front.html,
+    backHtml: back.html,
+    frontAudio: front.audio[0],
+    backAudio: back.audio[0],
+    frontImage: front.images[0],
+    backImage: back.images[0],
+  };
+}
+
+function createField(name: string) {
+  return { name, sticky: false, rtl: false, fontSize: 20, font: "Arial" };
+}
+
+function createTemplate(
+  name: string,
+  frontTemplate: string,
+  backTemplate: string,
+): CardTemplate {
+  return {
+    id: IdService.generateCardTemplateId(),
+    name,
+    frontTemplate,
+    backTemplate,
+    styling: "",
+  };
+}
+
+/**
+ * Builds one of the built-in note types with two fields, Front and Back.
+ * @param reversed - Also generate a Back -> Front card.
+ * @returns A new note type with freshly generated IDs.
+ */
+export function createBasicNoteType(reversed = false): NoteType {
+  const templates = [
+    createTemplate(
+      "Card 1",
+      "{{Front}}",
+      "{{FrontSide}}<hr id=answer>{{Back}}",
+    ),
+  ];
+  if (reversed) {
+    templates.push(
+      createTemplate(
+        "Card 2",
+        "{{Back}}",
+        "{{FrontSide}}<hr id=answer>{{Front}}",
+      ),
+    );
+  }
+
+  return {
+    id: IdService.generateCardModelId(),
+    name: reversed ? BASIC_REVERSED_NOTE_TYPE_NAME : BASIC_NOTE_TYPE_NAME,
+    type: "standard",
+    fields: ["Front", "Back"].map(createField),
+    templates,
+    css: "",
+  };
+}
+
+/**
+ * Builds the built-in cloze note type. Its single template is rendered once
+ * per cloze number found in the Text field.
+ * @returns A new note type with freshly generated IDs.
+ */
+export function createClozeNoteType(): NoteType {
+  return {
+    id: IdService.generateCardModelId(),
+    name: CLOZE_NOTE_TYPE_NAME,
+    type: "cloze",
+    fields: [CLOZE_TEXT_FIELD, CLOZE_EXTRA_FIELD].map(createField),
+    templates: [
+      createTemplate(
+        CLOZE_NOTE_TYPE_NAME,
+        `{{cloze:${CLOZE_TEXT_FIELD}}}`,
+        `{{cloze:${CLOZE_TEXT_FIELD}}}<br>{{${CLOZE_EXTRA_FIELD}}}`,
+      ),
+    ],
+    css: "",
+  };
+}
+
+/**
+ * Builds a fresh copy of one of the built-in note types.
+ * @param kind - Which built-in type to build.
+ * @returns A new note type with freshly generated IDs.
+ */
+export function createBuiltinNoteType(kind: BuiltinNoteTypeKind): NoteType {
+  return kind === "cloze"
+    ? createClozeNoteType()
+    : createBasicNoteType(kind === "basicReversed");
+}
@@ -1,6 +1,13 @@
 // src/lib/srs-engine.ts
-import { CardId, DeckId } from "../types/ids";
+import { CardId, CardTemplateId, DeckId, NoteId } from "../types/ids";
 import { IdService } from "../services/id-service";
+import {
+  DeckConfig,
+  DEFAULT_DECK_CONFIG,
+  LEECH_TAG,
+  QUEUE_TYPES,
+} from "../core";
+import { Scheduler, SM2Scheduler } from "../core/scheduler";
 
 export interface Card {
   id: CardId;
@@ -8,12 +15,21 @@ export interface Card {
   back: string;
   deckId: DeckId;
 
+  // Source note and the template this card was generated from
+  noteId?: NoteId;
+  templateId?: CardTemplateId;
+  clozeOrd?: number; // Cloze number this card tests (cloze notes only)
+
   // Scheduling data
   due: Date;
   interval: number; // days
   easeFactor: number; // 2.5 default
   repetitions: number;
 
+  // FSRS memory state (set once the card is reviewed by an FSRS deck)
+  stability?: number;
+  difficulty?: number;
+
   // Stats
   lapses: number;
   totalReviews: number;
@@ -22,6 +38,9 @@ export interface Card {
   // State
   status: "new" | "learning" | "review" | "relearning";
   queue: number;
+  learningStep?: number; // index into the deck's learning/relearn steps
+
+  tags?: string[];
 
   // Media
   frontAudio?: string; // Audio file name for front
@@ -42,6 +61,48 @@ export interface ReviewResult {
   card: Card;
   nextReview: Date;
   interval: number;
+  isLeech?: boolean; // the review pushed the card over the deck's leech threshold
+}
+
+// Scheduling fields a card's reviews change
+export type CardScheduling = Pick<
+  Card,
+  | "due"
+  | "interval"
+  | "easeFactor"
+  | "repetitions"
+  | "stability"
+  | "difficulty"
+  | "lapses"
+  | "totalReviews"
+  | "lastReview"
+  | "status"
+  | "learningStep"
+>;
+
+const SCHEDULING_FIELDS: Array<keyof CardScheduling> = [
+  "due",
+  "interval",
+  "easeFactor",
+  "repetitions",
+  "stability",
+  "difficulty",
+  "lapses",
+  "totalReviews",
+  "lastReview",
+  "status",
+  "learningStep",
+];
+
+// Scheduling set from outside the review log, such as an import; replays
+// start from it and skip the reviews up to its time
+export interface ReplayBase extends CardScheduling {
+  at: Date;
+}
+
+export interface DailyLimits {
+  newCards: number; // new cards still allowed today
+  reviews: number; // reviews still allowed today
 }
 
 export interface Deck {
@@ -52,113 +113,165 @@ export interface Deck {
   dueCount: number;
   newCount: number;
 
+  // Parent deck for subdecks (e.g. Anki's "Parent::Child"); unset for top-level decks
+  parentId?: DeckId;
+
+  // Scheduling options; unset fields fall back to DEFAULT_DECK_CONFIG
+  config?: Partial<DeckConfig>;
+
   // Import tracking
   importSource?: string; // "anki", "commonry", etc.
   externalId?: string; // Original ID from external system
 }
 
 export class SRSEngine {
-  // SM-2 algorithm with improvements
-  private readonly INITIAL_EASE = 2.5;
-  private readonly MIN_EASE = 1.3;
-  private readonly EASY_BONUS = 1.3;
-  private readonly INTERVAL_MODIFIER = 1.0;
+  private readonly INITIAL_EASE = DEFAULT_DECK_CONFIG.startingEase;
+
+  // Used when the caller does not resolve a deck-specific scheduler
+  private readonly defaultScheduler: Scheduler = new SM2Scheduler();
 
   /**
    * Calculates the next review details for a card based on the given rating.
    * @param {Card} card - The card being reviewed.
    * @param {number} rating - The rating given by the user (1 = again, 2 = hard, 3 = good, 4 = easy).
+   * @param {Scheduler} [scheduler] - The deck's scheduler; defaults to SM-2 with default settings.
+   * @param {Date} [reviewedAt] - The time of the review (defaults to now).
    * @returns {ReviewResult} - The review result containing the updated card, next review date, and interval.
    */
-  calculateNextReview(card: Card, rating: number): ReviewResult {
-    const updatedCard = { ...card };
-    const now = new Date();
+  calculateNextReview(
+    card: Card,
+    rating: number,
+    scheduler: Scheduler = this.defaultScheduler,
+    reviewedAt: Date = new Date(),
+  ): ReviewResult {
+    const updatedCard: Card = {
+      ...card,
+      ...scheduler.updateCard(card, rating, reviewedAt),
+      totalReviews: card.totalReviews + 1,
+    };
 
-    // Track review
-    updatedCard.totalReviews++;
-    updatedCard.lastReview = now;
-
-    if (rating === 1) {
-      // Again - card was forgotten
-      updatedCard.lapses++;
-      updatedCard.repetitions = 0;
-      updatedCard.interval = 1;
-      updatedCard.status = "relearning";
-
-      // Decrease ease factor
-      updatedCard.easeFactor = Math.max(
-        this.MIN_EASE,
-        updatedCard.easeFactor - 0.2,
-      );
-    } else {
-      // Card was remembered
-      if (updatedCard.status === "new" || updatedCard.status === "learning") {
-        // Still in learning phase
-        if (rating >= 3) {
-          updatedCard.status = "review";
-          updatedCard.interval = rating === 4 ? 4 : 1; // Easy gets 4 day initial interval
-        } else {
-          updatedCard.interval = 1;
-        }
-      } else {
-        // In review phase
-        if (updatedCard.repetitions === 0) {
-          updatedCard.interval = 1;
-        } else if (updatedCard.repetitions === 1) {
-          updatedCard.interval = 6;
-        } else {
-          let newInterval = updatedCard.interval * updatedCard.easeFactor;
-
-          // Apply rating modifiers
-          if (rating === 2) {
-            newInterval *= 0.8; // Hard
-          } else if (rating === 4) {
-            newInterval *= this.EASY_BONUS; // Easy
-          }
-
-          updatedCard.interval = Math.round(
-            newInterval * this.INTERVAL_MODIFIER,
-          );
-        }
+    return {
+      card: updatedCard,
+      nextReview: updatedCard.due,
+      interval: updatedCard.interval,
+    };
+  }
 
-        updatedCard.repetitions++;
-      }
+  /**
+   * Rebuilds a card's scheduling by replaying its reviews in time order, so
+   * reviews made on different devices all count. Leech actions are not
+   * repeated; they stay as the original reviews left them.
+   * @param {Card} card - The card whose reviews are replayed.
+   * @param {Array<{ rating: number; timestamp: Date }>} reviews - The card's reviews, in any order.
+   * @param {Scheduler} scheduler - The deck's scheduler.
+   * @param {ReplayBase} [base] - Scheduling to start from; defaults to a new card.
+   * @returns {CardScheduling} The scheduling after the last review.
+   */
+  replayReviews(
+    card: Card,
+    reviews: Array<{ rating: number; timestamp: Date }>,
+    scheduler: Scheduler,
+    base?: ReplayBase,
+  ): CardScheduling {
+    const since = base ? new Date(base.at).getTime() : -Infinity;
+    const ordered = reviews
+      .map((review) => ({
+        rating: review.rating,
+        at: new Date(review.timestamp),
+      }))
+      .filter((review) => review.at.getTime() > since)
+      .sort((a, b) => a.at.getTime() - b.at.getTime());
 
-      // Adjust ease factor based on rating
-      const easeAdjustment = [0, -0.15, 0, 0.15][rating - 1];
-      updatedCard.easeFactor = Math.max(
-        this.MIN_EASE,
-        updatedCard.easeFactor + easeAdjustment,
-      );
+    let replayed: Card = {
+      ...card,
+      ...(base ? SRSEngine.reviveReplayBase(base) : this.getNewScheduling()),
+    };
+    for (const review of ordered) {
+      replayed = this.calculateNextReview(
+        replayed,
+        review.rating,
+        scheduler,
+        review.at,
+      ).card;
     }
+    return SRSEngine.pickScheduling(replayed);
+  }
+
+  /**
+   * Records a card's current scheduling as the point its replays start from.
+   * @param {CardScheduling} card - The card with scheduling set from outside its review log.
+   * @param {Date} [at] - When the scheduling was set (defaults to now).
+   * @returns {ReplayBase} The replay base to store on the card.
+   */
+  static createReplayBase(card: CardScheduling, at = new Date()): ReplayBase {
+    return { ...SRSEngine.pickScheduling(card), at };
+  }
+
+  /**
+   * Picks the fields a card's reviews change.
+   * @param {CardScheduling} card - The card.
+   * @returns {CardScheduling} The card's scheduling fields.
+   */
+  static pickScheduling(card: CardScheduling): CardScheduling {
+    return Object.fromEntries(
+      SCHEDULING_FIELDS.map((field) => [field, card[field]]),
+    ) as CardScheduling;
+  }
 
-    // Calculate next review date
-    const nextReview = new Date(now);
-    nextReview.setDate(nextReview.getDate() + updatedCard.interval);
-    updatedCard.due = nextReview;
+  // Replay bases synced through the server carry dates as strings
+  private static reviveReplayBase(base: ReplayBase): CardScheduling {
+    return {
+      ...SRSEngine.pickScheduling(base),
+      due: new Date(base.due),
+      lastReview: base.lastReview ? new Date(base.lastReview) : undefined,
+    };
+  }
 
+  /**
+   * Scheduling of a card that has never been reviewed.
+   * @param {Date} [now] - When the card becomes due (defaults to now).
+   * @returns {CardScheduling} The new card's scheduling fields.
+   */
+  getNewScheduling(now = new Date()): CardScheduling {
     return {
-      card: updatedCard,
-      nextReview,
-      interval: updatedCard.interval,
+      due: now,
+      interval: 0,
+      easeFactor: this.INITIAL_EASE,
+      repetitions: 0,
+      stability: undefined,
+      difficulty: undefined,
+      lapses: 0,
+      totalReviews: 0,
+      lastReview: undefined,
+      status: "new",
+      learningStep: undefined,
     };
   }
 
   /**
    * Retrieves cards that are due for review up to the specified limit.
-   * Filters cards whose due date is on or before the current time, then sorts them
-   * by priority (new cards first) and due date.
+   * Filters unsuspended cards whose due date is on or before the current time, then sorts them
+   * by priority (new cards first) and due date. Learning cards are never held back
+   * by the daily limits.
    *
    * @param {Card[]} cards - The list of cards to filter and sort.
    * @param {number} [limit=20] - The maximum number of cards to return.
+   * @param {DailyLimits} [dailyLimits] - Remaining new and review allowance for today.
    * @returns {Card[]} An array of cards ready for review, sorted by priority and due date.
    */
-  static getCardsForReview(cards: Card[], limit = 20): Card[] {
+  static getCardsForReview(
+    cards: Card[],
+    limit = 20,
+    dailyLimits?: DailyLimits,
+  ): Card[] {
     const now = new Date();
     const nowTime = now.getTime();
+    let newRemaining = dailyLimits?.newCards ?? Infinity;
+    let reviewsRemaining = dailyLimits?.reviews ?? Infinity;
 
     return cards
       .filter((card) => {
+        if (card.queue === QUEUE_TYPES.SUSPENDED) return false;
         // Convert due to Date if it's not already
         const dueDate =
           card.due instanceof Date ? card.due : new Date(card.due);
@@ -176,9 +289,56 @@ export class SRSEngine {
           b.due instanceof Date ? b.due.getTime() : new Date(b.due).getTime();
         return aDue - bDue;
       })
+      .filter((card) => {
+        if (card.status === "new") {
+          if (newRemaining <= 0) return false;
+          newRemaining -= 1;
+        } else if (card.status === "review") {
+          if (reviewsRemaining <= 0) return false;
+          reviewsRemaining -= 1;
+        }
+        return true;
+      })
       .slice(0, limit);
   }
 
+  /**
+   * Checks whether a lapse count marks a card as a leech. Like Anki, a card
+   * becomes a leech at the threshold and again every half-threshold after it.
+   * @param {number} lapses - The card's lapse count after the review.
+   * @param {number} threshold - The deck's leech threshold.
+   * @returns {boolean} True if the card should be flagged as a leech.
+   */
+  static isLeech(lapses: number, threshold: number): boolean {
+    if (threshold <= 0 || lapses < threshold) return false;
+    const repeatEvery = Math.max(1, Math.floor(threshold / 2));
+    return (lapses - threshold) % repeatEvery === 0;
+  }
+
+  /**
+   * Tags a newly lapsed card as a leech, suspending it if the deck asks to.
+   * @param {Card} card - The card after its review.
+   * @param {number} previousLapses - The card's lapse count before the review.
+   * @param {DeckConfig} config - The deck's configuration.
+   * @returns {Card | null} The flagged card, or null if it is not a new leech.
+   */
+  static applyLeechAction(
+    card: Card,
+    previousLapses: number,
+    config: Pick<DeckConfig, "leechThreshold" | "leechAction">,
+  ): Card | null {
+    if (card.lapses <= previousLapses) return null;
+    if (!SRSEngine.isLeech(card.lapses, config.leechThreshold)) return null;
+
+    const tags = card.tags ?? [];
+    return {
+      ...card,
+      tags: tags.includes(LEECH_TAG) ? tags : [...tags, LEECH_TAG],
+      queue:
+        config.leechAction === "suspend" ? QUEUE_TYPES.SUSPENDED : card.queue,
+    };
+  }
+
   // Create a default card
   createCard(front: string, back: string, deckId: DeckId): Card {
     return {
@@ -197,6 +357,21 @@ export class SRSEngine {
     };
   }
 
+  /**
+   * Formats a scheduled interval for display on rating buttons.
+   * @param {number} days - The interval in days; fractions are learning steps.
+   * @returns {string} A short label such as "10 min", "1 day", "3 mo" or "1.5 yr".
+   */
+  static formatInterval(days: number): string {
+    const minutes = Math.round(days * 24 * 60);
+    if (minutes < 60) return `${Math.max(1, minutes)} min`;
+    if (minutes < 24 * 60) return `${Math.round(minutes / 60)} hr`;
+    const wholeDays = Math.round(days);
+    if (wholeDays < 30) return `${wholeDays} day${wholeDays === 1 ? "" : "s"}`;
+    if (wholeDays < 365) return `${Math.round(wholeDays / 30)} mo`;
+    return `${Math.round((wholeDays / 365) * 10) / 10} yr`;
+  }
+
   // Get time until next review in human-readable format
   static getNextReviewTime(card: Card): string {
     const now = new Date();
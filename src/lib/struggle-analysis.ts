@@ -0,0 +1,225 @@
+// src/lib/struggle-analysis.ts
+// Struggling cards from the server's learning analytics, or computed from
+// this device's reviews when the server can't be reached
+import { db, type StudySession, type SyncableCard } from "../storage/database";
+import {
+  api,
+  type HardestCard,
+  type StrugglingCard,
+  type StruggleType,
+} from "../services/api";
+import type { DeckId } from "../types/ids";
+
+// Scores follow the server's v_user_struggle_indicators view
+const MIN_REVIEWS = 3;
+const STRUGGLE_THRESHOLD = 0.3;
+const PASSING_RATING = 3; // Hard and Again count as failed, as in review events
+const SLOW_RECALL_MS = 10000;
+
+// The server returns at most this many scored cards
+const MAX_SERVER_CARDS = 100;
+
+export const STRUGGLE_RECOMMENDATIONS: Record<StruggleType, string> = {
+  high_fail_rate:
+    "Review the card content and consider breaking it into simpler concepts",
+  repeated_lapses:
+    "This card keeps slipping. Try creating a mnemonic or visual association",
+  getting_worse:
+    "Performance is declining. Consider revising the card or seeking additional context",
+  slow_recall:
+    "Recall is slow. Practice active recall techniques or add retrieval cues",
+  moderate_struggle: "Keep practicing. Consider reviewing related concepts",
+};
+
+export interface StrugglingCardEntry {
+  card: SyncableCard;
+  metrics: StrugglingCard;
+}
+
+export interface StrugglingDeck {
+  deckId: DeckId;
+  avgStruggleScore: number;
+  cards: StrugglingCardEntry[];
+}
+
+export interface StrugglingCardsReport {
+  source: "server" | "local";
+  decks: StrugglingDeck[];
+}
+
+const round = (value: number, digits: number) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+function getAccuracy(results: boolean[]): number | null {
+  if (results.length === 0) return null;
+  return results.filter(Boolean).length / results.length;
+}
+
+/**
+ * Score how much a card struggles from its reviews, oldest first
+ * @returns The card's metrics, or null when it has too few reviews or
+ *   is not struggling.
+ */
+export function scoreStruggle(
+  card: SyncableCard,
+  reviews: StudySession[],
+): StrugglingCard | null {
+  const reviewCount = reviews.length;
+  if (reviewCount < MIN_REVIEWS) return null;
+
+  const results = reviews.map((review) => review.rating >= PASSING_RATING);
+  const failCount = results.filter((correct) => !correct).length;
+  const againCount = reviews.filter((review) => review.rating === 1).length;
+  const avgTimeMs = Math.round(
+    reviews.reduce((total, review) => total + review.duration, 0) / reviewCount,
+  );
+
+  // Improving when the second half of the reviews beats the first
+  const half = Math.floor(reviewCount / 2);
+  const firstHalf = getAccuracy(results.slice(0, half));
+  const secondHalf = getAccuracy(results.slice(half));
+  const improvement = (secondHalf ?? 0) - (firstHalf ?? 0);
+  const notImproving =
+    firstHalf !== null && secondHalf !== null && secondHalf <= firstHalf;
+
+  const failRate = failCount / reviewCount;
+  const totalLapses = card.lapses;
+  const struggleScore = Math.min(
+    1,
+    failRate * 0.4 +
+      Math.min(1, totalLapses / 10) * 0.3 +
+      (notImproving ? 0.3 : 0),
+  );
+  if (struggleScore < STRUGGLE_THRESHOLD) return null;
+
+  let struggleType: StruggleType = "moderate_struggle";
+  if (failRate > 0.5) struggleType = "high_fail_rate";
+  else if (totalLapses >= 3) struggleType = "repeated_lapses";
+  else if (improvement < 0) struggleType = "getting_worse";
+  else if (avgTimeMs > SLOW_RECALL_MS) struggleType = "slow_recall";
+
+  return {
+    cardId: card.id,
+    deckId: card.deckId,
+    reviewCount,
+    failCount,
+    againCount,
+    avgTimeMs,
+    totalLapses,
+    improvementCorrelation: round(improvement, 3),
+    struggleScore: round(struggleScore, 3),
+    struggleType,
+    recommendation: STRUGGLE_RECOMMENDATIONS[struggleType],
+  };
+}
+
+// Metrics for every struggling card, from the local review log
+async function scoreLocalCards(
+  cards: Map<string, SyncableCard>,
+): Promise<Map<string, StrugglingCard>> {
+  const scored = new Map<string, StrugglingCard>();
+  for (const reviews of await db.getReviewLogsByCard()) {
+    const card = cards.get(reviews[0].cardId);
+    const metrics = card && scoreStruggle(card, reviews);
+    if (metrics) scored.set(card.id, metrics);
+  }
+  return scored;
+}
+
+// Metrics for the cards the server finds struggling; cards past the
+// server's limit are scored locally. Null when the server can't be reached.
+async function scoreServerCards(
+  userId: string,
+  localMetrics: Map<string, StrugglingCard>,
+): Promise<Map<string, StrugglingCard> | null> {
+  const [byDeck, scored] = await Promise.all([
+    api.getStrugglingCardsByDeck(userId),
+    api.getStrugglingCards(userId, STRUGGLE_THRESHOLD, MAX_SERVER_CARDS),
+  ]);
+  if (!byDeck.data?.success || !scored.data?.success) return null;
+
+  const serverMetrics = new Map(
+    scored.data.data.map((metrics) => [metrics.cardId, metrics]),
+  );
+  const metrics = new Map<string, StrugglingCard>();
+  for (const summary of byDeck.data.data) {
+    for (const cardId of summary.cardIds) {
+      const entry = serverMetrics.get(cardId) ?? localMetrics.get(cardId);
+      if (entry) metrics.set(cardId, entry);
+    }
+  }
+  return metrics;
+}
+
+/**
+ * Get struggling cards grouped by deck, most struggling first
+ *
+ * The server's analytics cover reviews from every device; without a signed
+ * in user or a connection, cards are scored from this device's reviews.
+ * @param userId - The signed in user, if any.
+ */
+export async function getStrugglingCards(
+  userId?: string,
+): Promise<StrugglingCardsReport> {
+  const cards = new Map<string, SyncableCard>(
+    (await db.cards.filter((card) => !card.isDeleted).toArray()).map((card) => [
+      card.id,
+      card,
+    ]),
+  );
+  const localMetrics = await scoreLocalCards(cards);
+  const serverMetrics = userId
+    ? await scoreServerCards(userId, localMetrics)
+    : null;
+  const metrics = serverMetrics ?? localMetrics;
+
+  const byDeck = new Map<DeckId, StrugglingCardEntry[]>();
+  for (const [cardId, entry] of metrics) {
+    const card = cards.get(cardId);
+    if (!card) continue;
+    byDeck.set(card.deckId, [
+      ...(byDeck.get(card.deckId) ?? []),
+      { card, metrics: entry },
+    ]);
+  }
+
+  const decks = Array.from(byDeck, ([deckId, entries]) => ({
+    deckId,
+    avgStruggleScore:
+      entries.reduce((total, entry) => total + entry.metrics.struggleScore, 0) /
+      entries.length,
+    cards: entries.sort(
+      (a, b) => b.metrics.struggleScore - a.metrics.struggleScore,
+    ),
+  }));
+  decks.sort((a, b) => b.avgStruggleScore - a.avgStruggleScore);
+
+  return { source: serverMetrics ? "server" : "local", decks };
+}
+
+/**
+ * Get how hard all users find a deck's hardest cards, by card ID; empty
+ * when the server can't be reached
+ */
+export async function getDeckDifficulty(
+  deckId: DeckId,
+): Promise<Map<string, HardestCard>> {
+  const result = await api.getDeckHardestCards(deckId, 50);
+  if (!result.data?.success) return new Map();
+  return new Map(result.data.data.map((card) => [card.cardId, card]));
+}
+
+/**
+ * Suggest how to split an answer into smaller ones: by line, else by
+ * semicolon, else by comma
+ */
+export function suggestSplit(answer: string): string[] {
+  for (const separator of ["\n", ";", ","]) {
+    const parts = answer
+      .split(separator)
+      .map((part) => part.trim())
+      .filter(Boolean);
+    if (parts.length > 1) return parts;
+  }
+  return [answer.trim()];
+}
@@ -0,0 +1,113 @@
+// src/lib/study-insights.ts
+// Per-card insights shown while studying: cards the learner confuses with
+// each other, and basics to revisit before advanced cards
+import { db, type SyncableCard } from "../storage/database";
+import type { Card } from "./srs-engine";
+import {
+  api,
+  type InterferencePattern,
+  type InterferenceRecommendation,
+  type PrerequisiteGap,
+} from "../services/api";
+import { QUEUE_TYPES } from "../core";
+import type { CardId, DeckId } from "../types/ids";
+
+// Only the weakest basics are offered, to keep the detour short
+const MAX_PREREQUISITE_CARDS = 5;
+
+export const INTERFERENCE_ADVICE: Record<InterferenceRecommendation, string> = {
+  space_apart:
+    "You tend to fail these one after the other. Compare them, then keep them apart in your reviews.",
+  differentiate:
+    "You often fail both in the same session. Look for what tells them apart.",
+  combine:
+    "You mix these up. Studying them together can make the difference stick.",
+};
+
+export interface ConfusedCard {
+  card: Card;
+  pattern: InterferencePattern;
+}
+
+export interface PrerequisiteInsight {
+  gap: PrerequisiteGap;
+  basicCards: Card[];
+}
+
+export interface CardInsight {
+  confusedWith: ConfusedCard[];
+  prerequisites: PrerequisiteInsight | null;
+}
+
+function isStudyable(card: SyncableCard | undefined): card is SyncableCard {
+  return !!card && !card.isDeleted && card.queue !== QUEUE_TYPES.SUSPENDED;
+}
+
+async function getCards(cardIds: string[]): Promise<Map<string, SyncableCard>> {
+  const cards = await db.cards.bulkGet(cardIds as CardId[]);
+  return new Map(
+    cards.filter(isStudyable).map((card) => [card.id, card] as const),
+  );
+}
+
+/**
+ * Load the study insights for a deck's cards, by card ID
+ *
+ * Insights come from the server's analysis of the learner's review events,
+ * so the map is empty when the server can't be reached.
+ * @param userId - The signed in user.
+ * @param deckId - The deck being studied.
+ */
+export async function loadStudyInsights(
+  userId: string,
+  deckId: DeckId,
+): Promise<Map<string, CardInsight>> {
+  const [interference, prerequisites] = await Promise.all([
+    api.getInterferencePatterns(userId, deckId),
+    api.getPrerequisiteGaps(userId, deckId),
+  ]);
+  const patterns = interference.data?.success ? interference.data.data : [];
+  const gaps = prerequisites.data?.success ? prerequisites.data.data : [];
+
+  const cards = await getCards([
+    ...patterns.flatMap((pattern) => [pattern.cardA, pattern.cardB]),
+    ...gaps.flatMap((gap) => [...gap.basicCardIds, ...gap.advancedCardIds]),
+  ]);
+
+  const insights = new Map<string, CardInsight>();
+  const getInsight = (cardId: string) => {
+    let insight = insights.get(cardId);
+    if (!insight) {
+      insight = { confusedWith: [], prerequisites: null };
+      insights.set(cardId, insight);
+    }
+    return insight;
+  };
+
+  // Patterns come most confused first, so each card lists its worst first
+  for (const pattern of patterns) {
+    const cardA = cards.get(pattern.cardA);
+    const cardB = cards.get(pattern.cardB);
+    if (!cardA || !cardB) continue;
+
+    getInsight(cardA.id).confusedWith.push({ card: cardB, pattern });
+    getInsight(cardB.id).confusedWith.push({ card: cardA, pattern });
+  }
+
+  // Gaps come widest first; an advanced card keeps the widest one
+  for (const gap of gaps) {
+    const basicCards = gap.basicCardIds
+      .map((cardId) => cards.get(cardId))
+      .filter(isStudyable)
+      .slice(0, MAX_PREREQUISITE_CARDS);
+    if (basicCards.length === 0) continue;
+
+    for (const cardId of gap.advancedCardIds) {
+      if (!cards.has(cardId)) continue;
+      const insight = getInsight(cardId);
+      insight.prerequisites ??= { gap, basicCards };
+    }
+  }
+
+  return insights;
+}
@@ -0,0 +1,321 @@
+// src/lib/text-import.ts
+// Importer for delimited text (CSV/TSV) and Markdown files
+import { db } from "../storage/database";
+import { ImportMappingService } from "../services/import-mapping-service";
+import type { DeckId, NoteId } from "../types/ids";
+
+export type TextImportFormat = "csv" | "tsv" | "markdown";
+
+export interface ParsedTextFile {
+  format: TextImportFormat;
+  rows: string[][];
+  hasHeader: boolean; // Best guess; the user can change it
+}
+
+export interface ColumnMapping {
+  front: number;
+  back: number;
+  tags: number | null;
+  hasHeader: boolean;
+}
+
+export interface TextImportTarget {
+  deckId?: DeckId; // Existing deck; otherwise a deck named deckName is used
+  deckName: string;
+}
+
+export interface TextImportResult {
+  deckId: DeckId;
+  created: number;
+  updated: number;
+  skipped: number; // Rows with an empty front
+  importBatchId: string;
+}
+
+const HEADER_NAMES = {
+  front: /^(front|question|term|word|prompt)$/i,
+  back: /^(back|answer|definition|meaning|translation)$/i,
+  tags: /^tags?$/i,
+};
+
+/**
+ * Splits delimited text into rows, following RFC 4180 quoting: fields may be
+ * wrapped in double quotes, which allows delimiters and line breaks inside,
+ * and "" stands for a literal quote.
+ * @param text - The file contents.
+ * @param delimiter - The field separator.
+ * @returns The rows, without blank lines.
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== "")) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+/**
+ * Guesses the delimiter from the first line: tabs, then semicolons (common in
+ * spreadsheets exported with a comma decimal separator), then commas.
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  if (firstLine.includes("\t")) return "\t";
+  const semicolons = firstLine.split(";").length;
+  const commas = firstLine.split(",").length;
+  return semicolons > commas ? ";" : ",";
+}
+
+function parseTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+/**
+ * Reads cards from Markdown. Tables become one row per table row. Without a
+ * table, each heading is a front and the text below it, up to the next
+ * heading, is the back.
+ * @param text - The file contents.
+ * @returns The rows and whether the first one is a table header.
+ */
+export function parseMarkdown(text: string): {
+  rows: string[][];
+  hasHeader: boolean;
+} {
+  const lines = text.split(/\r?\n/);
+
+  const tableLines = lines.filter((line) => line.trim().startsWith("|"));
+  if (tableLines.length > 0) {
+    const rows = tableLines
+      .filter((line) => !/^\s*\|?[\s:|-]+\|?\s*$/.test(line))
+      .map(parseTableRow);
+    return { rows, hasHeader: true };
+  }
+
+  const rows: string[][] = [];
+  let current: { front: string; back: string[] } | null = null;
+  const flush = () => {
+    if (current) rows.push([current.front, current.back.join("\n").trim()]);
+  };
+
+  for (const line of lines) {
+    const heading = /^#{1,6}\s+(.*)$/.exec(line);
+    if (heading) {
+      flush();
+      current = { front: heading[1].trim(), back: [] };
+    } else if (current) {
+      current.back.push(line);
+    }
+  }
+  flush();
+
+  return { rows, hasHeader: false };
+}
+
+/**
+ * Reads a CSV, TSV or Markdown file into rows for preview and mapping.
+ * @param file - The selected file.
+ * @returns The parsed rows and a guess at whether the first row is a header.
+ */
+export async function parseTextFile(file: File): Promise<ParsedTextFile> {
+  const text = (await file.text()).replace(/^\uFEFF/, "");
+  const extension = file.name.split(".").pop()?.toLowerCase();
+
+  if (extension === "md" || extension === "markdown") {
+    return { format: "markdown", ...parseMarkdown(text) };
+  }
+
+  const delimiter = extension === "tsv" ? "\t" : detectDelimiter(text);
+  const rows = parseDelimited(text, delimiter);
+  const hasHeader = (rows[0] ?? []).some((cell) =>
+    Object.values(HEADER_NAMES).some((pattern) => pattern.test(cell.trim())),
+  );
+
+  return { format: delimiter === "\t" ? "tsv" : "csv", rows, hasHeader };
+}
+
+/**
+ * Suggests a column mapping from the header names, falling back to the first
+ * two columns for front and back.
+ * @param parsed - The parsed file.
+ * @returns The suggested mapping.
+ */
+export function guessColumnMapping(parsed: ParsedTextFile): ColumnMapping {
+  const header = parsed.hasHeader ? (parsed.rows[0] ?? []) : [];
+  const find = (pattern: RegExp) =>
+    header.findIndex((cell) => pattern.test(cell.trim()));
+
+  const front = find(HEADER_NAMES.front);
+  const back = find(HEADER_NAMES.back);
+  const tags = find(HEADER_NAMES.tags);
+
+  return {
+    front: front >= 0 ? front : 0,
+    back: back >= 0 ? back : 1,
+    tags: tags >= 0 ? tags : null,
+    hasHeader: parsed.hasHeader,
+  };
+}
+
+// Rows are matched to earlier imports by their front, ignoring case and spacing
+function getRowSourceId(deckId: DeckId, front: string): string {
+  return `${deckId}:${front.replace(/\s+/g, " ").trim().toLowerCase()}`;
+}
+
+/**
+ * Imports mapped rows as Basic notes. Rows whose front was imported into the
+ * same deck before update that note instead of adding a duplicate.
+ * @param fileName - The source file's name, recorded on the import batch.
+ * @param rows - All parsed rows, including the header if there is one.
+ * @param mapping - Which columns hold the front, back and tags.
+ * @param target - The deck to import into.
+ * @returns Counts of created, updated and skipped rows.
+ */
+export async function importTextRows(
+  fileName: string,
+  rows: string[][],
+  mapping: ColumnMapping,
+  target: TextImportTarget,
+): Promise<TextImportResult> {
+  let importBatchId: string | null = null;
+
+  try {
+    importBatchId = await ImportMappingService.createImportBatch(
+      "other",
+      fileName,
+      { deckName: target.deckName, mapping },
+    );
+
+    // A new deck is keyed by file name so re-imports land in the same deck
+    let deckId = target.deckId;
+    if (!deckId) {
+      const mappedDeckId = (await ImportMappingService.getInternalId(
+        "other",
+        fileName,
+        "deck",
+      )) as DeckId | null;
+      const mappedDeck = mappedDeckId
+        ? await db.decks.get(mappedDeckId)
+        : undefined;
+
+      if (mappedDeck && !mappedDeck.isDeleted) {
+        deckId = mappedDeck.id;
+      } else {
+        deckId = await db.createDeck(
+          target.deckName,
+          `Imported from ${fileName}`,
+        );
+        await ImportMappingService.setMapping(
+          "other",
+          fileName,
+          deckId,
+          "deck",
+          importBatchId,
+        );
+      }
+    }
+
+    const noteType = await db.getOrCreateBuiltinNoteType("basic");
+    const [frontField, backField] = noteType.fields.map((field) => field.name);
+
+    let created = 0;
+    let updated = 0;
+    let skipped = 0;
+
+    for (const row of mapping.hasHeader ? rows.slice(1) : rows) {
+      const front = (row[mapping.front] ?? "").trim();
+      const back = (row[mapping.back] ?? "").trim();
+      const tags =
+        mapping.tags === null
+          ? []
+          : (row[mapping.tags] ?? "").split(/[\s,]+/).filter(Boolean);
+
+      if (!front) {
+        skipped++;
+        continue;
+      }
+
+      const fields = { [frontField]: front, [backField]: back };
+      const sourceId = getRowSourceId(deckId, front);
+      const existingNoteId = (await ImportMappingService.getInternalId(
+        "other",
+        sourceId,
+        "note",
+      )) as NoteId | null;
+      const existingNote = existingNoteId
+        ? await db.getNote(existingNoteId)
+        : undefined;
+
+      if (existingNote && !existingNote.isDeleted) {
+        await db.updateNote(existingNote.id, fields, tags);
+        updated++;
+      } else {
+        const noteId = await db.createNote(deckId, noteType.id, fields, tags);
+        await ImportMappingService.setMapping(
+          "other",
+          sourceId,
+          noteId,
+          "note",
+          importBatchId,
+        );
+        created++;
+      }
+    }
+
+    await db.updateDeckStats(deckId);
+
+    await ImportMappingService.completeImportBatch(importBatchId, {
+      notesImported: created + updated,
+      cardsImported: created,
+      decksImported: 1,
+    });
+
+    return { deckId, created, updated, skipped, importBatchId };
+  } catch (error) {
+    console.error("Error importing text file:", error);
+
+    if (importBatchId) {
+      await ImportMappingService.failImportBatch(importBatchId);
+    }
+
+    throw error;
+  }
+}
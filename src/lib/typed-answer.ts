@@ -0,0 +1,179 @@
+// src/lib/typed-answer.ts
+// Grading helpers for the "type the answer" study mode
+import type { Card } from "./srs-engine";
+
+export interface AnswerDiffSegment {
+  type: "equal" | "extra" | "missing"; // extra = typed but not expected
+  text: string;
+}
+
+export interface TypedAnswerGrade {
+  userResponse: string;
+  expectedResponse: string;
+  similarity: number;
+  diff: AnswerDiffSegment[];
+  suggestedRating: 1 | 2 | 3;
+}
+
+// Similarity needed for each suggested rating; anything lower suggests Again
+const GOOD_SIMILARITY = 1;
+const HARD_SIMILARITY = 0.8;
+
+function normalizeAnswer(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Scores how close a typed answer is to the expected one, ignoring case and
+ * surrounding whitespace.
+ * @param str1 - The first string.
+ * @param str2 - The second string.
+ * @returns 1 minus the normalised Levenshtein distance, from 0 to 1.
+ */
+export function calculateSimilarity(str1: string, str2: string): number {
+  const s1 = str1.toLowerCase().trim();
+  const s2 = str2.toLowerCase().trim();
+
+  if (s1 === s2) return 1;
+  if (s1.length === 0 || s2.length === 0) return 0;
+
+  const matrix: number[][] = [];
+  for (let i = 0; i <= s1.length; i++) matrix[i] = [i];
+  for (let j = 0; j <= s2.length; j++) matrix[0][j] = j;
+
+  for (let i = 1; i <= s1.length; i++) {
+    for (let j = 1; j <= s2.length; j++) {
+      const cost = s1[i - 1] === s2[j - 1] ? 0 : 1;
+      matrix[i][j] = Math.min(
+        matrix[i - 1][j] + 1,
+        matrix[i][j - 1] + 1,
+        matrix[i - 1][j - 1] + cost,
+      );
+    }
+  }
+
+  const distance = matrix[s1.length][s2.length];
+  return 1 - distance / Math.max(s1.length, s2.length);
+}
+
+/**
+ * Suggests a rating from a typed answer's similarity score. Exact answers
+ * suggest Good rather than Easy; the learner can still pick Easy themselves.
+ * @param similarity - Score from calculateSimilarity.
+ * @returns The suggested rating (1-3).
+ */
+export function suggestRating(similarity: number): 1 | 2 | 3 {
+  if (similarity >= GOOD_SIMILARITY) return 3;
+  if (similarity >= HARD_SIMILARITY) return 2;
+  return 1;
+}
+
+/**
+ * Character diff of a typed answer against the expected one, using the
+ * longest common subsequence. Matching ignores case; segments keep the
+ * original characters.
+ * @param typed - What the learner typed.
+ * @param expected - The correct answer.
+ * @returns Segments in reading order, merged by type.
+ */
+export function diffAnswer(
+  typed: string,
+  expected: string,
+): AnswerDiffSegment[] {
+  const a = normalizeAnswer(typed);
+  const b = normalizeAnswer(expected);
+  const la = a.toLowerCase();
+  const lb = b.toLowerCase();
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        la[i] === lb[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: AnswerDiffSegment[] = [];
+  const push = (type: AnswerDiffSegment["type"], char: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) last.text += char;
+    else segments.push({ type, text: char });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (la[i] === lb[j]) {
+      push("equal", b[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push("extra", a[i++]);
+    } else {
+      push("missing", b[j++]);
+    }
+  }
+  while (i < a.length) push("extra", a[i++]);
+  while (j < b.length) push("missing", b[j++]);
+
+  return segments;
+}
+
+/**
+ * Works out the answer a learner should type for a card: the active cloze
+ * deletions for cloze cards, otherwise the back without the repeated front.
+ * @param card - The card being studied.
+ * @returns The expected answer as plain text.
+ */
+export function getExpectedAnswer(card: Card): string {
+  if (!card.backHtml) return normalizeAnswer(card.back);
+
+  // Parse into an inert document so handlers in the card's HTML never run
+  const doc = new DOMParser().parseFromString(card.backHtml, "text/html");
+  const container = doc.body;
+
+  const clozes = container.querySelectorAll(".cloze");
+  if (clozes.length > 0) {
+    return normalizeAnswer(
+      Array.from(clozes, (el) => el.textContent ?? "").join(", "),
+    );
+  }
+
+  // Templates like {{FrontSide}}<hr id=answer>{{Back}} repeat the question
+  const divider = container.querySelector("hr");
+  if (divider && container.lastChild) {
+    const range = doc.createRange();
+    range.setStartAfter(divider);
+    range.setEndAfter(container.lastChild);
+    const answer = normalizeAnswer(range.toString());
+    if (answer) return answer;
+  }
+
+  return normalizeAnswer(container.textContent ?? card.back);
+}
+
+/**
+ * Grades a typed answer against a card.
+ * @param typed - What the learner typed.
+ * @param card - The card being studied.
+ * @returns The similarity, diff and suggested rating.
+ */
+export function gradeTypedAnswer(typed: string, card: Card): TypedAnswerGrade {
+  const expectedResponse = getExpectedAnswer(card);
+  const similarity = calculateSimilarity(
+    normalizeAnswer(typed),
+    expectedResponse,
+  );
+  return {
+    userResponse: typed,
+    expectedResponse,
+    similarity,
+    diff: diffAnswer(typed, expectedResponse),
+    suggestedRating: suggestRating(similarity),
+  };
+}
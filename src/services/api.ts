@@ -21,6 +21,8 @@ import type {
   CompleteSessionPayload,
   CompleteSessionResponse,
   StudySessionRecord,
+  LiveSessionHealthResult,
+  FatigueAnalysisResult,
 } from "../types/study-sessions";
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3000";
@@ -167,6 +169,109 @@ class ApiService {
     );
   }
 
+  /**
+   * Fetches a user's struggling cards, most struggling first.
+   * @param userId - The ID of the user.
+   * @param threshold - Minimum struggle score from 0 to 1.
+   * @param limit - Maximum number of cards, at most 100.
+   * @returns A promise resolving to the struggling cards.
+   */
+  async getStrugglingCards(userId: string, threshold = 0.4, limit = 20) {
+    const params = new URLSearchParams({
+      threshold: String(threshold),
+      limit: String(limit),
+    });
+    return this.request<{ success: boolean; data: StrugglingCard[] }>(
+      `/api/analytics/users/${userId}/struggling-cards?${params}`,
+    );
+  }
+
+  /**
+   * Fetches a user's struggling cards grouped by deck.
+   * @param userId - The ID of the user.
+   * @returns A promise resolving to each deck's struggling card IDs.
+   */
+  async getStrugglingCardsByDeck(userId: string) {
+    return this.request<{ success: boolean; data: StrugglingDeckSummary[] }>(
+      `/api/analytics/users/${userId}/struggling-cards/by-deck`,
+    );
+  }
+
+  /**
+   * Fetches the cards in a deck that all users find hardest.
+   * @param deckId - The deck ID.
+   * @param limit - Maximum number of cards, at most 50.
+   * @returns A promise resolving to the cards' difficulty across users.
+   */
+  async getDeckHardestCards(deckId: string, limit = 10) {
+    return this.request<{ success: boolean; data: HardestCard[] }>(
+      `/api/analytics/decks/${deckId}/hardest?limit=${limit}`,
+    );
+  }
+
+  /**
+   * Fetches pairs of cards a user tends to confuse with each other.
+   * @param userId - The ID of the user.
+   * @param deckId - Optional deck to limit the pairs to.
+   * @returns A promise resolving to the most confused pairs first.
+   */
+  async getInterferencePatterns(userId: string, deckId?: string) {
+    const params = new URLSearchParams();
+    if (deckId) params.append("deckId", deckId);
+
+    return this.request<{ success: boolean; data: InterferencePattern[] }>(
+      `/api/analytics/users/${userId}/patterns/interference?${params.toString()}`,
+    );
+  }
+
+  /**
+   * Fetches domains where a user fails advanced cards while passing the basics.
+   * @param userId - The ID of the user.
+   * @param deckId - Optional deck to limit the gaps to.
+   * @returns A promise resolving to the widest gaps first.
+   */
+  async getPrerequisiteGaps(userId: string, deckId?: string) {
+    const params = new URLSearchParams();
+    if (deckId) params.append("deckId", deckId);
+
+    return this.request<{ success: boolean; data: PrerequisiteGap[] }>(
+      `/api/analytics/users/${userId}/patterns/prerequisites?${params.toString()}`,
+    );
+  }
+
+  /**
+   * Fetches how a user's past sessions wore them out.
+   * @param userId - The ID of the user.
+   * @returns A promise resolving to the user's typical fatigue onset.
+   */
+  async getFatigueAnalysis(userId: string) {
+    return this.request<{ success: boolean; data: FatigueAnalysisResult }>(
+      `/api/analytics/users/${userId}/patterns/fatigue`,
+    );
+  }
+
+  /**
+   * Fetches how a user's accuracy varies with the hour of day.
+   * @param userId - The ID of the user.
+   * @returns A promise resolving to the user's best and worst hours.
+   */
+  async getTimeOfDayEffects(userId: string) {
+    return this.request<{ success: boolean; data: TimeOfDayResult }>(
+      `/api/analytics/users/${userId}/patterns/time-of-day`,
+    );
+  }
+
+  /**
+   * Fetches the live health of an in-progress session.
+   * @param sessionId - The session ID.
+   * @returns A promise resolving to the session's accuracy and pace decay.
+   */
+  async getLiveSessionHealth(sessionId: string) {
+    return this.request<{ success: boolean; data: LiveSessionHealthResult }>(
+      `/api/analytics/sessions/${sessionId}/health/live`,
+    );
+  }
+
   // ==================== STUDY SESSION ENDPOINTS ====================
 
   async recordStudySession(session: {
@@ -583,6 +688,46 @@ class ApiService {
     );
   }
 
+  // ==================== RESEARCH CONSENT ENDPOINTS ====================
+
+  /**
+   * Retrieves the signed in user's research consent and the data categories
+   * it covers.
+   * @returns A promise resolving to the consent status.
+   */
+  async getResearchConsent() {
+    return this.request<{ success: boolean; consent: ResearchConsent }>(
+      "/api/user/research-consent",
+    );
+  }
+
+  /**
+   * Opts the signed in user in to or out of the research program.
+   * @param consent - Whether the user agrees to the current consent form.
+   * @param scopes - The data categories to include in research exports.
+   * @returns A promise resolving to the updated consent status.
+   */
+  async updateResearchConsent(consent: boolean, scopes: ResearchScope[]) {
+    return this.request<{
+      success: boolean;
+      message: string;
+      consent: ResearchConsent;
+    }>("/api/user/research-consent", {
+      method: "POST",
+      body: JSON.stringify(consent ? { consent, scopes } : { consent }),
+    });
+  }
+
+  /**
+   * Retrieves the research program's consent form.
+   * @returns A promise resolving to the program information.
+   */
+  async getResearchInfo() {
+    return this.request<{ success: boolean; info: ResearchInfo }>(
+      "/api/user/research-consent/info",
+    );
+  }
+
   // ==================== BROWSE ENDPOINTS (The Commons) ====================
 
   /**
@@ -898,6 +1043,130 @@ export interface AnalyticsProfile {
   };
 }
 
+export type StruggleType =
+  | "high_fail_rate"
+  | "repeated_lapses"
+  | "getting_worse"
+  | "slow_recall"
+  | "moderate_struggle";
+
+export interface StrugglingCard {
+  cardId: string;
+  deckId: string;
+  reviewCount: number;
+  failCount: number;
+  againCount: number;
+  avgTimeMs: number;
+  totalLapses: number;
+  improvementCorrelation: number;
+  struggleScore: number;
+  struggleType: StruggleType;
+  recommendation: string;
+}
+
+export interface StrugglingDeckSummary {
+  deckId: string;
+  strugglingCount: number;
+  avgStruggleScore: number;
+  cardIds: string[];
+}
+
+export interface HardestCard {
+  cardId: string;
+  globalSuccessRate: number;
+  difficultyClass: "trivial" | "easy" | "moderate" | "hard" | "very_hard";
+  uniqueUsers: number;
+  totalReviews: number;
+  avgResponseTimeMs: number;
+}
+
+export type InterferenceRecommendation =
+  | "space_apart"
+  | "differentiate"
+  | "combine";
+
+export interface InterferencePattern {
+  cardA: string;
+  cardB: string;
+  deckId: string;
+  coOccurrenceCount: number;
+  sequentialFailCount: number;
+  bothFailedSessions: number;
+  inconsistentCount: number;
+  confusionScore: number;
+  recommendation: InterferenceRecommendation;
+}
+
+export interface PrerequisiteGap {
+  domain: string;
+  basicLevel: string;
+  advancedLevel: string;
+  basicSuccessRate: number;
+  advancedSuccessRate: number;
+  successGap: number;
+  advancedCardsStruggling: number;
+  basicCardIds: string[];
+  advancedCardIds: string[];
+  recommendation: string;
+}
+
+export interface HourlyPerformance {
+  hour: number;
+  reviewCount: number;
+  accuracy: number;
+  avgResponseTimeMs: number;
+  accuracyDelta: number;
+}
+
+export interface TimeOfDayAnalysis {
+  overallAccuracy: number;
+  hourlyPerformance: HourlyPerformance[];
+  peakHours: number[];
+  troughHours: number[];
+  optimalWindow: { start: number; end: number } | null;
+  recommendation: string;
+}
+
+export type TimeOfDayResult =
+  | TimeOfDayAnalysis
+  | { status: "insufficient_data"; message: string };
+
+// ==================== RESEARCH CONSENT TYPES ====================
+
+export type ResearchScope =
+  | "sessions"
+  | "reviews"
+  | "statistics"
+  | "card_analysis";
+
+export interface ResearchConsent {
+  hasConsented: boolean;
+  consentDate: string | null;
+  consentVersion: string | null;
+  scopes: ResearchScope[];
+  dataRetentionPreference: "standard" | "minimum" | "extended";
+  currentVersion: string;
+  needsUpdate: boolean;
+}
+
+export interface ResearchDataCategory {
+  id: ResearchScope;
+  name: string;
+  description: string;
+  fields: string[];
+}
+
+export interface ResearchInfo {
+  version: string;
+  title: string;
+  summary: string;
+  description: string;
+  dataCategories: ResearchDataCategory[];
+  privacyMeasures: string[];
+  contactEmail: string;
+  lastUpdated: string;
+}
+
 // ==================== BROWSE TYPES ====================
 
 export interface BrowseCategory {
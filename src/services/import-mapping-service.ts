@@ -4,14 +4,33 @@ import type {
   ImportMapping,
   ImportBatch,
   ImportSource,
-  EntityType
+  EntityType,
+  SyncableCard,
 } from "../storage/database";
+import { collectUnusedMedia } from "../storage/media-store";
 import { IdService } from "./id-service";
-import type { CardId, DeckId, NoteId } from "../types/ids";
+import type { CardId, CardModelId, DeckId, NoteId } from "../types/ids";
 import { ulid } from "ulid";
 
 export type EntityId = CardId | DeckId | NoteId | string;
 
+function generateInternalId(entityType: EntityType): EntityId {
+  switch (entityType) {
+    case "card":
+      return IdService.generateCardId();
+    case "deck":
+      return IdService.generateDeckId();
+    case "note":
+      return IdService.generateNoteId();
+    case "cardModel":
+      return IdService.generateCardModelId();
+    case "media":
+      return IdService.generateMediaId();
+    default:
+      throw new Error(`Unknown entity type: ${entityType}`);
+  }
+}
+
 export const ImportMappingService = {
   /**
    * Get or create a mapping for a single external ID
@@ -40,23 +59,7 @@ export const ImportMappingService = {
     }
 
     // Create new internal ID based on entity type
-    let internalId: EntityId;
-    switch (entityType) {
-      case "card":
-        internalId = IdService.generateCardId();
-        break;
-      case "deck":
-        internalId = IdService.generateDeckId();
-        break;
-      case "note":
-        internalId = IdService.generateNoteId();
-        break;
-      case "media":
-        internalId = IdService.generateMediaId();
-        break;
-      default:
-        throw new Error(`Unknown entity type: ${entityType}`);
-    }
+    const internalId = generateInternalId(entityType);
 
     // Create mapping
     const mapping: ImportMapping = {
@@ -104,23 +107,7 @@ export const ImportMappingService = {
     // Create new mappings
     const newMappings: ImportMapping[] = [];
     for (const sourceId of newSourceIds) {
-      let internalId: EntityId;
-      switch (entityType) {
-        case "card":
-          internalId = IdService.generateCardId();
-          break;
-        case "deck":
-          internalId = IdService.generateDeckId();
-          break;
-        case "note":
-          internalId = IdService.generateNoteId();
-          break;
-        case "media":
-          internalId = IdService.generateMediaId();
-          break;
-        default:
-          throw new Error(`Unknown entity type: ${entityType}`);
-      }
+      const internalId = generateInternalId(entityType);
 
       newMappings.push({
         sourceSystem,
@@ -159,6 +146,63 @@ export const ImportMappingService = {
     return mapping ? (mapping.internalId as EntityId) : null;
   },
 
+  /**
+   * Point an external ID at an existing internal ID
+   * Used when the entity is created first, e.g. by db.createNote
+   */
+  async setMapping(
+    sourceSystem: ImportSource,
+    sourceId: string,
+    internalId: string,
+    entityType: EntityType,
+    importBatchId?: string,
+  ): Promise<void> {
+    const existing = await db.importMappings
+      .where("[sourceSystem+sourceId+entityType]")
+      .equals([sourceSystem, sourceId, entityType])
+      .first();
+
+    if (existing?.id !== undefined) {
+      await db.importMappings.update(existing.id, {
+        internalId,
+        updatedAt: new Date(),
+        importBatchId,
+      });
+      return;
+    }
+
+    await db.importMappings.add({
+      sourceSystem,
+      sourceId,
+      internalId,
+      entityType,
+      importedAt: new Date(),
+      updatedAt: new Date(),
+      importBatchId,
+    });
+  },
+
+  /**
+   * Create a new internal ID for an external ID, even if one is mapped already
+   * Used to import a second copy; the mapping then points at the new copy
+   */
+  async createMapping(
+    sourceSystem: ImportSource,
+    sourceId: string,
+    entityType: EntityType,
+    importBatchId?: string,
+  ): Promise<EntityId> {
+    const internalId = generateInternalId(entityType);
+    await this.setMapping(
+      sourceSystem,
+      sourceId,
+      internalId,
+      entityType,
+      importBatchId,
+    );
+    return internalId;
+  },
+
   /**
    * Get external ID for an internal ID (reverse lookup)
    */
@@ -249,21 +293,35 @@ export const ImportMappingService = {
 
   /**
    * Rollback an import batch (delete all associated entities and mappings)
+   * Edits a later re-import made to these entities are removed with them;
+   * media and decks still used by other cards are kept
    */
-  async rollbackImportBatch(batchId: string): Promise<void> {
-    await db.transaction("rw", db.importMappings, db.importBatches, db.cards, db.decks, async () => {
-      // Get all mappings for this batch
-      const mappings = await this.getMappingsByBatch(batchId);
-
-      // Delete cards and decks created in this batch
-      for (const mapping of mappings) {
-        if (mapping.entityType === "card") {
-          await db.cards.delete(mapping.internalId);
-        } else if (mapping.entityType === "deck") {
-          await db.decks.delete(mapping.internalId);
-        }
-      }
+  async rollbackImportBatch(
+    batchId: string,
+  ): Promise<{ cardsRemoved: number; decksKept: DeckId[] }> {
+    // Get all mappings for this batch
+    const mappings = await this.getMappingsByBatch(batchId);
+    const idsOf = (entityType: EntityType) =>
+      mappings
+        .filter((mapping) => mapping.entityType === entityType)
+        .map((mapping) => mapping.internalId);
+
+    const result = await db.removeImportedEntities({
+      cardIds: idsOf("card") as CardId[],
+      noteIds: idsOf("note") as NoteId[],
+      noteTypeIds: idsOf("cardModel") as CardModelId[],
+      deckIds: idsOf("deck") as DeckId[],
+    });
+
+    // Media mappings are keyed by file name
+    const mediaFiles = mappings
+      .filter((mapping) => mapping.entityType === "media")
+      .map((mapping) => mapping.sourceId);
+    if (mediaFiles.length > 0) {
+      await collectUnusedMedia(mediaFiles);
+    }
 
+    await db.transaction("rw", db.importMappings, db.importBatches, async () => {
       // Delete all mappings for this batch
       await db.importMappings
         .where("importBatchId")
@@ -275,6 +333,31 @@ export const ImportMappingService = {
         status: "rolled_back",
       });
     });
+
+    return result;
+  },
+
+  /**
+   * Get the cards an import batch created, including those of its notes
+   */
+  async getCardsByBatch(batchId: string): Promise<SyncableCard[]> {
+    const mappings = await this.getMappingsByBatch(batchId);
+    const cardIds = mappings
+      .filter((mapping) => mapping.entityType === "card")
+      .map((mapping) => mapping.internalId as CardId);
+    const noteIds = mappings
+      .filter((mapping) => mapping.entityType === "note")
+      .map((mapping) => mapping.internalId as NoteId);
+
+    const cards = [
+      ...(await db.cards.bulkGet(cardIds)),
+      ...(await db.cards.where("noteId").anyOf(noteIds).toArray()),
+    ];
+    const unique = new Map<CardId, SyncableCard>();
+    for (const card of cards) {
+      if (card && !card.isDeleted) unique.set(card.id, card);
+    }
+    return Array.from(unique.values());
   },
 
   /**
@@ -0,0 +1,349 @@
+/**
+ * Reminder Service
+ *
+ * Nudges the learner to study at the hours they recall best, when cards are
+ * due. Notifications are shown locally, by the page while it is open and by
+ * the reminder service worker through periodic background sync where the
+ * browser supports it. Both read the reminder plan and today's nudge log
+ * from Cache Storage, so quiet hours and the daily nudge limit hold across
+ * the two.
+ */
+
+import { db } from "../storage/database";
+import { QUEUE_TYPES } from "../core";
+import { api } from "./api";
+import { useReminderSettings } from "../hooks/useReminderSettings";
+
+const SERVICE_WORKER_URL = "/reminder-sw.js";
+const REMINDER_CACHE = "commonry-reminders";
+const PLAN_KEY = "/reminders/plan";
+const LOG_KEY = "/reminders/log";
+const PERIODIC_SYNC_TAG = "study-reminder";
+
+// Hours used until the learner has enough history to find their best ones
+export const DEFAULT_REMINDER_HOURS = [9, 18];
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const PERIODIC_SYNC_INTERVAL_MS = 60 * 60 * 1000;
+const BEST_HOURS_REFRESH_MS = 24 * 60 * 60 * 1000;
+// The worker only knows due times up to this far ahead of the last visit
+const DUE_HORIZON_MS = 2 * 24 * 60 * 60 * 1000;
+
+/**
+ * Everything the service worker needs to decide on a nudge by itself
+ */
+export interface ReminderPlan {
+  enabled: boolean;
+  hours: number[];
+  quietHoursStart: number;
+  quietHoursEnd: number;
+  maxNudgesPerDay: number;
+  dueAt: number[]; // Due times of reviewed cards, up to the horizon
+}
+
+// Periodic Background Sync is not in TypeScript's DOM types yet
+interface PeriodicSyncManager {
+  register(tag: string, options?: { minInterval: number }): Promise<void>;
+  unregister(tag: string): Promise<void>;
+}
+
+type ReminderWorkerRegistration = ServiceWorkerRegistration & {
+  periodicSync?: PeriodicSyncManager;
+};
+
+interface ReminderLog {
+  date: string; // Local YYYY-MM-DD
+  hours: number[]; // Hours already nudged that day
+}
+
+/**
+ * Whether an hour falls in the quiet hours, which may wrap past midnight.
+ */
+export function isQuietHour(hour: number, start: number, end: number) {
+  if (start === end) return false;
+  return start < end
+    ? hour >= start && hour < end
+    : hour >= start || hour < end;
+}
+
+/**
+ * Picks the hours to nudge at: the learner's best hours outside quiet
+ * hours, up to the daily limit, in the order they come round.
+ */
+export function getReminderHours(
+  bestHours: number[],
+  quietHoursStart: number,
+  quietHoursEnd: number,
+  maxNudgesPerDay: number,
+): number[] {
+  const candidates = bestHours.length > 0 ? bestHours : DEFAULT_REMINDER_HOURS;
+  return candidates
+    .filter((hour) => !isQuietHour(hour, quietHoursStart, quietHoursEnd))
+    .slice(0, maxNudgesPerDay)
+    .sort((a, b) => a - b);
+}
+
+function toLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export class ReminderService {
+  private checkInterval: ReturnType<typeof setInterval> | null = null;
+  private registration: ReminderWorkerRegistration | null = null;
+  private unsubscribeSettings: (() => void) | null = null;
+  private userId: string | null = null;
+
+  /**
+   * Whether this browser can show reminders at all.
+   */
+  isSupported(): boolean {
+    return "Notification" in window && "caches" in window;
+  }
+
+  /**
+   * Starts checking for reminders while the app is open, and keeps the
+   * service worker's plan up to date as settings change.
+   */
+  async start(): Promise<void> {
+    if (!this.isSupported() || this.checkInterval) return;
+
+    // Each check also refreshes the due times the worker counts from
+    this.checkInterval = setInterval(() => {
+      this.updateBestHours()
+        .then(() => this.checkAndNotify())
+        .then(() => this.publishPlan())
+        .catch((error) => {
+          console.warn("[ReminderService] Reminder check failed:", error);
+        });
+    }, CHECK_INTERVAL_MS);
+    this.unsubscribeSettings = useReminderSettings.subscribe(() => {
+      this.publishPlan().catch((error) => {
+        console.warn("[ReminderService] Failed to publish plan:", error);
+      });
+    });
+
+    if (useReminderSettings.getState().enabled) {
+      await this.registerWorker();
+    }
+    await this.updateBestHours();
+    await this.publishPlan();
+  }
+
+  /**
+   * Sets the signed in learner whose best hours reminders follow.
+   * @param userId - The signed in user, or null when signed out.
+   */
+  setUser(userId: string | null): void {
+    this.userId = userId;
+    if (!this.checkInterval) return;
+
+    this.updateBestHours().catch((error) => {
+      console.warn("[ReminderService] Failed to refresh best hours:", error);
+    });
+  }
+
+  /**
+   * Stops checking for reminders in the page. The worker's periodic sync
+   * keeps running until reminders are turned off.
+   */
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+    this.unsubscribeSettings?.();
+    this.unsubscribeSettings = null;
+  }
+
+  /**
+   * Turns reminders on, asking for notification permission first.
+   * @returns Whether notifications were allowed.
+   */
+  async enable(): Promise<boolean> {
+    if (!this.isSupported()) return false;
+
+    const permission = await Notification.requestPermission();
+    if (permission !== "granted") return false;
+
+    await this.registerWorker();
+    useReminderSettings.getState().setEnabled(true);
+    return true;
+  }
+
+  /**
+   * Turns reminders off and stops the worker's periodic sync.
+   */
+  async disable(): Promise<void> {
+    useReminderSettings.getState().setEnabled(false);
+
+    await this.registration?.periodicSync?.unregister(PERIODIC_SYNC_TAG);
+  }
+
+  /**
+   * Fetches the hours the learner recalls best from their review history,
+   * at most once a day unless forced. Falls back to the hour they study
+   * most when there is too little history to compare accuracy by hour.
+   * @param userId - The signed in user.
+   * @param force - Refetch even if the hours were fetched recently.
+   */
+  async refreshBestHours(userId: string, force = false): Promise<number[]> {
+    const settings = useReminderSettings.getState();
+    if (
+      !force &&
+      settings.bestHoursFetchedAt &&
+      Date.now() - settings.bestHoursFetchedAt < BEST_HOURS_REFRESH_MS
+    ) {
+      return settings.bestHours;
+    }
+
+    const timeOfDay = await api.getTimeOfDayEffects(userId);
+    const analysis = timeOfDay.data?.success ? timeOfDay.data.data : null;
+    if (analysis && "peakHours" in analysis && analysis.peakHours.length > 0) {
+      settings.setBestHours(analysis.peakHours);
+      return analysis.peakHours;
+    }
+
+    const profile = await api.getAnalyticsProfile(userId);
+    if (profile.error) return settings.bestHours;
+
+    const preferredHour = profile.data?.patterns?.preferredHour;
+    const hours = preferredHour != null ? [preferredHour] : [];
+    settings.setBestHours(hours);
+    return hours;
+  }
+
+  /**
+   * Nudges the learner if this is one of their reminder hours, cards are
+   * due, and today's limit has not been reached.
+   * @returns Whether a notification was shown.
+   */
+  async checkAndNotify(now = new Date()): Promise<boolean> {
+    const settings = useReminderSettings.getState();
+    if (!settings.enabled || Notification.permission !== "granted") {
+      return false;
+    }
+
+    const hour = now.getHours();
+    const hours = getReminderHours(
+      settings.bestHours,
+      settings.quietHoursStart,
+      settings.quietHoursEnd,
+      settings.maxNudgesPerDay,
+    );
+    if (!hours.includes(hour)) return false;
+
+    const log = await this.readLog(now);
+    if (
+      log.hours.includes(hour) ||
+      log.hours.length >= settings.maxNudgesPerDay
+    ) {
+      return false;
+    }
+
+    const dueCount = (await this.getDueTimes(now)).length;
+    if (dueCount === 0) return false;
+
+    await this.showReminder(dueCount);
+    await this.writeLog({ date: log.date, hours: [...log.hours, hour] });
+    return true;
+  }
+
+  /**
+   * Writes the current plan for the service worker, with the due times of
+   * cards coming up so it can count the backlog without the database.
+   */
+  async publishPlan(): Promise<void> {
+    if (!this.isSupported()) return;
+
+    const settings = useReminderSettings.getState();
+    const plan: ReminderPlan = {
+      enabled: settings.enabled,
+      hours: getReminderHours(
+        settings.bestHours,
+        settings.quietHoursStart,
+        settings.quietHoursEnd,
+        settings.maxNudgesPerDay,
+      ),
+      quietHoursStart: settings.quietHoursStart,
+      quietHoursEnd: settings.quietHoursEnd,
+      maxNudgesPerDay: settings.maxNudgesPerDay,
+      dueAt: await this.getDueTimes(new Date(Date.now() + DUE_HORIZON_MS)),
+    };
+
+    const cache = await caches.open(REMINDER_CACHE);
+    await cache.put(PLAN_KEY, new Response(JSON.stringify(plan)));
+  }
+
+  // Keeps reminders on the learner's current best hours. The hours are only
+  // refetched once a day, and a change republishes the plan through the
+  // settings subscription
+  private async updateBestHours(): Promise<void> {
+    if (!this.userId || !useReminderSettings.getState().enabled) return;
+    await this.refreshBestHours(this.userId);
+  }
+
+  // Due times of cards already in review, up to the given time
+  private async getDueTimes(until: Date): Promise<number[]> {
+    const cards = await db.cards.where("due").belowOrEqual(until).toArray();
+    return cards
+      .filter(
+        (card) =>
+          !card.isDeleted &&
+          card.status !== "new" &&
+          card.queue !== QUEUE_TYPES.SUSPENDED,
+      )
+      .map((card) => new Date(card.due).getTime())
+      .sort((a, b) => a - b);
+  }
+
+  private async showReminder(dueCount: number): Promise<void> {
+    const title = "Time to study";
+    const options: NotificationOptions = {
+      body: `${dueCount} ${dueCount === 1 ? "card is" : "cards are"} due for review`,
+      icon: "/android-chrome-192x192.png",
+      tag: PERIODIC_SYNC_TAG,
+    };
+
+    if (this.registration) {
+      await this.registration.showNotification(title, options);
+    } else {
+      new Notification(title, options);
+    }
+  }
+
+  private async readLog(now: Date): Promise<ReminderLog> {
+    const date = toLocalDate(now);
+    const cache = await caches.open(REMINDER_CACHE);
+    const response = await cache.match(LOG_KEY);
+    const log: ReminderLog | null = response ? await response.json() : null;
+    return log?.date === date ? log : { date, hours: [] };
+  }
+
+  private async writeLog(log: ReminderLog): Promise<void> {
+    const cache = await caches.open(REMINDER_CACHE);
+    await cache.put(LOG_KEY, new Response(JSON.stringify(log)));
+  }
+
+  // Periodic sync lets the worker nudge while the app is closed; browsers
+  // without it only get reminders while a tab is open
+  private async registerWorker(): Promise<void> {
+    if (!("serviceWorker" in navigator)) return;
+
+    try {
+      this.registration =
+        await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      await this.registration.periodicSync?.register(PERIODIC_SYNC_TAG, {
+        minInterval: PERIODIC_SYNC_INTERVAL_MS,
+      });
+    } catch (error) {
+      console.warn(
+        "[ReminderService] Background reminders unavailable:",
+        error,
+      );
+    }
+  }
+}
+
+export const reminderService = new ReminderService();
@@ -113,36 +113,6 @@ function calculateRecallProbability(card: Card): number | undefined {
   return Math.max(0, Math.min(1, probability));
 }
 
-// ============================================================
-// SIMILARITY CALCULATION
-// ============================================================
-
-function calculateSimilarity(str1: string, str2: string): number {
-  const s1 = str1.toLowerCase().trim();
-  const s2 = str2.toLowerCase().trim();
-
-  if (s1 === s2) return 1;
-  if (s1.length === 0 || s2.length === 0) return 0;
-
-  const matrix: number[][] = [];
-  for (let i = 0; i <= s1.length; i++) matrix[i] = [i];
-  for (let j = 0; j <= s2.length; j++) matrix[0][j] = j;
-
-  for (let i = 1; i <= s1.length; i++) {
-    for (let j = 1; j <= s2.length; j++) {
-      const cost = s1[i - 1] === s2[j - 1] ? 0 : 1;
-      matrix[i][j] = Math.min(
-        matrix[i - 1][j] + 1,
-        matrix[i][j - 1] + 1,
-        matrix[i - 1][j - 1] + cost,
-      );
-    }
-  }
-
-  const distance = matrix[s1.length][s2.length];
-  return 1 - distance / Math.max(s1.length, s2.length);
-}
-
 // ============================================================
 // STUDY SESSION MANAGER
 // ============================================================
@@ -403,6 +373,7 @@ export class ReviewEventCaptureService {
       totalBackgroundMs: 0,
       blurEvents: [],
       optionHovers: new Map(),
+      optionClicks: new Map(),
       deviceContext,
       timeContext,
     };
@@ -583,6 +554,18 @@ export class ReviewEventCaptureService {
     });
   }
 
+  /**
+   * Record a click on a multiple choice option
+   * @param optionIndex - Index of the option clicked
+   */
+  recordOptionClick(optionIndex: number): void {
+    if (!this.currentBuilder) return;
+
+    this.recordFirstInteraction();
+    const current = this.currentBuilder.optionClicks.get(optionIndex) || 0;
+    this.currentBuilder.optionClicks.set(optionIndex, current + 1);
+  }
+
   /**
    * Flush buffered interactions to the server
    * Called periodically or when buffer is full
@@ -639,6 +622,7 @@ export class ReviewEventCaptureService {
     rating: 1 | 2 | 3 | 4,
     userResponse?: string,
     expectedResponse?: string,
+    responseSimilarity?: number,
   ): Promise<boolean> {
     if (!this.currentBuilder) {
       console.warn("[ReviewEventCapture] No active review to complete");
@@ -671,24 +655,28 @@ export class ReviewEventCaptureService {
       totalBackgroundMs += now - builder.backgroundStartedAt;
     }
 
-    // Calculate similarity for typed responses
-    let responseSimilarityScore: number | undefined;
-    if (userResponse && expectedResponse) {
-      responseSimilarityScore = calculateSimilarity(
-        userResponse,
-        expectedResponse,
-      );
-    }
+    // Typed responses keep the similarity they were graded with, so the
+    // stored score matches the suggested rating
+    const isTypedResponse =
+      userResponse !== undefined && expectedResponse !== undefined;
+    const responseSimilarityScore = isTypedResponse
+      ? responseSimilarity
+      : undefined;
 
-    // Build option interactions
+    // Build option interactions from every option hovered or clicked
+    const optionIndexes = new Set([
+      ...builder.optionHovers.keys(),
+      ...builder.optionClicks.keys(),
+    ]);
     const optionInteractions =
-      builder.optionHovers.size > 0
-        ? Array.from(builder.optionHovers.entries()).map(
-            ([optionIndex, hoverMs]) => ({
+      optionIndexes.size > 0
+        ? Array.from(optionIndexes)
+            .sort((a, b) => a - b)
+            .map((optionIndex) => ({
               optionIndex,
-              hoverMs: Math.round(hoverMs),
-            }),
-          )
+              hoverMs: Math.round(builder.optionHovers.get(optionIndex) || 0),
+              clickCount: builder.optionClicks.get(optionIndex),
+            }))
         : undefined;
 
     // Calculate edit count
@@ -713,8 +701,12 @@ export class ReviewEventCaptureService {
       userResponseText: userResponse,
       expectedResponseText: expectedResponse,
       responseSimilarityScore,
-      keystrokeCount: builder.keystrokeCount || undefined,
-      backspaceCount: builder.backspaceCount || undefined,
+      keystrokeCount: isTypedResponse
+        ? builder.keystrokeCount
+        : builder.keystrokeCount || undefined,
+      backspaceCount: isTypedResponse
+        ? builder.backspaceCount
+        : builder.backspaceCount || undefined,
       pasteCount: builder.pasteCount || undefined,
       editCount,
       optionInteractions,
@@ -0,0 +1,475 @@
+/**
+ * Subscription Service
+ *
+ * Keeps local copies of public decks the user subscribes to. Subscribing
+ * downloads the published cards into a new local deck; later changes by the
+ * author arrive as changesets the user reviews before they are applied.
+ * Only card content is ever copied, so the subscriber's scheduling is kept.
+ */
+
+import {
+  db,
+  type DeckSubscription,
+  type SyncableCard,
+} from "../storage/database";
+import type { DeckId } from "../types/ids";
+import type {
+  PublishedCard,
+  PublishedDeckResponse,
+  PublishedMedia,
+  SubscriptionChangeset,
+} from "../types/sync";
+import { api } from "./api";
+import { IdService } from "./id-service";
+import { processHtml } from "../lib/note-templates";
+import {
+  getMediaByHash,
+  rewriteMediaReferences,
+  storeMediaFile,
+} from "../storage/media-store";
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3000";
+
+// Local decks and cards copied from a subscription are marked with this source
+export const SUBSCRIPTION_SOURCE = "commons";
+
+// Subscriptions checked more recently than this are skipped unless forced
+const UPDATE_CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Fields compared to tell whether the author changed a card
+const PUBLISHED_CARD_FIELDS: Array<keyof PublishedCard> = [
+  "front",
+  "back",
+  "frontHtml",
+  "backHtml",
+  "frontAudio",
+  "backAudio",
+  "frontImage",
+  "backImage",
+  "clozeOrd",
+  "tags",
+];
+
+export interface ChangesetSummary {
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+export class SubscriptionService {
+  private apiBaseUrl = API_BASE_URL;
+
+  /**
+   * Subscribes to a public deck and downloads its cards into a new local
+   * deck. Subscribing again returns the deck already downloaded.
+   * @param publicDeckId - The public deck's server ID.
+   * @returns A promise that resolves to the local deck's ID.
+   */
+  async subscribe(publicDeckId: string): Promise<DeckId> {
+    const result = await api.subscribeToDeck(publicDeckId);
+    if (result.error) throw new Error(result.error);
+
+    const existing = await db.subscriptions.get(publicDeckId);
+    if (existing) return existing.deckId;
+
+    const content = await this.fetchPublishedDeck(publicDeckId);
+    const now = new Date();
+    const deckId = IdService.generateDeckId();
+    await db.decks.add({
+      id: deckId,
+      name: content.deck.name,
+      description: content.deck.description,
+      cardCount: 0,
+      dueCount: 0,
+      newCount: 0,
+      importSource: SUBSCRIPTION_SOURCE,
+      externalId: publicDeckId,
+      lastModifiedAt: now,
+      syncStatus: "pending",
+      version: 1,
+    });
+
+    const subscription: DeckSubscription = {
+      id: publicDeckId,
+      deckId,
+      name: content.deck.name,
+      subscribedAt: now,
+      lastCheckedAt: now,
+      published: {},
+    };
+    await db.subscriptions.add(subscription);
+    await this.applyChangeset(subscription, buildChangeset({}, content));
+
+    return deckId;
+  }
+
+  /**
+   * Ends a subscription. The local deck and its progress are kept but no
+   * longer receive the author's changes.
+   * @param publicDeckId - The public deck's server ID.
+   */
+  async unsubscribe(publicDeckId: string): Promise<void> {
+    const result = await api.unsubscribeFromDeck(publicDeckId);
+    if (result.error) throw new Error(result.error);
+
+    await db.subscriptions.delete(publicDeckId);
+  }
+
+  /**
+   * Gets the subscriptions downloaded on this device, by name.
+   */
+  async getSubscriptions(): Promise<DeckSubscription[]> {
+    const subscriptions = await db.subscriptions.toArray();
+    return subscriptions.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Compares each subscribed deck with what its author has published and
+   * stores the differences as a changeset to review. Subscriptions whose
+   * local deck was deleted are ended.
+   * @param force - Check every subscription, even ones checked recently.
+   * @returns A promise that resolves to the number of subscriptions with changes to review.
+   */
+  async checkForUpdates(force = false): Promise<number> {
+    if (!SubscriptionService.getAuthToken()) {
+      return this.countPendingChanges();
+    }
+
+    for (const subscription of await db.subscriptions.toArray()) {
+      const deck = await db.decks.get(subscription.deckId);
+      if (!deck || deck.isDeleted) {
+        await db.subscriptions.delete(subscription.id);
+        await api.unsubscribeFromDeck(subscription.id);
+        continue;
+      }
+
+      const lastCheckedAt = subscription.lastCheckedAt
+        ? new Date(subscription.lastCheckedAt).getTime()
+        : 0;
+      if (!force && Date.now() - lastCheckedAt < UPDATE_CHECK_INTERVAL_MS) {
+        continue;
+      }
+
+      try {
+        const content = await this.fetchPublishedDeck(subscription.id);
+        const changeset = buildChangeset(subscription.published, content);
+        await db.subscriptions.update(subscription.id, {
+          lastCheckedAt: new Date(),
+          pendingChanges: hasChanges(changeset) ? changeset : undefined,
+        });
+      } catch (error) {
+        console.error(
+          `Failed to check ${subscription.name} for updates:`,
+          error,
+        );
+      }
+    }
+
+    return this.countPendingChanges();
+  }
+
+  /**
+   * Applies a subscription's pending changeset to its local deck.
+   * @param publicDeckId - The public deck's server ID.
+   * @returns A promise that resolves to the number of cards changed.
+   */
+  async applyChanges(publicDeckId: string): Promise<ChangesetSummary> {
+    const subscription = await db.subscriptions.get(publicDeckId);
+    if (!subscription?.pendingChanges) {
+      return { added: 0, updated: 0, removed: 0 };
+    }
+    return this.applyChangeset(subscription, subscription.pendingChanges);
+  }
+
+  /**
+   * Skips a subscription's pending changeset. Its changes are not offered
+   * again; later changes by the author are.
+   * @param publicDeckId - The public deck's server ID.
+   */
+  async dismissChanges(publicDeckId: string): Promise<void> {
+    const subscription = await db.subscriptions.get(publicDeckId);
+    if (!subscription?.pendingChanges) return;
+
+    await db.subscriptions.update(publicDeckId, {
+      published: getPublishedAfter(
+        subscription.published,
+        subscription.pendingChanges,
+      ),
+      pendingChanges: undefined,
+    });
+  }
+
+  /**
+   * Counts subscriptions with a changeset waiting to be reviewed.
+   */
+  async countPendingChanges(): Promise<number> {
+    return db.subscriptions
+      .filter((subscription) => !!subscription.pendingChanges)
+      .count();
+  }
+
+  /**
+   * Copies a changeset into the local deck. Added cards start unscheduled;
+   * updated cards keep their scheduling and any tags the subscriber added.
+   * Cards the subscriber deleted stay deleted.
+   */
+  private async applyChangeset(
+    subscription: DeckSubscription,
+    changeset: SubscriptionChangeset,
+  ): Promise<ChangesetSummary> {
+    const renames = await this.downloadMedia(subscription.id, changeset.media);
+    const localCards = new Map(
+      (await db.cards.where("deckId").equals(subscription.deckId).toArray())
+        .filter(
+          (card) =>
+            !card.isDeleted &&
+            card.importSource === SUBSCRIPTION_SOURCE &&
+            card.externalId,
+        )
+        .map((card) => [card.externalId, card] as const),
+    );
+
+    const summary: ChangesetSummary = { added: 0, updated: 0, removed: 0 };
+    const now = new Date();
+
+    for (const card of changeset.added) {
+      // A card already copied by an interrupted download is refreshed instead
+      const local = localCards.get(card.id);
+      if (local) {
+        await db.updateCard(local.id, toCardContent(card, renames));
+        continue;
+      }
+
+      const newCard: SyncableCard = {
+        ...db.srsEngine.createCard(card.front, card.back, subscription.deckId),
+        ...toCardContent(card, renames),
+        importSource: SUBSCRIPTION_SOURCE,
+        externalId: card.id,
+        lastModifiedAt: now,
+        syncStatus: "pending",
+        version: 1,
+        isDeleted: false,
+      };
+      await db.cards.add(newCard);
+      summary.added++;
+    }
+
+    for (const { previous, card } of changeset.updated) {
+      const local = localCards.get(card.id);
+      if (!local) continue;
+
+      const ownTags = (local.tags ?? []).filter(
+        (tag) => !previous.tags.includes(tag),
+      );
+      await db.updateCard(local.id, {
+        ...toCardContent(card, renames),
+        tags: [...new Set([...card.tags, ...ownTags])],
+      });
+      summary.updated++;
+    }
+
+    for (const card of changeset.removed) {
+      const local = localCards.get(card.id);
+      if (!local) continue;
+
+      await db.deleteCard(local.id);
+      summary.removed++;
+    }
+
+    await db.updateDeckStats(subscription.deckId);
+    await db.subscriptions.update(subscription.id, {
+      published: getPublishedAfter(subscription.published, changeset),
+      pendingChanges: undefined,
+    });
+
+    return summary;
+  }
+
+  /**
+   * Stores the media a changeset uses, downloading only contents this
+   * device lacks.
+   * @returns A promise that resolves to the files stored under another name.
+   */
+  private async downloadMedia(
+    publicDeckId: string,
+    media: PublishedMedia[],
+  ): Promise<Map<string, string>> {
+    const renames = new Map<string, string>();
+
+    for (const entry of media) {
+      const existing = await getMediaByHash(entry.hash);
+      const fileName =
+        existing?.fileName ??
+        (await storeMediaFile(
+          entry.fileName,
+          await this.downloadMediaContent(publicDeckId, entry),
+        ));
+      if (fileName !== entry.fileName) {
+        renames.set(entry.fileName, fileName);
+      }
+    }
+
+    return renames;
+  }
+
+  private static getAuthToken(): string | null {
+    return localStorage.getItem("auth_token");
+  }
+
+  private static getHeaders(): Record<string, string> {
+    const token = SubscriptionService.getAuthToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  /**
+   * Fetches the cards and media the author has published.
+   */
+  private async fetchPublishedDeck(
+    publicDeckId: string,
+  ): Promise<PublishedDeckResponse> {
+    const response = await fetch(
+      `${this.apiBaseUrl}/api/sync/subscriptions/${publicDeckId}`,
+      {
+        method: "GET",
+        headers: SubscriptionService.getHeaders(),
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(`Fetch subscribed deck failed: ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Downloads a subscribed deck's media file contents by their hash.
+   */
+  private async downloadMediaContent(
+    publicDeckId: string,
+    media: PublishedMedia,
+  ): Promise<Uint8Array> {
+    const response = await fetch(
+      `${this.apiBaseUrl}/api/sync/subscriptions/${publicDeckId}/media/${media.hash}`,
+      {
+        method: "GET",
+        headers: SubscriptionService.getHeaders(),
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(`Media download failed: ${response.statusText}`);
+    }
+
+    return new Uint8Array(await response.arrayBuffer());
+  }
+}
+
+/**
+ * Differences between the cards last reviewed and the ones now published.
+ */
+function buildChangeset(
+  published: Record<string, PublishedCard>,
+  content: PublishedDeckResponse,
+): SubscriptionChangeset {
+  const added: PublishedCard[] = [];
+  const updated: SubscriptionChangeset["updated"] = [];
+  const current = new Set<string>();
+
+  for (const card of content.cards) {
+    current.add(card.id);
+    const previous = published[card.id];
+    if (!previous) {
+      added.push(card);
+    } else if (!isSamePublishedCard(previous, card)) {
+      updated.push({ previous, card });
+    }
+  }
+  const removed = Object.values(published).filter(
+    (card) => !current.has(card.id),
+  );
+
+  const usedMedia = new Set(
+    [...added, ...updated.map(({ card }) => card)].flatMap(getCardMedia),
+  );
+
+  return {
+    fetchedAt: new Date(),
+    added,
+    updated,
+    removed,
+    media: content.media.filter((entry) => usedMedia.has(entry.fileName)),
+  };
+}
+
+function hasChanges(changeset: SubscriptionChangeset): boolean {
+  return (
+    changeset.added.length > 0 ||
+    changeset.updated.length > 0 ||
+    changeset.removed.length > 0
+  );
+}
+
+// The published cards once a changeset is applied or dismissed
+function getPublishedAfter(
+  published: Record<string, PublishedCard>,
+  changeset: SubscriptionChangeset,
+): Record<string, PublishedCard> {
+  const next = { ...published };
+  for (const card of changeset.added) next[card.id] = card;
+  for (const { card } of changeset.updated) next[card.id] = card;
+  for (const card of changeset.removed) delete next[card.id];
+  return next;
+}
+
+// Server JSON leaves out empty fields, so missing and undefined match
+function isSamePublishedCard(a: PublishedCard, b: PublishedCard): boolean {
+  return PUBLISHED_CARD_FIELDS.every(
+    (field) =>
+      JSON.stringify(a[field] ?? null) === JSON.stringify(b[field] ?? null),
+  );
+}
+
+function getCardMedia(card: PublishedCard): string[] {
+  const fileNames = [
+    card.frontAudio,
+    card.backAudio,
+    card.frontImage,
+    card.backImage,
+  ];
+  for (const html of [card.frontHtml, card.backHtml]) {
+    if (!html) continue;
+    const { audio, images } = processHtml(html);
+    fileNames.push(...audio, ...images);
+  }
+  return fileNames.filter((fileName): fileName is string => !!fileName);
+}
+
+// Card content with media pointed at the names it is stored under here and
+// the author's HTML sanitized as imports do; empty fields are set so content
+// the author removed is cleared
+function toCardContent(
+  card: PublishedCard,
+  renames: Map<string, string>,
+): Partial<SyncableCard> {
+  const rewriteHtml = (html: string | undefined) =>
+    html && processHtml(rewriteMediaReferences(html, renames)).html;
+  const renameFile = (fileName: string | undefined) =>
+    fileName && (renames.get(fileName) ?? fileName);
+
+  return {
+    front: card.front,
+    back: card.back,
+    frontHtml: rewriteHtml(card.frontHtml),
+    backHtml: rewriteHtml(card.backHtml),
+    frontAudio: renameFile(card.frontAudio),
+    backAudio: renameFile(card.backAudio),
+    frontImage: renameFile(card.frontImage),
+    backImage: renameFile(card.backImage),
+    clozeOrd: card.clozeOrd,
+    tags: card.tags,
+  };
+}
+
+// Singleton instance
+export const subscriptionService = new SubscriptionService();
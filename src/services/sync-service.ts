@@ -6,23 +6,51 @@
  * and sync status tracking.
  */
 
+import type { Table } from "dexie";
 import { db } from "../storage/database";
 import {
   SyncConfig,
   SyncResult,
   SyncStats,
   SyncConflict,
+  SyncEntityType,
+  ConflictResolution,
   SyncError,
   SyncRequest,
   SyncResponse,
   SyncOperation,
   SyncableSession,
+  SyncableMedia,
+  SyncEntityChanges,
+  SyncMetadata,
   DEFAULT_SYNC_CONFIG,
 } from "../types/sync";
-import type { StudySession } from "../storage/database";
+import type {
+  MediaRecord,
+  StudySession,
+  SyncConflictRecord,
+} from "../storage/database";
+import type { CardId, DeckId } from "../types/ids";
+import {
+  collectUnusedMedia,
+  getMediaByHash,
+  getMediaRecord,
+} from "../storage/media-store";
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3000";
 
+// Fields besides lastModifiedAt that the server sends as date strings
+const DATE_FIELDS: Partial<Record<SyncEntityType, string[]>> = {
+  note: ["createdAt", "modifiedAt"],
+  card: ["due", "lastReview"],
+};
+
+// Entities that can conflict, with the per-field clocks cards and decks keep
+type ConflictEntity = SyncMetadata & {
+  id: string;
+  fieldModifiedAt?: Record<string, Date>;
+};
+
 export class SyncService {
   private config: SyncConfig;
   private syncInterval: number | null = null;
@@ -141,6 +169,11 @@ export class SyncService {
     this.isSyncing = true;
 
     try {
+      this.lastSyncAt ??= await db.getLastSyncAt();
+
+      // Unused media is removed first so its deletion is pushed
+      await collectUnusedMedia();
+
       // Step 1: Push local changes to server
       const pushResult = await this.pushToServer();
 
@@ -157,7 +190,6 @@ export class SyncService {
         timestamp: new Date(),
       };
 
-      this.lastSyncAt = result.timestamp;
       return result;
     } catch (error) {
       console.error("Sync failed:", error);
@@ -198,6 +230,16 @@ export class SyncService {
       lastSyncAt: this.lastSyncAt,
     };
 
+    // Process note types
+    if (entities.noteTypes.length > 0) {
+      request.noteTypes = entities.noteTypes
+        .slice(0, this.config.batchSize)
+        .map((noteType) => ({
+          operation: this.determineOperation(noteType),
+          data: noteType,
+        }));
+    }
+
     // Process decks
     if (entities.decks.length > 0) {
       request.decks = entities.decks
@@ -208,6 +250,16 @@ export class SyncService {
         }));
     }
 
+    // Process notes
+    if (entities.notes.length > 0) {
+      request.notes = entities.notes
+        .slice(0, this.config.batchSize)
+        .map((note) => ({
+          operation: this.determineOperation(note),
+          data: note,
+        }));
+    }
+
     // Process cards
     if (entities.cards.length > 0) {
       request.cards = entities.cards
@@ -234,6 +286,7 @@ export class SyncService {
             rating: session.rating,
             duration: session.duration,
             timestamp: session.timestamp,
+            cardStatus: session.cardStatus,
             serverId: session.serverId,
             lastSyncedAt: session.lastSyncedAt,
             syncStatus: session.syncStatus || "pending",
@@ -242,11 +295,52 @@ export class SyncService {
         }));
     }
 
+    // Process media; contents are uploaded before their metadata is sent
+    if (entities.media.length > 0) {
+      request.media = [];
+      for (const record of entities.media.slice(
+        0,
+        this.config.mediaBatchSize,
+      )) {
+        const operation = this.determineOperation(record);
+        if (operation === "create") {
+          try {
+            await this.uploadMediaContent(record);
+          } catch (error) {
+            errors.push({
+              entityType: "media",
+              entityId: record.id,
+              operation,
+              error: error instanceof Error ? error.message : "Unknown error",
+              timestamp: new Date(),
+              retryable: true,
+            });
+            itemsFailed++;
+            continue;
+          }
+        }
+        request.media.push({ operation, data: toSyncableMedia(record) });
+      }
+    }
+
     try {
       const response = await this.sendSyncRequest(request);
 
       if (response.success) {
         // Mark successfully synced items
+        if (response.noteTypes) {
+          itemsSynced += await this.markChangesSynced(
+            "noteType",
+            response.noteTypes,
+          );
+          conflicts.push(...response.noteTypes.conflicts);
+        }
+
+        if (response.notes) {
+          itemsSynced += await this.markChangesSynced("note", response.notes);
+          conflicts.push(...response.notes.conflicts);
+        }
+
         if (response.decks) {
           for (const deckId of response.decks.created) {
             await db.markAsSynced("deck", deckId);
@@ -282,17 +376,39 @@ export class SyncService {
           }
         }
 
+        if (response.media) {
+          for (const mediaId of response.media.created) {
+            await db.markAsSynced("media", mediaId);
+            itemsSynced++;
+          }
+          for (const mediaId of response.media.updated) {
+            await db.markAsSynced("media", mediaId);
+            itemsSynced++;
+          }
+          // The server has the deletion, so the local copy can go
+          for (const mediaId of response.media.deleted) {
+            await db.media.delete(mediaId);
+            itemsSynced++;
+          }
+          conflicts.push(...response.media.conflicts);
+        }
+
         if (response.errors) {
           errors.push(...response.errors);
           itemsFailed += response.errors.length;
         }
+
+        await this.recordConflicts(conflicts);
       }
     } catch (error) {
       console.error("Push sync failed:", error);
-      itemsFailed =
+      itemsFailed +=
+        (request.noteTypes?.length || 0) +
         (request.decks?.length || 0) +
+        (request.notes?.length || 0) +
         (request.cards?.length || 0) +
-        (request.sessions?.length || 0);
+        (request.sessions?.length || 0) +
+        (request.media?.length || 0);
       errors.push({
         entityType: "deck",
         entityId: "",
@@ -327,16 +443,65 @@ export class SyncService {
       const response = await this.fetchServerChanges(this.lastSyncAt);
 
       if (response.success) {
-        // Apply server changes locally
-        // This is a simplified version - real implementation would handle conflicts
-        itemsSynced += response.decks?.created.length || 0;
-        itemsSynced += response.decks?.updated.length || 0;
-        itemsSynced += response.cards?.created.length || 0;
-        itemsSynced += response.cards?.updated.length || 0;
+        // Apply server changes locally, parents before the records that
+        // reference them
+        itemsSynced += await this.applyServerRecords(
+          db.noteTypes,
+          response.noteTypes?.records,
+          "noteType",
+        );
+        const decks = response.decks?.records || [];
+        itemsSynced += await this.applyServerRecords(db.decks, decks, "deck");
+        itemsSynced += await this.applyServerRecords(
+          db.notes,
+          response.notes?.records,
+          "note",
+        );
+        const cards = response.cards?.records || [];
+        itemsSynced += await this.applyServerRecords(db.cards, cards, "card");
+
+        // Cards reviewed on another device are rescheduled from the
+        // combined review log, so no review is lost
+        const replayedDeckIds: string[] = [];
+        for (const cardId of await this.applyServerSessions(
+          response.sessions?.records || [],
+        )) {
+          if (await db.replayReviewLog(cardId)) {
+            const card = await db.cards.get(cardId);
+            if (card) replayedDeckIds.push(card.deckId);
+          }
+        }
 
+        // Deck counts are derived from cards, so they are recomputed locally
+        const deckIds = new Set([
+          ...decks.map((deck) => deck.id),
+          ...cards.map((card) => card.deckId),
+          ...replayedDeckIds,
+        ]);
+        for (const deckId of deckIds) {
+          await db.updateDeckStats(deckId as DeckId, false);
+        }
+
+        conflicts.push(...(response.noteTypes?.conflicts || []));
         conflicts.push(...(response.decks?.conflicts || []));
+        conflicts.push(...(response.notes?.conflicts || []));
         conflicts.push(...(response.cards?.conflicts || []));
         errors.push(...(response.errors || []));
+
+        const mediaResult = await this.applyMediaChanges(
+          response.media?.records || [],
+        );
+        itemsSynced += mediaResult.itemsSynced;
+        itemsFailed += mediaResult.errors.length;
+        conflicts.push(...mediaResult.conflicts);
+        errors.push(...mediaResult.errors);
+
+        // The next pull resumes from the server's clock, which changes are
+        // stamped with when they arrive, and survives a reload
+        if (itemsFailed === 0) {
+          this.lastSyncAt = new Date(response.timestamp);
+          await db.setLastSyncAt(this.lastSyncAt);
+        }
       }
     } catch (error) {
       console.error("Pull sync failed:", error);
@@ -361,6 +526,197 @@ export class SyncService {
     };
   }
 
+  /**
+   * Marks pushed entities the server accepted as synced.
+   * @returns The number of entities marked.
+   */
+  private async markChangesSynced(
+    entityType: "note" | "noteType",
+    changes: SyncEntityChanges<unknown>,
+  ): Promise<number> {
+    const ids = [...changes.created, ...changes.updated, ...changes.deleted];
+    for (const id of ids) {
+      await db.markAsSynced(entityType, id);
+    }
+    return ids.length;
+  }
+
+  /**
+   * Stores records changed on the server. Local records with changes not
+   * yet pushed or with an open conflict are left alone, as are records
+   * already at the server's version; deletions of records this device never
+   * had are skipped.
+   * @returns The number of records stored.
+   */
+  private async applyServerRecords<T extends SyncMetadata & { id: string }>(
+    table: Table<T>,
+    records: unknown[] | undefined,
+    entityType: SyncEntityType,
+  ): Promise<number> {
+    let applied = 0;
+    const now = new Date();
+
+    for (const record of (records || []) as T[]) {
+      const local = await table.get(record.id);
+      if (local?.syncStatus === "pending") continue;
+      if (local?.syncStatus === "conflict") continue;
+      if (local && local.version >= record.version) continue;
+      if (!local && record.isDeleted) continue;
+
+      await table.put({
+        ...local,
+        ...(reviveServerRecord(record, entityType) as T),
+        lastSyncedAt: now,
+        syncStatus: "synced",
+      });
+      applied++;
+    }
+
+    return applied;
+  }
+
+  /**
+   * Adds reviews made on other devices to the local review log. Reviews are
+   * matched by card and time, as session IDs are only unique per device.
+   * @returns The IDs of cards that gained reviews.
+   */
+  private async applyServerSessions(
+    records: SyncableSession[],
+  ): Promise<Set<CardId>> {
+    const cardIds = new Set<CardId>();
+    const now = new Date();
+
+    for (const record of records) {
+      const cardId = record.cardId as CardId;
+      const timestamp = new Date(record.timestamp);
+      const existing = await db.sessions
+        .where("cardId")
+        .equals(cardId)
+        .filter(
+          (session) =>
+            new Date(session.timestamp).getTime() === timestamp.getTime(),
+        )
+        .first();
+      if (existing) continue;
+
+      await db.sessions.add({
+        cardId,
+        rating: record.rating,
+        duration: record.duration,
+        timestamp,
+        cardStatus: record.cardStatus,
+        serverId: record.serverId,
+        lastSyncedAt: now,
+        syncStatus: "synced",
+      });
+      cardIds.add(cardId);
+    }
+
+    return cardIds;
+  }
+
+  /**
+   * Keeps conflicts the server reported until the user resolves them. The
+   * local entity is marked so later pulls leave it alone.
+   */
+  private async recordConflicts(conflicts: SyncConflict[]): Promise<void> {
+    const now = new Date();
+    for (const conflict of conflicts) {
+      const table = this.getEntityTable(conflict.entityType);
+      if (!(await table.get(conflict.entityId))) continue;
+
+      await db.syncConflicts.put({
+        ...conflict,
+        id: `${conflict.entityType}:${conflict.entityId}`,
+        detectedAt: now,
+      });
+      await table.update(conflict.entityId, { syncStatus: "conflict" });
+    }
+  }
+
+  /**
+   * Applies media changes from the server. New files are downloaded unless
+   * the same contents are already stored; a file whose name is taken by
+   * different local contents is reported as a conflict.
+   */
+  private async applyMediaChanges(records: SyncableMedia[]): Promise<{
+    itemsSynced: number;
+    conflicts: SyncConflict[];
+    errors: SyncError[];
+  }> {
+    const conflicts: SyncConflict[] = [];
+    const errors: SyncError[] = [];
+    let itemsSynced = 0;
+
+    for (const record of records) {
+      const local = await db.media.get(record.id);
+
+      if (record.isDeleted) {
+        // Local changes still waiting to be pushed take precedence
+        if (local && local.syncStatus !== "pending") {
+          await db.media.delete(record.id);
+          itemsSynced++;
+        }
+        continue;
+      }
+
+      if (local) {
+        if (local.syncStatus !== "pending" && local.version < record.version) {
+          await db.media.update(record.id, {
+            fileName: record.fileName,
+            version: record.version,
+            lastModifiedAt: new Date(record.lastModifiedAt),
+          });
+          itemsSynced++;
+        }
+        continue;
+      }
+
+      const sameName = await getMediaRecord(record.fileName);
+      if (sameName && sameName.hash !== record.hash) {
+        conflicts.push({
+          entityType: "media",
+          entityId: record.id,
+          localVersion: sameName.version,
+          serverVersion: record.version,
+          localData: toSyncableMedia(sameName),
+          serverData: record,
+          conflictedFields: ["fileName"],
+        });
+        continue;
+      }
+
+      try {
+        const blob =
+          (await getMediaByHash(record.hash))?.blob ??
+          (await this.downloadMediaContent(record));
+        const now = new Date();
+        await db.media.put({
+          ...record,
+          id: record.id as MediaRecord["id"],
+          blob,
+          createdAt: now,
+          lastModifiedAt: new Date(record.lastModifiedAt),
+          lastSyncedAt: now,
+          syncStatus: "synced",
+          isDeleted: false,
+        });
+        itemsSynced++;
+      } catch (error) {
+        errors.push({
+          entityType: "media",
+          entityId: record.id,
+          operation: "create",
+          error: error instanceof Error ? error.message : "Unknown error",
+          timestamp: new Date(),
+          retryable: true,
+        });
+      }
+    }
+
+    return { itemsSynced, conflicts, errors };
+  }
+
   /**
    * Determines the operation type for an entity based on its state.
    */
@@ -406,6 +762,60 @@ export class SyncService {
     return await response.json();
   }
 
+  /**
+   * Uploads a media file's contents, addressed by their hash.
+   */
+  private async uploadMediaContent(record: MediaRecord): Promise<void> {
+    const token = SyncService.getAuthToken();
+    const headers: Record<string, string> = {
+      "Content-Type": "application/octet-stream",
+    };
+
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`;
+    }
+
+    const response = await fetch(
+      `${this.apiBaseUrl}/api/sync/media/${record.hash}`,
+      {
+        method: "PUT",
+        headers,
+        body: record.blob,
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(`Media upload failed: ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Downloads a media file's contents by their hash.
+   */
+  private async downloadMediaContent(record: SyncableMedia): Promise<Blob> {
+    const token = SyncService.getAuthToken();
+    const headers: Record<string, string> = {};
+
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`;
+    }
+
+    const response = await fetch(
+      `${this.apiBaseUrl}/api/sync/media/${record.hash}`,
+      {
+        method: "GET",
+        headers,
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(`Media download failed: ${response.statusText}`);
+    }
+
+    const data = await response.arrayBuffer();
+    return new Blob([data], { type: record.mimeType });
+  }
+
   /**
    * Fetches changes from server since last sync.
    */
@@ -436,74 +846,115 @@ export class SyncService {
   }
 
   /**
-   * Resolves a conflict using field-level last-write-wins strategy.
+   * Gets conflicts waiting to be resolved, oldest first.
    */
-  async resolveConflict(conflict: SyncConflict): Promise<void> {
-    const { entityType, entityId, localData, serverData } = conflict;
-
-    // Type assertion for sync entity data - these are dynamic objects from conflict resolution
-    const local = localData as Record<string, unknown>;
-    const server = serverData as Record<string, unknown>;
-
-    // Field-level LWW: Compare timestamps for each field
-    const merged: Record<string, unknown> = { ...server };
+  async getConflicts(): Promise<SyncConflictRecord[]> {
+    return await db.syncConflicts.orderBy("detectedAt").toArray();
+  }
 
+  /**
+   * Suggests a merge that keeps, for each conflicted field, the version
+   * modified last. Fields without a clock of their own fall back to the
+   * record's lastModifiedAt.
+   */
+  suggestResolution(conflict: SyncConflict): ConflictResolution {
+    const local = conflict.localData as Partial<ConflictEntity>;
+    const server = conflict.serverData as Partial<ConflictEntity>;
+    const getClock = (entity: Partial<ConflictEntity>, field: string) =>
+      new Date(
+        entity.fieldModifiedAt?.[field] ?? entity.lastModifiedAt ?? 0,
+      ).getTime();
+
+    const resolution: ConflictResolution = {};
     for (const field of conflict.conflictedFields) {
-      const localTime =
-        local.lastModifiedAt instanceof Date
-          ? local.lastModifiedAt.getTime()
-          : 0;
-      const serverTime =
-        server.lastModifiedAt instanceof Date
-          ? server.lastModifiedAt.getTime()
-          : 0;
-
-      if (localTime > serverTime) {
-        merged[field] = local[field];
-      }
+      resolution[field] =
+        getClock(local, field) > getClock(server, field) ? "local" : "server";
     }
+    return resolution;
+  }
 
-    // Apply merged data locally - cast to any for Dexie's dynamic update
-    switch (entityType) {
-      case "deck":
-        await db.decks.update(
-          entityId,
-          merged as Parameters<typeof db.decks.update>[1],
-        );
-        break;
-      case "card":
-        await db.cards.update(
-          entityId,
-          merged as Parameters<typeof db.cards.update>[1],
-        );
-        break;
-      case "session":
-        await db.sessions.update(
-          entityId,
-          merged as Parameters<typeof db.sessions.update>[1],
-        );
-        break;
-      default:
-        throw new Error(`Unknown entity type: ${entityType}`);
+  /**
+   * Resolves a conflict by keeping the chosen version of each conflicted
+   * field; other fields keep their local values. Keeping any local field
+   * leaves the entity pending, so the merge is pushed on the next sync.
+   * @param resolution - The version to keep per field; defaults to the suggested merge.
+   */
+  async resolveConflict(
+    conflict: SyncConflict,
+    resolution: ConflictResolution = this.suggestResolution(conflict),
+  ): Promise<void> {
+    const { entityType, entityId, conflictedFields } = conflict;
+    const table = this.getEntityTable(entityType);
+    const local = await table.get(entityId);
+
+    if (local) {
+      const server = reviveServerRecord(
+        conflict.serverData as ConflictEntity,
+        entityType,
+      );
+      const merged: ConflictEntity & Record<string, unknown> = { ...local };
+      const fieldModifiedAt = { ...local.fieldModifiedAt };
+
+      for (const field of conflictedFields) {
+        if (resolution[field] !== "server") continue;
+        merged[field] = server[field as keyof ConflictEntity];
+        const serverClock = server.fieldModifiedAt?.[field];
+        if (serverClock) fieldModifiedAt[field] = serverClock;
+      }
+
+      const keepsLocal = conflictedFields.some(
+        (field) => resolution[field] !== "server",
+      );
+      const now = new Date();
+
+      await table.put({
+        ...merged,
+        ...(server.fieldModifiedAt && { fieldModifiedAt }),
+        serverId: server.serverId ?? local.serverId,
+        lastSyncedAt: now,
+        lastModifiedAt: keepsLocal ? now : server.lastModifiedAt,
+        syncStatus: keepsLocal ? "pending" : "synced",
+        // The server's version, so pushing the merge does not conflict again
+        version: conflict.serverVersion,
+      });
     }
 
-    // Mark as synced
-    await db.markAsSynced(
-      entityType,
-      entityId,
-      server.serverId as string | undefined,
-    );
+    await db.syncConflicts.delete(`${entityType}:${entityId}`);
+  }
+
+  /**
+   * Gets the local table for an entity type that can conflict.
+   */
+  private getEntityTable(entityType: SyncEntityType): Table<ConflictEntity> {
+    const tables: Partial<Record<SyncEntityType, Table>> = {
+      deck: db.decks,
+      card: db.cards,
+      note: db.notes,
+      noteType: db.noteTypes,
+      media: db.media,
+    };
+    const table = tables[entityType];
+    if (!table) {
+      throw new Error(`Unknown entity type: ${entityType}`);
+    }
+    return table;
   }
 
   /**
    * Gets current sync statistics.
    */
   async getSyncStats(): Promise<SyncStats> {
+    this.lastSyncAt ??= await db.getLastSyncAt();
     const entities = await db.getEntitiesNeedingSync();
     const pendingCount =
-      entities.decks.length + entities.cards.length + entities.sessions.length;
-
-    // Count conflicts (entities with 'conflict' status)
+      entities.noteTypes.length +
+      entities.decks.length +
+      entities.notes.length +
+      entities.cards.length +
+      entities.sessions.length +
+      entities.media.length;
+
+    // Count conflicts waiting to be resolved
     const conflictCount = await this.countConflicts();
 
     // Count errors (entities with 'error' status)
@@ -520,18 +971,10 @@ export class SyncService {
   }
 
   /**
-   * Counts entities with conflict status.
+   * Counts conflicts waiting to be resolved.
    */
   private async countConflicts(): Promise<number> {
-    const decksWithConflicts = await db.decks
-      .where("syncStatus")
-      .equals("conflict")
-      .count();
-    const cardsWithConflicts = await db.cards
-      .where("syncStatus")
-      .equals("conflict")
-      .count();
-    return decksWithConflicts + cardsWithConflicts;
+    return await db.syncConflicts.count();
   }
 
   /**
@@ -579,5 +1022,46 @@ export class SyncService {
   }
 }
 
+/**
+ * Media metadata sent to the server; the contents are uploaded separately.
+ */
+function toSyncableMedia(record: MediaRecord): SyncableMedia {
+  return {
+    id: record.id,
+    hash: record.hash,
+    fileName: record.fileName,
+    mimeType: record.mimeType,
+    size: record.size,
+    serverId: record.serverId,
+    lastSyncedAt: record.lastSyncedAt,
+    lastModifiedAt: record.lastModifiedAt,
+    syncStatus: record.syncStatus,
+    version: record.version,
+    isDeleted: record.isDeleted,
+    userId: record.userId,
+  };
+}
+
+/**
+ * Converts the date strings of a record sent by the server back to dates.
+ */
+function reviveServerRecord<T extends SyncMetadata>(
+  record: T,
+  entityType: SyncEntityType,
+): T {
+  const revived = { ...record } as Record<string, unknown>;
+  for (const field of ["lastModifiedAt", ...(DATE_FIELDS[entityType] ?? [])]) {
+    if (revived[field]) revived[field] = new Date(revived[field] as string);
+  }
+
+  const clocks = revived.fieldModifiedAt as Record<string, string> | undefined;
+  if (clocks) {
+    revived.fieldModifiedAt = Object.fromEntries(
+      Object.entries(clocks).map(([field, time]) => [field, new Date(time)]),
+    );
+  }
+  return revived as T;
+}
+
 // Singleton instance
 export const syncService = new SyncService();
@@ -1,9 +1,44 @@
 // src/storage/database.ts
 import Dexie, { Table } from "dexie";
-import { Card, Deck, ReviewResult, SRSEngine } from "../lib/srs-engine";
-import { CardId, DeckId, ReviewId } from "../types/ids";
+import {
+  Card,
+  DailyLimits,
+  Deck,
+  ReplayBase,
+  ReviewResult,
+  SRSEngine,
+} from "../lib/srs-engine";
+import {
+  CardId,
+  CardModelId,
+  DeckId,
+  MediaId,
+  NoteId,
+  ReviewId,
+} from "../types/ids";
 import { IdService } from "../services/id-service";
 import {
+  DeckConfig,
+  DEFAULT_DECK_CONFIG,
+  LEECH_TAG,
+  Note,
+  NoteType,
+  QUEUE_TYPES,
+} from "../core";
+import {
+  applyRenderedCard,
+  BUILTIN_NOTE_TYPE_NAMES,
+  type BuiltinNoteTypeKind,
+  createBuiltinNoteType,
+  renderNoteCards,
+} from "../lib/note-templates";
+import { Scheduler, schedulerRegistry } from "../core/scheduler";
+import {
+  PublishedCard,
+  SubscriptionChangeset,
+  SyncableMedia,
+  SyncConflict,
+  SyncMetadata,
   SyncQueueItem,
   SyncStatus,
   SyncOperation,
@@ -11,7 +46,7 @@ import {
 } from "../types/sync";
 
 export type ImportSource = "anki" | "commonry" | "other";
-export type EntityType = "card" | "deck" | "note" | "media";
+export type EntityType = "card" | "deck" | "note" | "cardModel" | "media";
 
 export interface ImportMapping {
   id?: number;
@@ -42,6 +77,7 @@ export interface StudySession {
   rating: number;
   duration: number;
   timestamp: Date;
+  cardStatus?: Card["status"]; // card status when it was shown, for daily limits
   // Sync metadata
   serverId?: string;
   lastSyncedAt?: Date;
@@ -49,8 +85,33 @@ export interface StudySession {
   userId?: string;
 }
 
+// Note stored locally; its cards are generated from the note type's templates
+export interface NoteRecord extends Note, SyncMetadata {
+  id: NoteId;
+  deckId: DeckId;
+  modelId: CardModelId;
+  importSource?: ImportSource;
+  externalId?: string;
+  guid?: string; // Anki's note GUID, so exports update the original note
+}
+
+export interface NoteTypeRecord extends NoteType, SyncMetadata {
+  id: CardModelId;
+  importSource?: ImportSource;
+  externalId?: string;
+}
+
+// Media file contents, addressed by hash; file names are unique among live files
+export interface MediaRecord extends SyncableMedia {
+  id: MediaId;
+  blob: Blob;
+  createdAt: Date;
+}
+
 // Extended Card type with sync metadata
 export interface SyncableCard extends Card {
+  replayBase?: ReplayBase;
+  fieldModifiedAt?: Record<string, Date>;
   serverId?: string;
   lastSyncedAt?: Date;
   lastModifiedAt: Date;
@@ -62,6 +123,7 @@ export interface SyncableCard extends Card {
 
 // Extended Deck type with sync metadata
 export interface SyncableDeck extends Deck {
+  fieldModifiedAt?: Record<string, Date>;
   serverId?: string;
   lastSyncedAt?: Date;
   lastModifiedAt: Date;
@@ -71,6 +133,33 @@ export interface SyncableDeck extends Deck {
   userId?: string;
 }
 
+// Sync conflict kept until the user chooses between the two versions
+export interface SyncConflictRecord extends SyncConflict {
+  id: string; // `${entityType}:${entityId}`, so an entity has one open conflict
+  detectedAt: Date;
+}
+
+// Small per-device state kept alongside the collection, keyed by name
+export interface MetaEntry {
+  key: string;
+  value: unknown;
+}
+
+// Meta key for the server time of the last completed pull
+const LAST_SYNC_AT_KEY = "lastSyncAt";
+
+// Public deck the user subscribes to, copied into a local deck
+export interface DeckSubscription {
+  id: string; // the public deck's server ID
+  deckId: DeckId;
+  name: string;
+  subscribedAt: Date;
+  lastCheckedAt?: Date;
+  // The author's cards as of the last reviewed changeset, by the author's card ID
+  published: Record<string, PublishedCard>;
+  pendingChanges?: SubscriptionChangeset;
+}
+
 /**
  * SRSDatabase manages storage of spaced repetition cards, decks, and study sessions using IndexedDB via Dexie.
  */
@@ -81,6 +170,12 @@ export class SRSDatabase extends Dexie {
   importMappings!: Table<ImportMapping>;
   importBatches!: Table<ImportBatch>;
   syncQueue!: Table<SyncQueueItem>;
+  notes!: Table<NoteRecord>;
+  noteTypes!: Table<NoteTypeRecord>;
+  media!: Table<MediaRecord>;
+  syncConflicts!: Table<SyncConflictRecord>;
+  subscriptions!: Table<DeckSubscription>;
+  meta!: Table<MetaEntry>;
 
   public srsEngine: SRSEngine;
 
@@ -155,20 +250,111 @@ export class SRSDatabase extends Dexie {
           });
       });
 
+    // Version 5: Add notes and note types; cards link back to their note
+    this.version(5).stores({
+      cards:
+        "id, deckId, noteId, due, status, interval, easeFactor, importSource, externalId, syncStatus, serverId, lastModifiedAt, isDeleted, userId",
+      notes: "id, deckId, modelId, importSource, externalId, isDeleted",
+      noteTypes: "id, name, importSource, externalId",
+    });
+
+    // Version 6: Move media into this database so it can sync
+    this.version(6).stores({
+      media: "id, fileName, hash, syncStatus, serverId, isDeleted",
+    });
+
+    // Version 7: Add sync metadata to notes and note types
+    this.version(7)
+      .stores({
+        notes:
+          "id, deckId, modelId, importSource, externalId, isDeleted, syncStatus",
+        noteTypes: "id, name, importSource, externalId, isDeleted, syncStatus",
+      })
+      .upgrade(async (tx) => {
+        for (const table of ["notes", "noteTypes"]) {
+          await tx
+            .table(table)
+            .toCollection()
+            .modify((record: SyncMetadata) => {
+              record.syncStatus = "pending";
+              record.version = 1;
+              record.lastModifiedAt = new Date();
+            });
+        }
+      });
+
+    // Version 8: Keep sync conflicts until the user resolves them
+    this.version(8).stores({
+      syncConflicts: "id, entityType, entityId, detectedAt",
+    });
+
+    // Version 9: Local copies of subscribed public decks
+    this.version(9).stores({
+      subscriptions: "id, deckId",
+    });
+
+    // Version 10: Per-device state such as the last sync time
+    this.version(10).stores({
+      meta: "key",
+    });
+
+    stampFieldClocks(this.cards);
+    stampFieldClocks(this.decks);
+
     this.srsEngine = new SRSEngine();
   }
 
   /**
-   * Retrieves cards due for review from a given deck.
+   * Retrieves cards due for review from a given deck, honoring the deck's
+   * daily new card and review limits.
    * @param deckId - The ID of the deck to get cards for.
-   * @param limit - Maximum number of cards to retrieve.
+   * @param limit - Maximum number of cards to retrieve; defaults to the daily limits alone.
    * @returns A promise that resolves to an array of cards for review.
    */
-  async getCardsForReview(deckId: DeckId, limit = 20): Promise<Card[]> {
+  async getCardsForReview(deckId: DeckId, limit?: number): Promise<Card[]> {
     const allCards = await this.cards.where("deckId").equals(deckId).toArray();
     // Filter out soft-deleted cards
     const activeCards = this.filterDeleted(allCards);
-    return SRSEngine.getCardsForReview(activeCards, limit);
+    const dailyLimits = await this.getRemainingDailyLimits(deckId, activeCards);
+    return SRSEngine.getCardsForReview(
+      activeCards,
+      limit ?? Infinity,
+      dailyLimits,
+    );
+  }
+
+  /**
+   * Works out how many new cards and reviews a deck still allows today.
+   * @param deckId - The ID of the deck.
+   * @param deckCards - The deck's active cards.
+   * @returns A promise that resolves to the remaining daily allowance.
+   */
+  async getRemainingDailyLimits(
+    deckId: DeckId,
+    deckCards: Card[],
+  ): Promise<DailyLimits> {
+    const config = await this.getDeckConfig(deckId);
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+
+    const cardIds = new Set(deckCards.map((card) => card.id));
+    const todaysSessions = await this.sessions
+      .where("timestamp")
+      .aboveOrEqual(startOfDay)
+      .toArray();
+
+    const newCardsSeen = new Set<CardId>();
+    let reviewsDone = 0;
+    for (const session of todaysSessions) {
+      if (!cardIds.has(session.cardId)) continue;
+      if (session.cardStatus === "new") newCardsSeen.add(session.cardId);
+      else if (session.cardStatus === "review") reviewsDone += 1;
+    }
+
+    return {
+      newCards: Math.max(0, config.newCardsPerDay - newCardsSeen.size),
+      reviews: Math.max(0, config.reviewsPerDay - reviewsDone),
+    };
   }
 
   /**
@@ -189,14 +375,26 @@ export class SRSDatabase extends Dexie {
     await this.transaction(
       "rw",
       this.cards,
+      this.decks,
       this.sessions,
       this.syncQueue,
       async () => {
         const card = await this.cards.get(cardId);
         if (!card) throw new Error("Card not found");
 
-        // Update card with SRS engine
-        result = this.srsEngine.calculateNextReview(card, rating);
+        // Update card with the deck's configured scheduler
+        const config = await this.getDeckConfig(card.deckId);
+        const scheduler = schedulerRegistry.resolve(config);
+        result = this.srsEngine.calculateNextReview(card, rating, scheduler);
+
+        const leech = SRSEngine.applyLeechAction(
+          result.card,
+          card.lapses,
+          config,
+        );
+        if (leech) {
+          result = { ...result, card: leech, isLeech: true };
+        }
 
         // Update card with sync metadata
         await this.cards.update(cardId, {
@@ -212,6 +410,7 @@ export class SRSDatabase extends Dexie {
           rating,
           duration,
           timestamp: now,
+          cardStatus: card.status,
           syncStatus: "pending",
         };
 
@@ -237,6 +436,46 @@ export class SRSDatabase extends Dexie {
     return result;
   }
 
+  /**
+   * Recomputes a card's scheduling from its review log, after reviews made
+   * on another device were added to it.
+   * @param cardId - The ID of the card.
+   * @returns A promise that resolves to true if the card's scheduling changed.
+   */
+  async replayReviewLog(cardId: CardId): Promise<boolean> {
+    const card = await this.cards.get(cardId);
+    if (!card || card.isDeleted) return false;
+
+    const reviews = await this.sessions
+      .where("cardId")
+      .equals(cardId)
+      .toArray();
+    const scheduler = await this.getSchedulerForDeck(card.deckId);
+    const scheduling = this.srsEngine.replayReviews(
+      card,
+      reviews,
+      scheduler,
+      card.replayBase,
+    );
+
+    const current = SRSEngine.pickScheduling(card);
+    const unchanged = (
+      Object.keys(scheduling) as Array<keyof typeof scheduling>
+    ).every((field) => isSameValue(scheduling[field], current[field]));
+    if (unchanged) return false;
+
+    // A card with an open conflict keeps it; resolving pushes the replay
+    await this.cards.update(cardId, {
+      ...scheduling,
+      lastModifiedAt: new Date(),
+      syncStatus:
+        card.syncStatus === "conflict" ? "conflict" : ("pending" as SyncStatus),
+      version: (card.version || 1) + 1,
+    });
+    await this.queueSyncOperation("update", "card", cardId, scheduling);
+    return true;
+  }
+
   /**
    * Creates a new card in the database.
    * @param front - The front content of the card.
@@ -315,25 +554,33 @@ export class SRSDatabase extends Dexie {
   /**
    * Updates the statistics for a deck, including counts of total, new, and due cards.
    * @param deckId - The ID of the deck to update.
+   * @param markPending - Whether the new counts need syncing; false when
+   *   they were derived from cards just pulled from the server.
    * @returns A promise that resolves when the update is complete.
    */
-  async updateDeckStats(deckId: DeckId): Promise<void> {
+  async updateDeckStats(deckId: DeckId, markPending = true): Promise<void> {
     const now = new Date();
     const allCards = await this.cards.where("deckId").equals(deckId).toArray();
     // Only count active (non-deleted) cards
     const cards = this.filterDeleted(allCards);
+    const unsuspended = cards.filter((c) => c.queue !== QUEUE_TYPES.SUSPENDED);
 
     const cardCount = cards.length;
-    const newCount = cards.filter((c) => c.status === "new").length;
-    const dueCount = cards.filter((c) => c.due <= now).length;
-
-    await this.decks.update(deckId, {
-      cardCount,
-      newCount,
-      dueCount,
-      lastModifiedAt: now,
-      syncStatus: "pending",
-    });
+    const newCount = unsuspended.filter((c) => c.status === "new").length;
+    const dueCount = unsuspended.filter((c) => c.due <= now).length;
+
+    await this.decks.update(
+      deckId,
+      markPending
+        ? {
+            cardCount,
+            newCount,
+            dueCount,
+            lastModifiedAt: now,
+            syncStatus: "pending",
+          }
+        : { cardCount, newCount, dueCount },
+    );
   }
 
   /**
@@ -355,6 +602,303 @@ export class SRSDatabase extends Dexie {
     return await this.decks.get(deckId);
   }
 
+  /**
+   * Resolves a deck's scheduling configuration, filling unset fields with defaults.
+   * @param deckId - The ID of the deck.
+   * @returns A promise that resolves to the deck's full configuration.
+   */
+  async getDeckConfig(deckId: DeckId): Promise<DeckConfig> {
+    const deck = await this.decks.get(deckId);
+    return { ...DEFAULT_DECK_CONFIG, ...deck?.config };
+  }
+
+  /**
+   * Saves scheduling options for a deck and queues the change for sync.
+   * @param deckId - The ID of the deck.
+   * @param config - The options to change; omitted fields keep their current value.
+   * @returns A promise that resolves when the update is complete.
+   */
+  async updateDeckConfig(
+    deckId: DeckId,
+    config: Partial<DeckConfig>,
+  ): Promise<void> {
+    const deck = await this.decks.get(deckId);
+    if (!deck) throw new Error("Deck not found");
+
+    const updates = {
+      config: { ...deck.config, ...config },
+      lastModifiedAt: new Date(),
+      syncStatus: "pending" as SyncStatus,
+      version: (deck.version || 1) + 1,
+    };
+
+    await this.decks.update(deckId, updates);
+    await this.queueSyncOperation("update", "deck", deckId, updates);
+  }
+
+  /**
+   * Resolves the scheduler configured for a deck through the scheduler registry.
+   * @param deckId - The ID of the deck.
+   * @returns A promise that resolves to the deck's scheduler.
+   */
+  async getSchedulerForDeck(deckId: DeckId): Promise<Scheduler> {
+    return schedulerRegistry.resolve(await this.getDeckConfig(deckId));
+  }
+
+  /**
+   * Returns a built-in note type, creating it on first use.
+   * @param kind - Which built-in type: Basic, Basic (and reversed card) or Cloze.
+   * @returns A promise that resolves to the note type.
+   */
+  async getOrCreateBuiltinNoteType(
+    kind: BuiltinNoteTypeKind,
+  ): Promise<NoteTypeRecord> {
+    const existing = await this.noteTypes
+      .where("name")
+      .equals(BUILTIN_NOTE_TYPE_NAMES[kind])
+      .filter((noteType) => !noteType.isDeleted)
+      .first();
+    if (existing) return existing;
+
+    const builtin = createBuiltinNoteType(kind);
+    const noteType: NoteTypeRecord = {
+      ...builtin,
+      id: builtin.id as CardModelId,
+      lastModifiedAt: new Date(),
+      syncStatus: "pending",
+      version: 1,
+    };
+    await this.noteTypes.add(noteType);
+    return noteType;
+  }
+
+  /**
+   * Retrieves all note types.
+   * @returns A promise that resolves to an array of note types.
+   */
+  async getAllNoteTypes(): Promise<NoteTypeRecord[]> {
+    return this.filterDeleted(await this.noteTypes.toArray());
+  }
+
+  /**
+   * Retrieves a note by its ID.
+   * @param noteId - The ID of the note to retrieve.
+   * @returns A promise that resolves to the note or undefined if not found.
+   */
+  async getNote(noteId: NoteId): Promise<NoteRecord | undefined> {
+    return await this.notes.get(noteId);
+  }
+
+  /**
+   * Retrieves the active cards generated from a note.
+   * @param noteId - The ID of the note.
+   * @returns A promise that resolves to the note's cards.
+   */
+  async getNoteCards(noteId: NoteId): Promise<SyncableCard[]> {
+    const cards = await this.cards.where("noteId").equals(noteId).toArray();
+    return this.filterDeleted(cards);
+  }
+
+  /**
+   * Creates a note and generates one card per non-empty template.
+   * @param deckId - The deck the note's cards belong to.
+   * @param noteTypeId - The note type whose templates generate the cards.
+   * @param fields - Field values keyed by field name.
+   * @param tags - Optional tags for the note.
+   * @returns A promise that resolves to the new note's ID.
+   */
+  async createNote(
+    deckId: DeckId,
+    noteTypeId: CardModelId,
+    fields: Record<string, string>,
+    tags: string[] = [],
+  ): Promise<NoteId> {
+    const noteType = await this.noteTypes.get(noteTypeId);
+    if (!noteType) throw new Error("Note type not found");
+
+    const now = new Date();
+    const note: NoteRecord = {
+      id: IdService.generateNoteId(),
+      deckId,
+      modelId: noteTypeId,
+      fields,
+      tags,
+      createdAt: now,
+      modifiedAt: now,
+      lastModifiedAt: now,
+      syncStatus: "pending",
+      version: 1,
+    };
+
+    await this.transaction(
+      "rw",
+      this.notes,
+      this.cards,
+      this.syncQueue,
+      async () => {
+        await this.notes.add(note);
+        await this.queueSyncOperation("create", "note", note.id, note);
+        await this.regenerateNoteCards(note, noteType);
+      },
+    );
+
+    return note.id;
+  }
+
+  /**
+   * Updates a note's fields and regenerates its sibling cards. Existing cards
+   * keep their scheduling, cards whose template now renders empty are removed,
+   * and templates that only now render content gain a new card.
+   * @param noteId - The ID of the note to update.
+   * @param fields - The new field values keyed by field name.
+   * @param tags - New tags; omit to keep the current ones.
+   * @returns A promise that resolves when the note and its cards are updated.
+   */
+  async updateNote(
+    noteId: NoteId,
+    fields: Record<string, string>,
+    tags?: string[],
+  ): Promise<void> {
+    await this.transaction(
+      "rw",
+      [this.notes, this.noteTypes, this.cards, this.syncQueue],
+      async () => {
+        const note = await this.notes.get(noteId);
+        if (!note) throw new Error("Note not found");
+        const noteType = await this.noteTypes.get(note.modelId);
+        if (!noteType) throw new Error("Note type not found");
+
+        const now = new Date();
+        const updatedNote: NoteRecord = {
+          ...note,
+          fields,
+          tags: tags ?? note.tags,
+          modifiedAt: now,
+          lastModifiedAt: now,
+          syncStatus: "pending",
+          version: (note.version || 1) + 1,
+        };
+
+        await this.notes.put(updatedNote);
+        await this.queueSyncOperation("update", "note", noteId, updatedNote);
+        await this.regenerateNoteCards(updatedNote, noteType, note.fields);
+      },
+    );
+  }
+
+  /**
+   * Soft deletes a note and all cards generated from it.
+   * @param noteId - The ID of the note to delete.
+   * @returns A promise that resolves when the deletion is complete.
+   */
+  async deleteNote(noteId: NoteId): Promise<void> {
+    await this.transaction(
+      "rw",
+      this.notes,
+      this.cards,
+      this.syncQueue,
+      async () => {
+        const note = await this.notes.get(noteId);
+        if (!note) throw new Error("Note not found");
+
+        const cards = await this.getNoteCards(noteId);
+        for (const card of cards) {
+          await this.softDeleteCard(card);
+        }
+        await this.notes.update(noteId, {
+          isDeleted: true,
+          lastModifiedAt: new Date(),
+          syncStatus: "pending",
+          version: (note.version || 1) + 1,
+        });
+        await this.queueSyncOperation("delete", "note", noteId, {
+          isDeleted: true,
+        });
+      },
+    );
+  }
+
+  /**
+   * Brings a note's cards in line with its current fields.
+   * @param note - The note, with its new field values.
+   * @param noteType - The note's type.
+   * @param previousFields - Field values before an edit; templates that already
+   *   rendered content then but have no card were left out on purpose and stay out.
+   */
+  private async regenerateNoteCards(
+    note: NoteRecord,
+    noteType: NoteType,
+    previousFields?: Record<string, string>,
+  ): Promise<void> {
+    const now = new Date();
+    const rendered = renderNoteCards(noteType, note.fields);
+    const previouslyRendered = new Set(
+      previousFields
+        ? renderNoteCards(noteType, previousFields).map(siblingKey)
+        : [],
+    );
+    const siblings = await this.getNoteCards(note.id);
+
+    for (const output of rendered) {
+      const key = siblingKey(output);
+      const existing = siblings.find(
+        (c) => c.templateId && siblingKey(c) === key,
+      );
+
+      if (existing) {
+        const updatedCard: SyncableCard = {
+          ...applyRenderedCard(existing, output),
+          lastModifiedAt: now,
+          syncStatus: "pending",
+          version: (existing.version || 1) + 1,
+        };
+        await this.cards.put(updatedCard);
+        await this.queueSyncOperation(
+          "update",
+          "card",
+          updatedCard.id,
+          updatedCard,
+        );
+      } else if (!previouslyRendered.has(key)) {
+        const baseCard = this.srsEngine.createCard("", "", note.deckId);
+        const newCard: SyncableCard = {
+          ...applyRenderedCard(baseCard, output),
+          noteId: note.id,
+          tags: note.tags,
+          syncStatus: "pending",
+          version: 1,
+          lastModifiedAt: now,
+          isDeleted: false,
+        };
+        await this.cards.add(newCard);
+        await this.queueSyncOperation("create", "card", newCard.id, newCard);
+      }
+    }
+
+    const renderedKeys = new Set(rendered.map(siblingKey));
+    for (const card of siblings) {
+      if (!card.templateId || !renderedKeys.has(siblingKey(card))) {
+        await this.softDeleteCard(card);
+      }
+    }
+  }
+
+  /**
+   * Marks a card as deleted and queues the deletion for sync.
+   * @param card - The card to delete.
+   */
+  private async softDeleteCard(card: SyncableCard): Promise<void> {
+    await this.cards.update(card.id, {
+      isDeleted: true,
+      lastModifiedAt: new Date(),
+      syncStatus: "pending",
+      version: (card.version || 1) + 1,
+    });
+    await this.queueSyncOperation("delete", "card", card.id, {
+      isDeleted: true,
+    });
+  }
+
   /**
    * Retrieves a card by its ID.
    * @param cardId - The ID of the card to retrieve.
@@ -411,6 +955,86 @@ export class SRSDatabase extends Dexie {
     });
   }
 
+  /**
+   * Suspends cards, leaving them out of study until they are unsuspended.
+   * @param cardIds - The IDs of the cards to suspend.
+   * @returns A promise that resolves when the cards are suspended.
+   */
+  async suspendCards(cardIds: CardId[]): Promise<void> {
+    for (const cardId of cardIds) {
+      await this.updateCard(cardId, { queue: QUEUE_TYPES.SUSPENDED });
+    }
+  }
+
+  /**
+   * Resets cards to new and removes their leech tag. Their reviews are kept,
+   * but replays start from the reset instead of rebuilding the old schedule.
+   * @param cardIds - The IDs of the cards to reset.
+   * @returns A promise that resolves when the cards are reset.
+   */
+  async resetCards(cardIds: CardId[]): Promise<void> {
+    const now = new Date();
+    for (const cardId of cardIds) {
+      const card = await this.cards.get(cardId);
+      if (!card) continue;
+
+      const scheduling = this.srsEngine.getNewScheduling(now);
+      await this.updateCard(cardId, {
+        ...scheduling,
+        queue: QUEUE_TYPES.NEW,
+        tags: (card.tags ?? []).filter((tag) => tag !== LEECH_TAG),
+        replayBase: SRSEngine.createReplayBase(scheduling, now),
+      });
+    }
+  }
+
+  /**
+   * Splits a card into new cards, one per part of its answer, each asking
+   * the card's question with the part's number. The original card is
+   * suspended so its review history is kept.
+   * @param cardId - The ID of the card to split.
+   * @param parts - The answers of the new cards; at least two.
+   * @returns A promise that resolves to the new cards' IDs.
+   */
+  async splitCard(cardId: CardId, parts: string[]): Promise<CardId[]> {
+    const card = await this.cards.get(cardId);
+    if (!card) throw new Error("Card not found");
+    if (parts.length < 2) throw new Error("A card splits into two or more");
+
+    const now = new Date();
+    const cardIds: CardId[] = [];
+
+    await this.transaction("rw", this.cards, this.syncQueue, async () => {
+      for (const [index, part] of parts.entries()) {
+        const label = ` (${index + 1}/${parts.length})`;
+        const newCard: SyncableCard = {
+          ...this.srsEngine.createCard(
+            `${card.front}${label}`,
+            part,
+            card.deckId,
+          ),
+          frontHtml: card.frontHtml && `${card.frontHtml}${label}`,
+          frontAudio: card.frontAudio,
+          frontImage: card.frontImage,
+          tags: (card.tags ?? []).filter((tag) => tag !== LEECH_TAG),
+          syncStatus: "pending",
+          version: 1,
+          lastModifiedAt: now,
+          isDeleted: false,
+        };
+
+        await this.cards.add(newCard);
+        await this.queueSyncOperation("create", "card", newCard.id, newCard);
+        cardIds.push(newCard.id);
+      }
+
+      await this.updateCard(cardId, { queue: QUEUE_TYPES.SUSPENDED });
+    });
+
+    await this.updateDeckStats(card.deckId);
+    return cardIds;
+  }
+
   /**
    * Soft deletes a deck and all its cards.
    * @param deckId - The ID of the deck to delete.
@@ -424,10 +1048,19 @@ export class SRSDatabase extends Dexie {
 
     await this.transaction(
       "rw",
-      this.cards,
-      this.decks,
-      this.syncQueue,
+      [this.cards, this.decks, this.notes, this.syncQueue],
       async () => {
+        // Soft delete the deck's notes; their cards are handled below
+        await this.notes
+          .where("deckId")
+          .equals(deckId)
+          .modify((note) => {
+            note.isDeleted = true;
+            note.lastModifiedAt = now;
+            note.syncStatus = "pending";
+            note.version = (note.version || 1) + 1;
+          });
+
         // Soft delete all cards in the deck
         const cards = await this.cards.where("deckId").equals(deckId).toArray();
         for (const card of cards) {
@@ -442,6 +1075,21 @@ export class SRSDatabase extends Dexie {
           });
         }
 
+        // Move subdecks up a level so they are not left pointing at a deleted deck
+        const children = await this.decks
+          .filter((child) => child.parentId === deckId && !child.isDeleted)
+          .toArray();
+        for (const child of children) {
+          const updates = {
+            parentId: deck.parentId,
+            lastModifiedAt: now,
+            syncStatus: "pending" as SyncStatus,
+            version: (child.version || 1) + 1,
+          };
+          await this.decks.update(child.id, updates);
+          await this.queueSyncOperation("update", "deck", child.id, updates);
+        }
+
         // Soft delete the deck
         await this.decks.update(deckId, {
           isDeleted: true,
@@ -457,6 +1105,148 @@ export class SRSDatabase extends Dexie {
     );
   }
 
+  /**
+   * Removes entities created by an import. Queued sync operations for them
+   * are dropped; entities that never reached the server are deleted outright,
+   * and synced ones are soft deleted so the server removes them too. Notes'
+   * cards go with them, note types are kept while other notes use them, and
+   * decks that still hold other cards are kept.
+   * @param entities - The IDs the import created.
+   * @returns A promise that resolves to the number of cards removed and the IDs of decks kept.
+   */
+  async removeImportedEntities(entities: {
+    cardIds: CardId[];
+    noteIds: NoteId[];
+    noteTypeIds: CardModelId[];
+    deckIds: DeckId[];
+  }): Promise<{ cardsRemoved: number; decksKept: DeckId[] }> {
+    const now = new Date();
+    let cardsRemoved = 0;
+    const decksKept: DeckId[] = [];
+
+    await this.transaction(
+      "rw",
+      [
+        this.cards,
+        this.notes,
+        this.noteTypes,
+        this.decks,
+        this.sessions,
+        this.syncQueue,
+      ],
+      async () => {
+        const noteCards = await this.cards
+          .where("noteId")
+          .anyOf(entities.noteIds)
+          .toArray();
+        const cardIds = new Set<CardId>([
+          ...entities.cardIds,
+          ...noteCards.map((card) => card.id),
+        ]);
+
+        await this.syncQueue
+          .where("entityId")
+          .anyOf([...cardIds, ...entities.deckIds])
+          .delete();
+
+        for (const card of await this.cards.bulkGet(Array.from(cardIds))) {
+          if (!card) continue;
+          if (card.serverId) {
+            if (!card.isDeleted) await this.softDeleteCard(card);
+          } else {
+            await this.cards.delete(card.id);
+          }
+          cardsRemoved++;
+        }
+
+        // Reviews the server already has are left to it
+        await this.sessions
+          .where("cardId")
+          .anyOf(Array.from(cardIds))
+          .filter((session) => !session.serverId)
+          .delete();
+
+        await this.syncQueue
+          .where("entityId")
+          .anyOf([...entities.noteIds, ...entities.noteTypeIds])
+          .delete();
+
+        for (const note of await this.notes.bulkGet(entities.noteIds)) {
+          if (!note) continue;
+          if (!note.serverId) {
+            await this.notes.delete(note.id);
+          } else if (!note.isDeleted) {
+            await this.notes.update(note.id, {
+              isDeleted: true,
+              lastModifiedAt: now,
+              syncStatus: "pending",
+              version: (note.version || 1) + 1,
+            });
+          }
+        }
+
+        for (const noteTypeId of entities.noteTypeIds) {
+          const noteType = await this.noteTypes.get(noteTypeId);
+          if (!noteType || noteType.isDeleted) continue;
+
+          const inUse = await this.notes
+            .where("modelId")
+            .equals(noteTypeId)
+            .filter((note) => !note.isDeleted)
+            .count();
+          if (inUse > 0) continue;
+
+          if (noteType.serverId) {
+            await this.noteTypes.update(noteTypeId, {
+              isDeleted: true,
+              lastModifiedAt: now,
+              syncStatus: "pending",
+              version: (noteType.version || 1) + 1,
+            });
+          } else {
+            await this.noteTypes.delete(noteTypeId);
+          }
+        }
+
+        // Children are removed before their parents
+        for (const deckId of [...entities.deckIds].reverse()) {
+          const deck = await this.decks.get(deckId);
+          if (!deck) continue;
+
+          const remainingCards = await this.cards
+            .where("deckId")
+            .equals(deckId)
+            .filter((card) => !card.isDeleted)
+            .count();
+          const remainingChildren = await this.decks
+            .filter((child) => child.parentId === deckId && !child.isDeleted)
+            .count();
+          if (remainingCards > 0 || remainingChildren > 0) {
+            decksKept.push(deckId);
+            continue;
+          }
+
+          if (deck.serverId) {
+            const updates = {
+              isDeleted: true,
+              lastModifiedAt: now,
+              syncStatus: "pending" as SyncStatus,
+              version: (deck.version || 1) + 1,
+            };
+            await this.decks.update(deckId, updates);
+            await this.queueSyncOperation("delete", "deck", deckId, {
+              isDeleted: true,
+            });
+          } else {
+            await this.decks.delete(deckId);
+          }
+        }
+      },
+    );
+
+    return { cardsRemoved, decksKept };
+  }
+
   /**
    * Gets the next scheduled review time for a card.
    * @param cardId - The ID of the card.
@@ -482,6 +1272,32 @@ export class SRSDatabase extends Dexie {
       .toArray();
   }
 
+  /**
+   * Retrieves recorded reviews grouped by card, oldest first.
+   * Used to fit scheduler parameters to the user's own history.
+   * @param deckIds - Only include reviews of these decks' cards; all decks if omitted.
+   * @returns A promise that resolves to one array of study sessions per card.
+   */
+  async getReviewLogsByCard(deckIds?: DeckId[]): Promise<StudySession[][]> {
+    const cardIds =
+      deckIds &&
+      new Set(await this.cards.where("deckId").anyOf(deckIds).primaryKeys());
+    const sessions = await this.sessions.orderBy("timestamp").toArray();
+    const byCard = new Map<CardId, StudySession[]>();
+
+    for (const session of sessions) {
+      if (cardIds && !cardIds.has(session.cardId)) continue;
+      const history = byCard.get(session.cardId);
+      if (history) {
+        history.push(session);
+      } else {
+        byCard.set(session.cardId, [session]);
+      }
+    }
+
+    return Array.from(byCard.values());
+  }
+
   /**
    * Adds a set of sample cards to a default or existing deck and updates deck stats.
    * @returns A promise that resolves when sample cards are added.
@@ -568,6 +1384,28 @@ export class SRSDatabase extends Dexie {
     await this.syncQueue.delete(itemId);
   }
 
+  /**
+   * Gets the server time of the last completed pull, so pulls resume from it
+   * after a reload.
+   * @returns A promise that resolves to the time, or undefined if this device never synced.
+   */
+  async getLastSyncAt(): Promise<Date | undefined> {
+    const entry = await this.meta.get(LAST_SYNC_AT_KEY);
+    return entry ? new Date(entry.value as string) : undefined;
+  }
+
+  /**
+   * Records the server time of the last completed pull.
+   * @param timestamp - The server time the pull covered changes up to.
+   * @returns A promise that resolves when the time is saved.
+   */
+  async setLastSyncAt(timestamp: Date): Promise<void> {
+    await this.meta.put({
+      key: LAST_SYNC_AT_KEY,
+      value: timestamp.toISOString(),
+    });
+  }
+
   /**
    * Clears all items from the sync queue.
    * @returns A promise that resolves when the queue is cleared.
@@ -578,13 +1416,21 @@ export class SRSDatabase extends Dexie {
 
   /**
    * Gets entities that need to be synced (status is 'pending').
-   * @returns A promise that resolves to an object with pending decks, cards, and sessions.
+   * @returns A promise that resolves to an object with pending entities of each type.
    */
   async getEntitiesNeedingSync(): Promise<{
+    noteTypes: NoteTypeRecord[];
     decks: SyncableDeck[];
+    notes: NoteRecord[];
     cards: SyncableCard[];
     sessions: StudySession[];
+    media: MediaRecord[];
   }> {
+    const noteTypes = await this.noteTypes
+      .where("syncStatus")
+      .equals("pending")
+      .toArray();
+
     const decks = await this.decks
       .where("syncStatus")
       .equals("pending")
@@ -600,7 +1446,17 @@ export class SRSDatabase extends Dexie {
       .equals("pending")
       .toArray();
 
-    return { decks, cards, sessions };
+    const media = await this.media
+      .where("syncStatus")
+      .equals("pending")
+      .toArray();
+
+    const notes = await this.notes
+      .where("syncStatus")
+      .equals("pending")
+      .toArray();
+
+    return { noteTypes, decks, notes, cards, sessions, media };
   }
 
   /**
@@ -632,6 +1488,15 @@ export class SRSDatabase extends Dexie {
       case "session":
         await this.sessions.update(entityId, updates);
         break;
+      case "media":
+        await this.media.update(entityId, updates);
+        break;
+      case "note":
+        await this.notes.update(entityId, updates);
+        break;
+      case "noteType":
+        await this.noteTypes.update(entityId, updates);
+        break;
     }
   }
 
@@ -645,4 +1510,64 @@ export class SRSDatabase extends Dexie {
   }
 }
 
+// Sync bookkeeping and counts derived from other records have no clocks
+const UNCLOCKED_FIELDS = new Set([
+  "serverId",
+  "lastSyncedAt",
+  "lastModifiedAt",
+  "syncStatus",
+  "version",
+  "isDeleted",
+  "userId",
+  "fieldModifiedAt",
+  "cardCount",
+  "dueCount",
+  "newCount",
+]);
+
+/**
+ * Records when each field of a table's records was last changed locally.
+ * Local edits leave a record pending sync; other writes, such as records
+ * pulled from the server or resolved conflicts, keep the clocks they carry.
+ */
+function stampFieldClocks<
+  T extends SyncMetadata & { fieldModifiedAt?: Record<string, Date> },
+>(table: Table<T>): void {
+  table.hook("updating", (modifications, _primKey, record) => {
+    const mods = modifications as Record<string, unknown>;
+    const syncStatus = mods.syncStatus ?? record.syncStatus;
+    if (syncStatus !== "pending" || "fieldModifiedAt" in mods) return;
+
+    const now = new Date();
+    const stamps: Record<string, Date> = {};
+    for (const [keyPath, value] of Object.entries(mods)) {
+      // Nested changes such as "config.newCardsPerDay" stamp the whole field
+      const field = keyPath.split(".")[0];
+      if (UNCLOCKED_FIELDS.has(field)) continue;
+      if (
+        keyPath === field &&
+        isSameValue(value, (record as Record<string, unknown>)[field])
+      ) {
+        continue;
+      }
+      stamps[field] = now;
+    }
+
+    if (Object.keys(stamps).length === 0) return;
+    return { fieldModifiedAt: { ...record.fieldModifiedAt, ...stamps } };
+  });
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as Date).getTime() === new Date(b as Date).getTime();
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Siblings are told apart by template, and by cloze number within a cloze template
+function siblingKey(card: { templateId?: string; clozeOrd?: number }): string {
+  return `${card.templateId}:${card.clozeOrd ?? ""}`;
+}
+
 export const db = new SRSDatabase();
@@ -0,0 +1,375 @@
+// src/storage/media-store.ts
+// Media files in SRSDatabase, addressed by the SHA-256 hash of their contents
+import { db, type MediaRecord } from "./database";
+import { IdService } from "../services/id-service";
+import { processHtml } from "../lib/note-templates";
+import type { SyncStatus } from "../types/sync";
+
+// Database used before media moved into SRSDatabase, keyed by file name
+const LEGACY_MEDIA_DB_NAME = "AnkiMedia";
+
+// Unreferenced files newer than this are kept, as an import may still be
+// creating the cards that use them
+const MEDIA_GC_GRACE_MS = 60 * 60 * 1000;
+
+const MIME_TYPES: Record<string, string> = {
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  bmp: "image/bmp",
+};
+
+function getMimeType(fileName: string): string {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return MIME_TYPES[extension] ?? "application/octet-stream";
+}
+
+/**
+ * Hex SHA-256 of a file's contents
+ */
+export async function hashMedia(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new Uint8Array(data));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Get the live media file stored under a name
+ */
+export async function getMediaRecord(
+  fileName: string,
+): Promise<MediaRecord | undefined> {
+  await migrateLegacyMedia();
+  return db.media
+    .where("fileName")
+    .equals(fileName)
+    .filter((record) => !record.isDeleted)
+    .first();
+}
+
+/**
+ * Get a live media file with the given contents
+ */
+export async function getMediaByHash(
+  hash: string,
+): Promise<MediaRecord | undefined> {
+  await migrateLegacyMedia();
+  return db.media
+    .where("hash")
+    .equals(hash)
+    .filter((record) => !record.isDeleted)
+    .first();
+}
+
+/**
+ * Store a media file and return the name it is stored under
+ *
+ * Contents that are already stored keep their existing name. A different
+ * file with a name already in use is stored under the name with part of
+ * its hash appended, so neither overwrites the other; callers rewrite
+ * references to the returned name.
+ */
+export async function storeMediaFile(
+  fileName: string,
+  data: Uint8Array,
+): Promise<string> {
+  const hash = await hashMedia(data);
+  const existing = await getMediaByHash(hash);
+  if (existing) return existing.fileName;
+
+  const storedName = (await getMediaRecord(fileName))
+    ? addHashSuffix(fileName, hash)
+    : fileName;
+  const mimeType = getMimeType(fileName);
+  const now = new Date();
+
+  await db.media.add({
+    id: IdService.generateMediaId(),
+    hash,
+    fileName: storedName,
+    mimeType,
+    size: data.length,
+    blob: new Blob([new Uint8Array(data)], { type: mimeType }),
+    createdAt: now,
+    lastModifiedAt: now,
+    syncStatus: "pending",
+    version: 1,
+  });
+
+  return storedName;
+}
+
+function addHashSuffix(fileName: string, hash: string): string {
+  const dot = fileName.lastIndexOf(".");
+  const suffix = `-${hash.slice(0, 8)}`;
+  return dot > 0
+    ? `${fileName.slice(0, dot)}${suffix}${fileName.slice(dot)}`
+    : `${fileName}${suffix}`;
+}
+
+// Get a stored media file
+export async function getMediaBlob(fileName: string): Promise<Blob | null> {
+  const record = await getMediaRecord(fileName);
+  return record?.blob ?? null;
+}
+
+// Remove a stored media file; missing files are ignored
+export async function deleteMediaFile(fileName: string): Promise<void> {
+  const record = await getMediaRecord(fileName);
+  if (record) await removeMediaRecord(record);
+}
+
+// Files the server has are soft deleted so the deletion syncs
+async function removeMediaRecord(record: MediaRecord): Promise<void> {
+  if (!record.serverId) {
+    await db.media.delete(record.id);
+    return;
+  }
+
+  await db.media.update(record.id, {
+    isDeleted: true,
+    lastModifiedAt: new Date(),
+    syncStatus: "pending" as SyncStatus,
+    version: (record.version || 1) + 1,
+  });
+}
+
+/**
+ * Point [sound:...] tags and src attributes at renamed media files
+ */
+export function rewriteMediaReferences(
+  text: string,
+  renames: Map<string, string>,
+): string {
+  if (renames.size === 0 || !text) return text;
+
+  return text
+    .replace(/\[sound:([^\]]+)\]/g, (match, fileName: string) => {
+      const renamed = renames.get(fileName);
+      return renamed ? `[sound:${renamed}]` : match;
+    })
+    .replace(
+      /(\ssrc=)(["']?)([^"'\s>]+)\2/gi,
+      (match, prefix: string, quote: string, fileName: string) => {
+        const renamed = renames.get(fileName);
+        return renamed ? `${prefix}${quote}${renamed}${quote}` : match;
+      },
+    );
+}
+
+// Files templates and styling load by name, such as Anki's "_font.ttf" in
+// a url() or "_script.js" in a src attribute
+const TEMPLATE_MEDIA_PATTERN =
+  /\[sound:([^\]]+)\]|(?:\s(?:src|href)=|url\()\s*["']?([^"'\s)>]+)/gi;
+
+// Names of media files used by live cards, notes and note types
+async function getReferencedMedia(): Promise<Set<string>> {
+  const referenced = new Set<string>();
+  const addHtml = (html: string | undefined) => {
+    if (!html) return;
+    const { audio, images } = processHtml(html);
+    for (const fileName of [...audio, ...images]) referenced.add(fileName);
+  };
+  const addTemplate = (text: string | undefined) => {
+    if (!text) return;
+    for (const [, sound, url] of text.matchAll(TEMPLATE_MEDIA_PATTERN)) {
+      referenced.add(sound ?? url);
+    }
+  };
+
+  await db.cards
+    .filter((card) => !card.isDeleted)
+    .each((card) => {
+      addHtml(card.frontHtml);
+      addHtml(card.backHtml);
+      for (const fileName of [
+        card.frontAudio,
+        card.backAudio,
+        card.frontImage,
+        card.backImage,
+      ]) {
+        if (fileName) referenced.add(fileName);
+      }
+    });
+  await db.notes
+    .filter((note) => !note.isDeleted)
+    .each((note) => Object.values(note.fields).forEach(addHtml));
+  await db.noteTypes
+    .filter((noteType) => !noteType.isDeleted)
+    .each((noteType) => {
+      addTemplate(noteType.css);
+      for (const template of noteType.templates) {
+        addTemplate(template.frontTemplate);
+        addTemplate(template.backTemplate);
+        addTemplate(template.styling);
+      }
+    });
+
+  return referenced;
+}
+
+/**
+ * Remove media files no live card, note or note type references
+ * @param fileNames - Only consider these files; all files are considered when omitted.
+ * @returns A promise that resolves to the number of files removed.
+ */
+export async function collectUnusedMedia(
+  fileNames?: string[],
+): Promise<number> {
+  await migrateLegacyMedia();
+
+  const candidates = fileNames
+    ? await db.media.where("fileName").anyOf(fileNames).toArray()
+    : await db.media
+        .filter(
+          (record) =>
+            Date.now() - new Date(record.createdAt).getTime() >
+            MEDIA_GC_GRACE_MS,
+        )
+        .toArray();
+  const live = candidates.filter((record) => !record.isDeleted);
+  if (live.length === 0) return 0;
+
+  const referenced = await getReferencedMedia();
+  let removed = 0;
+  for (const record of live) {
+    if (referenced.has(record.fileName)) continue;
+    await removeMediaRecord(record);
+    removed++;
+  }
+  return removed;
+}
+
+let legacyMigration: Promise<void> | null = null;
+
+// Copy files from the old AnkiMedia database once, then delete it. Copies
+// of a file already stored under another name are dropped and the cards and
+// notes using them are pointed at that name.
+function migrateLegacyMedia(): Promise<void> {
+  legacyMigration ??= (async () => {
+    const files = await readLegacyMedia();
+    // Anki's numbered copies sort last so files keep their real names
+    files.sort(
+      (a, b) =>
+        Number(/^\d+$/.test(a.fileName)) - Number(/^\d+$/.test(b.fileName)),
+    );
+    const renames = new Map<string, string>();
+    for (const { fileName, blob } of files) {
+      const data = new Uint8Array(await blob.arrayBuffer());
+      const hash = await hashMedia(data);
+      const existing = await db.media
+        .where("hash")
+        .equals(hash)
+        .filter((record) => !record.isDeleted)
+        .first();
+      if (existing) {
+        if (existing.fileName !== fileName) {
+          renames.set(fileName, existing.fileName);
+        }
+        continue;
+      }
+
+      const now = new Date();
+      await db.media.add({
+        id: IdService.generateMediaId(),
+        hash,
+        fileName,
+        mimeType: blob.type || getMimeType(fileName),
+        size: data.length,
+        blob,
+        createdAt: now,
+        lastModifiedAt: now,
+        syncStatus: "pending",
+        version: 1,
+      });
+    }
+    await rewriteLegacyReferences(renames);
+    if (files.length > 0) indexedDB.deleteDatabase(LEGACY_MEDIA_DB_NAME);
+  })().catch((error) => {
+    console.error("Failed to migrate legacy media:", error);
+  });
+  return legacyMigration;
+}
+
+// Point live notes and cards at the names migrated media is stored under;
+// editing a note renders its cards again
+async function rewriteLegacyReferences(
+  renames: Map<string, string>,
+): Promise<void> {
+  if (renames.size === 0) return;
+  const renameFile = (fileName: string | undefined) =>
+    fileName && (renames.get(fileName) ?? fileName);
+
+  const notes = await db.notes.filter((note) => !note.isDeleted).toArray();
+  for (const note of notes) {
+    const fields = Object.fromEntries(
+      Object.entries(note.fields).map(([name, value]) => [
+        name,
+        rewriteMediaReferences(value, renames),
+      ]),
+    );
+    if (
+      Object.keys(fields).some((name) => fields[name] !== note.fields[name])
+    ) {
+      await db.updateNote(note.id, fields);
+    }
+  }
+
+  const cards = await db.cards.filter((card) => !card.isDeleted).toArray();
+  for (const card of cards) {
+    const updates = {
+      frontHtml:
+        card.frontHtml && rewriteMediaReferences(card.frontHtml, renames),
+      backHtml: card.backHtml && rewriteMediaReferences(card.backHtml, renames),
+      frontAudio: renameFile(card.frontAudio),
+      backAudio: renameFile(card.backAudio),
+      frontImage: renameFile(card.frontImage),
+      backImage: renameFile(card.backImage),
+    };
+    const changed = (Object.keys(updates) as Array<keyof typeof updates>).some(
+      (field) => updates[field] !== card[field],
+    );
+    if (changed) await db.updateCard(card.id, updates);
+  }
+}
+
+async function readLegacyMedia(): Promise<
+  Array<{ fileName: string; blob: Blob }>
+> {
+  return new Promise((resolve) => {
+    const request = indexedDB.open(LEGACY_MEDIA_DB_NAME);
+
+    request.onsuccess = (event) => {
+      const legacyDb = (event.target as IDBOpenDBRequest).result;
+
+      if (!legacyDb.objectStoreNames.contains("media")) {
+        legacyDb.close();
+        indexedDB.deleteDatabase(LEGACY_MEDIA_DB_NAME);
+        resolve([]);
+        return;
+      }
+
+      const transaction = legacyDb.transaction(["media"], "readonly");
+      const getRequest = transaction.objectStore("media").getAll();
+
+      getRequest.onsuccess = () => {
+        legacyDb.close();
+        resolve(getRequest.result ?? []);
+      };
+
+      getRequest.onerror = () => {
+        legacyDb.close();
+        resolve([]);
+      };
+    };
+
+    request.onerror = () => resolve([]);
+  });
+}
@@ -360,8 +360,9 @@ export interface ReviewEventBuilder {
     focusAt: number | null;
   }>;
 
-  // Option hover tracking (for MC)
+  // Option hover and click tracking (for MC)
   optionHovers: Map<number, number>;
+  optionClicks: Map<number, number>;
 
   // Device context (captured at start)
   deviceContext: {
@@ -20,6 +20,7 @@ import type { StudySessionId, UserId, DeckId } from './ids';
 export type SessionType = 'regular' | 'diagnostic' | 'cram' | 'speed_review' | 'learn_new';
 export type SessionState = 'in_progress' | 'completed' | 'abandoned' | 'interrupted';
 export type BreakReason = 'background' | 'pause' | 'idle' | 'manual';
+export type SessionHealth = 'healthy' | 'slowing' | 'declining' | 'fatigued';
 
 // ============================================================
 // JSONB COLUMN TYPES
@@ -171,6 +172,49 @@ export interface SessionErrorResponse {
 
 export type SessionResponse<T> = T | SessionErrorResponse;
 
+/**
+ * Live health of an in-progress session, comparing its first quarter of
+ * reviews with its latest quarter
+ */
+export interface LiveSessionHealth {
+  cardsCompleted: number;
+  currentAccuracy: number;
+  avgResponseTimeMs: number;
+  accuracyDecay: number;       // First quarter accuracy minus latest
+  paceDecayPct: number;        // Latest quarter slowdown vs first, in %
+  health: SessionHealth;
+  recommendation: string | null;
+}
+
+export interface InsufficientSessionHealth {
+  cardsCompleted: number;
+  status: 'insufficient_data';
+  message: string;
+}
+
+export type LiveSessionHealthResult =
+  | LiveSessionHealth
+  | InsufficientSessionHealth;
+
+/**
+ * How a user's sessions typically wear them out, across past sessions
+ */
+export interface FatigueAnalysis {
+  sessionsAnalyzed: number;
+  avgSessionLength: number;
+  avgFatigueScore: number;
+  avgFatigueOnsetCards: number;
+  fatiguedSessions: number;
+  healthySessions: number;
+  p75FatigueScore: number;
+  optimalSessionLength: number;
+  recommendation: string;
+}
+
+export type FatigueAnalysisResult =
+  | FatigueAnalysis
+  | { status: 'insufficient_data'; message: string };
+
 // ============================================================
 // SESSION STATISTICS (computed on close)
 // ============================================================
@@ -274,6 +318,7 @@ export interface ClientSessionState {
 
   // Timing
   responseTimes: number[];      // For trend calculation
+  correctAnswers: boolean[];    // Parallel to responseTimes, for fatigue
   totalActiveTimeMs: number;
   lastCardCompletedAt: number;
 
@@ -412,3 +457,77 @@ export function calculateFatigueScore(
 
   return Math.round(fatigueScore * 1000) / 1000;
 }
+
+// Live health thresholds, matching the server's getLiveSessionHealth
+const MIN_HEALTH_REVIEWS = 4;
+const HEALTH_THRESHOLDS: { health: SessionHealth; accuracyDecay: number; paceDecay: number }[] = [
+  { health: 'fatigued', accuracyDecay: 0.15, paceDecay: 0.3 },
+  { health: 'declining', accuracyDecay: 0.1, paceDecay: 0.2 },
+  { health: 'slowing', accuracyDecay: 0.05, paceDecay: 0.1 },
+];
+
+/**
+ * Split reviews into quarters the way SQL's NTILE(4) does: earlier
+ * quarters take the remainder
+ */
+function splitIntoQuarters<T>(values: T[]): T[][] {
+  const base = Math.floor(values.length / 4);
+  const remainder = values.length % 4;
+  const quarters: T[][] = [];
+  let start = 0;
+  for (let i = 0; i < 4; i++) {
+    const size = base + (i < remainder ? 1 : 0);
+    quarters.push(values.slice(start, start + size));
+    start += size;
+  }
+  return quarters;
+}
+
+/**
+ * Calculate live session health on the client, as the server does from
+ * the session's review events
+ */
+export function calculateLiveSessionHealth(
+  responseTimes: number[],
+  correctAnswers: boolean[]
+): LiveSessionHealthResult {
+  const cardsCompleted = Math.min(responseTimes.length, correctAnswers.length);
+  if (cardsCompleted < MIN_HEALTH_REVIEWS) {
+    return {
+      cardsCompleted,
+      status: 'insufficient_data',
+      message: `Need at least ${MIN_HEALTH_REVIEWS} reviews for health analysis`,
+    };
+  }
+
+  const average = (values: number[]) =>
+    values.reduce((a, b) => a + b, 0) / values.length;
+  const accuracyOf = (answers: boolean[]) =>
+    answers.filter(Boolean).length / answers.length;
+
+  const timeQuarters = splitIntoQuarters(responseTimes.slice(0, cardsCompleted));
+  const answerQuarters = splitIntoQuarters(correctAnswers.slice(0, cardsCompleted));
+
+  const accuracyDecay = accuracyOf(answerQuarters[0]) - accuracyOf(answerQuarters[3]);
+  const firstTime = average(timeQuarters[0]) || 1;
+  const paceDecay = (average(timeQuarters[3]) - firstTime) / firstTime;
+
+  const health =
+    HEALTH_THRESHOLDS.find(
+      (threshold) =>
+        accuracyDecay > threshold.accuracyDecay || paceDecay > threshold.paceDecay
+    )?.health ?? 'healthy';
+
+  return {
+    cardsCompleted,
+    currentAccuracy: accuracyOf(correctAnswers.slice(0, cardsCompleted)),
+    avgResponseTimeMs: Math.round(average(responseTimes.slice(0, cardsCompleted))),
+    accuracyDecay: Math.round(accuracyDecay * 1000) / 1000,
+    paceDecayPct: Math.round(paceDecay * 100),
+    health,
+    recommendation:
+      health === 'fatigued' || health === 'declining'
+        ? 'Consider taking a break or ending the session'
+        : null,
+  };
+}
@@ -5,9 +5,13 @@
  * and server (PostgreSQL).
  */
 
+import type { CardTemplate, DeckConfig, Field } from "../core";
+import type { ReplayBase } from "../lib/srs-engine";
+
 export type SyncStatus = "synced" | "pending" | "conflict" | "error";
 export type SyncOperation = "create" | "update" | "delete";
-export type SyncEntityType = "deck" | "card" | "session";
+export type SyncEntityType =
+  "deck" | "card" | "session" | "media" | "note" | "noteType";
 
 /**
  * Sync metadata attached to all syncable entities
@@ -46,6 +50,11 @@ export interface SyncableDeck {
   cardCount: number;
   dueCount?: number;
   newCount?: number;
+  config?: Partial<DeckConfig>;
+  parentId?: string;
+
+  /** When each field was last modified locally, for per-field merges */
+  fieldModifiedAt?: Record<string, Date>;
 
   // Sync metadata
   serverId?: string;
@@ -73,6 +82,9 @@ export interface SyncableCard {
   frontImage?: string;
   backImage?: string;
   tags?: string[];
+  noteId?: string;
+  templateId?: string;
+  clozeOrd?: number;
 
   // SRS fields
   due: Date;
@@ -82,11 +94,66 @@ export interface SyncableCard {
   status: "new" | "learning" | "review" | "relearning";
   lastReview?: Date;
   totalReviews: number;
+  stability?: number;
+  difficulty?: number;
+  lapses: number;
+  queue: number;
+  learningStep?: number;
+
+  /** Scheduling the review log is replayed from, when set by an import */
+  replayBase?: ReplayBase;
 
   // Import tracking
   importSource?: string;
   externalId?: string;
 
+  /** When each field was last modified locally, for per-field merges */
+  fieldModifiedAt?: Record<string, Date>;
+
+  // Sync metadata
+  serverId?: string;
+  lastSyncedAt?: Date;
+  lastModifiedAt: Date;
+  syncStatus: SyncStatus;
+  version: number;
+  isDeleted?: boolean;
+  userId?: string;
+}
+
+/**
+ * Syncable Note - a note's fields; its cards sync separately
+ */
+export interface SyncableNote {
+  id: string;
+  deckId: string;
+  modelId: string;
+  fields: Record<string, string>;
+  tags: string[];
+  guid?: string;
+  createdAt: Date;
+  modifiedAt: Date;
+
+  // Sync metadata
+  serverId?: string;
+  lastSyncedAt?: Date;
+  lastModifiedAt: Date;
+  syncStatus: SyncStatus;
+  version: number;
+  isDeleted?: boolean;
+  userId?: string;
+}
+
+/**
+ * Syncable Note Type - fields and card templates notes are rendered with
+ */
+export interface SyncableNoteType {
+  id: string;
+  name: string;
+  type?: "standard" | "cloze";
+  fields: Field[];
+  templates: CardTemplate[];
+  css: string;
+
   // Sync metadata
   serverId?: string;
   lastSyncedAt?: Date;
@@ -106,6 +173,7 @@ export interface SyncableSession {
   rating: number;
   duration: number;
   timestamp: Date;
+  cardStatus?: "new" | "learning" | "review" | "relearning";
 
   // Sync metadata
   serverId?: string;
@@ -114,6 +182,27 @@ export interface SyncableSession {
   userId?: string;
 }
 
+/**
+ * Syncable Media - metadata for a media file. Contents are uploaded and
+ * downloaded separately, addressed by their hash.
+ */
+export interface SyncableMedia {
+  id: string;
+  hash: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+
+  // Sync metadata
+  serverId?: string;
+  lastSyncedAt?: Date;
+  lastModifiedAt: Date;
+  syncStatus: SyncStatus;
+  version: number;
+  isDeleted?: boolean;
+  userId?: string;
+}
+
 /**
  * Sync Queue Item - represents a pending operation
  */
@@ -154,6 +243,12 @@ export interface SyncConflict {
   conflictedFields: string[];
 }
 
+/**
+ * Which version to keep for each conflicted field
+ */
+export type ConflictSide = "local" | "server";
+export type ConflictResolution = Record<string, ConflictSide>;
+
 /**
  * Sync Error - when sync operation fails
  */
@@ -199,6 +294,9 @@ export interface SyncConfig {
 
   /** Enable sync for study sessions */
   syncSessions: boolean;
+
+  /** Maximum media files uploaded per sync, since each carries a file */
+  mediaBatchSize: number;
 }
 
 /**
@@ -211,16 +309,25 @@ export const DEFAULT_SYNC_CONFIG: SyncConfig = {
   maxRetries: 3,
   wifiOnly: false,
   syncSessions: true,
+  mediaBatchSize: 10,
 };
 
 /**
  * Server sync request - batch of changes to sync
  */
 export interface SyncRequest {
+  noteTypes?: Array<{
+    operation: SyncOperation;
+    data: SyncableNoteType;
+  }>;
   decks?: Array<{
     operation: SyncOperation;
     data: SyncableDeck;
   }>;
+  notes?: Array<{
+    operation: SyncOperation;
+    data: SyncableNote;
+  }>;
   cards?: Array<{
     operation: SyncOperation;
     data: SyncableCard;
@@ -229,30 +336,95 @@ export interface SyncRequest {
     operation: SyncOperation;
     data: SyncableSession;
   }>;
+  media?: Array<{
+    operation: SyncOperation;
+    data: SyncableMedia;
+  }>;
   lastSyncAt?: Date;
 }
 
+/**
+ * Results for one entity type in a sync response
+ */
+export interface SyncEntityChanges<T> {
+  created: string[];
+  updated: string[];
+  deleted: string[];
+  conflicts: SyncConflict[];
+  /** Full records of changed entities, returned when fetching changes */
+  records?: T[];
+}
+
 /**
  * Server sync response - results and conflicts
  */
 export interface SyncResponse {
   success: boolean;
   timestamp: Date;
-  decks?: {
-    created: string[];
-    updated: string[];
-    deleted: string[];
-    conflicts: SyncConflict[];
-  };
-  cards?: {
-    created: string[];
-    updated: string[];
-    deleted: string[];
-    conflicts: SyncConflict[];
-  };
+  noteTypes?: SyncEntityChanges<SyncableNoteType>;
+  decks?: SyncEntityChanges<SyncableDeck>;
+  notes?: SyncEntityChanges<SyncableNote>;
+  cards?: SyncEntityChanges<SyncableCard>;
   sessions?: {
     created: string[];
     errors: SyncError[];
+    /** Reviews from all devices, so each can replay the combined log */
+    records?: SyncableSession[];
   };
+  media?: SyncEntityChanges<SyncableMedia>;
   errors?: SyncError[];
 }
+
+/**
+ * A subscribed deck's card as published by its author: content only, so
+ * copying it leaves the subscriber's scheduling alone
+ */
+export interface PublishedCard {
+  id: string; // the author's card ID
+  front: string;
+  back: string;
+  frontHtml?: string;
+  backHtml?: string;
+  frontAudio?: string;
+  backAudio?: string;
+  frontImage?: string;
+  backImage?: string;
+  clozeOrd?: number;
+  tags: string[];
+}
+
+/**
+ * A media file used by a subscribed deck; contents are downloaded by hash
+ */
+export interface PublishedMedia {
+  fileName: string;
+  hash: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Server response with the published contents of a subscribed deck
+ */
+export interface PublishedDeckResponse {
+  deck: {
+    id: string;
+    name: string;
+    description?: string;
+  };
+  cards: PublishedCard[];
+  media: PublishedMedia[];
+  timestamp: Date;
+}
+
+/**
+ * Author changes to a subscribed deck since the subscriber last reviewed it
+ */
+export interface SubscriptionChangeset {
+  fetchedAt: Date;
+  added: PublishedCard[];
+  updated: Array<{ previous: PublishedCard; card: PublishedCard }>;
+  removed: PublishedCard[];
+  /** Media used by the added and updated cards */
+  media: PublishedMedia[];
+}
@@ -6,12 +6,17 @@
  */
 
 import express from "express";
+import { createHash } from "crypto";
 import pool from "./db.js";
 import { ulid } from "ulid";
 import { CardAnalysisService } from "./card-analysis-service.js";
 
 const router = express.Router();
 
+// Media contents are uploaded as raw bytes, outside the JSON body limit
+const MEDIA_UPLOAD_LIMIT = "50mb";
+const MEDIA_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
 // Initialize analysis service for queueing
 const cardAnalysisService = new CardAnalysisService(pool);
 
@@ -29,8 +34,9 @@ async function insertDeck(client, userId, data) {
   const serverId = generateULID("deck");
   await client.query(
     `INSERT INTO decks (deck_id, user_id, client_id, name, description,
-                       card_count, version, last_modified_at, is_deleted)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+                       card_count, config, parent_client_id, version,
+                       last_modified_at, is_deleted, field_modified_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
     [
       serverId,
       userId,
@@ -38,14 +44,49 @@ async function insertDeck(client, userId, data) {
       data.name,
       data.description,
       data.cardCount || 0,
+      JSON.stringify(data.config || {}),
+      data.parentId || null,
       data.version || 1,
       data.lastModifiedAt || new Date(),
       data.isDeleted || false,
+      JSON.stringify(data.fieldModifiedAt || {}),
     ],
   );
   return serverId;
 }
 
+/**
+ * Card content beyond front and back, stored as JSONB
+ */
+function getCardContent(data) {
+  return {
+    frontHtml: data.frontHtml,
+    backHtml: data.backHtml,
+    frontAudio: data.frontAudio,
+    backAudio: data.backAudio,
+    frontImage: data.frontImage,
+    backImage: data.backImage,
+    templateId: data.templateId,
+    clozeOrd: data.clozeOrd,
+  };
+}
+
+/**
+ * Scheduling state beyond the SM-2 columns, stored as JSONB
+ */
+function getCardScheduling(data) {
+  return {
+    stability: data.stability,
+    difficulty: data.difficulty,
+    lapses: data.lapses,
+    totalReviews: data.totalReviews,
+    lastReview: data.lastReview,
+    queue: data.queue,
+    learningStep: data.learningStep,
+    replayBase: data.replayBase,
+  };
+}
+
 /**
  * Insert a new card record
  */
@@ -54,8 +95,10 @@ async function insertCard(client, userId, data) {
   await client.query(
     `INSERT INTO cards (card_id, user_id, client_id, deck_client_id, front, back,
                        due, interval, repetitions, ease_factor, status,
-                       version, last_modified_at, is_deleted)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+                       version, last_modified_at, is_deleted, tags,
+                       note_client_id, content, scheduling, field_modified_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15,
+             $16, $17, $18, $19)`,
     [
       serverId,
       userId,
@@ -71,11 +114,180 @@ async function insertCard(client, userId, data) {
       data.version || 1,
       data.lastModifiedAt || new Date(),
       data.isDeleted || false,
+      data.tags || [],
+      data.noteId || null,
+      JSON.stringify(getCardContent(data)),
+      JSON.stringify(getCardScheduling(data)),
+      JSON.stringify(data.fieldModifiedAt || {}),
+    ],
+  );
+  return serverId;
+}
+
+// Notes and note types are stored per client ID with these columns
+const NOTE_TYPE_RECORD = {
+  entityType: "noteType",
+  table: "user_note_types",
+  idColumn: "note_type_id",
+  idPrefix: "ntype",
+  toRecord: toNoteTypeRecord,
+  toColumns: (data) => ({
+    name: data.name,
+    definition: JSON.stringify({
+      type: data.type,
+      fields: data.fields || [],
+      templates: data.templates || [],
+      css: data.css || "",
+    }),
+  }),
+};
+
+const NOTE_RECORD = {
+  entityType: "note",
+  table: "user_notes",
+  idColumn: "note_id",
+  idPrefix: "note",
+  toRecord: toNoteRecord,
+  toColumns: (data) => ({
+    deck_client_id: data.deckId,
+    note_type_client_id: data.modelId,
+    fields: JSON.stringify(data.fields || {}),
+    tags: data.tags || [],
+    guid: data.guid || null,
+    note_created_at: data.createdAt || null,
+    note_modified_at: data.modifiedAt || null,
+  }),
+};
+
+/**
+ * Apply one pushed operation to a note or note type. Creating a record the
+ * server already has updates it, so a repeated push is harmless.
+ */
+async function applyClientRecord(
+  client,
+  userId,
+  spec,
+  operation,
+  data,
+  result,
+) {
+  const existing = await client.query(
+    `SELECT * FROM ${spec.table} WHERE client_id = $1 AND user_id = $2`,
+    [data.id, userId],
+  );
+
+  if (operation === "delete") {
+    await client.query(
+      `UPDATE ${spec.table}
+       SET is_deleted = true, last_modified_at = $1, version = version + 1
+       WHERE client_id = $2 AND user_id = $3`,
+      [new Date(), data.id, userId],
+    );
+    result.deleted.push(data.id);
+    return;
+  }
+
+  const columns = spec.toColumns(data);
+  const names = Object.keys(columns);
+  const values = Object.values(columns);
+
+  if (existing.rows.length === 0) {
+    const params = [
+      generateULID(spec.idPrefix),
+      userId,
+      data.id,
+      ...values,
+      data.version || 1,
+      data.lastModifiedAt || new Date(),
+    ];
+    await client.query(
+      `INSERT INTO ${spec.table} (${spec.idColumn}, user_id, client_id,
+                                  ${names.join(", ")}, version, last_modified_at)
+       VALUES (${params.map((_, i) => `$${i + 1}`).join(", ")})`,
+      params,
+    );
+    result.created.push(data.id);
+    return;
+  }
+
+  const serverVersion = existing.rows[0].version;
+  if (operation === "update" && data.version && data.version < serverVersion) {
+    const conflict = getConflict(
+      spec.entityType,
+      data,
+      existing.rows[0],
+      spec.toRecord(existing.rows[0]),
+    );
+    if (conflict) {
+      result.conflicts.push(conflict);
+      return;
+    }
+  }
+
+  await client.query(
+    `UPDATE ${spec.table}
+     SET ${names.map((name, i) => `${name} = $${i + 1}`).join(", ")},
+         version = $${names.length + 1}, last_modified_at = $${names.length + 2},
+         is_deleted = false
+     WHERE client_id = $${names.length + 3} AND user_id = $${names.length + 4}`,
+    [
+      ...values,
+      (serverVersion || 0) + 1,
+      data.lastModifiedAt || new Date(),
+      data.id,
+      userId,
+    ],
+  );
+  result.updated.push(data.id);
+}
+
+/**
+ * Insert a new media record; its contents must already be uploaded
+ */
+async function insertMedia(client, userId, data) {
+  const content = await client.query(
+    "SELECT 1 FROM user_media_content WHERE user_id = $1 AND hash = $2",
+    [userId, data.hash],
+  );
+  if (content.rows.length === 0) {
+    throw new Error("Media contents have not been uploaded");
+  }
+
+  const serverId = generateULID("media");
+  await client.query(
+    `INSERT INTO user_media (media_id, user_id, client_id, hash, file_name,
+                            mime_type, size, version, last_modified_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+    [
+      serverId,
+      userId,
+      data.id,
+      data.hash,
+      data.fileName,
+      data.mimeType || "application/octet-stream",
+      data.size || 0,
+      data.version || 1,
+      data.lastModifiedAt || new Date(),
     ],
   );
   return serverId;
 }
 
+/**
+ * Remove media contents no live media record uses any more
+ */
+async function deleteUnusedMediaContent(client, userId, hash) {
+  await client.query(
+    `DELETE FROM user_media_content
+     WHERE user_id = $1 AND hash = $2
+       AND NOT EXISTS (
+         SELECT 1 FROM user_media
+         WHERE user_id = $1 AND hash = $2 AND is_deleted = false
+       )`,
+    [userId, hash],
+  );
+}
+
 /**
  * POST /api/sync
  *
@@ -83,7 +295,7 @@ async function insertCard(client, userId, data) {
  * Processes creates, updates, and deletes for decks, cards, and sessions.
  */
 router.post("/", async (req, res) => {
-  const { decks, cards, sessions } = req.body;
+  const { noteTypes, decks, notes, cards, sessions, media } = req.body;
   const userId = req.userId; // Set by authenticateToken middleware
 
   const client = await pool.connect();
@@ -94,12 +306,24 @@ router.post("/", async (req, res) => {
     const response = {
       success: true,
       timestamp: new Date(),
+      noteTypes: {
+        created: [],
+        updated: [],
+        deleted: [],
+        conflicts: [],
+      },
       decks: {
         created: [],
         updated: [],
         deleted: [],
         conflicts: [],
       },
+      notes: {
+        created: [],
+        updated: [],
+        deleted: [],
+        conflicts: [],
+      },
       cards: {
         created: [],
         updated: [],
@@ -110,12 +334,47 @@ router.post("/", async (req, res) => {
         created: [],
         errors: [],
       },
+      media: {
+        created: [],
+        updated: [],
+        deleted: [],
+        conflicts: [],
+      },
       errors: [],
     };
 
     // Track created card serverIds for analysis queueing
     const createdCardServerIds = [];
 
+    // Process note type and note operations
+    for (const [operations, spec, result] of [
+      [noteTypes, NOTE_TYPE_RECORD, response.noteTypes],
+      [notes, NOTE_RECORD, response.notes],
+    ]) {
+      if (!operations || !Array.isArray(operations)) continue;
+      for (const { operation, data } of operations) {
+        try {
+          await applyClientRecord(
+            client,
+            userId,
+            spec,
+            operation,
+            data,
+            result,
+          );
+        } catch (error) {
+          response.errors.push({
+            entityType: spec.entityType,
+            entityId: data.id,
+            operation,
+            error: error.message,
+            timestamp: new Date(),
+            retryable: true,
+          });
+        }
+      }
+    }
+
     // Process deck operations
     if (decks && Array.isArray(decks)) {
       for (const { operation, data } of decks) {
@@ -126,39 +385,43 @@ router.post("/", async (req, res) => {
           } else if (operation === "update") {
             // Check for conflicts
             const existing = await client.query(
-              "SELECT version, last_modified_at FROM decks WHERE client_id = $1 AND user_id = $2",
+              "SELECT * FROM decks WHERE client_id = $1 AND user_id = $2",
               [data.id, userId],
             );
 
             if (existing.rows.length > 0) {
               const serverVersion = existing.rows[0].version;
-              // Check for version conflict
+              // An older version conflicts only where its fields differ
               if (data.version && data.version < serverVersion) {
-                response.decks.conflicts.push({
-                  entityType: "deck",
-                  entityId: data.id,
-                  localVersion: data.version,
-                  serverVersion: serverVersion,
-                  localData: data,
-                  serverData: existing.rows[0],
-                  conflictedFields: ["version"],
-                });
-                continue;
+                const conflict = getConflict(
+                  "deck",
+                  data,
+                  existing.rows[0],
+                  toDeckRecord(existing.rows[0]),
+                );
+                if (conflict) {
+                  response.decks.conflicts.push(conflict);
+                  continue;
+                }
               }
 
               // Update deck
               await client.query(
                 `UPDATE decks
-                 SET name = $1, description = $2, card_count = $3,
-                     version = $4, last_modified_at = $5, is_deleted = $6
-                 WHERE client_id = $7 AND user_id = $8`,
+                 SET name = $1, description = $2, card_count = $3, config = $4,
+                     parent_client_id = $5, version = $6, last_modified_at = $7,
+                     is_deleted = $8, field_modified_at = $9
+                 WHERE client_id = $10 AND user_id = $11`,
                 [
                   data.name,
                   data.description,
                   data.cardCount || 0,
+                  JSON.stringify(data.config || {}),
+                  data.parentId || null,
                   (serverVersion || 0) + 1,
                   data.lastModifiedAt || new Date(),
                   data.isDeleted || false,
+                  JSON.stringify(data.fieldModifiedAt || {}),
                   data.id,
                   userId,
                 ],
@@ -203,25 +466,25 @@ router.post("/", async (req, res) => {
           } else if (operation === "update") {
             // Check for conflicts
             const existing = await client.query(
-              "SELECT version FROM cards WHERE client_id = $1 AND user_id = $2",
+              "SELECT * FROM cards WHERE client_id = $1 AND user_id = $2",
               [data.id, userId],
             );
 
             if (existing.rows.length > 0) {
               const serverVersion = existing.rows[0].version;
 
-              // Check for version conflict
+              // An older version conflicts only where its fields differ
               if (data.version && data.version < serverVersion) {
-                response.cards.conflicts.push({
-                  entityType: "card",
-                  entityId: data.id,
-                  localVersion: data.version,
-                  serverVersion: serverVersion,
-                  localData: data,
-                  serverData: existing.rows[0],
-                  conflictedFields: ["version"],
-                });
-                continue;
+                const conflict = getConflict(
+                  "card",
+                  data,
+                  existing.rows[0],
+                  toCardRecord(existing.rows[0]),
+                );
+                if (conflict) {
+                  response.cards.conflicts.push(conflict);
+                  continue;
+                }
               }
 
               // Update card
@@ -229,8 +492,10 @@ router.post("/", async (req, res) => {
                 `UPDATE cards
                  SET front = $1, back = $2, due = $3, interval = $4,
                      repetitions = $5, ease_factor = $6, status = $7,
-                     version = $8, last_modified_at = $9, is_deleted = $10
-                 WHERE client_id = $11 AND user_id = $12`,
+                     version = $8, last_modified_at = $9, is_deleted = $10,
+                     deck_client_id = $11, tags = $12, note_client_id = $13,
+                     content = $14, scheduling = $15, field_modified_at = $16
+                 WHERE client_id = $17 AND user_id = $18`,
                 [
                   data.front,
                   data.back,
@@ -242,6 +507,12 @@ router.post("/", async (req, res) => {
                   (serverVersion || 0) + 1,
                   data.lastModifiedAt || new Date(),
                   data.isDeleted || false,
+                  data.deckId,
+                  data.tags || [],
+                  data.noteId || null,
+                  JSON.stringify(getCardContent(data)),
+                  JSON.stringify(getCardScheduling(data)),
+                  JSON.stringify(data.fieldModifiedAt || {}),
                   data.id,
                   userId,
                 ],
@@ -284,8 +555,9 @@ router.post("/", async (req, res) => {
             const serverId = generateULID("rev");
             await client.query(
               `INSERT INTO study_sessions (session_id, user_id, client_id, card_client_id,
-                                          rating, time_spent_ms, studied_at)
-               VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+                                          rating, time_spent_ms, studied_at,
+                                          card_status)
+               VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
               [
                 serverId,
                 userId,
@@ -294,6 +566,7 @@ router.post("/", async (req, res) => {
                 data.rating,
                 data.duration,
                 data.timestamp || new Date(),
+                data.cardStatus || null,
               ],
             );
             response.sessions.created.push(data.id);
@@ -311,6 +584,82 @@ router.post("/", async (req, res) => {
       }
     }
 
+    // Process media operations
+    if (media && Array.isArray(media)) {
+      for (const { operation, data } of media) {
+        try {
+          const existing = await client.query(
+            "SELECT * FROM user_media WHERE client_id = $1 AND user_id = $2",
+            [data.id, userId],
+          );
+
+          if (operation === "delete") {
+            if (existing.rows.length > 0) {
+              await client.query(
+                `UPDATE user_media
+                 SET is_deleted = true, last_modified_at = $1, version = version + 1
+                 WHERE client_id = $2 AND user_id = $3`,
+                [new Date(), data.id, userId],
+              );
+              await deleteUnusedMediaContent(
+                client,
+                userId,
+                existing.rows[0].hash,
+              );
+            }
+            response.media.deleted.push(data.id);
+          } else if (existing.rows.length === 0) {
+            await insertMedia(client, userId, data);
+            response.media.created.push(data.id);
+          } else {
+            const serverVersion = existing.rows[0].version;
+            // A repeated create is treated as an update of the same file
+            if (
+              operation === "update" &&
+              data.version &&
+              data.version < serverVersion
+            ) {
+              const conflict = getConflict(
+                "media",
+                data,
+                existing.rows[0],
+                toMediaRecord(existing.rows[0]),
+              );
+              if (conflict) {
+                response.media.conflicts.push(conflict);
+                continue;
+              }
+            }
+
+            // Contents are fixed by the hash, so only the name can change
+            await client.query(
+              `UPDATE user_media
+               SET file_name = $1, version = $2, last_modified_at = $3,
+                   is_deleted = false
+               WHERE client_id = $4 AND user_id = $5`,
+              [
+                data.fileName,
+                (serverVersion || 0) + 1,
+                data.lastModifiedAt || new Date(),
+                data.id,
+                userId,
+              ],
+            );
+            response.media.updated.push(data.id);
+          }
+        } catch (error) {
+          response.errors.push({
+            entityType: "media",
+            entityId: data.id,
+            operation,
+            error: error.message,
+            timestamp: new Date(),
+            retryable: true,
+          });
+        }
+      }
+    }
+
     await client.query("COMMIT");
 
     // Queue created cards for analysis (non-blocking, don't fail sync if this fails)
@@ -338,76 +687,376 @@ router.post("/", async (req, res) => {
   }
 });
 
+/**
+ * Client-side records for server rows
+ */
+function toNoteTypeRecord(row) {
+  return {
+    ...row.definition,
+    id: row.client_id,
+    name: row.name,
+    serverId: row.note_type_id,
+  };
+}
+
+function toDeckRecord(row) {
+  return {
+    id: row.client_id || row.deck_id,
+    name: row.name,
+    description: row.description,
+    cardCount: row.card_count,
+    config: row.config,
+    parentId: row.parent_client_id || undefined,
+    fieldModifiedAt: row.field_modified_at || {},
+    serverId: row.deck_id,
+  };
+}
+
+function toNoteRecord(row) {
+  return {
+    id: row.client_id,
+    deckId: row.deck_client_id,
+    modelId: row.note_type_client_id,
+    fields: row.fields,
+    tags: row.tags,
+    guid: row.guid || undefined,
+    createdAt: row.note_created_at || row.last_modified_at,
+    modifiedAt: row.note_modified_at || row.last_modified_at,
+    serverId: row.note_id,
+  };
+}
+
+function toCardRecord(row) {
+  return {
+    ...row.content,
+    ...row.scheduling,
+    id: row.client_id || row.card_id,
+    deckId: row.deck_client_id,
+    noteId: row.note_client_id || undefined,
+    front: row.front,
+    back: row.back,
+    tags: row.tags || [],
+    due: row.due,
+    interval: row.interval,
+    repetitions: row.repetitions,
+    easeFactor: Number(row.ease_factor),
+    status: row.status,
+    lapses: row.scheduling?.lapses ?? 0,
+    totalReviews: row.scheduling?.totalReviews ?? 0,
+    queue: row.scheduling?.queue ?? 0,
+    fieldModifiedAt: row.field_modified_at || {},
+    serverId: row.card_id,
+  };
+}
+
+/**
+ * A public deck's card as subscribers receive it: content only, so copying
+ * it never touches the subscriber's own scheduling
+ */
+function toPublishedCard(row) {
+  const content = row.content || {};
+  return {
+    id: row.client_id || row.card_id,
+    front: row.front,
+    back: row.back,
+    frontHtml: content.frontHtml,
+    backHtml: content.backHtml,
+    frontAudio: content.frontAudio,
+    backAudio: content.backAudio,
+    frontImage: content.frontImage,
+    backImage: content.backImage,
+    clozeOrd: content.clozeOrd,
+    tags: row.tags || [],
+  };
+}
+
+/**
+ * Names of the media files a published card uses
+ */
+function getPublishedCardMedia(card) {
+  const fileNames = [
+    card.frontAudio,
+    card.backAudio,
+    card.frontImage,
+    card.backImage,
+  ];
+  for (const html of [card.frontHtml, card.backHtml]) {
+    if (!html) continue;
+    for (const match of html.matchAll(/\[sound:([^\]]+)\]/g)) {
+      fileNames.push(match[1]);
+    }
+    for (const match of html.matchAll(/<img[^>]+src=["']?([^"'>\s]+)/gi)) {
+      fileNames.push(match[1]);
+    }
+  }
+  return fileNames.filter(Boolean);
+}
+
+function toMediaRecord(row) {
+  return {
+    id: row.client_id,
+    hash: row.hash,
+    fileName: row.file_name,
+    mimeType: row.mime_type,
+    size: row.size,
+    serverId: row.media_id,
+  };
+}
+
+/**
+ * A client-side record with the row's sync metadata
+ */
+function toSyncedRecord(row, record) {
+  return {
+    ...record,
+    lastModifiedAt: row.last_modified_at,
+    syncStatus: "synced",
+    version: row.version,
+    isDeleted: row.is_deleted,
+  };
+}
+
+// Bookkeeping that differs between copies without being a conflicting edit,
+// and card scheduling, which clients merge by replaying the review log
+const CONFLICT_IGNORED_FIELDS = new Set([
+  "id",
+  "serverId",
+  "cardCount",
+  "fieldModifiedAt",
+  "due",
+  "interval",
+  "easeFactor",
+  "repetitions",
+  "stability",
+  "difficulty",
+  "lapses",
+  "totalReviews",
+  "lastReview",
+  "status",
+  "learningStep",
+  "replayBase",
+]);
+
+// JSON with object keys sorted, as JSONB columns do not keep key order
+function toComparableJson(value) {
+  return JSON.stringify(value ?? null, (key, nested) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : nested,
+  );
+}
+
+/**
+ * Conflict between a pushed record and the newer server row, listing the
+ * fields whose values differ; null when the two agree on every field
+ */
+function getConflict(entityType, data, row, record) {
+  const conflictedFields = Object.keys(record).filter(
+    (field) =>
+      !CONFLICT_IGNORED_FIELDS.has(field) &&
+      toComparableJson(data[field]) !== toComparableJson(record[field]),
+  );
+  if (conflictedFields.length === 0) return null;
+
+  return {
+    entityType,
+    entityId: data.id,
+    localVersion: data.version,
+    serverVersion: row.version,
+    localData: data,
+    serverData: toSyncedRecord(row, record),
+    conflictedFields,
+  };
+}
+
+/**
+ * Record a changed row in a changes response, with its client-side record
+ */
+function addChange(result, row, record) {
+  if (row.is_deleted) {
+    result.deleted.push(record.id);
+  } else if (row.version === 1) {
+    result.created.push(record.id);
+  } else {
+    result.updated.push(record.id);
+  }
+  result.records.push(toSyncedRecord(row, record));
+}
+
 /**
  * GET /api/sync/changes
  *
  * Fetches changes from server since a given timestamp.
- * Returns decks, cards, and sessions that have been modified on the server.
+ * Returns the IDs and full records of note types, decks, notes, cards,
+ * reviews and media modified on the server, so a device can rebuild the
+ * collection.
  */
 router.get("/changes", async (req, res) => {
   const { since } = req.query;
   const userId = req.userId;
 
   try {
+    // Changes are stamped with the start of the transaction that wrote them,
+    // so a push still open now commits rows stamped earlier than NOW(). The
+    // next pull resumes from the oldest open transaction instead; rows that
+    // come back twice are already at the device's version and are skipped
+    const {
+      rows: [{ cursor }],
+    } = await pool.query(
+      `SELECT COALESCE(MIN(xact_start), NOW()) AS cursor
+       FROM pg_stat_activity
+       WHERE datname = current_database() AND xact_start IS NOT NULL`,
+    );
+
     const response = {
       success: true,
-      timestamp: new Date(),
+      timestamp: cursor,
+      noteTypes: {
+        created: [],
+        updated: [],
+        deleted: [],
+        conflicts: [],
+        records: [],
+      },
       decks: {
         created: [],
         updated: [],
         deleted: [],
         conflicts: [],
+        records: [],
+      },
+      notes: {
+        created: [],
+        updated: [],
+        deleted: [],
+        conflicts: [],
+        records: [],
       },
       cards: {
         created: [],
         updated: [],
         deleted: [],
         conflicts: [],
+        records: [],
+      },
+      sessions: {
+        created: [],
+        errors: [],
+        records: [],
+      },
+      media: {
+        created: [],
+        updated: [],
+        deleted: [],
+        conflicts: [],
+        records: [],
       },
       errors: [],
     };
 
+    // Records are pulled by when the server received them, not by
+    // last_modified_at, which comes from the editing device's clock
     const sinceDate = since ? new Date(since) : new Date(0);
 
+    // Fetch note type changes
+    const noteTypeChanges = await pool.query(
+      `SELECT note_type_id, client_id, name, definition, version,
+              last_modified_at, is_deleted
+       FROM user_note_types
+       WHERE user_id = $1 AND synced_at >= $2
+       ORDER BY synced_at ASC`,
+      [userId, sinceDate],
+    );
+
+    for (const noteType of noteTypeChanges.rows) {
+      addChange(response.noteTypes, noteType, toNoteTypeRecord(noteType));
+    }
+
     // Fetch deck changes
     const deckChanges = await pool.query(
-      `SELECT deck_id, client_id, name, description, card_count,
-              version, last_modified_at, is_deleted
+      `SELECT deck_id, client_id, name, description, card_count, config,
+              parent_client_id, version, last_modified_at, is_deleted,
+              field_modified_at
        FROM decks
-       WHERE user_id = $1 AND last_modified_at > $2
-       ORDER BY last_modified_at ASC`,
+       WHERE user_id = $1 AND synced_at >= $2
+       ORDER BY synced_at ASC`,
       [userId, sinceDate],
     );
 
     for (const deck of deckChanges.rows) {
-      if (deck.is_deleted) {
-        response.decks.deleted.push(deck.client_id || deck.deck_id);
-      } else if (deck.version === 1) {
-        response.decks.created.push(deck.client_id || deck.deck_id);
-      } else {
-        response.decks.updated.push(deck.client_id || deck.deck_id);
-      }
+      addChange(response.decks, deck, toDeckRecord(deck));
+    }
+
+    // Fetch note changes
+    const noteChanges = await pool.query(
+      `SELECT note_id, client_id, deck_client_id, note_type_client_id, fields,
+              tags, guid, note_created_at, note_modified_at, version,
+              last_modified_at, is_deleted
+       FROM user_notes
+       WHERE user_id = $1 AND synced_at >= $2
+       ORDER BY synced_at ASC`,
+      [userId, sinceDate],
+    );
+
+    for (const note of noteChanges.rows) {
+      addChange(response.notes, note, toNoteRecord(note));
     }
 
     // Fetch card changes
     const cardChanges = await pool.query(
       `SELECT card_id, client_id, deck_client_id, front, back, due,
               interval, repetitions, ease_factor, status,
-              version, last_modified_at, is_deleted
+              version, last_modified_at, is_deleted, tags, note_client_id,
+              content, scheduling, field_modified_at
        FROM cards
-       WHERE user_id = $1 AND last_modified_at > $2
-       ORDER BY last_modified_at ASC`,
+       WHERE user_id = $1 AND synced_at >= $2
+       ORDER BY synced_at ASC`,
       [userId, sinceDate],
     );
 
     for (const card of cardChanges.rows) {
-      if (card.is_deleted) {
-        response.cards.deleted.push(card.client_id || card.card_id);
-      } else if (card.version === 1) {
-        response.cards.created.push(card.client_id || card.card_id);
-      } else {
-        response.cards.updated.push(card.client_id || card.card_id);
-      }
+      addChange(response.cards, card, toCardRecord(card));
+    }
+
+    // Fetch reviews by when they reached the server, as reviews made offline
+    // arrive long after they were made
+    const sessionChanges = await pool.query(
+      `SELECT session_id, card_client_id, rating, time_spent_ms, studied_at,
+              card_status
+       FROM study_sessions
+       WHERE user_id = $1 AND synced_at >= $2
+       ORDER BY studied_at ASC`,
+      [userId, sinceDate],
+    );
+
+    for (const session of sessionChanges.rows) {
+      response.sessions.created.push(session.session_id);
+      response.sessions.records.push({
+        id: session.session_id,
+        cardId: session.card_client_id,
+        rating: session.rating,
+        duration: session.time_spent_ms,
+        timestamp: session.studied_at,
+        cardStatus: session.card_status || undefined,
+        serverId: session.session_id,
+        syncStatus: "synced",
+      });
+    }
+
+    // Fetch media changes; clients download contents by hash
+    const mediaChanges = await pool.query(
+      `SELECT media_id, client_id, hash, file_name, mime_type, size,
+              version, last_modified_at, is_deleted
+       FROM user_media
+       WHERE user_id = $1 AND synced_at >= $2
+       ORDER BY synced_at ASC`,
+      [userId, sinceDate],
+    );
+
+    for (const media of mediaChanges.rows) {
+      addChange(response.media, media, toMediaRecord(media));
     }
 
     res.json(response);
@@ -421,4 +1070,200 @@ router.get("/changes", async (req, res) => {
   }
 });
 
+/**
+ * PUT /api/sync/media/:hash
+ *
+ * Uploads media contents. They are stored once per hash, so uploading
+ * contents the server already has is a no-op.
+ */
+router.put(
+  "/media/:hash",
+  express.raw({ type: "*/*", limit: MEDIA_UPLOAD_LIMIT }),
+  async (req, res) => {
+    const { hash } = req.params;
+    const userId = req.userId;
+
+    if (!MEDIA_HASH_PATTERN.test(hash) || !Buffer.isBuffer(req.body)) {
+      return res.status(400).json({ error: "Invalid media upload" });
+    }
+    if (createHash("sha256").update(req.body).digest("hex") !== hash) {
+      return res
+        .status(400)
+        .json({ error: "Media contents do not match hash" });
+    }
+
+    try {
+      await pool.query(
+        `INSERT INTO user_media_content (user_id, hash, data, size)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (user_id, hash) DO NOTHING`,
+        [userId, hash, req.body, req.body.length],
+      );
+      res.json({ success: true, hash });
+    } catch (error) {
+      console.error("Media upload error:", error);
+      res.status(500).json({ error: error.message });
+    }
+  },
+);
+
+/**
+ * GET /api/sync/media/:hash
+ *
+ * Downloads media contents by hash.
+ */
+router.get("/media/:hash", async (req, res) => {
+  const { hash } = req.params;
+  const userId = req.userId;
+
+  if (!MEDIA_HASH_PATTERN.test(hash)) {
+    return res.status(400).json({ error: "Invalid media hash" });
+  }
+
+  try {
+    const result = await pool.query(
+      "SELECT data FROM user_media_content WHERE user_id = $1 AND hash = $2",
+      [userId, hash],
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: "Media not found" });
+    }
+
+    res.set("Content-Type", "application/octet-stream");
+    res.set("Cache-Control", "private, max-age=31536000, immutable");
+    res.send(result.rows[0].data);
+  } catch (error) {
+    console.error("Media download error:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * A public deck the user subscribes to, or undefined
+ */
+async function getSubscribedDeck(userId, deckId) {
+  const result = await pool.query(
+    `SELECT d.* FROM decks d
+     JOIN deck_subscriptions s ON s.deck_id = d.deck_id
+     WHERE d.deck_id = $1 AND s.user_id = $2
+       AND d.is_public = true AND d.is_deleted IS NOT TRUE`,
+    [deckId, userId],
+  );
+  return result.rows[0];
+}
+
+/**
+ * A public deck's live cards, as subscribers receive them
+ */
+async function getPublishedCards(deck) {
+  const result = await pool.query(
+    `SELECT * FROM cards
+     WHERE user_id = $1 AND deck_client_id = $2 AND is_deleted = false
+     ORDER BY created_at`,
+    [deck.user_id, deck.client_id],
+  );
+  return result.rows.map(toPublishedCard);
+}
+
+/**
+ * The author's media files that a public deck's cards use
+ */
+async function getPublishedDeckMedia(deck, cards) {
+  const fileNames = [...new Set(cards.flatMap(getPublishedCardMedia))];
+  if (fileNames.length === 0) return [];
+
+  const result = await pool.query(
+    `SELECT * FROM user_media
+     WHERE user_id = $1 AND file_name = ANY($2) AND is_deleted = false`,
+    [deck.user_id, fileNames],
+  );
+  return result.rows;
+}
+
+/**
+ * GET /api/sync/subscriptions/:deckId
+ *
+ * Downloads the published cards of a subscribed deck, with the media they
+ * use. The author's scheduling is left out; subscribers keep their own.
+ */
+router.get("/subscriptions/:deckId", async (req, res) => {
+  const { deckId } = req.params;
+  const userId = req.userId;
+
+  try {
+    const deck = await getSubscribedDeck(userId, deckId);
+    if (!deck) {
+      return res.status(404).json({ error: "Subscription not found" });
+    }
+
+    const cards = await getPublishedCards(deck);
+    const media = await getPublishedDeckMedia(deck, cards);
+
+    res.json({
+      deck: {
+        id: deck.deck_id,
+        name: deck.name,
+        description: deck.description,
+      },
+      cards,
+      media: media.map((row) => ({
+        fileName: row.file_name,
+        hash: row.hash,
+        mimeType: row.mime_type,
+        size: row.size,
+      })),
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    console.error("Subscription download error:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * GET /api/sync/subscriptions/:deckId/media/:hash
+ *
+ * Downloads the contents of a media file used by a subscribed deck. Only
+ * files the deck's cards use are served; the author's other media stays
+ * private.
+ */
+router.get("/subscriptions/:deckId/media/:hash", async (req, res) => {
+  const { deckId, hash } = req.params;
+  const userId = req.userId;
+
+  if (!MEDIA_HASH_PATTERN.test(hash)) {
+    return res.status(400).json({ error: "Invalid media hash" });
+  }
+
+  try {
+    const deck = await getSubscribedDeck(userId, deckId);
+    if (!deck) {
+      return res.status(404).json({ error: "Subscription not found" });
+    }
+
+    const media = await getPublishedDeckMedia(
+      deck,
+      await getPublishedCards(deck),
+    );
+    if (!media.some((row) => row.hash === hash)) {
+      return res.status(404).json({ error: "Media not found" });
+    }
+
+    const result = await pool.query(
+      "SELECT data FROM user_media_content WHERE user_id = $1 AND hash = $2",
+      [deck.user_id, hash],
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: "Media not found" });
+    }
+
+    res.set("Content-Type", "application/octet-stream");
+    res.set("Cache-Control", "private, max-age=31536000, immutable");
+    res.send(result.rows[0].data);
+  } catch (error) {
+    console.error("Subscription media download error:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 export default router;